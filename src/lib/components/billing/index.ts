@@ -0,0 +1,17 @@
+/**
+ * TimeFlow Pro Billing Components
+ *
+ * Centralized exports for invoicing, payment, currency and tax components.
+ *
+ * @example
+ * ```typescript
+ * import { ExchangeRateTable, InvoiceDetail, InvoiceSettingsForm } from '$lib/components/billing';
+ * ```
+ */
+
+export { default as AgingReportTable } from './AgingReportTable.svelte';
+export { default as ExchangeRateTable } from './ExchangeRateTable.svelte';
+export { default as InvoiceDetail } from './InvoiceDetail.svelte';
+export { default as InvoiceSettingsForm } from './InvoiceSettingsForm.svelte';
+export { default as PaymentForm } from './PaymentForm.svelte';
+export { default as TaxProfileForm } from './TaxProfileForm.svelte';
@@ -0,0 +1,12 @@
+/**
+ * TimeFlow Pro Client Components
+ *
+ * Centralized exports for client management components.
+ *
+ * @example
+ * ```typescript
+ * import { ClientForm } from '$lib/components/clients';
+ * ```
+ */
+
+export { default as ClientForm } from './ClientForm.svelte';
@@ -0,0 +1,12 @@
+/**
+ * TimeFlow Pro Expense Components
+ *
+ * Centralized exports for expense tracking components.
+ *
+ * @example
+ * ```typescript
+ * import { ExpenseForm } from '$lib/components/expenses';
+ * ```
+ */
+
+export { default as ExpenseForm } from './ExpenseForm.svelte';
@@ -15,3 +15,8 @@ export { default as ProjectForm } from './ProjectForm.svelte';
 export { default as TaskCard } from './TaskCard.svelte';
 export { default as TaskList } from './TaskList.svelte';
 export { default as TaskForm } from './TaskForm.svelte';
+export { default as BillingModelFields } from './BillingModelFields.svelte';
+export { default as TaskDependencyGraph } from './TaskDependencyGraph.svelte';
+export { default as ScheduleForecast } from './ScheduleForecast.svelte';
+export { default as TaskBoard } from './TaskBoard.svelte';
+export { default as RecurrenceFields } from './RecurrenceFields.svelte';
@@ -0,0 +1,13 @@
+/**
+ * TimeFlow Pro Timesheet Components
+ *
+ * Centralized exports for timesheet components.
+ *
+ * @example
+ * ```typescript
+ * import { TimesheetGrid, TimeEntryList } from '$lib/components/timesheet';
+ * ```
+ */
+
+export { default as TimesheetGrid } from './TimesheetGrid.svelte';
+export { default as TimeEntryList } from './TimeEntryList.svelte';
@@ -0,0 +1,88 @@
+/**
+ * Client Service Tests for TimeFlow Pro
+ *
+ * Tests for client validation, name matching and project defaults.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ClientService } from './client-service.js';
+import type { Client } from '$lib/types/index.js';
+
+describe('ClientService', () => {
+	let service: ClientService;
+
+	const existing: Client = {
+		id: 'client-1',
+		name: 'Acme Corp',
+		defaultBillingRate: 120,
+		defaultCurrency: 'EUR',
+		isActive: true,
+		createdAt: '2024-01-01T00:00:00.000Z',
+		updatedAt: '2024-01-01T00:00:00.000Z'
+	};
+
+	beforeEach(() => {
+		service = new ClientService();
+	});
+
+	describe('Validation', () => {
+		it('should accept valid client data', () => {
+			const result = service.validateClient(service.generateDefaultClient({ name: 'Globex' }));
+
+			expect(result.isValid).toBe(true);
+			expect(result.errors).toHaveLength(0);
+		});
+
+		it('should require a name and currency', () => {
+			const result = service.validateClient({ name: '  ', isActive: true });
+
+			expect(result.errors).toContain('Client name is required');
+			expect(result.errors).toContain('Default currency is required');
+		});
+
+		it('should reject duplicate names but allow the client itself', () => {
+			const duplicate = service.validateClient(
+				service.generateDefaultClient({ name: ' acme corp ' }),
+				[existing]
+			);
+			expect(duplicate.errors).toContain('A client with this name already exists');
+
+			expect(service.validateClient(existing, [existing]).isValid).toBe(true);
+		});
+
+		it('should validate email and billing rate', () => {
+			const result = service.validateClient(
+				service.generateDefaultClient({ name: 'Globex', email: 'nope', defaultBillingRate: -5 })
+			);
+
+			expect(result.errors).toContain('Please enter a valid email address');
+			expect(result.errors).toContain('Default billing rate must be a positive number');
+		});
+
+		it('should warn about non-ISO currency codes', () => {
+			const result = service.validateClient(
+				service.generateDefaultClient({ name: 'Globex', defaultCurrency: 'euro' })
+			);
+
+			expect(result.isValid).toBe(true);
+			expect(result.warnings).toHaveLength(1);
+		});
+	});
+
+	describe('Project Defaults', () => {
+		it('should pass client rate and currency to projects', () => {
+			expect(service.getProjectDefaults(existing)).toEqual({
+				clientId: 'client-1',
+				clientName: 'Acme Corp',
+				currency: 'EUR',
+				defaultBillingRate: 120
+			});
+		});
+
+		it('should omit the rate when the client has none', () => {
+			const { defaultBillingRate: _defaultBillingRate, ...client } = existing;
+
+			expect(service.getProjectDefaults(client)).not.toHaveProperty('defaultBillingRate');
+		});
+	});
+});
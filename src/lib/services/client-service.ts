@@ -0,0 +1,110 @@
+/**
+ * Client Service for TimeFlow Pro
+ *
+ * Business logic for client records: validation, name matching, and the
+ * defaults (billing rate, currency) a client passes on to its new projects.
+ *
+ * @example
+ * ```typescript
+ * import { ClientService } from '$lib/services/client-service';
+ *
+ * const service = new ClientService();
+ * const validation = service.validateClient(clientData, existingClients);
+ * const projectData = projectService.generateDefaultProject(service.getProjectDefaults(client));
+ * ```
+ */
+
+import type { Client, Project } from '$lib/types/index.js';
+import { isValidEmail, validateNumber, validateRequired } from '$lib/utils/validationUtils.js';
+
+export interface ClientValidationResult {
+	isValid: boolean;
+	errors: string[];
+	warnings: string[];
+}
+
+export interface ClientProjectDefaults
+	extends Pick<Project, 'clientName' | 'currency'>,
+		Partial<Pick<Project, 'defaultBillingRate'>> {
+	clientId: string;
+}
+
+export class ClientService {
+	/**
+	 * Validate client data before creation or update
+	 */
+	validateClient(client: Partial<Client>, existingClients: Client[] = []): ClientValidationResult {
+		const errors: string[] = [];
+		const warnings: string[] = [];
+
+		// Required field validation
+		if (!validateRequired(client.name).isValid) {
+			errors.push('Client name is required');
+		} else if (client.name) {
+			const duplicate = this.findClientByName(existingClients, client.name);
+			if (duplicate && duplicate.id !== client.id) {
+				errors.push('A client with this name already exists');
+			}
+		}
+
+		if (client.email && !isValidEmail(client.email)) {
+			errors.push('Please enter a valid email address');
+		}
+
+		if (
+			client.defaultBillingRate !== undefined &&
+			!validateNumber(client.defaultBillingRate, 0).isValid
+		) {
+			errors.push('Default billing rate must be a positive number');
+		}
+
+		// Currency validation
+		if (!client.defaultCurrency) {
+			errors.push('Default currency is required');
+		} else if (!/^[A-Z]{3}$/.test(client.defaultCurrency)) {
+			warnings.push('Currency should be a 3-letter ISO code (e.g., USD, EUR)');
+		}
+
+		return {
+			isValid: errors.length === 0,
+			errors,
+			warnings
+		};
+	}
+
+	/**
+	 * Find a client by name, ignoring case and surrounding whitespace
+	 */
+	findClientByName(clients: Client[], name: string): Client | undefined {
+		const normalized = name.trim().toLowerCase();
+		return clients.find((client) => client.name.trim().toLowerCase() === normalized);
+	}
+
+	/**
+	 * Project fields a new project inherits from its client
+	 */
+	getProjectDefaults(client: Client): ClientProjectDefaults {
+		return {
+			clientId: client.id,
+			clientName: client.name,
+			currency: client.defaultCurrency,
+			...(client.defaultBillingRate !== undefined
+				? { defaultBillingRate: client.defaultBillingRate }
+				: {})
+		};
+	}
+
+	/**
+	 * Generate default client data
+	 */
+	generateDefaultClient(
+		overrides: Partial<Client> = {}
+	): Omit<Client, 'id' | 'createdAt' | 'updatedAt'> {
+		return {
+			name: '',
+			defaultCurrency: 'USD',
+			isActive: true,
+			...overrides
+		};
+	}
+}
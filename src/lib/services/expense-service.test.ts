@@ -0,0 +1,108 @@
+/**
+ * Expense Service Tests
+ *
+ * Tests for expense validation, markup, the client an expense is billed to
+ * and expense totals across currencies
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpenseService } from './expense-service';
+import { createMockProject } from '../utils/test-helpers';
+import { createCurrencyConverter } from '../utils/currency-utils';
+import type { Expense } from '$lib/types/index.js';
+
+describe('ExpenseService', () => {
+	let service: ExpenseService;
+
+	const expense: Expense = {
+		id: 'expense-1',
+		projectId: 'project-1',
+		date: '2024-03-12',
+		description: 'Design tool licence',
+		amount: 50,
+		currency: 'EUR',
+		category: 'software',
+		markup: 10,
+		billingStatus: 'ready',
+		receipt: { id: 'receipt-1', name: 'licence.pdf', type: 'application/pdf', size: 1024 },
+		createdAt: '2024-03-12T00:00:00.000Z',
+		updatedAt: '2024-03-12T00:00:00.000Z'
+	};
+
+	beforeEach(() => {
+		service = new ExpenseService();
+	});
+
+	describe('validateExpense', () => {
+		it('should accept a complete expense', () => {
+			const result = service.validateExpense(expense);
+
+			expect(result.isValid).toBe(true);
+			expect(result.warnings).toHaveLength(0);
+		});
+
+		it('should require a description, date, positive amount and a project or client', () => {
+			const result = service.validateExpense(
+				service.generateDefaultExpense({ date: '', markup: -5 })
+			);
+
+			expect(result.errors).toEqual([
+				'Expense description is required',
+				'Expense date is required',
+				'Amount must be greater than zero',
+				'Markup cannot be negative',
+				'Link the expense to a project or client'
+			]);
+		});
+
+		it('should warn about billable expenses without a receipt', () => {
+			const { receipt: _receipt, ...withoutReceipt } = expense;
+
+			expect(service.validateExpense(withoutReceipt).warnings).toEqual([
+				'Billable expenses usually need a receipt'
+			]);
+			expect(
+				service.validateExpense({ ...withoutReceipt, billingStatus: 'non-billable' }).warnings
+			).toEqual([]);
+		});
+	});
+
+	it('should add markup to the billed amount', () => {
+		expect(service.getBilledAmount(expense)).toBe(55);
+		expect(service.getBilledAmount({ amount: 19.99, markup: 0 })).toBe(19.99);
+	});
+
+	it("should bill the expense's own client before the project's", () => {
+		const projects = [createMockProject({ id: 'project-1', clientId: 'client-1' })];
+
+		expect(service.getClientId(expense, projects)).toBe('client-1');
+		expect(service.getClientId({ ...expense, clientId: 'client-2' }, projects)).toBe('client-2');
+	});
+
+	it('should total cost and billable amounts in the reporting currency', () => {
+		const converter = createCurrencyConverter(
+			[{ id: 'rate-1', from: 'EUR', to: 'USD', rate: 1.2, date: '2024-03-01' }],
+			'USD'
+		);
+		const expenses: Expense[] = [
+			expense,
+			{ ...expense, id: 'expense-2', currency: 'USD', amount: 30, billingStatus: 'non-billable' }
+		];
+
+		const totals = service.calculateTotals(expenses, converter);
+
+		// €50 at 1.2 + $30; only the first is billed, with 10% markup
+		expect(totals.cost).toBeCloseTo(90);
+		expect(totals.billable).toBeCloseTo(66);
+		expect(totals.unconvertedCurrencies).toBeUndefined();
+	});
+
+	it('should flag currencies the totals could not convert', () => {
+		const converter = createCurrencyConverter([], 'USD');
+
+		const totals = service.calculateTotals([expense], converter);
+
+		expect(totals.cost).toBe(50);
+		expect(totals.unconvertedCurrencies).toEqual(['EUR']);
+	});
+});
@@ -0,0 +1,170 @@
+/**
+ * Expense Service for TimeFlow Pro
+ *
+ * Business logic for reimbursable project costs: validation, the amount
+ * billed once markup is added, which client an expense is billed to, and
+ * expense totals per project for profitability.
+ *
+ * @example
+ * ```typescript
+ * import { ExpenseService } from '$lib/services/expense-service';
+ *
+ * const service = new ExpenseService();
+ * const validation = service.validateExpense(expenseData);
+ * const billed = service.getBilledAmount(expense); // amount plus markup
+ * ```
+ */
+
+import type { Expense, ExpenseCategory, Project } from '$lib/types/index.js';
+import { findUnconvertedCurrencies, type CurrencyConverter } from '$lib/utils/currency-utils.js';
+import { validateRequired } from '$lib/utils/validationUtils.js';
+import { formatDate } from '$lib/utils/dateUtils.js';
+
+export interface ExpenseValidationResult {
+	isValid: boolean;
+	errors: string[];
+	warnings: string[];
+}
+
+export interface ExpenseTotals {
+	/** Amount paid for the expenses */
+	cost: number;
+	/** Amount billed or billable to the client, including markup */
+	billable: number;
+	/** Currencies without an exchange rate, whose amounts are counted unconverted */
+	unconvertedCurrencies?: string[];
+}
+
+export const EXPENSE_CATEGORIES: Array<{ value: ExpenseCategory; label: string }> = [
+	{ value: 'software', label: 'Software' },
+	{ value: 'travel', label: 'Travel' },
+	{ value: 'equipment', label: 'Equipment' },
+	{ value: 'meals', label: 'Meals' },
+	{ value: 'subcontractor', label: 'Subcontractor' },
+	{ value: 'other', label: 'Other' }
+];
+
+export class ExpenseService {
+	/**
+	 * Validate expense data before creation or update
+	 */
+	validateExpense(expense: Partial<Expense>): ExpenseValidationResult {
+		const errors: string[] = [];
+		const warnings: string[] = [];
+
+		if (!validateRequired(expense.description).isValid) {
+			errors.push('Expense description is required');
+		}
+
+		if (!expense.date || !/^\d{4}-\d{2}-\d{2}$/.test(expense.date)) {
+			errors.push('Expense date is required');
+		}
+
+		if (!(Number(expense.amount) > 0)) {
+			errors.push('Amount must be greater than zero');
+		}
+
+		if (expense.markup !== undefined && !(Number(expense.markup) >= 0)) {
+			errors.push('Markup cannot be negative');
+		}
+
+		if (!expense.projectId && !expense.clientId) {
+			errors.push('Link the expense to a project or client');
+		}
+
+		if (expense.category && !EXPENSE_CATEGORIES.some((c) => c.value === expense.category)) {
+			errors.push('Unknown expense category');
+		}
+
+		// Currency validation
+		if (!expense.currency) {
+			errors.push('Currency is required');
+		} else if (!/^[A-Z]{3}$/.test(expense.currency)) {
+			warnings.push('Currency should be a 3-letter ISO code (e.g., USD, EUR)');
+		}
+
+		if (expense.billingStatus !== 'non-billable' && !expense.receipt) {
+			warnings.push('Billable expenses usually need a receipt');
+		}
+
+		return {
+			isValid: errors.length === 0,
+			errors,
+			warnings
+		};
+	}
+
+	/**
+	 * Amount billed to the client: the amount plus markup
+	 */
+	getBilledAmount(expense: Pick<Expense, 'amount' | 'markup'>): number {
+		return this.round(expense.amount * (1 + (expense.markup || 0) / 100));
+	}
+
+	/**
+	 * Client an expense is billed to: its own client, else its project's
+	 */
+	getClientId(
+		expense: Pick<Expense, 'clientId' | 'projectId'>,
+		projects: Project[]
+	): string | undefined {
+		return expense.clientId ?? projects.find((p) => p.id === expense.projectId)?.clientId;
+	}
+
+	/**
+	 * Cost and billable amount of expenses. Non-billable expenses count as
+	 * cost only. Pass a converter to total expenses in different currencies;
+	 * currencies without an exchange rate are listed in `unconvertedCurrencies`.
+	 */
+	calculateTotals(expenses: Expense[], converter?: CurrencyConverter): ExpenseTotals {
+		const convert = (amount: number, expense: Expense) =>
+			converter ? converter.convert(amount, expense.currency, expense.date) : amount;
+
+		const expenseTotals = expenses.reduce<ExpenseTotals>(
+			(totals, expense) => ({
+				cost: totals.cost + convert(expense.amount, expense),
+				billable:
+					totals.billable +
+					(expense.billingStatus === 'non-billable'
+						? 0
+						: convert(this.getBilledAmount(expense), expense))
+			}),
+			{ cost: 0, billable: 0 }
+		);
+
+		const unconverted = converter
+			? findUnconvertedCurrencies(
+					converter,
+					expenses.map((expense) => expense.currency)
+				)
+			: [];
+		if (unconverted.length > 0) {
+			expenseTotals.unconvertedCurrencies = unconverted;
+		}
+
+		return expenseTotals;
+	}
+
+	/**
+	 * Generate default expense data
+	 */
+	generateDefaultExpense(
+		overrides: Partial<Expense> = {}
+	): Omit<Expense, 'id' | 'createdAt' | 'updatedAt'> {
+		return {
+			date: formatDate(new Date()),
+			description: '',
+			amount: 0,
+			currency: 'USD',
+			category: 'other',
+			markup: 0,
+			billingStatus: 'ready',
+			...overrides
+		};
+	}
+
+	// Round to cents
+	private round(value: number): number {
+		return Math.round(value * 100) / 100;
+	}
+}
@@ -0,0 +1,795 @@
+/**
+ * Invoice Service Tests
+ *
+ * Tests for invoice draft validation, billable entry selection, line item
+ * grouping and pricing, billing models, expenses, tax lines from tax profiles,
+ * and sequential numbering
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InvoiceService } from './invoice-service';
+import {
+	createMockProject,
+	createMockTask,
+	createMockTimeEntry,
+	withTimeZone
+} from '../utils/test-helpers';
+import { createCurrencyConverter } from '../utils/currency-utils';
+import type { Client, Expense, Invoice, InvoiceDraft, TaxProfile } from '$lib/types/index.js';
+
+describe('InvoiceService', () => {
+	let service: InvoiceService;
+
+	const client: Client = {
+		id: 'client-1',
+		name: 'Acme Corp',
+		defaultCurrency: 'EUR',
+		isActive: true,
+		createdAt: '2024-01-01T00:00:00.000Z',
+		updatedAt: '2024-01-01T00:00:00.000Z'
+	};
+
+	const projects = [
+		createMockProject({ id: 'project-1', name: 'Website', clientId: 'client-1' }),
+		createMockProject({ id: 'project-2', name: 'Other', clientId: 'client-2' })
+	];
+	const tasks = [
+		createMockTask({
+			id: 'task-1',
+			title: 'Design',
+			projectId: 'project-1',
+			customBillingRate: 100
+		})
+	];
+
+	const draft: InvoiceDraft = {
+		clientId: 'client-1',
+		dateRange: { start: '2024-03-01', end: '2024-03-31' },
+		grouping: 'task'
+	};
+
+	beforeEach(() => {
+		service = new InvoiceService();
+	});
+
+	describe('validateDraft', () => {
+		it('should accept a complete draft', () => {
+			expect(service.validateDraft(draft).isValid).toBe(true);
+		});
+
+		it('should require a client and a valid period', () => {
+			const result = service.validateDraft({
+				dateRange: { start: '2024-03-31', end: '2024-03-01' },
+				grouping: 'task'
+			});
+
+			expect(result.isValid).toBe(false);
+			expect(result.errors).toContain('A client is required');
+			expect(result.errors).toContain('Billing period end must be on or after its start');
+		});
+
+		it('should reject a due date before the issue date', () => {
+			const result = service.validateDraft({
+				...draft,
+				issueDate: '2024-04-10',
+				dueDate: '2024-04-01'
+			});
+
+			expect(result.errors).toContain('Due date must be on or after the issue date');
+		});
+	});
+
+	describe('selectBillableEntries', () => {
+		it('should select ready entries for the client within the period', () => {
+			const entries = [
+				createMockTimeEntry({ id: 'in', projectId: 'project-1', date: '2024-03-10' }),
+				createMockTimeEntry({ id: 'other-client', projectId: 'project-2', date: '2024-03-10' }),
+				createMockTimeEntry({ id: 'outside', projectId: 'project-1', date: '2024-04-01' }),
+				createMockTimeEntry({
+					id: 'billed',
+					projectId: 'project-1',
+					date: '2024-03-10',
+					billingStatus: 'billed'
+				}),
+				createMockTimeEntry({
+					id: 'non-billable',
+					projectId: 'project-1',
+					date: '2024-03-10',
+					billableHours: 0
+				})
+			];
+
+			const selected = service.selectBillableEntries(entries, projects, draft);
+
+			expect(selected.map((e) => e.id)).toEqual(['in']);
+		});
+	});
+
+	describe('buildLineItems', () => {
+		const rateSources = { projects, tasks };
+
+		it('should group entries by task with project context', () => {
+			const entries = [
+				createMockTimeEntry({ id: 'a', taskId: 'task-1', billableHours: 2, date: '2024-03-01' }),
+				createMockTimeEntry({ id: 'b', taskId: 'task-1', billableHours: 1.5, date: '2024-03-02' })
+			];
+
+			const lines = service.buildLineItems(entries, 'task', rateSources);
+
+			expect(lines).toHaveLength(1);
+			expect(lines[0]).toMatchObject({
+				description: 'Website: Design',
+				hours: 3.5,
+				rate: 100,
+				amount: 350,
+				entryIds: ['a', 'b']
+			});
+		});
+
+		it('should split a group into separate lines per rate', () => {
+			const entries = [
+				createMockTimeEntry({ id: 'a', date: '2024-03-01', billableHours: 1 }),
+				createMockTimeEntry({ id: 'b', date: '2024-03-01', billableHours: 1, billingRate: 150 })
+			];
+
+			const lines = service.buildLineItems(entries, 'day', rateSources);
+
+			expect(lines.map((l) => [l.description, l.rate, l.amount])).toEqual([
+				['2024-03-01', 100, 100],
+				['2024-03-01', 150, 150]
+			]);
+		});
+
+		it('should group entries by category', () => {
+			const entries = [
+				createMockTimeEntry({ id: 'a', category: 'development', date: '2024-03-01' }),
+				createMockTimeEntry({ id: 'b', category: 'meeting', date: '2024-03-02' }),
+				createMockTimeEntry({ id: 'c', category: 'development', date: '2024-03-03' })
+			];
+
+			const lines = service.buildLineItems(entries, 'category', rateSources);
+
+			expect(lines.map((l) => [l.description, l.hours])).toEqual([
+				['Development', 4],
+				['Meeting', 2]
+			]);
+		});
+	});
+
+	describe('createInvoiceData', () => {
+		it('should build an issued invoice with totals, number and due date', () => {
+			const entries = [createMockTimeEntry({ id: 'a', billableHours: 2, date: '2024-03-05' })];
+
+			const invoice = service.createInvoiceData(
+				{ ...draft, issueDate: '2024-04-01', notes: 'Thanks!' },
+				client,
+				entries,
+				{ projects, tasks },
+				7
+			);
+
+			expect(invoice).toMatchObject({
+				number: 'INV-0007',
+				clientName: 'Acme Corp',
+				status: 'issued',
+				currency: 'EUR',
+				issueDate: '2024-04-01',
+				dueDate: '2024-05-01',
+				subtotal: 200,
+				total: 200,
+				entryIds: ['a'],
+				notes: 'Thanks!'
+			});
+		});
+
+		it('should convert every line from the project currency into the client currency', () => {
+			const usdClient: Client = { ...client, defaultCurrency: 'USD' };
+			const eurProjects = [
+				createMockProject({
+					id: 'project-eur',
+					name: 'Consulting',
+					clientId: 'client-1',
+					currency: 'EUR',
+					defaultBillingRate: 100
+				}),
+				createMockProject({
+					id: 'project-fixed',
+					name: 'Rebrand',
+					clientId: 'client-1',
+					currency: 'EUR',
+					billingModel: {
+						type: 'fixed-fee',
+						fee: 2000,
+						milestones: [{ id: 'm1', name: 'Design', amount: 2000, completedDate: '2024-03-10' }]
+					}
+				}),
+				createMockProject({
+					id: 'project-retainer',
+					name: 'Support',
+					clientId: 'client-1',
+					currency: 'EUR',
+					startDate: '2024-03-01',
+					billingModel: {
+						type: 'retainer',
+						monthlyFee: 1000,
+						includedHours: 10,
+						rollover: 'none',
+						overageRate: 120
+					}
+				})
+			];
+			const converter = createCurrencyConverter(
+				[
+					{ id: 'rate-1', from: 'EUR', to: 'USD', rate: 1.1, date: '2024-01-01' },
+					{ id: 'rate-2', from: 'EUR', to: 'USD', rate: 1.2, date: '2024-03-08' }
+				],
+				'USD'
+			);
+			const entries = [
+				createMockTimeEntry({ id: 'a', projectId: 'project-eur', date: '2024-03-05' }),
+				createMockTimeEntry({
+					id: 'b',
+					projectId: 'project-eur',
+					date: '2024-03-12',
+					billableHours: 1
+				})
+			];
+
+			const invoice = service.createInvoiceData(
+				draft,
+				usdClient,
+				entries,
+				{ projects: eurProjects },
+				1,
+				[],
+				{},
+				[],
+				converter
+			);
+
+			// Time at each entry's rate, the milestone on completion, the fee on the 1st
+			expect(invoice.lineItems.map((line) => [line.kind, line.rate, line.amount])).toEqual([
+				[undefined, 110, 220],
+				[undefined, 120, 120],
+				['milestone', 2400, 2400],
+				['retainer', 1100, 1100]
+			]);
+			expect(invoice.currency).toBe('USD');
+			expect(invoice.total).toBe(3840);
+		});
+
+		it('should refuse to bill amounts it has no exchange rate for', () => {
+			const usdClient: Client = { ...client, defaultCurrency: 'USD' };
+			const eurProjects = [createMockProject({ id: 'project-eur', currency: 'EUR' })];
+			const converter = createCurrencyConverter([], 'USD');
+			const entries = [createMockTimeEntry({ id: 'a', projectId: 'project-eur' })];
+
+			expect(() =>
+				service.createInvoiceData(
+					draft,
+					usdClient,
+					entries,
+					{ projects: eurProjects },
+					1,
+					[],
+					{},
+					[],
+					converter
+				)
+			).toThrow('No exchange rate from EUR to USD');
+		});
+	});
+
+	describe('tax', () => {
+		const vat: TaxProfile = {
+			id: 'tax-vat',
+			name: 'VAT',
+			rate: 20,
+			inclusive: false,
+			reverseCharge: false,
+			createdAt: '2024-01-01T00:00:00.000Z',
+			updatedAt: '2024-01-01T00:00:00.000Z'
+		};
+		const gst: TaxProfile = { ...vat, id: 'tax-gst', name: 'GST', rate: 10, inclusive: true };
+		const reverseCharge: TaxProfile = { ...vat, id: 'tax-rc', reverseCharge: true };
+		const taxProfiles = [vat, gst, reverseCharge];
+		const entries = [
+			createMockTimeEntry({ id: 'a', taskId: 'task-1', billableHours: 2, date: '2024-03-05' })
+		];
+
+		it('should add exclusive tax from the client profile to the total', () => {
+			const invoice = service.createInvoiceData(
+				draft,
+				{ ...client, taxProfileId: 'tax-vat' },
+				entries,
+				{ projects, tasks, clients: [{ ...client, taxProfileId: 'tax-vat' }] },
+				1,
+				taxProfiles
+			);
+
+			expect(invoice.lineItems[0]?.taxProfileId).toBe('tax-vat');
+			expect(invoice.taxLines).toEqual([{ name: 'VAT', rate: 20, amount: 40 }]);
+			expect(invoice.subtotal).toBe(200);
+			expect(invoice.total).toBe(240);
+		});
+
+		it('should prefer the project profile and report included tax without adding it', () => {
+			const gstProjects = projects.map((p) =>
+				p.id === 'project-1' ? { ...p, taxProfileId: 'tax-gst' } : p
+			);
+
+			const invoice = service.createInvoiceData(
+				draft,
+				client,
+				entries,
+				{ projects: gstProjects, tasks, clients: [{ ...client, taxProfileId: 'tax-vat' }] },
+				1,
+				taxProfiles
+			);
+
+			expect(invoice.taxLines).toEqual([{ name: 'GST', rate: 10, amount: 18.18, inclusive: true }]);
+			expect(invoice.total).toBe(200);
+			expect(service.getTaxBreakdown(invoice)).toEqual({ net: 181.82, tax: 18.18 });
+		});
+
+		it('should charge no tax under reverse charge and add the note', () => {
+			const invoice = service.createInvoiceData(
+				draft,
+				client,
+				entries,
+				{ projects, tasks, clients: [{ ...client, taxProfileId: 'tax-rc' }] },
+				1,
+				taxProfiles
+			);
+
+			expect(invoice.taxLines).toEqual([{ name: 'VAT', rate: 20, amount: 0, reverseCharge: true }]);
+			expect(invoice.taxNotes).toEqual([
+				'Reverse charge: the customer is liable to account for the tax.'
+			]);
+			expect(invoice.total).toBe(200);
+		});
+
+		it('should add one tax line per profile', () => {
+			const lines = [
+				{
+					id: 'line-1',
+					description: 'A',
+					hours: 1,
+					rate: 100,
+					amount: 100,
+					entryIds: [],
+					taxProfileId: 'tax-vat'
+				},
+				{
+					id: 'line-2',
+					description: 'B',
+					hours: 1,
+					rate: 50,
+					amount: 50,
+					entryIds: [],
+					taxProfileId: 'tax-vat'
+				},
+				{ id: 'line-3', description: 'C', hours: 1, rate: 100, amount: 100, entryIds: [] }
+			];
+
+			expect(service.calculateTaxLines(lines, taxProfiles).taxLines).toEqual([
+				{ name: 'VAT', rate: 20, amount: 30 }
+			]);
+		});
+	});
+
+	describe('payments', () => {
+		const invoice = {
+			id: 'invoice-1',
+			number: 'INV-0001',
+			clientId: 'client-1',
+			clientName: 'Acme Corp',
+			status: 'issued',
+			currency: 'EUR',
+			issueDate: '2024-04-01',
+			dueDate: '2024-05-01',
+			total: 1000,
+			payments: [
+				{
+					id: 'payment-1',
+					date: '2024-04-10',
+					amount: 400,
+					method: 'bank-transfer',
+					createdAt: '2024-04-10T00:00:00.000Z'
+				}
+			]
+		} as Invoice;
+
+		it('should subtract payments from the balance due', () => {
+			expect(service.getAmountPaid(invoice)).toBe(400);
+			expect(service.getBalanceDue(invoice)).toBe(600);
+			expect(service.getBalanceDue({ ...invoice, status: 'void' })).toBe(0);
+		});
+
+		it('should reject payments over the balance or on invoices no longer issued', () => {
+			expect(
+				service.validatePayment(invoice, { date: '2024-04-20', amount: 600, method: 'card' })
+					.isValid
+			).toBe(true);
+			expect(
+				service.validatePayment(invoice, { date: '2024-04-20', amount: 600.01, method: 'card' })
+					.errors
+			).toEqual(['Payment exceeds the balance due']);
+			expect(
+				service.validatePayment(
+					{ ...invoice, status: 'paid' },
+					{ date: '20/04/2024', amount: 0, method: 'card' }
+				).errors
+			).toEqual([
+				'Invoice INV-0001 is paid',
+				'Payment date must be YYYY-MM-DD',
+				'Payment amount must be greater than zero'
+			]);
+		});
+
+		it('should warn about payments dated before the invoice was issued', () => {
+			expect(
+				service.validatePayment(invoice, { date: '2024-03-31', amount: 100, method: 'cash' })
+					.warnings
+			).toEqual(['Payment is dated before the invoice was issued']);
+		});
+	});
+
+	describe('aging', () => {
+		it('should bucket balances by days past the due date', () => {
+			expect(service.getAgingBucket('2024-05-01', '2024-04-15')).toBe('current');
+			expect(service.getAgingBucket('2024-05-01', '2024-05-01')).toBe('current');
+			expect(service.getAgingBucket('2024-05-01', '2024-05-02')).toBe('days1to30');
+			expect(service.getAgingBucket('2024-05-01', '2024-05-31')).toBe('days1to30');
+			expect(service.getAgingBucket('2024-05-01', '2024-06-01')).toBe('days31to60');
+			expect(service.getAgingBucket('2024-05-01', '2024-06-30')).toBe('days31to60');
+			expect(service.getAgingBucket('2024-05-01', '2024-07-01')).toBe('days61to90');
+			expect(service.getAgingBucket('2024-05-01', '2024-07-30')).toBe('days61to90');
+			expect(service.getAgingBucket('2024-05-01', '2024-07-31')).toBe('days90plus');
+		});
+
+		it('should total outstanding balances per client and bucket', () => {
+			const issued = {
+				clientId: 'client-1',
+				clientName: 'Old name',
+				status: 'issued',
+				currency: 'EUR',
+				issueDate: '2024-03-01',
+				dueDate: '2024-03-31',
+				total: 500
+			} as Invoice;
+			const invoices = [
+				issued,
+				{ ...issued, dueDate: '2024-05-31', total: 300 },
+				{ ...issued, dueDate: '2024-06-30', total: 50 },
+				{ ...issued, clientId: 'client-2', clientName: 'Globex', total: 100 },
+				{ ...issued, status: 'paid', total: 900 },
+				{ ...issued, issueDate: '2024-07-01', total: 900 }
+			] as Invoice[];
+
+			const report = service.buildAgingReport(invoices, [client], '2024-06-15');
+
+			expect(report.rows.map((row) => row.clientName)).toEqual(['Acme Corp', 'Globex']);
+			expect(report.rows[0]).toMatchObject({
+				client,
+				invoiceCount: 3,
+				total: 850
+			});
+			expect(report.rows[0]?.buckets).toEqual({
+				current: 50,
+				days1to30: 300,
+				days31to60: 0,
+				days61to90: 500,
+				days90plus: 0
+			});
+			expect(report.totals).toEqual({
+				current: 50,
+				days1to30: 300,
+				days31to60: 0,
+				days61to90: 600,
+				days90plus: 0
+			});
+			expect(report.total).toBe(950);
+			expect(report.unconvertedCurrencies).toBeUndefined();
+		});
+
+		it('should flag outstanding currencies it could not convert', () => {
+			const issued = {
+				clientId: 'client-1',
+				status: 'issued',
+				currency: 'GBP',
+				issueDate: '2024-03-01',
+				dueDate: '2024-03-31',
+				total: 500
+			} as Invoice;
+			const converter = createCurrencyConverter([], 'EUR');
+
+			const report = service.buildAgingReport(
+				[issued, { ...issued, currency: 'CHF', status: 'paid' }],
+				[client],
+				'2024-06-15',
+				converter
+			);
+
+			expect(report.total).toBe(500);
+			expect(report.unconvertedCurrencies).toEqual(['GBP']);
+		});
+	});
+
+	describe('billing models', () => {
+		const fixedFeeProject = createMockProject({
+			id: 'project-fixed',
+			name: 'Rebrand',
+			clientId: 'client-1',
+			billingModel: {
+				type: 'fixed-fee',
+				fee: 5000,
+				milestones: [
+					{ id: 'm1', name: 'Design', amount: 2000, completedDate: '2024-03-10' },
+					{ id: 'm2', name: 'Build', amount: 3000, completedDate: '2024-04-10' }
+				]
+			}
+		});
+		const retainerProject = createMockProject({
+			id: 'project-retainer',
+			name: 'Support',
+			clientId: 'client-1',
+			startDate: '2024-02-01',
+			billingModel: {
+				type: 'retainer',
+				monthlyFee: 1000,
+				includedHours: 10,
+				rollover: 'none',
+				overageRate: 120
+			}
+		});
+		const cappedProject = createMockProject({
+			id: 'project-capped',
+			name: 'Audit',
+			clientId: 'client-1',
+			defaultBillingRate: 100,
+			billingModel: { type: 'capped', cap: 500 }
+		});
+
+		it('should bill completed milestones once', () => {
+			const entries = [
+				createMockTimeEntry({
+					id: 'a',
+					projectId: 'project-fixed',
+					date: '2024-03-05',
+					billableHours: 8
+				})
+			];
+
+			const lines = service.buildBillingModelLines('client-1', entries, draft.dateRange, {
+				projects: [fixedFeeProject]
+			});
+			expect(lines).toEqual([
+				expect.objectContaining({
+					kind: 'milestone',
+					milestoneId: 'm1',
+					amount: 2000,
+					entryIds: []
+				}),
+				expect.objectContaining({
+					description: 'Rebrand: time covered by the fixed fee',
+					amount: 0,
+					entryIds: ['a']
+				})
+			]);
+
+			const invoice = { status: 'issued', lineItems: lines } as Invoice;
+			expect(
+				service.buildBillingModelLines(
+					'client-1',
+					[],
+					draft.dateRange,
+					{ projects: [fixedFeeProject] },
+					[],
+					{
+						invoices: [invoice]
+					}
+				)
+			).toEqual([]);
+			expect(
+				service.buildBillingModelLines(
+					'client-1',
+					[],
+					draft.dateRange,
+					{ projects: [fixedFeeProject] },
+					[],
+					{
+						invoices: [{ ...invoice, status: 'void' }]
+					}
+				)
+			).toHaveLength(1);
+		});
+
+		it('should bill retainer fees for each month and overage past the included hours', () => {
+			const entries = [
+				createMockTimeEntry({
+					id: 'a',
+					projectId: 'project-retainer',
+					date: '2024-03-05',
+					billableHours: 12
+				})
+			];
+
+			const lines = service.buildBillingModelLines(
+				'client-1',
+				entries,
+				{ start: '2024-01-01', end: '2024-03-31' },
+				{ projects: [retainerProject] }
+			);
+
+			// February and March only, as the retainer starts in February
+			expect(lines.filter((line) => line.kind === 'retainer').map((line) => line.month)).toEqual([
+				'2024-02',
+				'2024-03'
+			]);
+			expect(lines.find((line) => line.kind === 'overage')).toMatchObject({
+				month: '2024-03',
+				hours: 2,
+				rate: 120,
+				amount: 240
+			});
+		});
+
+		it('should adjust capped projects down to the cap', () => {
+			const billed = createMockTimeEntry({
+				id: 'old',
+				projectId: 'project-capped',
+				billableHours: 3,
+				billingStatus: 'billed'
+			});
+			const entries = [
+				createMockTimeEntry({
+					id: 'a',
+					projectId: 'project-capped',
+					date: '2024-03-05',
+					billableHours: 4
+				})
+			];
+
+			const lines = service.buildBillingModelLines(
+				'client-1',
+				entries,
+				draft.dateRange,
+				{ projects: [cappedProject] },
+				[],
+				{
+					entries: [billed, ...entries]
+				}
+			);
+
+			// $300 already billed leaves $200 of the $400 worked
+			expect(lines).toEqual([expect.objectContaining({ kind: 'cap-adjustment', amount: -200 })]);
+		});
+
+		it('should price only hourly and capped time by the hour', () => {
+			const entries = [
+				createMockTimeEntry({
+					id: 'a',
+					projectId: 'project-capped',
+					date: '2024-03-05',
+					billableHours: 2
+				}),
+				createMockTimeEntry({
+					id: 'b',
+					projectId: 'project-fixed',
+					date: '2024-03-06',
+					billableHours: 5
+				})
+			];
+
+			const invoice = service.createInvoiceData(
+				draft,
+				client,
+				entries,
+				{ projects: [fixedFeeProject, cappedProject] },
+				1
+			);
+
+			expect(invoice.lineItems.map((line) => line.id)).toEqual(['line-1', 'line-2', 'line-3']);
+			expect(invoice.subtotal).toBe(2200);
+			expect(invoice.entryIds).toEqual(['a', 'b']);
+		});
+	});
+
+	describe('expenses', () => {
+		const expense: Expense = {
+			id: 'expense-1',
+			projectId: 'project-1',
+			date: '2024-03-12',
+			description: 'Design tool licence',
+			amount: 50,
+			currency: 'USD',
+			category: 'software',
+			markup: 10,
+			billingStatus: 'ready',
+			createdAt: '2024-03-12T00:00:00.000Z',
+			updatedAt: '2024-03-12T00:00:00.000Z'
+		};
+
+		it('should select ready expenses for the client within the period', () => {
+			const { projectId: _projectId, ...withoutProject } = expense;
+			const expenses: Expense[] = [
+				expense,
+				{ ...expense, id: 'billed', billingStatus: 'billed' },
+				{ ...expense, id: 'later', date: '2024-04-02' },
+				{ ...expense, id: 'other-client', projectId: 'project-2' },
+				{ ...withoutProject, id: 'client-only', clientId: 'client-1' }
+			];
+
+			expect(service.selectBillableExpenses(expenses, projects, draft).map((e) => e.id)).toEqual([
+				'expense-1',
+				'client-only'
+			]);
+		});
+
+		it('should bill expenses with markup, converted into the invoice currency', () => {
+			const entries = [createMockTimeEntry({ id: 'a', billableHours: 2, date: '2024-03-05' })];
+			const converter = createCurrencyConverter(
+				[{ id: 'rate-1', from: 'USD', to: 'EUR', rate: 0.9, date: '2024-03-01' }],
+				'EUR'
+			);
+
+			const invoice = service.createInvoiceData(
+				draft,
+				client,
+				entries,
+				{ projects, tasks },
+				1,
+				[],
+				{},
+				[expense],
+				converter
+			);
+
+			expect(invoice.lineItems[1]).toMatchObject({
+				id: 'line-2',
+				kind: 'expense',
+				description: 'Website: Design tool licence',
+				hours: 0,
+				amount: 49.5,
+				projectId: 'project-1',
+				entryIds: [],
+				expenseIds: ['expense-1']
+			});
+			// 2 hours at $100 and the $55 expense, both converted at 0.9
+			expect(invoice.subtotal).toBe(229.5);
+			expect(invoice.entryIds).toEqual(['a']);
+			expect(invoice.expenseIds).toEqual(['expense-1']);
+		});
+	});
+
+	describe('numbering', () => {
+		it('should continue after the highest sequence, including void invoices', () => {
+			const invoices = [{ sequence: 1 }, { sequence: 3, status: 'void' }] as Invoice[];
+
+			expect(service.getNextSequence(invoices)).toBe(4);
+			expect(service.getNextSequence([])).toBe(1);
+		});
+
+		it('should use the configured prefix and payment terms', () => {
+			const custom = new InvoiceService({ numberPrefix: 'ACME', paymentTermsDays: 14 });
+
+			expect(custom.formatInvoiceNumber(12)).toBe('ACME-0012');
+			expect(custom.getDueDate('2024-03-20')).toBe('2024-04-03');
+		});
+
+		it('should keep the due date on the same calendar day outside UTC', () => {
+			withTimeZone('Europe/Berlin', () => {
+				expect(service.getDueDate('2024-03-01')).toBe('2024-03-31');
+				expect(service.getDueDate('2024-10-15')).toBe('2024-11-14');
+			});
+		});
+
+		it('should flag issued invoices past their due date as overdue', () => {
+			const invoice = { status: 'issued', dueDate: '2024-03-01' } as Invoice;
+
+			expect(service.isOverdue(invoice, '2024-03-02')).toBe(true);
+			expect(service.isOverdue({ ...invoice, status: 'paid' }, '2024-03-02')).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,822 @@
+/**
+ * Invoice Service for TimeFlow Pro
+ *
+ * Business logic for invoices: selecting the ready time entries for a client
+ * and period, pricing them through the billing rate hierarchy, grouping them
+ * into line items, billing fixed-fee, retainer and capped projects under their
+ * billing model, billable expenses with their markup, tax lines from the
+ * projects' or client's tax profiles, sequential invoice numbering, payments
+ * and accounts receivable aging.
+ *
+ * @example
+ * ```typescript
+ * import { InvoiceService } from '$lib/services/invoice-service';
+ *
+ * const service = new InvoiceService();
+ * const entries = service.selectBillableEntries(timeEntries, projects, draft);
+ * const lineItems = service.buildLineItems(entries, 'task', { projects, tasks, clients });
+ * const { taxLines, taxNotes } = service.calculateTaxLines(lineItems, taxProfiles);
+ * const aging = service.buildAgingReport(invoices, clients, '2024-06-30');
+ * ```
+ */
+
+import type {
+	AgingBucket,
+	AgingReport,
+	AgingReportRow,
+	Client,
+	Expense,
+	Invoice,
+	InvoiceDraft,
+	InvoiceLineGrouping,
+	InvoiceLineItem,
+	InvoicePayment,
+	InvoiceTaxLine,
+	PaymentMethod,
+	Project,
+	TaxProfile,
+	TimeEntry
+} from '$lib/types/index.js';
+import { resolveBillingRate, type BillingRateSources } from '$lib/utils/billing-rate-utils.js';
+import {
+	getBillingModel,
+	getMonth,
+	getRetainerPeriods,
+	isBilledByTheHour,
+	listMonths
+} from '$lib/utils/billing-model-utils.js';
+import { DEFAULT_REVERSE_CHARGE_NOTE, resolveTaxProfile, splitTax } from '$lib/utils/tax-utils.js';
+import { formatDate, shiftDate } from '$lib/utils/dateUtils.js';
+import {
+	findUnconvertedCurrencies,
+	formatCurrency,
+	type CurrencyConverter
+} from '$lib/utils/currency-utils.js';
+import { ExpenseService } from './expense-service.js';
+
+export interface InvoiceValidationResult {
+	isValid: boolean;
+	errors: string[];
+	warnings: string[];
+}
+
+/**
+ * Earlier billing for the client, so fixed-fee milestones and retainer months
+ * are invoiced once and caps and rollover account for time already billed
+ */
+export interface InvoiceHistory {
+	/** Time entries, including those already billed or paid */
+	entries?: TimeEntry[];
+	/** Earlier invoices; void invoices are ignored */
+	invoices?: Invoice[];
+}
+
+export interface InvoiceServiceOptions {
+	/** Prefix for invoice numbers */
+	numberPrefix: string;
+	/** Days between the issue date and the due date */
+	paymentTermsDays: number;
+}
+
+const DEFAULT_OPTIONS: InvoiceServiceOptions = {
+	numberPrefix: 'INV',
+	paymentTermsDays: 30
+};
+
+const GROUPINGS: InvoiceLineGrouping[] = ['task', 'category', 'day'];
+
+const PAYMENT_METHODS: PaymentMethod[] = ['bank-transfer', 'card', 'cash', 'check', 'other'];
+
+const AGING_BUCKETS: AgingBucket[] = [
+	'current',
+	'days1to30',
+	'days31to60',
+	'days61to90',
+	'days90plus'
+];
+
+export class InvoiceService {
+	private options: InvoiceServiceOptions;
+	private expenseService = new ExpenseService();
+
+	constructor(options: Partial<InvoiceServiceOptions> = {}) {
+		this.options = { ...DEFAULT_OPTIONS, ...options };
+	}
+
+	/**
+	 * Validate an invoice draft before creation
+	 */
+	validateDraft(draft: Partial<InvoiceDraft>): InvoiceValidationResult {
+		const errors: string[] = [];
+		const warnings: string[] = [];
+
+		if (!draft.clientId) {
+			errors.push('A client is required');
+		}
+
+		if (!draft.dateRange?.start || !draft.dateRange.end) {
+			errors.push('A billing period is required');
+		} else if (draft.dateRange.start > draft.dateRange.end) {
+			errors.push('Billing period end must be on or after its start');
+		}
+
+		if (!draft.grouping || !GROUPINGS.includes(draft.grouping)) {
+			errors.push('Line item grouping must be task, category or day');
+		}
+
+		if (draft.issueDate && draft.dueDate && draft.dueDate < draft.issueDate) {
+			errors.push('Due date must be on or after the issue date');
+		}
+
+		if (draft.dateRange?.end && draft.issueDate && draft.issueDate < draft.dateRange.end) {
+			warnings.push('Invoice is issued before the end of its billing period');
+		}
+
+		return {
+			isValid: errors.length === 0,
+			errors,
+			warnings
+		};
+	}
+
+	/**
+	 * Ready, billable entries for the client's projects within the draft period
+	 */
+	selectBillableEntries(
+		entries: TimeEntry[],
+		projects: Project[],
+		draft: Pick<InvoiceDraft, 'clientId' | 'dateRange'>
+	): TimeEntry[] {
+		const projectIds = new Set(
+			projects.filter((p) => p.clientId === draft.clientId).map((p) => p.id)
+		);
+
+		return entries.filter(
+			(entry) =>
+				projectIds.has(entry.projectId) &&
+				entry.billingStatus === 'ready' &&
+				entry.billableHours > 0 &&
+				entry.date >= draft.dateRange.start &&
+				entry.date <= draft.dateRange.end
+		);
+	}
+
+	/**
+	 * Ready expenses billed to the client within the draft period
+	 */
+	selectBillableExpenses(
+		expenses: Expense[],
+		projects: Project[],
+		draft: Pick<InvoiceDraft, 'clientId' | 'dateRange'>
+	): Expense[] {
+		return expenses.filter(
+			(expense) =>
+				expense.billingStatus === 'ready' &&
+				this.expenseService.getClientId(expense, projects) === draft.clientId &&
+				expense.date >= draft.dateRange.start &&
+				expense.date <= draft.dateRange.end
+		);
+	}
+
+	/**
+	 * One line per expense at its amount plus markup. Pass a converter into the
+	 * invoice currency for expenses paid in other currencies.
+	 */
+	buildExpenseLines(
+		expenses: Expense[],
+		rateSources: BillingRateSources = {},
+		taxProfiles: TaxProfile[] = [],
+		converter?: CurrencyConverter
+	): InvoiceLineItem[] {
+		return [...expenses]
+			.sort((a, b) => a.date.localeCompare(b.date))
+			.map((expense) => {
+				const project = rateSources.projects?.find((p) => p.id === expense.projectId);
+				const taxProfile = resolveTaxProfile(
+					project ?? (expense.clientId ? { clientId: expense.clientId } : undefined),
+					rateSources.clients,
+					taxProfiles
+				);
+				const billed = this.expenseService.getBilledAmount(expense);
+				const amount = this.round(this.convert(billed, expense.currency, expense.date, converter));
+
+				const line: InvoiceLineItem = {
+					id: '',
+					description: project ? `${project.name}: ${expense.description}` : expense.description,
+					kind: 'expense',
+					hours: 0,
+					rate: amount,
+					amount,
+					entryIds: [],
+					expenseIds: [expense.id]
+				};
+				if (project) {
+					line.projectId = project.id;
+				}
+				if (taxProfile) {
+					line.taxProfileId = taxProfile.id;
+				}
+				return line;
+			});
+	}
+
+	/**
+	 * Group entries into line items. Entries in the same group but at different
+	 * rates or under different tax profiles get separate lines so every line has
+	 * a single rate and tax profile. Pass a converter into the invoice currency
+	 * to convert rates from each project's currency on the entry's date.
+	 */
+	buildLineItems(
+		entries: TimeEntry[],
+		grouping: InvoiceLineGrouping,
+		rateSources: BillingRateSources = {},
+		taxProfiles: TaxProfile[] = [],
+		converter?: CurrencyConverter
+	): InvoiceLineItem[] {
+		const lines = new Map<string, InvoiceLineItem>();
+
+		[...entries]
+			.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+			.forEach((entry) => {
+				const project = rateSources.projects?.find((p) => p.id === entry.projectId);
+				const rate = this.round(
+					this.convert(
+						resolveBillingRate(entry, rateSources).rate,
+						project?.currency,
+						entry.date,
+						converter
+					)
+				);
+				const taxProfile = resolveTaxProfile(project, rateSources.clients, taxProfiles);
+				const groupKey = this.getGroupKey(entry, grouping);
+				const key = `${groupKey}@${rate}#${taxProfile?.id ?? ''}`;
+				const line = lines.get(key) ?? {
+					id: `line-${lines.size + 1}`,
+					description: this.describeGroup(entry, grouping, rateSources),
+					hours: 0,
+					rate,
+					amount: 0,
+					entryIds: [],
+					...(taxProfile ? { taxProfileId: taxProfile.id } : {})
+				};
+
+				line.hours += entry.billableHours;
+				line.amount += entry.billableHours * rate;
+				line.entryIds.push(entry.id);
+				lines.set(key, line);
+			});
+
+		return [...lines.values()].map((line) => ({
+			...line,
+			hours: this.round(line.hours),
+			amount: this.round(line.amount)
+		}));
+	}
+
+	/**
+	 * Tax lines for line items, one per tax profile. Exclusive taxes are
+	 * charged on top of the line amounts; inclusive taxes are the share of the
+	 * line amounts that is tax. Reverse charge profiles add a zero tax line
+	 * and a note.
+	 */
+	calculateTaxLines(
+		lineItems: InvoiceLineItem[],
+		taxProfiles: TaxProfile[] = []
+	): { taxLines: InvoiceTaxLine[]; taxNotes: string[] } {
+		const amounts = new Map<string, number>();
+		lineItems.forEach((line) => {
+			if (!line.taxProfileId) return;
+			amounts.set(line.taxProfileId, (amounts.get(line.taxProfileId) ?? 0) + line.amount);
+		});
+
+		const taxLines: InvoiceTaxLine[] = [];
+		const taxNotes: string[] = [];
+
+		amounts.forEach((amount, taxProfileId) => {
+			const profile = taxProfiles.find((p) => p.id === taxProfileId);
+			if (!profile) return;
+
+			const taxLine: InvoiceTaxLine = {
+				name: profile.name,
+				rate: profile.rate,
+				amount: this.round(splitTax(amount, profile).tax)
+			};
+			if (profile.reverseCharge) {
+				taxLine.reverseCharge = true;
+				const note = profile.reverseChargeNote?.trim() || DEFAULT_REVERSE_CHARGE_NOTE;
+				if (!taxNotes.includes(note)) taxNotes.push(note);
+			} else if (profile.inclusive) {
+				taxLine.inclusive = true;
+			}
+			taxLines.push(taxLine);
+		});
+
+		return { taxLines, taxNotes };
+	}
+
+	/**
+	 * Line items for the client's projects that are not billed hourly: completed
+	 * fixed-fee milestones, retainer fees and overage for each month, and
+	 * adjustments keeping capped projects within their cap. Time on fixed-fee and
+	 * retainer projects is listed on a zero-amount line so it is billed with the
+	 * invoice. Pass a converter into the invoice currency to convert amounts from
+	 * the project's currency on the milestone's completion date, the first day
+	 * of the retainer month, or the end of the period for cap adjustments.
+	 */
+	buildBillingModelLines(
+		clientId: string,
+		entries: TimeEntry[],
+		dateRange: InvoiceDraft['dateRange'],
+		rateSources: BillingRateSources = {},
+		taxProfiles: TaxProfile[] = [],
+		history: InvoiceHistory = {},
+		converter?: CurrencyConverter
+	): InvoiceLineItem[] {
+		const invoicedLines = (history.invoices ?? [])
+			.filter((invoice) => invoice.status !== 'void')
+			.flatMap((invoice) => invoice.lineItems);
+		const invoiceEntryIds = new Set(entries.map((entry) => entry.id));
+
+		return (rateSources.projects ?? [])
+			.filter((project) => project.clientId === clientId)
+			.flatMap((project) => {
+				const model = getBillingModel(project);
+				if (model.type === 'hourly') return [];
+
+				const taxProfile = resolveTaxProfile(project, rateSources.clients, taxProfiles);
+				const projectEntries = entries.filter((entry) => entry.projectId === project.id);
+				const projectLines = invoicedLines.filter((line) => line.projectId === project.id);
+				const billedEntries = (history.entries ?? []).filter(
+					(entry) =>
+						entry.projectId === project.id &&
+						!invoiceEntryIds.has(entry.id) &&
+						(entry.billingStatus === 'billed' || entry.billingStatus === 'paid')
+				);
+				const line = (
+					fields: Omit<InvoiceLineItem, 'id' | 'entryIds' | 'projectId'> &
+						Partial<Pick<InvoiceLineItem, 'entryIds'>>
+				): InvoiceLineItem => ({
+					id: '',
+					entryIds: [],
+					projectId: project.id,
+					...fields,
+					...(taxProfile ? { taxProfileId: taxProfile.id } : {})
+				});
+				const toInvoiceCurrency = (amount: number, date: string) =>
+					this.round(this.convert(amount, project.currency, date, converter));
+				const coveredTime = (coveredBy: string): InvoiceLineItem[] =>
+					projectEntries.length > 0
+						? [
+								line({
+									description: `${project.name}: time covered by the ${coveredBy}`,
+									hours: this.round(projectEntries.reduce((sum, e) => sum + e.billableHours, 0)),
+									rate: 0,
+									amount: 0,
+									entryIds: projectEntries.map((entry) => entry.id)
+								})
+							]
+						: [];
+
+				switch (model.type) {
+					case 'capped': {
+						const hourlyValue = (list: TimeEntry[]) =>
+							list.reduce(
+								(sum, entry) =>
+									sum + entry.billableHours * resolveBillingRate(entry, rateSources).rate,
+								0
+							);
+						const previous = hourlyValue(billedEntries);
+						const current = hourlyValue(projectEntries);
+						const adjustment = toInvoiceCurrency(
+							Math.min(model.cap, previous + current) - Math.min(model.cap, previous) - current,
+							dateRange.end
+						);
+						return adjustment < 0
+							? [
+									line({
+										kind: 'cap-adjustment',
+										description: `${project.name}: capped at ${formatCurrency(model.cap, project.currency)}`,
+										hours: 0,
+										rate: adjustment,
+										amount: adjustment
+									})
+								]
+							: [];
+					}
+					case 'fixed-fee': {
+						const invoicedMilestones = new Set(projectLines.map((l) => l.milestoneId));
+						const milestoneLines = model.milestones
+							.filter(
+								(milestone) =>
+									milestone.completedDate &&
+									milestone.completedDate <= dateRange.end &&
+									!invoicedMilestones.has(milestone.id)
+							)
+							.map((milestone) => {
+								const amount = toInvoiceCurrency(
+									milestone.amount,
+									milestone.completedDate ?? dateRange.end
+								);
+								return line({
+									kind: 'milestone',
+									description: `${project.name}: ${milestone.name}`,
+									hours: 0,
+									rate: amount,
+									amount,
+									milestoneId: milestone.id
+								});
+							});
+						return [...milestoneLines, ...coveredTime('fixed fee')];
+					}
+					case 'retainer': {
+						const invoicedMonths = new Set(
+							projectLines.filter((l) => l.kind === 'retainer').map((l) => l.month)
+						);
+						const start = [dateRange.start, (project.startDate ?? project.createdAt).slice(0, 10)]
+							.sort()
+							.pop();
+						const end = [dateRange.end, project.endDate?.slice(0, 10) ?? dateRange.end]
+							.sort()
+							.shift();
+						const feeMonths = start && end ? listMonths(getMonth(start), getMonth(end)) : [];
+						const months = [
+							...new Set([...feeMonths, ...projectEntries.map((e) => getMonth(e.date))])
+						].sort();
+
+						// Rollover runs from the first month of the retainer
+						const workEntries = [...billedEntries, ...projectEntries];
+						const firstDate = [project.startDate, ...workEntries.map((e) => e.date)]
+							.filter((date): date is string => !!date)
+							.sort()[0];
+						const periods = firstDate
+							? getRetainerPeriods(model, workEntries, getMonth(firstDate))
+							: [];
+
+						const retainerLines = months.flatMap((month) => {
+							const lines: InvoiceLineItem[] = [];
+							const monthStart = `${month}-01`;
+							if (feeMonths.includes(month) && !invoicedMonths.has(month)) {
+								const fee = toInvoiceCurrency(model.monthlyFee, monthStart);
+								lines.push(
+									line({
+										kind: 'retainer',
+										description: `${project.name}: retainer ${month}`,
+										hours: 0,
+										rate: fee,
+										amount: fee,
+										month
+									})
+								);
+							}
+
+							const invoicedOverage = projectLines
+								.filter((l) => l.kind === 'overage' && l.month === month)
+								.reduce((sum, l) => sum + l.hours, 0);
+							const period = periods.find((p) => p.month === month);
+							const overageHours = this.round((period?.overageHours ?? 0) - invoicedOverage);
+							if (overageHours > 0) {
+								const rate = toInvoiceCurrency(model.overageRate, monthStart);
+								lines.push(
+									line({
+										kind: 'overage',
+										description: `${project.name}: overage ${month}`,
+										hours: overageHours,
+										rate,
+										amount: this.round(overageHours * rate),
+										month
+									})
+								);
+							}
+							return lines;
+						});
+						return [...retainerLines, ...coveredTime('retainer')];
+					}
+				}
+			});
+	}
+
+	/**
+	 * Build invoice data for a draft from the client's ready entries. Entries on
+	 * hourly and capped projects are grouped into time lines; the billing model
+	 * lines of the client's other projects follow, then the ready expenses.
+	 * Pass a converter into the client's currency to bill projects and expenses
+	 * in other currencies; a currency without an exchange rate throws instead of
+	 * being billed 1:1.
+	 */
+	createInvoiceData(
+		draft: InvoiceDraft,
+		client: Client,
+		entries: TimeEntry[],
+		rateSources: BillingRateSources,
+		sequence: number,
+		taxProfiles: TaxProfile[] = [],
+		history: InvoiceHistory = {},
+		expenses: Expense[] = [],
+		converter?: CurrencyConverter
+	): Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'> {
+		const hourlyEntries = entries.filter((entry) =>
+			isBilledByTheHour(
+				getBillingModel(rateSources.projects?.find((p) => p.id === entry.projectId))
+			)
+		);
+		const lineItems = [
+			...this.buildLineItems(hourlyEntries, draft.grouping, rateSources, taxProfiles, converter),
+			...this.buildBillingModelLines(
+				client.id,
+				entries,
+				draft.dateRange,
+				rateSources,
+				taxProfiles,
+				history,
+				converter
+			),
+			...this.buildExpenseLines(expenses, rateSources, taxProfiles, converter)
+		].map((line, index) => ({ ...line, id: `line-${index + 1}` }));
+		const expenseIds = lineItems.flatMap((line) => line.expenseIds ?? []);
+		const subtotal = this.round(lineItems.reduce((sum, line) => sum + line.amount, 0));
+		const { taxLines, taxNotes } = this.calculateTaxLines(lineItems, taxProfiles);
+		const addedTax = taxLines
+			.filter((tax) => !tax.inclusive)
+			.reduce((sum, tax) => sum + tax.amount, 0);
+		const issueDate = draft.issueDate ?? formatDate(new Date());
+
+		const invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'> = {
+			number: this.formatInvoiceNumber(sequence),
+			sequence,
+			clientId: client.id,
+			clientName: client.name,
+			status: 'issued',
+			currency: client.defaultCurrency,
+			grouping: draft.grouping,
+			dateRange: { ...draft.dateRange },
+			issueDate,
+			dueDate: draft.dueDate ?? this.getDueDate(issueDate),
+			lineItems,
+			entryIds: lineItems.flatMap((line) => line.entryIds),
+			subtotal,
+			total: this.round(subtotal + addedTax)
+		};
+
+		if (expenseIds.length > 0) {
+			invoice.expenseIds = expenseIds;
+		}
+		if (taxLines.length > 0) {
+			invoice.taxLines = taxLines;
+		}
+		if (taxNotes.length > 0) {
+			invoice.taxNotes = taxNotes;
+		}
+		if (draft.notes) {
+			invoice.notes = draft.notes;
+		}
+
+		return invoice;
+	}
+
+	/**
+	 * Next number in the invoice sequence. Voided invoices keep their number,
+	 * so numbers are never reused.
+	 */
+	getNextSequence(invoices: Invoice[]): number {
+		return invoices.reduce((max, invoice) => Math.max(max, invoice.sequence), 0) + 1;
+	}
+
+	/**
+	 * Format a sequence number as an invoice number (e.g., INV-0001)
+	 */
+	formatInvoiceNumber(sequence: number): string {
+		return `${this.options.numberPrefix}-${String(sequence).padStart(4, '0')}`;
+	}
+
+	/**
+	 * Due date for an issue date under the payment terms
+	 */
+	getDueDate(issueDate: string): string {
+		return shiftDate(issueDate, this.options.paymentTermsDays);
+	}
+
+	/**
+	 * Split an invoice total into net revenue and tax
+	 */
+	getTaxBreakdown(invoice: Pick<Invoice, 'total' | 'taxLines'>): { net: number; tax: number } {
+		const tax = this.round((invoice.taxLines ?? []).reduce((sum, line) => sum + line.amount, 0));
+		return { net: this.round(invoice.total - tax), tax };
+	}
+
+	/**
+	 * Total of the payments received against an invoice
+	 */
+	getAmountPaid(invoice: Pick<Invoice, 'payments'>): number {
+		return this.round((invoice.payments ?? []).reduce((sum, payment) => sum + payment.amount, 0));
+	}
+
+	/**
+	 * Amount still owed on an invoice; void invoices owe nothing
+	 */
+	getBalanceDue(invoice: Pick<Invoice, 'status' | 'total' | 'payments'>): number {
+		if (invoice.status === 'void') return 0;
+		return Math.max(0, this.round(invoice.total - this.getAmountPaid(invoice)));
+	}
+
+	/**
+	 * Validate a payment against an invoice before recording it
+	 */
+	validatePayment(
+		invoice: Invoice,
+		payment: Partial<Omit<InvoicePayment, 'id' | 'createdAt'>>
+	): InvoiceValidationResult {
+		const errors: string[] = [];
+		const warnings: string[] = [];
+
+		if (invoice.status !== 'issued') {
+			errors.push(`Invoice ${invoice.number} is ${invoice.status}`);
+		}
+
+		if (!payment.date || !/^\d{4}-\d{2}-\d{2}$/.test(payment.date)) {
+			errors.push('Payment date must be YYYY-MM-DD');
+		} else if (payment.date < invoice.issueDate) {
+			warnings.push('Payment is dated before the invoice was issued');
+		}
+
+		if (payment.amount === undefined || !Number.isFinite(payment.amount) || payment.amount <= 0) {
+			errors.push('Payment amount must be greater than zero');
+		} else if (this.round(payment.amount) > this.getBalanceDue(invoice)) {
+			errors.push('Payment exceeds the balance due');
+		}
+
+		if (!payment.method || !PAYMENT_METHODS.includes(payment.method)) {
+			errors.push('Payment method must be bank transfer, card, cash, check or other');
+		}
+
+		return {
+			isValid: errors.length === 0,
+			errors,
+			warnings
+		};
+	}
+
+	/**
+	 * Age bucket for a balance by days past its due date: current (not yet
+	 * due), 1–30, 31–60, 61–90 and over 90 days
+	 */
+	getAgingBucket(dueDate: string, asOf: string = formatDate(new Date())): AgingBucket {
+		const daysPastDue = this.daysBetween(dueDate, asOf);
+
+		if (daysPastDue > 90) return 'days90plus';
+		if (daysPastDue > 60) return 'days61to90';
+		if (daysPastDue > 30) return 'days31to60';
+		if (daysPastDue > 0) return 'days1to30';
+		return 'current';
+	}
+
+	/**
+	 * Accounts receivable aging: outstanding balances of issued invoices per
+	 * client and age bucket. Pass a converter to total clients billed in
+	 * different currencies in one reporting currency; currencies without an
+	 * exchange rate are listed in `unconvertedCurrencies`.
+	 */
+	buildAgingReport(
+		invoices: Invoice[],
+		clients: Client[] = [],
+		asOf: string = formatDate(new Date()),
+		converter?: CurrencyConverter
+	): AgingReport {
+		const rows = new Map<string, AgingReportRow>();
+		const outstanding = invoices.filter(
+			(invoice) =>
+				invoice.status === 'issued' && invoice.issueDate <= asOf && this.getBalanceDue(invoice) > 0
+		);
+
+		outstanding.forEach((invoice) => {
+			const balance = this.getBalanceDue(invoice);
+			const amount = converter
+				? converter.convert(balance, invoice.currency, invoice.issueDate)
+				: balance;
+			const client = clients.find((c) => c.id === invoice.clientId);
+			const row = rows.get(invoice.clientId) ?? {
+				clientId: invoice.clientId,
+				...(client ? { client } : {}),
+				clientName: client?.name ?? invoice.clientName,
+				buckets: this.emptyBuckets(),
+				total: 0,
+				invoiceCount: 0
+			};
+
+			row.buckets[this.getAgingBucket(invoice.dueDate, asOf)] += amount;
+			row.total += amount;
+			row.invoiceCount += 1;
+			rows.set(invoice.clientId, row);
+		});
+
+		const sortedRows = [...rows.values()]
+			.map((row) => ({
+				...row,
+				buckets: this.roundBuckets(row.buckets),
+				total: this.round(row.total)
+			}))
+			.sort((a, b) => b.total - a.total || a.clientName.localeCompare(b.clientName));
+
+		const totals = this.emptyBuckets();
+		sortedRows.forEach((row) => {
+			AGING_BUCKETS.forEach((bucket) => (totals[bucket] += row.buckets[bucket]));
+		});
+
+		const report: AgingReport = {
+			asOf,
+			rows: sortedRows,
+			totals: this.roundBuckets(totals),
+			total: this.round(sortedRows.reduce((sum, row) => sum + row.total, 0))
+		};
+
+		if (converter) {
+			report.currency = converter.reportingCurrency;
+			const unconverted = findUnconvertedCurrencies(
+				converter,
+				outstanding.map((invoice) => invoice.currency)
+			);
+			if (unconverted.length > 0) {
+				report.unconvertedCurrencies = unconverted;
+			}
+		}
+
+		return report;
+	}
+
+	/**
+	 * Whether an issued invoice is past its due date
+	 */
+	isOverdue(invoice: Invoice, today: string = formatDate(new Date())): boolean {
+		return invoice.status === 'issued' && invoice.dueDate < today;
+	}
+
+	private getGroupKey(entry: TimeEntry, grouping: InvoiceLineGrouping): string {
+		switch (grouping) {
+			case 'task':
+				return entry.taskId ?? `project:${entry.projectId}`;
+			case 'category':
+				return entry.category;
+			case 'day':
+				return entry.date;
+		}
+	}
+
+	private describeGroup(
+		entry: TimeEntry,
+		grouping: InvoiceLineGrouping,
+		rateSources: BillingRateSources
+	): string {
+		switch (grouping) {
+			case 'task': {
+				const project = rateSources.projects?.find((p) => p.id === entry.projectId);
+				const task = entry.taskId
+					? rateSources.tasks?.find((t) => t.id === entry.taskId)
+					: undefined;
+				const projectName = project?.name ?? 'Project';
+				return task ? `${projectName}: ${task.title}` : `${projectName}: general work`;
+			}
+			case 'category':
+				return entry.category.charAt(0).toUpperCase() + entry.category.slice(1).replace('-', ' ');
+			case 'day':
+				return entry.date;
+		}
+	}
+
+	private emptyBuckets(): Record<AgingBucket, number> {
+		return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, days90plus: 0 };
+	}
+
+	private roundBuckets(buckets: Record<AgingBucket, number>): Record<AgingBucket, number> {
+		return {
+			current: this.round(buckets.current),
+			days1to30: this.round(buckets.days1to30),
+			days31to60: this.round(buckets.days31to60),
+			days61to90: this.round(buckets.days61to90),
+			days90plus: this.round(buckets.days90plus)
+		};
+	}
+
+	// Whole days from one date to another (YYYY-MM-DD)
+	private daysBetween(from: string, to: string): number {
+		return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+	}
+
+	// Convert an amount into the invoice currency, refusing currencies without
+	// an exchange rate rather than billing them 1:1
+	private convert(
+		amount: number,
+		currency: string | undefined,
+		date: string,
+		converter?: CurrencyConverter
+	): number {
+		if (!converter || !currency) return amount;
+		if (!converter.hasRate(currency, date)) {
+			throw new Error(`No exchange rate from ${currency} to ${converter.reportingCurrency}`);
+		}
+		return converter.convert(amount, currency, date);
+	}
+
+	// Round to cents / hundredths of an hour
+	private round(value: number): number {
+		return Math.round(value * 100) / 100;
+	}
+}
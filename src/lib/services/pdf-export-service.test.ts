@@ -0,0 +1,227 @@
+/**
+ * PDF Export Service Tests
+ *
+ * Tests for invoice and project report PDFs: sender and client details,
+ * line items, totals with tax, payment terms and pagination
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PdfExportService } from './pdf-export-service';
+import { createMockProject, createMockTask } from '../utils/test-helpers';
+import type { Client, Invoice, ProjectSummary, TaskSummary } from '$lib/types/index.js';
+
+// Decode PDF bytes as one character per byte
+function toText(bytes: Uint8Array): string {
+	return Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+}
+
+describe('PdfExportService', () => {
+	let service: PdfExportService;
+
+	const client: Client = {
+		id: 'client-1',
+		name: 'Jane Smith',
+		company: 'Acme Corp',
+		address: '1 Main Street\nSpringfield',
+		email: 'billing@acme.test',
+		defaultCurrency: 'USD',
+		isActive: true,
+		createdAt: '2024-01-01T00:00:00.000Z',
+		updatedAt: '2024-01-01T00:00:00.000Z'
+	};
+
+	const invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'> = {
+		number: 'INV-0003',
+		sequence: 3,
+		clientId: 'client-1',
+		clientName: 'Jane Smith',
+		status: 'issued',
+		currency: 'USD',
+		grouping: 'task',
+		dateRange: { start: '2024-03-01', end: '2024-03-31' },
+		issueDate: '2024-04-01',
+		dueDate: '2024-05-01',
+		lineItems: [
+			{
+				id: 'line-1',
+				description: 'Website: Design',
+				hours: 10,
+				rate: 100,
+				amount: 1000,
+				entryIds: ['entry-1']
+			}
+		],
+		entryIds: ['entry-1'],
+		subtotal: 1000,
+		taxLines: [{ name: 'VAT', rate: 20, amount: 200 }],
+		total: 1200
+	};
+
+	beforeEach(() => {
+		service = new PdfExportService();
+	});
+
+	describe('renderInvoice', () => {
+		it('should include sender, client, line items, tax and totals', () => {
+			const pdf = toText(
+				service.renderInvoice(invoice, client, {
+					name: 'Doe Consulting',
+					address: '5 High Street'
+				})
+			);
+
+			[
+				'(Doe Consulting) Tj',
+				'(5 High Street) Tj',
+				'(INV-0003) Tj',
+				'(Acme Corp) Tj',
+				'(Jane Smith) Tj',
+				'(Springfield) Tj',
+				'(billing@acme.test) Tj',
+				'(Website: Design) Tj',
+				'(10.00) Tj',
+				'($1,000.00) Tj',
+				'(VAT \\(20%\\)) Tj',
+				'($200.00) Tj',
+				'($1,200.00) Tj',
+				'(Page 1 of 1) Tj'
+			].forEach((text) => expect(pdf).toContain(text));
+		});
+
+		it('should print the payment terms', () => {
+			const pdf = toText(service.renderInvoice(invoice, client));
+
+			expect(pdf).toContain(
+				'(Payment due within 30 days of the invoice date \\(by 2024-05-01\\).) Tj'
+			);
+		});
+
+		it('should label reverse charge tax and print the tax notes', () => {
+			const pdf = toText(
+				service.renderInvoice(
+					{
+						...invoice,
+						taxLines: [{ name: 'VAT', rate: 20, amount: 0, reverseCharge: true }],
+						taxNotes: ['Reverse charge applies.'],
+						total: 1000
+					},
+					client
+				)
+			);
+
+			expect(pdf).toContain('(VAT \\(reverse charge\\)) Tj');
+			expect(pdf).toContain('(Reverse charge applies.) Tj');
+		});
+
+		it('should continue long invoices on further pages', () => {
+			const lineItems = Array.from({ length: 80 }, (_, index) => ({
+				id: `line-${index}`,
+				description: `Day ${index + 1}`,
+				hours: 1,
+				rate: 100,
+				amount: 100,
+				entryIds: []
+			}));
+
+			const pdf = toText(service.renderInvoice({ ...invoice, lineItems }, client));
+
+			expect(pdf).toContain('/Count 3');
+			expect(pdf).toContain('(Page 3 of 3) Tj');
+			// The table header repeats on each page
+			expect(pdf.match(/\(Description\) Tj/g)).toHaveLength(3);
+		});
+
+		it('should mark invoices that are no longer outstanding', () => {
+			const pdf = toText(
+				service.renderInvoice({ ...invoice, status: 'paid', paidDate: '2024-04-20' }, client)
+			);
+
+			expect(pdf).toContain('(PAID) Tj');
+			expect(pdf).toContain('(2024-04-20) Tj');
+		});
+
+		it('should show payments received and the balance due', () => {
+			const pdf = toText(
+				service.renderInvoice(
+					{
+						...invoice,
+						payments: [
+							{
+								id: 'payment-1',
+								date: '2024-04-15',
+								amount: 500,
+								method: 'bank-transfer',
+								createdAt: '2024-04-15T00:00:00.000Z'
+							}
+						]
+					},
+					client
+				)
+			);
+
+			expect(pdf).toContain('(Balance due) Tj');
+			expect(pdf).toContain('($700.00) Tj');
+		});
+	});
+
+	describe('renderProjectReport', () => {
+		it('should include project metrics and the task breakdown', () => {
+			const project = createMockProject({ name: 'Website Redesign', budget: 5000 });
+			const summary: ProjectSummary = {
+				project,
+				totalHours: 12.5,
+				totalBillable: 937.5,
+				entryCount: 5,
+				taskCount: 2,
+				completedTasks: 1,
+				progressPercentage: 50
+			};
+			const taskSummaries: TaskSummary[] = [
+				{
+					task: createMockTask({ title: 'Wireframes', status: 'in-progress' }),
+					totalTime: 4,
+					totalBillable: 300,
+					entryCount: 2,
+					progressPercentage: 50,
+					isOverdue: false
+				}
+			];
+
+			const pdf = toText(service.renderProjectReport(summary, taskSummaries, client));
+
+			[
+				'(PROJECT REPORT) Tj',
+				'(Website Redesign) Tj',
+				'(Acme Corp) Tj',
+				'(12.50) Tj',
+				'($937.50) Tj',
+				'($5,000.00) Tj',
+				'(1 of 2) Tj',
+				'(Wireframes) Tj',
+				'(in progress) Tj',
+				'($300.00) Tj'
+			].forEach((text) => expect(pdf).toContain(text));
+		});
+	});
+
+	describe('describePaymentTerms', () => {
+		it('should prefer the sender payment terms', () => {
+			expect(service.describePaymentTerms(invoice, { paymentTerms: ' Net 15 ' })).toBe('Net 15');
+		});
+
+		it('should treat invoices due on the issue date as due on receipt', () => {
+			expect(service.describePaymentTerms({ issueDate: '2024-04-01', dueDate: '2024-04-01' })).toBe(
+				'Payment due on receipt.'
+			);
+		});
+	});
+
+	describe('file names', () => {
+		it('should name files after the invoice number and project', () => {
+			expect(service.getInvoiceFileName(invoice)).toBe('INV-0003.pdf');
+			expect(service.getProjectReportFileName({ name: 'Website Redesign!' })).toMatch(
+				/^website-redesign-report-\d{4}-\d{2}-\d{2}\.pdf$/
+			);
+		});
+	});
+});
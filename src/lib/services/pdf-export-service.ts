@@ -0,0 +1,430 @@
+/**
+ * PDF Export Service for TimeFlow Pro
+ *
+ * Lays out printable invoices and project reports as PDFs in the browser:
+ * sender details and logo, the client's address, line items, totals with
+ * tax and payments received, and payment terms. Documents are drawn with the PdfDocument writer,
+ * so no server is involved.
+ *
+ * @example
+ * ```typescript
+ * import { PdfExportService } from '$lib/services/pdf-export-service';
+ * import { downloadPdf } from '$lib/utils/pdf-document';
+ *
+ * const service = new PdfExportService();
+ * const pdf = service.renderInvoice(invoice, client, { name: 'Jane Doe Consulting' });
+ * downloadPdf(pdf, service.getInvoiceFileName(invoice));
+ * ```
+ */
+
+import type { Client, Invoice, Project, ProjectSummary, TaskSummary } from '$lib/types/index.js';
+import { InvoiceService } from '$lib/services/invoice-service.js';
+import { PdfDocument, wrapPdfText, type PdfPageSize } from '$lib/utils/pdf-document.js';
+import { formatCurrency } from '$lib/utils/currency-utils.js';
+import { isFixedAmountLine } from '$lib/utils/billing-model-utils.js';
+import { describeTaxLine } from '$lib/utils/tax-utils.js';
+import { formatDate } from '$lib/utils/dateUtils.js';
+
+/**
+ * Sender details printed at the top of documents
+ */
+export interface PdfBusinessDetails {
+	name: string;
+	address?: string;
+	/** JPEG data URL */
+	logo?: string;
+	/** Payment terms printed on invoices */
+	paymentTerms?: string;
+}
+
+export interface PdfExportOptions {
+	pageSize: PdfPageSize;
+	/** Locale for money formatting */
+	locale: string;
+}
+
+interface TableColumn {
+	label: string;
+	/** Left edge for left-aligned columns, right edge for right-aligned ones */
+	x: number;
+	align: 'left' | 'right';
+	/** Width available for wrapped text (left-aligned columns) */
+	width?: number;
+}
+
+const DEFAULT_OPTIONS: PdfExportOptions = {
+	pageSize: 'a4',
+	locale: 'en-US'
+};
+
+const MARGIN = 50;
+const LINE_HEIGHT = 14;
+const MUTED = '#6b7280';
+const RULE = '#e5e7eb';
+const HEADER_FILL = '#f3f4f6';
+
+export class PdfExportService {
+	private options: PdfExportOptions;
+	private invoiceService = new InvoiceService();
+
+	constructor(options: Partial<PdfExportOptions> = {}) {
+		this.options = { ...DEFAULT_OPTIONS, ...options };
+	}
+
+	/**
+	 * Render an invoice as a PDF
+	 */
+	renderInvoice(
+		invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>,
+		client: Client | undefined,
+		business: PdfBusinessDetails = { name: '' }
+	): Uint8Array {
+		const doc = new PdfDocument({
+			pageSize: this.options.pageSize,
+			title: `Invoice ${invoice.number}`
+		});
+		const right = doc.width - MARGIN;
+		const money = (amount: number) => this.formatMoney(amount, invoice.currency);
+
+		let y = this.drawHeader(doc, business, 'INVOICE', [
+			invoice.number,
+			...(invoice.status !== 'issued' ? [invoice.status.toUpperCase()] : [])
+		]);
+
+		// Bill to (left) and invoice dates (right)
+		const billTo = [
+			client?.company || invoice.clientName,
+			...(client?.company && client.company !== invoice.clientName ? [invoice.clientName] : []),
+			...(client?.address ? wrapPdfText(client.address, 240, 10) : []),
+			...(client?.email ? [client.email] : [])
+		];
+		const dates: [string, string][] = [
+			['Issue date', invoice.issueDate],
+			['Due date', invoice.dueDate],
+			['Period', `${invoice.dateRange.start} – ${invoice.dateRange.end}`],
+			...(invoice.paidDate ? [['Paid', invoice.paidDate] as [string, string]] : []),
+			...(invoice.voidedDate ? [['Voided', invoice.voidedDate] as [string, string]] : [])
+		];
+
+		doc.text('BILL TO', MARGIN, y, { size: 8, bold: true, color: MUTED });
+		billTo.forEach((line, index) => {
+			doc.text(line, MARGIN, y + LINE_HEIGHT * (index + 1), { bold: index === 0 });
+		});
+		dates.forEach(([label, value], index) => {
+			const lineY = y + LINE_HEIGHT * (index + 1);
+			doc.text(label, right - 150, lineY, { color: MUTED });
+			doc.text(value, right, lineY, { align: 'right' });
+		});
+		y += LINE_HEIGHT * (Math.max(billTo.length, dates.length) + 2);
+
+		// Line items
+		const columns: TableColumn[] = [
+			{ label: 'Description', x: MARGIN, align: 'left', width: right - MARGIN - 230 },
+			{ label: 'Hours', x: right - 160, align: 'right' },
+			{ label: 'Rate', x: right - 80, align: 'right' },
+			{ label: 'Amount', x: right, align: 'right' }
+		];
+		y = this.drawTable(
+			doc,
+			y,
+			columns,
+			invoice.lineItems.map((line) =>
+				isFixedAmountLine(line)
+					? [line.description, '—', '—', money(line.amount)]
+					: [line.description, line.hours.toFixed(2), money(line.rate), money(line.amount)]
+			)
+		);
+
+		// Totals
+		const totals: [string, string][] = [
+			['Subtotal', money(invoice.subtotal)],
+			...(invoice.taxLines ?? []).map(
+				(tax) => [describeTaxLine(tax), money(tax.amount)] as [string, string]
+			)
+		];
+		const payments: [string, string][] = invoice.payments?.length
+			? [
+					['Paid', money(-this.invoiceService.getAmountPaid(invoice))],
+					['Balance due', money(this.invoiceService.getBalanceDue(invoice))]
+				]
+			: [];
+		y = this.ensureSpace(doc, y, LINE_HEIGHT * (totals.length + payments.length + 3));
+		y += LINE_HEIGHT;
+		totals.forEach(([label, value]) => {
+			doc.text(label, right - 100, y, { align: 'right', color: MUTED });
+			doc.text(value, right, y, { align: 'right' });
+			y += LINE_HEIGHT;
+		});
+		doc.line(right - 200, y - 8, right, y - 8, { color: RULE });
+		y += 4;
+		doc.text('Total due', right - 100, y, { align: 'right', bold: true, size: 12 });
+		doc.text(money(invoice.total), right, y, { align: 'right', bold: true, size: 12 });
+		y += LINE_HEIGHT;
+		payments.forEach(([label, value]) => {
+			doc.text(label, right - 100, y, { align: 'right', color: MUTED });
+			doc.text(value, right, y, { align: 'right' });
+			y += LINE_HEIGHT;
+		});
+		y += LINE_HEIGHT;
+
+		// Payment terms, tax notes and notes
+		y = this.drawParagraph(doc, y, 'Payment terms', this.describePaymentTerms(invoice, business));
+		if (invoice.taxNotes?.length) {
+			y = this.drawParagraph(doc, y, 'Tax', invoice.taxNotes.join('\n'));
+		}
+		if (invoice.notes) {
+			this.drawParagraph(doc, y, 'Notes', invoice.notes);
+		}
+
+		this.drawPageNumbers(doc, `Invoice ${invoice.number}`);
+		return doc.output();
+	}
+
+	/**
+	 * Render a project report (summary metrics and task breakdown) as a PDF
+	 */
+	renderProjectReport(
+		summary: ProjectSummary,
+		taskSummaries: TaskSummary[],
+		client: Client | undefined,
+		business: PdfBusinessDetails = { name: '' }
+	): Uint8Array {
+		const { project } = summary;
+		const doc = new PdfDocument({
+			pageSize: this.options.pageSize,
+			title: `Project Report - ${project.name}`
+		});
+		const right = doc.width - MARGIN;
+		const money = (amount: number) => this.formatMoney(amount, project.currency);
+
+		let y = this.drawHeader(doc, business, 'PROJECT REPORT', [
+			project.name,
+			`Generated ${formatDate(new Date())}`
+		]);
+
+		const clientName = client?.company || client?.name || project.clientName;
+		if (clientName) {
+			doc.text('CLIENT', MARGIN, y, { size: 8, bold: true, color: MUTED });
+			doc.text(clientName, MARGIN, y + LINE_HEIGHT, { bold: true });
+			y += LINE_HEIGHT * 3;
+		}
+
+		// Summary metrics in two columns
+		const metrics: [string, string][] = [
+			['Status', project.status],
+			['Progress', `${Math.round(summary.progressPercentage)}%`],
+			['Hours tracked', summary.totalHours.toFixed(2)],
+			['Hours estimated', project.estimatedHours?.toFixed(2) ?? '—'],
+			['Billable amount', money(summary.totalBillable)],
+			['Budget', project.budget !== undefined ? money(project.budget) : '—'],
+			['Tasks completed', `${summary.completedTasks} of ${summary.taskCount}`],
+			['Last activity', summary.lastActivity ? summary.lastActivity.slice(0, 10) : '—']
+		];
+		const columnWidth = (right - MARGIN) / 2;
+		metrics.forEach(([label, value], index) => {
+			const x = MARGIN + (index % 2) * columnWidth;
+			const rowY = y + Math.floor(index / 2) * LINE_HEIGHT;
+			doc.text(label, x, rowY, { color: MUTED });
+			doc.text(value, x + columnWidth - 20, rowY, { align: 'right' });
+		});
+		y += Math.ceil(metrics.length / 2) * LINE_HEIGHT + LINE_HEIGHT;
+
+		if (project.description) {
+			y = this.drawParagraph(doc, y, 'Description', project.description);
+		}
+
+		// Task breakdown
+		const columns: TableColumn[] = [
+			{ label: 'Task', x: MARGIN, align: 'left', width: right - MARGIN - 300 },
+			{ label: 'Status', x: right - 290, align: 'left' },
+			{ label: 'Est.', x: right - 170, align: 'right' },
+			{ label: 'Tracked', x: right - 120, align: 'right' },
+			{ label: 'Progress', x: right - 70, align: 'right' },
+			{ label: 'Billable', x: right, align: 'right' }
+		];
+		this.drawTable(
+			doc,
+			y,
+			columns,
+			taskSummaries.map(({ task, totalTime, totalBillable, progressPercentage }) => [
+				task.title,
+				task.status.replace('-', ' '),
+				task.estimatedHours?.toFixed(1) ?? '—',
+				totalTime.toFixed(1),
+				`${Math.round(progressPercentage)}%`,
+				money(totalBillable)
+			]),
+			'No tasks'
+		);
+
+		this.drawPageNumbers(doc, project.name);
+		return doc.output();
+	}
+
+	/**
+	 * Payment terms printed on an invoice: the sender's own wording, or the
+	 * terms implied by the issue and due dates
+	 */
+	describePaymentTerms(
+		invoice: Pick<Invoice, 'issueDate' | 'dueDate'>,
+		business: Pick<PdfBusinessDetails, 'paymentTerms'> = {}
+	): string {
+		if (business.paymentTerms?.trim()) {
+			return business.paymentTerms.trim();
+		}
+
+		const days = Math.round(
+			(new Date(`${invoice.dueDate}T00:00:00`).getTime() -
+				new Date(`${invoice.issueDate}T00:00:00`).getTime()) /
+				86_400_000
+		);
+
+		return days > 0
+			? `Payment due within ${days} days of the invoice date (by ${invoice.dueDate}).`
+			: 'Payment due on receipt.';
+	}
+
+	/**
+	 * File name for a downloaded invoice
+	 */
+	getInvoiceFileName(invoice: Pick<Invoice, 'number'>): string {
+		return `${invoice.number}.pdf`;
+	}
+
+	/**
+	 * File name for a downloaded project report
+	 */
+	getProjectReportFileName(project: Pick<Project, 'name'>): string {
+		const slug = project.name
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-|-$/g, '');
+		return `${slug || 'project'}-report-${formatDate(new Date())}.pdf`;
+	}
+
+	// Draw the logo, sender details and document title; returns the y below them
+	private drawHeader(
+		doc: PdfDocument,
+		business: PdfBusinessDetails,
+		title: string,
+		subtitles: string[]
+	): number {
+		const right = doc.width - MARGIN;
+		let y = MARGIN;
+
+		if (business.logo) {
+			y += doc.image(business.logo, MARGIN, y, 160, 60).height + 10;
+		}
+		if (business.name) {
+			y += 10;
+			doc.text(business.name, MARGIN, y, { bold: true, size: 11 });
+		}
+		if (business.address) {
+			wrapPdfText(business.address, 240, 9).forEach((line) => {
+				y += 12;
+				doc.text(line, MARGIN, y, { size: 9, color: MUTED });
+			});
+		}
+
+		doc.text(title, right, MARGIN + 18, { align: 'right', bold: true, size: 20 });
+		subtitles.forEach((subtitle, index) => {
+			doc.text(subtitle, right, MARGIN + 38 + index * LINE_HEIGHT, {
+				align: 'right',
+				color: MUTED
+			});
+		});
+
+		y = Math.max(y, MARGIN + 38 + subtitles.length * LINE_HEIGHT) + 30;
+		doc.line(MARGIN, y - 15, right, y - 15, { color: RULE });
+		return y;
+	}
+
+	// Draw a table with a shaded header row, repeating the header on new pages
+	private drawTable(
+		doc: PdfDocument,
+		startY: number,
+		columns: TableColumn[],
+		rows: string[][],
+		emptyText = 'No items'
+	): number {
+		const right = doc.width - MARGIN;
+
+		const drawHeaderRow = (y: number) => {
+			doc.rect(MARGIN, y - 12, right - MARGIN, 18, HEADER_FILL);
+			columns.forEach((column) => {
+				doc.text(column.label, column.x, y, { bold: true, size: 9, align: column.align });
+			});
+			return y + 20;
+		};
+
+		let y = drawHeaderRow(this.ensureSpace(doc, startY, 60));
+
+		if (rows.length === 0) {
+			doc.text(emptyText, MARGIN, y, { color: MUTED });
+			return y + LINE_HEIGHT;
+		}
+
+		rows.forEach((cells) => {
+			const wrapped = columns.map((column, index) =>
+				column.width ? wrapPdfText(cells[index] ?? '', column.width, 10) : [cells[index] ?? '']
+			);
+			const height = Math.max(...wrapped.map((lines) => lines.length)) * LINE_HEIGHT;
+
+			const nextY = this.ensureSpace(doc, y, height + 6);
+			y = nextY === y ? y : drawHeaderRow(nextY);
+
+			columns.forEach((column, index) => {
+				(wrapped[index] ?? []).forEach((line, lineIndex) => {
+					doc.text(line, column.x, y + lineIndex * LINE_HEIGHT, { align: column.align });
+				});
+			});
+
+			y += height;
+			doc.line(MARGIN, y - 8, right, y - 8, { color: RULE });
+			y += 6;
+		});
+
+		return y;
+	}
+
+	// Draw a labelled block of wrapped text
+	private drawParagraph(doc: PdfDocument, startY: number, label: string, text: string): number {
+		const lines = wrapPdfText(text, doc.width - MARGIN * 2, 10);
+		let y = this.ensureSpace(doc, startY, LINE_HEIGHT * 2);
+
+		doc.text(label.toUpperCase(), MARGIN, y, { size: 8, bold: true, color: MUTED });
+		lines.forEach((line) => {
+			y = this.ensureSpace(doc, y + LINE_HEIGHT, LINE_HEIGHT);
+			doc.text(line, MARGIN, y);
+		});
+
+		return y + LINE_HEIGHT * 2;
+	}
+
+	// Start a new page when the content would run into the footer
+	private ensureSpace(doc: PdfDocument, y: number, needed: number): number {
+		if (y + needed <= doc.height - MARGIN - 20) {
+			return y;
+		}
+		doc.addPage();
+		return MARGIN + 20;
+	}
+
+	private drawPageNumbers(doc: PdfDocument, label: string): void {
+		const total = doc.pageCount;
+		for (let index = 0; index < total; index++) {
+			doc.goToPage(index);
+			const y = doc.height - MARGIN + 20;
+			doc.text(label, MARGIN, y, { size: 8, color: MUTED });
+			doc.text(`Page ${index + 1} of ${total}`, doc.width - MARGIN, y, {
+				size: 8,
+				color: MUTED,
+				align: 'right'
+			});
+		}
+	}
+
+	private formatMoney(amount: number, currency: string): string {
+		return formatCurrency(amount, currency, this.options.locale);
+	}
+}
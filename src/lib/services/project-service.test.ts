@@ -8,6 +8,8 @@
 import { describe, it, expect } from 'vitest';
 import { ProjectService } from './project-service.js';
 import type { Project, ProjectFilter } from '$lib/types/index.js';
+import { createMockTask, createMockTimeEntry } from '$lib/utils/test-helpers.js';
+import { createCurrencyConverter } from '$lib/utils/currency-utils.js';
 
 describe('ProjectService', () => {
 	let projectService: ProjectService;
@@ -79,6 +81,20 @@ describe('ProjectService', () => {
 			expect(result.isValid).toBe(true);
 			expect(result.warnings.some(w => w.includes('Estimated hours'))).toBe(true);
 		});
+
+		it('should validate the billing model', () => {
+			const invalidProject = {
+				...validProject,
+				billingModel: {
+					type: 'fixed-fee' as const,
+					fee: 5000,
+					milestones: [{ id: 'm1', name: 'Design', amount: 2000 }]
+				}
+			};
+			const result = projectService.validateProject(invalidProject);
+			expect(result.isValid).toBe(false);
+			expect(result.errors).toContain('Billing model: Milestone amounts must add up to the fixed fee');
+		});
 	});
 
 	describe('Project Filtering', () => {
@@ -246,6 +262,7 @@ describe('ProjectService', () => {
 				name: 'Project 1',
 				clientName: 'Client 1',
 				defaultBillingRate: 100,
+				currency: 'USD',
 				colorCode: '#3B82F6',
 				status: 'active',
 				actualHours: 0,
@@ -262,6 +279,7 @@ describe('ProjectService', () => {
 				name: 'Project 2',
 				clientName: 'Client 2',
 				defaultBillingRate: 150,
+				currency: 'USD',
 				colorCode: '#10B981',
 				status: 'completed',
 				actualHours: 0,
@@ -283,5 +301,133 @@ describe('ProjectService', () => {
 			expect(metrics.totalRevenue).toBe(0); // No time entries
 			expect(metrics.averageProjectDuration).toBe(10); // Both projects are 10 days
 		});
+
+		it('should use the billing rate hierarchy for revenue', () => {
+			const entries = [
+				createMockTimeEntry({ id: 'a', projectId: '1', taskId: 'task-1', billableHours: 2 }),
+				createMockTimeEntry({ id: 'b', projectId: '2', taskId: 'other', billableHours: 1 })
+			];
+			const tasks = [createMockTask({ projectId: '1', customBillingRate: 120 })];
+
+			const metrics = projectService.calculateOverallMetrics(mockProjects, tasks, entries);
+
+			// 2h at the task rate (120) + 1h at the project rate (150)
+			expect(metrics.totalRevenue).toBe(390);
+			expect(metrics.mostProfitableProject?.id).toBe('1');
+		});
+
+		it('should convert revenue into the reporting currency', () => {
+			const projects = mockProjects.map(p => (p.id === '2' ? { ...p, currency: 'EUR' } : p));
+			const entries = [
+				createMockTimeEntry({ id: 'a', projectId: '1', taskId: 'other', billableHours: 1, date: '2024-03-04' }),
+				createMockTimeEntry({ id: 'b', projectId: '2', taskId: 'other', billableHours: 2, date: '2024-03-04' })
+			];
+			const converter = createCurrencyConverter(
+				[{ id: 'rate-1', from: 'EUR', to: 'USD', rate: 1.2, date: '2024-03-01' }],
+				'USD'
+			);
+
+			const metrics = projectService.calculateOverallMetrics(projects, [], entries, {}, converter);
+
+			// $100 + 2h at €150 converted at 1.2
+			expect(metrics.totalRevenue).toBeCloseTo(460);
+			expect(metrics.currency).toBe('USD');
+			expect(metrics.mostProfitableProject?.id).toBe('2');
+			expect(metrics.unconvertedCurrencies).toBeUndefined();
+		});
+
+		it('should flag project currencies without an exchange rate', () => {
+			const projects = mockProjects.map(p => (p.id === '2' ? { ...p, currency: 'EUR' } : p));
+			const converter = createCurrencyConverter([], 'USD');
+
+			const metrics = projectService.calculateOverallMetrics(projects, [], [], {}, converter);
+
+			expect(metrics.unconvertedCurrencies).toEqual(['EUR']);
+		});
+
+		it('should report tax separately from net revenue', () => {
+			const taxProfile = {
+				id: 'tax-vat',
+				name: 'VAT',
+				rate: 20,
+				inclusive: false,
+				reverseCharge: false,
+				createdAt: '2024-01-01T00:00:00Z',
+				updatedAt: '2024-01-01T00:00:00Z'
+			};
+			const projects = mockProjects.map(p => (p.id === '1' ? { ...p, taxProfileId: 'tax-vat' } : p));
+			const entries = [
+				createMockTimeEntry({ id: 'a', projectId: '1', taskId: 'other', billableHours: 1 }),
+				createMockTimeEntry({ id: 'b', projectId: '2', taskId: 'other', billableHours: 1 })
+			];
+
+			const metrics = projectService.calculateOverallMetrics(projects, [], entries, {}, undefined, [taxProfile]);
+
+			expect(metrics.totalRevenue).toBe(250);
+			expect(metrics.netRevenue).toBe(250);
+			expect(metrics.totalTax).toBe(20);
+		});
+
+		it('should count revenue under each project\'s billing model', () => {
+			const projects = mockProjects.map(p =>
+				p.id === '1'
+					? { ...p, billingModel: { type: 'capped' as const, cap: 250 } }
+					: {
+							...p,
+							billingModel: {
+								type: 'fixed-fee' as const,
+								fee: 1000,
+								milestones: [
+									{ id: 'm1', name: 'Design', amount: 400, completedDate: '2024-01-05' },
+									{ id: 'm2', name: 'Build', amount: 600 }
+								]
+							}
+						}
+			);
+			const entries = [
+				createMockTimeEntry({ id: 'a', projectId: '1', taskId: 'other', billableHours: 3 }),
+				createMockTimeEntry({ id: 'b', projectId: '2', taskId: 'other', billableHours: 10 })
+			];
+
+			const metrics = projectService.calculateOverallMetrics(projects, [], entries);
+
+			// 3h at $100 capped at $250 + the completed $400 milestone
+			expect(metrics.totalRevenue).toBe(650);
+			expect(metrics.mostProfitableProject?.id).toBe('2');
+		});
+
+		it('should count expenses in project profitability', () => {
+			const entries = [
+				createMockTimeEntry({ id: 'a', projectId: '1', taskId: 'other', billableHours: 2 }),
+				createMockTimeEntry({ id: 'b', projectId: '2', taskId: 'other', billableHours: 1 })
+			];
+			const expense = {
+				id: 'expense-1',
+				projectId: '2',
+				date: '2024-01-05',
+				description: 'Travel',
+				amount: 100,
+				currency: 'USD',
+				category: 'travel' as const,
+				markup: 20,
+				billingStatus: 'ready' as const,
+				createdAt: '2024-01-05T00:00:00Z',
+				updatedAt: '2024-01-05T00:00:00Z'
+			};
+			const expenses = [
+				expense,
+				{ ...expense, id: 'expense-2', projectId: '1', amount: 250, billingStatus: 'non-billable' as const }
+			];
+
+			const metrics = projectService.calculateOverallMetrics(mockProjects, [], entries, {}, undefined, [], expenses);
+
+			// $200 + $150 of time, plus the travel rebilled at $120
+			expect(metrics.totalRevenue).toBe(470);
+			expect(metrics.totalExpenses).toBe(350);
+			expect(metrics.totalProfit).toBe(120);
+			// Project 1 loses $50 on its unbilled expense
+			expect(metrics.mostProfitableProject?.id).toBe('2');
+			expect(metrics.leastProfitableProject?.id).toBe('1');
+		});
 	});
 });
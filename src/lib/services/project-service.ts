@@ -19,7 +19,9 @@ import type {
 	Task, 
 	TimeEntry, 
 	ProjectSummary, 
-	ProjectFilter 
+	ProjectFilter,
+	TaxProfile,
+	Expense
 } from '$lib/types/index.js';
 import { 
 	generateProjectSummary,
@@ -27,6 +29,11 @@ import {
 	calculateTotalHours,
 	calculateBillableAmount
 } from '$lib/utils/progress-utils.js';
+import { createRateResolver, type BillingRateSources } from '$lib/utils/billing-rate-utils.js';
+import { findUnconvertedCurrencies, type CurrencyConverter } from '$lib/utils/currency-utils.js';
+import { resolveTaxProfile, splitTax } from '$lib/utils/tax-utils.js';
+import { validateBillingModel } from '$lib/utils/billing-model-utils.js';
+import { ExpenseService } from './expense-service.js';
 import { validateRequired, validateEmail, validateNumber } from '$lib/utils/validationUtils.js';
 
 export interface ProjectValidationResult {
@@ -39,13 +46,28 @@ export interface ProjectMetrics {
 	totalProjects: number;
 	activeProjects: number;
 	completedProjects: number;
+	/** Revenue from time, billing models and billable expenses with markup */
 	totalRevenue: number;
+	/** Revenue excluding tax under each project's tax profile */
+	netRevenue: number;
+	/** Tax charged on top of, or included in, the revenue */
+	totalTax: number;
+	/** Amount paid for project expenses, billable or not */
+	totalExpenses: number;
+	/** Net revenue less expenses */
+	totalProfit: number;
+	/** Currency of the revenue totals, when amounts were converted into a reporting currency */
+	currency?: string;
+	/** Currencies without an exchange rate, whose amounts are counted unconverted */
+	unconvertedCurrencies?: string[];
 	averageProjectDuration: number;
 	mostProfitableProject?: Project;
 	leastProfitableProject?: Project;
 }
 
 export class ProjectService {
+	private expenseService = new ExpenseService();
+
 	/**
 	 * Validate project data before creation or update
 	 */
@@ -98,6 +120,13 @@ export class ProjectService {
 			warnings.push('Currency should be a 3-letter ISO code (e.g., USD, EUR)');
 		}
 
+		// Billing model validation
+		if (project.billingModel) {
+			validateBillingModel(project.billingModel).forEach(error => {
+				errors.push(`Billing model: ${error}`);
+			});
+		}
+
 		return {
 			isValid: errors.length === 0,
 			errors,
@@ -106,32 +135,55 @@ export class ProjectService {
 	}
 
 	/**
-	 * Calculate comprehensive project metrics
+	 * Calculate comprehensive project metrics.
+	 * Revenue uses the billing rate hierarchy; pass clients and the global default rate in rateSources.
 	 */
 	calculateProjectMetrics(
 		project: Project,
 		tasks: Task[],
-		timeEntries: TimeEntry[]
+		timeEntries: TimeEntry[],
+		rateSources: BillingRateSources = {}
 	): ProjectSummary {
-		return generateProjectSummary(project, tasks, timeEntries);
+		return generateProjectSummary(project, tasks, timeEntries, rateSources);
 	}
 
 	/**
-	 * Calculate metrics for multiple projects
+	 * Calculate metrics for multiple projects.
+	 * Pass a converter when projects use different currencies so revenue is
+	 * summed and ranked in one reporting currency, tax profiles to report
+	 * tax separately from net revenue, and expenses to count their cost and
+	 * rebilled amount in each project's profitability. Currencies without an
+	 * exchange rate are listed in `unconvertedCurrencies`.
 	 */
 	calculateOverallMetrics(
 		projects: Project[],
 		tasks: Task[],
-		timeEntries: TimeEntry[]
+		timeEntries: TimeEntry[],
+		rateSources: BillingRateSources = {},
+		converter?: CurrencyConverter,
+		taxProfiles: TaxProfile[] = [],
+		expenses: Expense[] = []
 	): ProjectMetrics {
 		const activeProjects = projects.filter(p => p.status === 'active').length;
 		const completedProjects = projects.filter(p => p.status === 'completed').length;
+		const resolveRate = createRateResolver({ ...rateSources, projects, tasks }, converter);
+		const projectExpenses = (project: Project) =>
+			this.expenseService.calculateTotals(
+				expenses.filter(expense => expense.projectId === project.id),
+				converter
+			);
+
+		// Revenue and expense cost per project
+		const projectProfitability = projects.map(project => {
+			const { cost, billable } = projectExpenses(project);
+			const revenue =
+				this.calculateProjectRevenue(project, timeEntries, resolveRate, converter) + billable;
+			return { project, revenue, cost, profit: revenue - cost };
+		});
 
 		// Calculate total revenue
-		const totalRevenue = projects.reduce((total, project) => {
-			const projectEntries = timeEntries.filter(entry => entry.projectId === project.id);
-			return total + calculateBillableAmount(projectEntries, project.defaultBillingRate);
-		}, 0);
+		const totalRevenue = projectProfitability.reduce((total, { revenue }) => total + revenue, 0);
+		const totalExpenses = projectProfitability.reduce((total, { cost }) => total + cost, 0);
 
 		// Calculate average project duration
 		const completedProjectsWithDuration = projects
@@ -146,26 +198,47 @@ export class ProjectService {
 			? completedProjectsWithDuration.reduce((sum, duration) => sum + duration, 0) / completedProjectsWithDuration.length
 			: 0;
 
-		// Find most and least profitable projects
-		const projectProfitability = projects.map(project => {
-			const projectEntries = timeEntries.filter(entry => entry.projectId === project.id);
-			const revenue = calculateBillableAmount(projectEntries, project.defaultBillingRate);
-			return { project, revenue };
-		});
+		// Split revenue into net revenue and tax under each project's tax profile
+		const { netRevenue, totalTax } = projectProfitability.reduce(
+			(totals, { project, revenue }) => {
+				const taxProfile = resolveTaxProfile(project, rateSources.clients, taxProfiles);
+				const { net, tax } = splitTax(revenue, taxProfile);
+				return { netRevenue: totals.netRevenue + net, totalTax: totals.totalTax + tax };
+			},
+			{ netRevenue: 0, totalTax: 0 }
+		);
 
-		const sortedByRevenue = projectProfitability.sort((a, b) => b.revenue - a.revenue);
-		const mostProfitableProject = sortedByRevenue[0]?.project;
-		const leastProfitableProject = sortedByRevenue[sortedByRevenue.length - 1]?.project;
+		// Find most and least profitable projects
+		const sortedByProfit = projectProfitability.sort((a, b) => b.profit - a.profit);
+		const mostProfitableProject = sortedByProfit[0]?.project;
+		const leastProfitableProject = sortedByProfit[sortedByProfit.length - 1]?.project;
 
-		return {
+		const metrics: ProjectMetrics = {
 			totalProjects: projects.length,
 			activeProjects,
 			completedProjects,
 			totalRevenue,
+			netRevenue,
+			totalTax,
+			totalExpenses,
+			totalProfit: netRevenue - totalExpenses,
 			averageProjectDuration,
 			mostProfitableProject,
 			leastProfitableProject
 		};
+
+		if (converter) {
+			metrics.currency = converter.reportingCurrency;
+			const unconverted = findUnconvertedCurrencies(converter, [
+				...projects.map(project => project.currency),
+				...expenses.map(expense => expense.currency)
+			]);
+			if (unconverted.length > 0) {
+				metrics.unconvertedCurrencies = unconverted;
+			}
+		}
+
+		return metrics;
 	}
 
 	/**
@@ -245,8 +318,14 @@ export class ProjectService {
 		sortBy: 'name' | 'client' | 'created' | 'updated' | 'progress' | 'revenue',
 		direction: 'asc' | 'desc' = 'asc',
 		tasks: Task[] = [],
-		timeEntries: TimeEntry[] = []
+		timeEntries: TimeEntry[] = [],
+		rateSources: BillingRateSources = {},
+		converter?: CurrencyConverter
 	): Project[] {
+		const resolveRate = createRateResolver({ ...rateSources, projects, tasks }, converter);
+		const projectRevenue = (project: Project) =>
+			this.calculateProjectRevenue(project, timeEntries, resolveRate, converter);
+
 		return [...projects].sort((a, b) => {
 			let comparison = 0;
 
@@ -269,11 +348,7 @@ export class ProjectService {
 					comparison = progressA - progressB;
 					break;
 				case 'revenue':
-					const entriesA = timeEntries.filter(e => e.projectId === a.id);
-					const entriesB = timeEntries.filter(e => e.projectId === b.id);
-					const revenueA = calculateBillableAmount(entriesA, a.defaultBillingRate);
-					const revenueB = calculateBillableAmount(entriesB, b.defaultBillingRate);
-					comparison = revenueA - revenueB;
+					comparison = projectRevenue(a) - projectRevenue(b);
 					break;
 			}
 
@@ -325,4 +400,22 @@ export class ProjectService {
 			...overrides
 		};
 	}
+
+	/**
+	 * Revenue for a project's entries under its billing model. With a converter,
+	 * the model's fixed amounts are converted from the project currency too.
+	 */
+	private calculateProjectRevenue(
+		project: Project,
+		timeEntries: TimeEntry[],
+		resolveRate: (entry: TimeEntry) => number,
+		converter?: CurrencyConverter
+	): number {
+		return calculateBillableAmount(
+			timeEntries.filter(entry => entry.projectId === project.id),
+			resolveRate,
+			project.billingModel,
+			converter && ((amount, date) => converter.convert(amount, project.currency, date))
+		);
+	}
 }
@@ -0,0 +1,124 @@
+/**
+ * TimeFlow Pro Receipt Service
+ *
+ * Stores expense receipt files in IndexedDB, which holds binary files and far
+ * more data than localStorage. Expenses keep only the receipt metadata and
+ * look the file up by its receipt ID.
+ *
+ * @example
+ * ```typescript
+ * import { receiptService } from '$lib/services/receipt-service';
+ *
+ * const receipt = await receiptService.saveReceipt(file);
+ * const blob = await receiptService.getReceipt(receipt.id);
+ * ```
+ */
+
+import type { ExpenseReceipt } from '$lib/types/index.js';
+
+// Constants
+const RECEIPT_DB_NAME = 'TimeFlowProReceipts';
+const RECEIPT_STORE_NAME = 'receipts';
+const MAX_RECEIPT_BYTES = 10 * 1024 * 1024; // 10 MB
+
+interface StoredReceipt extends ExpenseReceipt {
+	file: Blob;
+}
+
+class ReceiptService {
+	private db: Promise<IDBDatabase> | null = null;
+
+	/**
+	 * Whether receipts can be stored in this environment
+	 */
+	isAvailable(): boolean {
+		return typeof indexedDB !== 'undefined';
+	}
+
+	/**
+	 * Store a receipt file and return its metadata
+	 */
+	async saveReceipt(
+		file: Blob,
+		name: string = file instanceof File ? file.name : 'receipt'
+	): Promise<ExpenseReceipt> {
+		if (file.size > MAX_RECEIPT_BYTES) {
+			throw new Error('Receipts must be 10 MB or smaller');
+		}
+
+		const receipt: ExpenseReceipt = {
+			id: `receipt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+			name,
+			type: file.type,
+			size: file.size
+		};
+
+		await this.request('readwrite', (store) =>
+			store.put({ ...receipt, file } satisfies StoredReceipt)
+		);
+
+		return receipt;
+	}
+
+	/**
+	 * Get a stored receipt file
+	 */
+	async getReceipt(receiptId: string): Promise<Blob | undefined> {
+		const stored = await this.request<StoredReceipt | undefined>('readonly', (store) =>
+			store.get(receiptId)
+		);
+		return stored?.file;
+	}
+
+	/**
+	 * Remove a stored receipt file
+	 */
+	async deleteReceipt(receiptId: string): Promise<void> {
+		await this.request('readwrite', (store) => store.delete(receiptId));
+	}
+
+	// Private methods
+
+	private openDatabase(): Promise<IDBDatabase> {
+		if (!this.isAvailable()) {
+			return Promise.reject(new Error('Receipt storage is not available'));
+		}
+
+		this.db ??= new Promise((resolve, reject) => {
+			const request = indexedDB.open(RECEIPT_DB_NAME, 1);
+
+			request.onerror = () => {
+				this.db = null;
+				reject(request.error);
+			};
+			request.onsuccess = () => resolve(request.result);
+
+			request.onupgradeneeded = (event) => {
+				const db = (event.target as IDBOpenDBRequest).result;
+				if (!db.objectStoreNames.contains(RECEIPT_STORE_NAME)) {
+					db.createObjectStore(RECEIPT_STORE_NAME, { keyPath: 'id' });
+				}
+			};
+		});
+
+		return this.db;
+	}
+
+	private async request<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest
+	): Promise<T> {
+		const db = await this.openDatabase();
+
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction([RECEIPT_STORE_NAME], mode);
+			const request = operation(transaction.objectStore(RECEIPT_STORE_NAME));
+
+			request.onerror = () => reject(request.error);
+			request.onsuccess = () => resolve(request.result as T);
+		});
+	}
+}
+
+// Export singleton instance
+export const receiptService = new ReceiptService();
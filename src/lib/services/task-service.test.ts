@@ -0,0 +1,122 @@
+/**
+ * Task Service Tests for TimeFlow Pro
+ *
+ * Tests for task dependency and subtask validation: missing tasks,
+ * cross-project links and cycles; status changes; and time-in-status metrics.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskService } from './task-service.js';
+import { createMockTask } from '../utils/test-helpers.js';
+
+describe('TaskService', () => {
+	let service: TaskService;
+
+	const design = createMockTask({ id: 'design', title: 'Design' });
+	const build = createMockTask({ id: 'build', title: 'Build', dependencies: ['design'] });
+	const review = createMockTask({ id: 'review', title: 'Review', projectId: 'project-2' });
+	const tasks = [design, build, review];
+
+	beforeEach(() => {
+		service = new TaskService();
+	});
+
+	describe('Dependency validation', () => {
+		it('should accept dependencies on existing tasks in the same project', () => {
+			const result = service.validateTask({ ...build, dependencies: ['design'] }, [], tasks);
+
+			expect(result.isValid).toBe(true);
+		});
+
+		it('should reject dependencies on missing tasks and other projects', () => {
+			const result = service.validateTask(
+				createMockTask({ id: 'launch', dependencies: ['gone', 'review'] }),
+				[],
+				tasks
+			);
+
+			expect(result.errors).toEqual([
+				'Dependency tasks not found: gone',
+				'Dependencies must be in the same project: Review'
+			]);
+		});
+
+		it('should reject dependencies that create a cycle', () => {
+			const result = service.validateTask({ ...design, dependencies: ['build'] }, [], tasks);
+
+			expect(result.errors).toEqual(['Dependencies would create a cycle: Design → Build → Design']);
+		});
+
+		it('should still reject a task depending on itself', () => {
+			const result = service.validateTask({ ...design, dependencies: ['design'] }, [], tasks);
+
+			expect(result.errors).toEqual(['Task cannot depend on itself']);
+		});
+
+		it('should warn when a task is in progress before its dependencies finish', () => {
+			const started = { ...build, status: 'in-progress' as const };
+			const result = service.validateTask(started, [], [design, started, review]);
+
+			expect(result.isValid).toBe(true);
+			expect(result.warnings).toContain(
+				'Task is in progress before its dependencies are finished: Design'
+			);
+		});
+	});
+
+	describe('Subtask validation', () => {
+		const parent = createMockTask({ id: 'parent', title: 'Parent', subtasks: ['child'] });
+		const child = createMockTask({ id: 'child', title: 'Child' });
+		const other = createMockTask({ id: 'other', title: 'Other', projectId: 'project-2' });
+		const family = [parent, child, other];
+
+		it('should accept subtasks in the same project', () => {
+			expect(service.validateSubtasks(parent, family)).toEqual([]);
+		});
+
+		it('should reject missing, cross-project and already parented subtasks', () => {
+			const task = createMockTask({ id: 'new', subtasks: ['gone', 'other', 'child'] });
+
+			expect(service.validateSubtasks(task, family)).toEqual([
+				'Subtasks not found: gone',
+				'Subtasks must be in the same project: Other',
+				'Subtasks already belong to another task: Child'
+			]);
+		});
+
+		it('should reject making a parent a subtask of its own child', () => {
+			const result = service.validateTask({ ...child, subtasks: ['parent'] }, [], family);
+
+			expect(result.errors).toEqual(['Subtasks cannot include a parent of this task: Parent']);
+		});
+	});
+
+	describe('Status changes', () => {
+		it('should reject status changes the state machine does not allow', () => {
+			const cancelled = { ...design, status: 'cancelled' as const };
+			const result = service.validateTask({ ...cancelled, status: 'completed' }, [], [cancelled]);
+
+			expect(result.errors).toEqual(['Status: Cannot change a task from Cancelled to Completed']);
+		});
+
+		it('should report the average days tasks spend in each status', () => {
+			const history = (changedAt: string) => ({
+				createdAt: '2026-10-01T00:00:00.000Z',
+				statusHistory: [
+					{ to: 'pending' as const, changedAt: '2026-10-01T00:00:00.000Z' },
+					{ from: 'pending' as const, to: 'in-progress' as const, changedAt }
+				]
+			});
+			const metrics = service.calculateOverallTaskMetrics(
+				[
+					{ ...design, status: 'in-progress', ...history('2026-10-02T00:00:00.000Z') },
+					{ ...build, status: 'in-progress', ...history('2026-10-04T00:00:00.000Z') }
+				],
+				[],
+				new Date('2026-10-05T00:00:00.000Z')
+			);
+
+			expect(metrics.averageDaysInStatus).toEqual({ pending: 2, 'in-progress': 2 });
+		});
+	});
+});
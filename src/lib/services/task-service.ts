@@ -2,7 +2,10 @@
  * Task Service for TimeFlow Pro
  * 
  * Business logic for task management operations, progress tracking calculations,
- * due date and priority management, and relationship validation with projects.
+ * due date and priority management, relationship validation with projects,
+ * the other tasks a task depends on and its subtasks, and status changes
+ * checked against the task status state machine. Estimates of new tasks are
+ * checked against how long similar tasks really took.
  * 
  * @example
  * ```typescript
@@ -20,17 +23,28 @@ import type {
 	TimeEntry, 
 	TaskSummary, 
 	TaskFilter,
-	TaskProgress
+	TaskProgress,
+	TaskStatus,
+	EstimateAccuracy,
+	EstimateSuggestion
 } from '$lib/types/index.js';
 import { 
 	generateTaskSummary,
+	calculateTotalHours,
 	calculateTaskProgress,
+	calculateTaskRollup,
 	isTaskOverdue,
 	isTaskOnTrack,
 	getDaysUntilDue,
 	estimateCompletionDate
 } from '$lib/utils/progress-utils.js';
 import { validateRequired, validateNumber } from '$lib/utils/validationUtils.js';
+import { findDependencyCycle, getBlockingTasks } from '$lib/utils/task-dependency-utils.js';
+import { findParentTask, getAncestorIds } from '$lib/utils/task-hierarchy-utils.js';
+import { validateRecurrence } from '$lib/utils/recurrence-utils.js';
+import { getChecklistProgress, validateChecklist } from '$lib/utils/checklist-utils.js';
+import { getEstimateAccuracy, getEstimateSuggestion } from '$lib/utils/estimate-utils.js';
+import { TASK_STATUS_LABELS, getDaysInStatus, getStatusTransitionError } from '$lib/utils/task-status-utils.js';
 
 export interface TaskValidationResult {
 	isValid: boolean;
@@ -44,6 +58,8 @@ export interface TaskMetrics {
 	overdueTasks: number;
 	tasksOnTrack: number;
 	averageCompletionTime: number;
+	/** Average days tasks spend in each status, over the tasks that were in it */
+	averageDaysInStatus: Partial<Record<TaskStatus, number>>;
 	totalEstimatedHours: number;
 	totalActualHours: number;
 	efficiencyRatio: number;
@@ -51,9 +67,11 @@ export interface TaskMetrics {
 
 export class TaskService {
 	/**
-	 * Validate task data before creation or update
+	 * Validate task data before creation or update.
+	 * Dependencies, and status changes of saved tasks, are checked against
+	 * `tasks` when it is given.
 	 */
-	validateTask(task: Partial<Task>, projects: Project[] = []): TaskValidationResult {
+	validateTask(task: Partial<Task>, projects: Project[] = [], tasks: Task[] = []): TaskValidationResult {
 		const errors: string[] = [];
 		const warnings: string[] = [];
 
@@ -106,11 +124,51 @@ export class TaskService {
 		// Dependencies validation
 		if (task.dependencies && task.dependencies.includes(task.id || '')) {
 			errors.push('Task cannot depend on itself');
+		} else if (tasks.length > 0) {
+			errors.push(...this.validateDependencies(task, tasks));
+
+			const blocking = getBlockingTasks({ dependencies: task.dependencies || [] }, tasks);
+			if (task.status === 'in-progress' && blocking.length > 0) {
+				warnings.push(`Task is in progress before its dependencies are finished: ${blocking.map(t => t.title).join(', ')}`);
+			}
 		}
 
 		// Subtasks validation
 		if (task.subtasks && task.subtasks.includes(task.id || '')) {
 			errors.push('Task cannot be a subtask of itself');
+		} else if (tasks.length > 0) {
+			errors.push(...this.validateSubtasks(task, tasks));
+		}
+
+		// Status transition validation, from the status the task was saved with
+		const savedTask = task.id ? tasks.find(t => t.id === task.id) : undefined;
+		if (savedTask && task.status && task.status !== savedTask.status) {
+			const statusError = getStatusTransitionError(
+				{
+					status: savedTask.status,
+					dependencies: task.dependencies ?? savedTask.dependencies,
+					subtasks: task.subtasks ?? savedTask.subtasks
+				},
+				task.status,
+				tasks
+			);
+			if (statusError) {
+				errors.push(`Status: ${statusError}`);
+			}
+		}
+
+		// Checklist validation
+		if (task.checklist) {
+			validateChecklist(task.checklist).forEach(error => {
+				errors.push(`Checklist: ${error}`);
+			});
+		}
+
+		// Recurrence validation
+		if (task.recurrence) {
+			validateRecurrence(task.recurrence, task.dueDate).forEach(error => {
+				errors.push(`Recurrence: ${error}`);
+			});
 		}
 
 		return {
@@ -120,6 +178,76 @@ export class TaskService {
 		};
 	}
 
+	/**
+	 * Check a task's dependencies against the other tasks: each must exist,
+	 * belong to the same project and not lead back to the task
+	 */
+	validateDependencies(task: Partial<Task>, tasks: Task[]): string[] {
+		const errors: string[] = [];
+		const dependencies = task.dependencies || [];
+		if (dependencies.length === 0) return errors;
+
+		const missing = dependencies.filter(id => !tasks.some(t => t.id === id));
+		if (missing.length > 0) {
+			errors.push(`Dependency tasks not found: ${missing.join(', ')}`);
+		}
+
+		const otherProject = tasks.filter(t => dependencies.includes(t.id) && t.projectId !== task.projectId);
+		if (otherProject.length > 0) {
+			errors.push(`Dependencies must be in the same project: ${otherProject.map(t => t.title).join(', ')}`);
+		}
+
+		if (task.id) {
+			const cycle = findDependencyCycle(task.id, dependencies, tasks);
+			if (cycle) {
+				const titles = cycle.map(id => id === task.id ? task.title || id : tasks.find(t => t.id === id)?.title || id);
+				errors.push(`Dependencies would create a cycle: ${titles.join(' → ')}`);
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Check a task's subtasks against the other tasks: each must exist, belong
+	 * to the same project, have no other parent and not be above the task in
+	 * its tree
+	 */
+	validateSubtasks(task: Partial<Task>, tasks: Task[]): string[] {
+		const errors: string[] = [];
+		const subtasks = task.subtasks || [];
+		if (subtasks.length === 0) return errors;
+
+		const missing = subtasks.filter(id => !tasks.some(t => t.id === id));
+		if (missing.length > 0) {
+			errors.push(`Subtasks not found: ${missing.join(', ')}`);
+		}
+
+		const existing = tasks.filter(t => subtasks.includes(t.id));
+		const otherProject = existing.filter(t => t.projectId !== task.projectId);
+		if (otherProject.length > 0) {
+			errors.push(`Subtasks must be in the same project: ${otherProject.map(t => t.title).join(', ')}`);
+		}
+
+		const otherParent = existing.filter(t => {
+			const parent = findParentTask(t.id, tasks);
+			return parent && parent.id !== task.id;
+		});
+		if (otherParent.length > 0) {
+			errors.push(`Subtasks already belong to another task: ${otherParent.map(t => t.title).join(', ')}`);
+		}
+
+		if (task.id) {
+			const ancestors = getAncestorIds(task.id, tasks);
+			const above = existing.filter(t => ancestors.includes(t.id));
+			if (above.length > 0) {
+				errors.push(`Subtasks cannot include a parent of this task: ${above.map(t => t.title).join(', ')}`);
+			}
+		}
+
+		return errors;
+	}
+
 	/**
 	 * Calculate comprehensive task metrics
 	 */
@@ -132,11 +260,13 @@ export class TaskService {
 	}
 
 	/**
-	 * Calculate metrics for multiple tasks
+	 * Calculate metrics for multiple tasks.
+	 * Time in the current status counts up to `asOf`.
 	 */
 	calculateOverallTaskMetrics(
 		tasks: Task[],
-		timeEntries: TimeEntry[]
+		timeEntries: TimeEntry[],
+		asOf: Date = new Date()
 	): TaskMetrics {
 		const completedTasks = tasks.filter(t => t.status === 'completed').length;
 		const overdueTasks = tasks.filter(t => isTaskOverdue(t)).length;
@@ -155,6 +285,16 @@ export class TaskService {
 			? completedTasksWithDuration.reduce((sum, duration) => sum + duration, 0) / completedTasksWithDuration.length
 			: 0;
 
+		// Calculate average time in each status
+		const daysInStatus = tasks.map(t => getDaysInStatus(t, asOf));
+		const averageDaysInStatus: Partial<Record<TaskStatus, number>> = {};
+		(Object.keys(TASK_STATUS_LABELS) as TaskStatus[]).forEach(status => {
+			const spent = daysInStatus.flatMap(days => days[status] ?? []);
+			if (spent.length > 0) {
+				averageDaysInStatus[status] = spent.reduce((sum, days) => sum + days, 0) / spent.length;
+			}
+		});
+
 		// Calculate estimated vs actual hours
 		const totalEstimatedHours = tasks.reduce((sum, task) => sum + (task.estimatedHours || 0), 0);
 		const totalActualHours = tasks.reduce((sum, task) => {
@@ -170,12 +310,33 @@ export class TaskService {
 			overdueTasks,
 			tasksOnTrack,
 			averageCompletionTime,
+			averageDaysInStatus,
 			totalEstimatedHours,
 			totalActualHours,
 			efficiencyRatio
 		};
 	}
 
+	/**
+	 * How actual hours compared with estimates on completed tasks, per project,
+	 * time entry category and tag
+	 */
+	calculateEstimateAccuracy(tasks: Task[], timeEntries: TimeEntry[]): EstimateAccuracy[] {
+		return getEstimateAccuracy(tasks, timeEntries);
+	}
+
+	/**
+	 * Suggest a corrected estimate for a task, with a likely range, from the
+	 * completed tasks it shares a project, category or tag with
+	 */
+	suggestEstimate(
+		task: Pick<Task, 'projectId' | 'tags' | 'estimatedHours'> & { id?: string },
+		tasks: Task[],
+		timeEntries: TimeEntry[]
+	): EstimateSuggestion | undefined {
+		return getEstimateSuggestion(task, tasks, timeEntries);
+	}
+
 	/**
 	 * Filter tasks based on criteria
 	 */
@@ -296,8 +457,8 @@ export class TaskService {
 					comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
 					break;
 				case 'progress':
-					const progressA = calculateTaskProgress(a, timeEntries);
-					const progressB = calculateTaskProgress(b, timeEntries);
+					const progressA = calculateTaskProgress(a, timeEntries, tasks);
+					const progressB = calculateTaskProgress(b, timeEntries, tasks);
 					comparison = progressA - progressB;
 					break;
 			}
@@ -334,20 +495,23 @@ export class TaskService {
 	}
 
 	/**
-	 * Update task progress based on time entries
+	 * Update task progress based on time entries.
+	 * Pass the other tasks to roll up hours and progress from subtasks.
 	 */
-	updateTaskProgress(task: Task, timeEntries: TimeEntry[]): Partial<Task> {
-		const taskEntries = timeEntries.filter(entry => entry.taskId === task.id);
-		const actualHours = calculateTotalHours(taskEntries);
-		const progress = calculateTaskProgress(task, timeEntries);
+	updateTaskProgress(task: Task, timeEntries: TimeEntry[], tasks: Task[] = []): Partial<Task> {
+		const rollup = calculateTaskRollup(task, timeEntries, tasks);
+		const actualHours = rollup.actualHours;
 
 		const updates: Partial<Task> = {
 			actualHours,
-			completionPercentage: progress
+			completionPercentage: rollup.completionPercentage
 		};
 
-		// Auto-complete task if progress reaches 100% and estimated hours are met
-		if (task.estimatedHours && actualHours >= task.estimatedHours && task.status !== 'completed') {
+		// Auto-complete task if progress reaches 100% and estimated hours are met.
+		// Parents complete when their subtasks do instead, and tasks whose
+		// checklist sets their progress are not completed by hours.
+		const checklistDriven = task.progressFromChecklist && getChecklistProgress(task.checklist) !== undefined;
+		if (rollup.subtaskCount === 0 && !checklistDriven && task.estimatedHours && actualHours >= task.estimatedHours && task.status !== 'completed') {
 			updates.status = 'completed';
 			updates.completedAt = new Date().toISOString();
 		}
@@ -0,0 +1,131 @@
+/**
+ * Time Entry Service Tests for TimeFlow Pro
+ *
+ * Tests for time entry filtering and summary calculation.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TimeEntryService } from './time-entry-service.js';
+import { createMockProject, createMockTimeEntry } from '$lib/utils/test-helpers.js';
+
+describe('TimeEntryService', () => {
+	let service: TimeEntryService;
+
+	const entries = [
+		createMockTimeEntry({
+			id: 'a',
+			date: '2024-03-04',
+			duration: 2,
+			trackedHours: 2,
+			billableHours: 2,
+			category: 'development',
+			tags: ['API'],
+			description: 'Build endpoints'
+		}),
+		createMockTimeEntry({
+			id: 'b',
+			date: '2024-03-04',
+			duration: 0.5,
+			trackedHours: 0.5,
+			billableHours: 0,
+			billingStatus: 'non-billable',
+			category: 'meeting',
+			tags: [],
+			description: 'Standup',
+			fromTimer: false
+		}),
+		createMockTimeEntry({
+			id: 'c',
+			projectId: 'project-2',
+			taskId: 'task-2',
+			date: '2024-03-05',
+			duration: 1,
+			trackedHours: 1,
+			billableHours: 1,
+			billingRate: 120,
+			billingStatus: 'billed',
+			category: 'development',
+			tags: ['docs'],
+			description: 'Write guide',
+			notes: 'Customer onboarding'
+		})
+	];
+
+	beforeEach(() => {
+		service = new TimeEntryService();
+	});
+
+	describe('Filtering', () => {
+		const ids = (filter: Parameters<TimeEntryService['filterEntries']>[1]) =>
+			service.filterEntries(entries, filter).map((entry) => entry.id);
+
+		it('should return all entries for an empty filter', () => {
+			expect(ids({})).toEqual(['a', 'b', 'c']);
+		});
+
+		it('should filter by project, task and date range', () => {
+			expect(ids({ projectId: 'project-2' })).toEqual(['c']);
+			expect(ids({ taskId: 'task-1' })).toEqual(['a', 'b']);
+			expect(ids({ dateRange: { start: '2024-03-05', end: '2024-03-10' } })).toEqual(['c']);
+		});
+
+		it('should filter by category, billing status and billable flag', () => {
+			expect(ids({ category: ['meeting'] })).toEqual(['b']);
+			expect(ids({ billingStatus: ['ready', 'billed'] })).toEqual(['a', 'c']);
+			expect(ids({ isBillable: false })).toEqual(['b']);
+		});
+
+		it('should filter by tags, timer source and duration bounds', () => {
+			expect(ids({ tags: ['api'] })).toEqual(['a']);
+			expect(ids({ fromTimer: false })).toEqual(['b']);
+			expect(ids({ minDuration: 1 })).toEqual(['a', 'c']);
+			expect(ids({ maxDuration: 1 })).toEqual(['b', 'c']);
+		});
+
+		it('should search descriptions, notes and tags', () => {
+			expect(ids({ search: 'standup' })).toEqual(['b']);
+			expect(ids({ search: 'onboarding' })).toEqual(['c']);
+			expect(ids({ search: 'docs' })).toEqual(['c']);
+		});
+	});
+
+	describe('Summary', () => {
+		it('should calculate a complete summary', () => {
+			const summary = service.calculateSummary(entries, [createMockProject()]);
+
+			expect(summary.totalEntries).toBe(3);
+			expect(summary.totalTrackedHours).toBe(3.5);
+			expect(summary.totalBillableHours).toBe(3);
+			// 2h at the project rate (75) + 1h at the entry rate (120)
+			expect(summary.totalBillableAmount).toBe(270);
+			expect(summary.averageHoursPerDay).toBe(1.75);
+			expect(summary.mostProductiveDay).toBe('2024-03-04');
+			expect(summary.mostCommonCategory).toBe('development');
+			expect(summary.entriesByStatus).toEqual({
+				ready: 1,
+				billed: 1,
+				paid: 0,
+				'non-billable': 1
+			});
+			expect(summary.entriesByCategory.development).toBe(2);
+			expect(summary.entriesByCategory.meeting).toBe(1);
+			expect(summary.entriesByCategory.other).toBe(0);
+		});
+
+		it('should return an empty summary for no entries', () => {
+			const summary = service.calculateSummary([]);
+
+			expect(summary.totalEntries).toBe(0);
+			expect(summary.averageHoursPerDay).toBe(0);
+			expect(summary).not.toHaveProperty('mostProductiveDay');
+			expect(summary).not.toHaveProperty('mostCommonCategory');
+		});
+
+		it('should summarize filtered entries', () => {
+			const summary = service.getFilteredSummary(entries, { projectId: 'project-2' });
+
+			expect(summary.totalEntries).toBe(1);
+			expect(summary.totalBillableAmount).toBe(120);
+		});
+	});
+});
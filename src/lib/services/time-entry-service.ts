@@ -0,0 +1,224 @@
+/**
+ * Time Entry Service for TimeFlow Pro
+ *
+ * Business logic for filtering time entries and aggregating them into
+ * summaries (totals, daily averages, status and category breakdowns).
+ *
+ * @example
+ * ```typescript
+ * import { TimeEntryService } from '$lib/services/time-entry-service';
+ *
+ * const service = new TimeEntryService();
+ * const entries = service.filterEntries(timeEntries, { billingStatus: ['ready'] });
+ * const summary = service.calculateSummary(entries, projects);
+ * ```
+ */
+
+import type {
+	BillingStatus,
+	Project,
+	TimeEntry,
+	TimeEntryCategory,
+	TimeEntryFilter,
+	TimeEntrySummary
+} from '$lib/types/index.js';
+import { calculateBillableAmount, calculateBillableHours } from '$lib/utils/progress-utils.js';
+import { createRateResolver, type BillingRateSources } from '$lib/utils/billing-rate-utils.js';
+import { findUnconvertedCurrencies, type CurrencyConverter } from '$lib/utils/currency-utils.js';
+
+const BILLING_STATUSES: BillingStatus[] = ['ready', 'billed', 'paid', 'non-billable'];
+
+const CATEGORIES: TimeEntryCategory[] = [
+	'development',
+	'design',
+	'review',
+	'meeting',
+	'research',
+	'testing',
+	'documentation',
+	'planning',
+	'bug-fix',
+	'maintenance',
+	'other'
+];
+
+export class TimeEntryService {
+	/**
+	 * Filter time entries by every field of a TimeEntryFilter
+	 */
+	filterEntries(entries: TimeEntry[], filter: TimeEntryFilter): TimeEntry[] {
+		return entries.filter((entry) => {
+			// Project and task filters
+			if (filter.projectId && entry.projectId !== filter.projectId) {
+				return false;
+			}
+
+			if (filter.taskId && entry.taskId !== filter.taskId) {
+				return false;
+			}
+
+			// Date range filter (inclusive, YYYY-MM-DD)
+			if (filter.dateRange) {
+				if (entry.date < filter.dateRange.start || entry.date > filter.dateRange.end) {
+					return false;
+				}
+			}
+
+			// Category filter
+			if (filter.category && filter.category.length > 0) {
+				if (!filter.category.includes(entry.category)) return false;
+			}
+
+			// Billing status filter
+			if (filter.billingStatus && filter.billingStatus.length > 0) {
+				if (!filter.billingStatus.includes(entry.billingStatus)) return false;
+			}
+
+			// Tags filter (any matching tag)
+			if (filter.tags && filter.tags.length > 0) {
+				const hasMatchingTag = filter.tags.some((tag) =>
+					entry.tags.some((entryTag) => entryTag.toLowerCase() === tag.toLowerCase())
+				);
+				if (!hasMatchingTag) return false;
+			}
+
+			// Billable filter
+			if (filter.isBillable !== undefined && this.isBillable(entry) !== filter.isBillable) {
+				return false;
+			}
+
+			// Timer source filter
+			if (filter.fromTimer !== undefined && entry.fromTimer !== filter.fromTimer) {
+				return false;
+			}
+
+			// Duration bounds (hours)
+			if (filter.minDuration !== undefined && entry.duration < filter.minDuration) {
+				return false;
+			}
+
+			if (filter.maxDuration !== undefined && entry.duration > filter.maxDuration) {
+				return false;
+			}
+
+			// Search filter
+			if (filter.search) {
+				const searchTerm = filter.search.toLowerCase();
+				const searchableText = [entry.description, entry.notes || '', entry.category, ...entry.tags]
+					.join(' ')
+					.toLowerCase();
+
+				if (!searchableText.includes(searchTerm)) {
+					return false;
+				}
+			}
+
+			return true;
+		});
+	}
+
+	/**
+	 * Aggregate time entries into a summary.
+	 * Billable amounts use the billing rate hierarchy (entry, task, project, client, default),
+	 * converted into the reporting currency when a converter is given. Currencies
+	 * without an exchange rate are listed in `unconvertedCurrencies`.
+	 */
+	calculateSummary(
+		entries: TimeEntry[],
+		projects: Project[] = [],
+		rateSources: BillingRateSources = {},
+		converter?: CurrencyConverter
+	): TimeEntrySummary {
+		const entriesByStatus = Object.fromEntries(
+			BILLING_STATUSES.map((status) => [status, 0])
+		) as Record<BillingStatus, number>;
+		const entriesByCategory = Object.fromEntries(
+			CATEGORIES.map((category) => [category, 0])
+		) as Record<TimeEntryCategory, number>;
+		const hoursByDay = new Map<string, number>();
+
+		entries.forEach((entry) => {
+			entriesByStatus[entry.billingStatus]++;
+			entriesByCategory[entry.category]++;
+			hoursByDay.set(entry.date, (hoursByDay.get(entry.date) ?? 0) + entry.trackedHours);
+		});
+
+		const totalBillableAmount = calculateBillableAmount(
+			entries,
+			createRateResolver({ ...rateSources, projects }, converter)
+		);
+
+		const totalTrackedHours = entries.reduce((sum, entry) => sum + entry.trackedHours, 0);
+		const summary: TimeEntrySummary = {
+			totalEntries: entries.length,
+			totalTrackedHours,
+			totalBillableHours: calculateBillableHours(entries),
+			totalBillableAmount,
+			averageHoursPerDay: hoursByDay.size > 0 ? totalTrackedHours / hoursByDay.size : 0,
+			entriesByStatus,
+			entriesByCategory
+		};
+
+		if (converter) {
+			summary.currency = converter.reportingCurrency;
+			const unconverted = findUnconvertedCurrencies(
+				converter,
+				entries.flatMap((entry) => projects.find((p) => p.id === entry.projectId)?.currency ?? [])
+			);
+			if (unconverted.length > 0) {
+				summary.unconvertedCurrencies = unconverted;
+			}
+		}
+
+		const mostProductiveDay = this.findLargest(hoursByDay);
+		if (mostProductiveDay) {
+			summary.mostProductiveDay = mostProductiveDay;
+		}
+
+		const mostCommonCategory = this.findLargest(
+			new Map(Object.entries(entriesByCategory) as Array<[TimeEntryCategory, number]>)
+		);
+		if (mostCommonCategory) {
+			summary.mostCommonCategory = mostCommonCategory;
+		}
+
+		return summary;
+	}
+
+	/**
+	 * Filter time entries and summarize the result
+	 */
+	getFilteredSummary(
+		entries: TimeEntry[],
+		filter: TimeEntryFilter,
+		projects: Project[] = [],
+		rateSources: BillingRateSources = {},
+		converter?: CurrencyConverter
+	): TimeEntrySummary {
+		return this.calculateSummary(
+			this.filterEntries(entries, filter),
+			projects,
+			rateSources,
+			converter
+		);
+	}
+
+	private isBillable(entry: TimeEntry): boolean {
+		return entry.billingStatus !== 'non-billable';
+	}
+
+	// Key with the largest positive value; the first one wins ties
+	private findLargest<K>(values: Map<K, number>): K | undefined {
+		let largest: K | undefined;
+		let largestValue = 0;
+
+		values.forEach((value, key) => {
+			if (value > largestValue) {
+				largest = key;
+				largestValue = value;
+			}
+		});
+
+		return largest;
+	}
+}
@@ -0,0 +1,181 @@
+/**
+ * Time Entry Validator Tests for TimeFlow Pro
+ *
+ * Tests for overlap, duration, midnight and gap checks on time entries.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TimeEntryValidator } from './time-entry-validator.js';
+import { createMockTimeEntry } from '$lib/utils/test-helpers.js';
+import { createManualTimeEntry } from '$lib/utils/time-entry-utils.js';
+import type { TimeEntry } from '$lib/types/index.js';
+
+function entryAt(id: string, start: string, end: string, overrides: Partial<TimeEntry> = {}) {
+	const duration = (new Date(end).getTime() - new Date(start).getTime()) / 3600000;
+	return createMockTimeEntry({
+		id,
+		date: start.slice(0, 10),
+		startTime: start,
+		endTime: end,
+		duration,
+		description: id,
+		...overrides
+	});
+}
+
+describe('TimeEntryValidator', () => {
+	let validator: TimeEntryValidator;
+
+	beforeEach(() => {
+		validator = new TimeEntryValidator();
+	});
+
+	describe('validateEntry', () => {
+		it('should accept a consistent entry', () => {
+			const entry = entryAt('a', '2024-03-04T09:00:00Z', '2024-03-04T11:00:00Z');
+			const result = validator.validateEntry(entry);
+
+			expect(result.isValid).toBe(true);
+			expect(result.errors).toHaveLength(0);
+			expect(result.warnings).toHaveLength(0);
+		});
+
+		it('should flag a duration that does not match start and end', () => {
+			const entry = entryAt('a', '2024-03-04T09:00:00Z', '2024-03-04T11:00:00Z', {
+				duration: 3
+			});
+			const result = validator.validateEntry(entry);
+
+			expect(result.isValid).toBe(false);
+			expect(result.errors[0]).toContain('does not match');
+			expect(result.suggestions).toContain('Set the duration to 2.00h');
+		});
+
+		it('should reject an end time before the start time', () => {
+			const entry = entryAt('a', '2024-03-04T11:00:00Z', '2024-03-04T09:00:00Z');
+
+			expect(validator.validateEntry(entry).errors).toContain('End time must be after start time');
+		});
+
+		it('should warn about entries crossing midnight', () => {
+			const entry = entryAt('a', '2024-03-04T23:00:00Z', '2024-03-05T01:00:00Z');
+			const result = validator.validateEntry(entry);
+
+			expect(result.isValid).toBe(true);
+			expect(result.warnings).toContain('Entry crosses midnight');
+			expect(result.suggestions).toContain('Split the entry at midnight');
+		});
+
+		it('should not treat an entry ending at midnight as crossing it', () => {
+			const entry = entryAt('a', '2024-03-04T22:00:00Z', '2024-03-05T00:00:00Z');
+
+			expect(validator.validateEntry(entry).warnings).toHaveLength(0);
+		});
+
+		it('should flag overlaps with other entries', () => {
+			const entry = entryAt('a', '2024-03-04T09:00:00Z', '2024-03-04T11:00:00Z');
+			const other = entryAt('b', '2024-03-04T10:30:00Z', '2024-03-04T12:00:00Z');
+			const result = validator.validateEntry(entry, [entry, other]);
+
+			expect(result.isValid).toBe(false);
+			expect(result.errors).toContain('Overlaps with "b" by 30 minutes');
+			expect(result.suggestions).toContain('Merge with the overlapping entry');
+		});
+	});
+
+	describe('findOverlaps', () => {
+		it('should find every overlapping pair', () => {
+			const entries = [
+				entryAt('a', '2024-03-04T09:00:00Z', '2024-03-04T12:00:00Z'),
+				entryAt('b', '2024-03-04T10:00:00Z', '2024-03-04T10:30:00Z'),
+				entryAt('c', '2024-03-04T11:45:00Z', '2024-03-04T13:00:00Z'),
+				entryAt('d', '2024-03-04T13:00:00Z', '2024-03-04T14:00:00Z')
+			];
+			const overlaps = validator.findOverlaps(entries);
+
+			expect(overlaps.map((o) => [o.first.id, o.second.id, o.minutes])).toEqual([
+				['a', 'b', 30],
+				['a', 'c', 15]
+			]);
+		});
+	});
+
+	describe('findGaps', () => {
+		it('should report gaps within the configured range', () => {
+			const entries = [
+				entryAt('a', '2024-03-04T09:00:00Z', '2024-03-04T10:00:00Z'),
+				entryAt('b', '2024-03-04T10:05:00Z', '2024-03-04T11:00:00Z'),
+				entryAt('c', '2024-03-04T11:45:00Z', '2024-03-04T12:00:00Z'),
+				entryAt('d', '2024-03-04T20:00:00Z', '2024-03-04T21:00:00Z')
+			];
+			const gaps = validator.findGaps(entries);
+
+			expect(gaps).toHaveLength(1);
+			expect(gaps[0]?.before.id).toBe('b');
+			expect(gaps[0]?.after.id).toBe('c');
+			expect(gaps[0]?.minutes).toBe(45);
+		});
+
+		it('should not report gaps covered by a longer entry', () => {
+			const entries = [
+				entryAt('a', '2024-03-04T09:00:00Z', '2024-03-04T12:00:00Z'),
+				entryAt('b', '2024-03-04T09:30:00Z', '2024-03-04T10:00:00Z'),
+				entryAt('c', '2024-03-04T11:00:00Z', '2024-03-04T12:30:00Z')
+			];
+
+			expect(validator.findGaps(entries)).toHaveLength(0);
+		});
+	});
+
+	describe('validateEntries', () => {
+		it('should combine overlaps, gaps and merge suggestions', () => {
+			const entries = [
+				entryAt('a', '2024-03-04T09:00:00Z', '2024-03-04T10:00:00Z'),
+				entryAt('b', '2024-03-04T10:02:00Z', '2024-03-04T11:00:00Z'),
+				entryAt('c', '2024-03-04T12:00:00Z', '2024-03-04T13:00:00Z', { taskId: 'task-2' }),
+				entryAt('d', '2024-03-04T12:30:00Z', '2024-03-04T13:30:00Z', { taskId: 'task-3' })
+			];
+			const result = validator.validateEntries(entries);
+
+			expect(result.isValid).toBe(false);
+			expect(result.errors).toEqual(['2024-03-04: "c" and "d" overlap by 30 minutes']);
+			expect(result.warnings.some((w) => w.includes('Unexplained gap of 60 minutes'))).toBe(true);
+			expect(result.suggestions).toContain('2024-03-04: Merge "a" with adjacent entry');
+			expect(result.suggestions).toContain('2024-03-04: Trim one of the overlapping entries');
+		});
+
+		it('should not flag manual timesheet rows on the same day as overlapping', () => {
+			const entries = [
+				{
+					id: 'a',
+					createdAt: '',
+					updatedAt: '',
+					...createManualTimeEntry('2024-03-04', 3, { projectId: 'project-1' })
+				},
+				{
+					id: 'b',
+					createdAt: '',
+					updatedAt: '',
+					...createManualTimeEntry('2024-03-04', 2, { projectId: 'project-2' })
+				},
+				entryAt('c', '2024-03-04T09:30:00Z', '2024-03-04T10:00:00Z')
+			];
+			const result = validator.validateEntries(entries);
+
+			expect(result.isValid).toBe(true);
+			expect(result.warnings).toHaveLength(0);
+			expect(validator.validateEntry(entries[0]!, entries).errors).toHaveLength(0);
+		});
+
+		it('should respect custom options', () => {
+			const strict = new TimeEntryValidator({ minGapMinutes: 1 });
+			const entries = [
+				entryAt('a', '2024-03-04T09:00:00Z', '2024-03-04T10:00:00Z'),
+				entryAt('b', '2024-03-04T10:10:00Z', '2024-03-04T11:00:00Z', { taskId: 'task-2' })
+			];
+
+			expect(validator.validateEntries(entries).warnings).toHaveLength(0);
+			expect(strict.validateEntries(entries).warnings).toHaveLength(1);
+		});
+	});
+});
@@ -0,0 +1,307 @@
+/**
+ * Time Entry Validator for TimeFlow Pro
+ *
+ * Consistency checks for time entries: overlapping entries, durations that do
+ * not match their start and end times, entries crossing midnight and
+ * unexplained gaps in a workday. Results use the `TimeEntryValidation` shape
+ * so they can be shown next to the affected entries.
+ *
+ * Only timer entries have real clock times. Manual entries record hours on a
+ * day, with placeholder start times, so they are left out of the overlap and
+ * gap checks.
+ *
+ * @example
+ * ```typescript
+ * import { TimeEntryValidator } from '$lib/services/time-entry-validator';
+ *
+ * const validator = new TimeEntryValidator();
+ * const validation = validator.validateEntry(entry, otherEntries);
+ * const weekCheck = validator.validateEntries(weekEntries);
+ * ```
+ */
+
+import type { TimeEntry, TimeEntryValidation } from '$lib/types/index.js';
+import { calculateDuration, formatTime, isSameDay } from '$lib/utils/dateUtils.js';
+import { MERGE_GAP_TOLERANCE_MINUTES } from '$lib/utils/time-entry-utils.js';
+
+export interface TimeEntryOverlap {
+	first: TimeEntry;
+	second: TimeEntry;
+	/** Overlapping time in minutes */
+	minutes: number;
+}
+
+export interface TimeEntryGap {
+	date: string;
+	/** Entry that ends before the gap */
+	before: TimeEntry;
+	/** Entry that starts after the gap */
+	after: TimeEntry;
+	/** Gap length in minutes */
+	minutes: number;
+}
+
+export interface TimeEntryValidatorOptions {
+	/** Allowed difference between `duration` and `endTime - startTime`, in minutes */
+	durationToleranceMinutes: number;
+	/** Gaps shorter than this are not reported */
+	minGapMinutes: number;
+	/** Gaps longer than this are treated as separate work sessions */
+	maxGapMinutes: number;
+	/** Entries on the same task at most this far apart are suggested for merging */
+	mergeThresholdMinutes: number;
+}
+
+const DEFAULT_OPTIONS: TimeEntryValidatorOptions = {
+	durationToleranceMinutes: 1,
+	minGapMinutes: 15,
+	maxGapMinutes: 240,
+	mergeThresholdMinutes: MERGE_GAP_TOLERANCE_MINUTES
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export class TimeEntryValidator {
+	private options: TimeEntryValidatorOptions;
+
+	constructor(options: Partial<TimeEntryValidatorOptions> = {}) {
+		this.options = { ...DEFAULT_OPTIONS, ...options };
+	}
+
+	/**
+	 * Validate a single entry, optionally against the other entries it could overlap
+	 */
+	validateEntry(entry: TimeEntry, otherEntries: TimeEntry[] = []): TimeEntryValidation {
+		const errors: string[] = [];
+		const warnings: string[] = [];
+		const suggestions: string[] = [];
+
+		if (typeof entry.description !== 'string') {
+			errors.push('Description must be text');
+		}
+		if (!Array.isArray(entry.tags) || entry.tags.some((tag) => typeof tag !== 'string')) {
+			errors.push('Tags must be a list of text labels');
+		}
+		if (
+			entry.billingRate !== undefined &&
+			!(Number.isFinite(entry.billingRate) && entry.billingRate >= 0)
+		) {
+			errors.push('Billing rate must be a non-negative number');
+		}
+
+		const start = new Date(entry.startTime);
+		const end = new Date(entry.endTime);
+
+		if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+			errors.push('Start and end times must be valid dates');
+			return { isValid: false, errors, warnings, suggestions };
+		}
+
+		if (end <= start) {
+			errors.push('End time must be after start time');
+		} else {
+			const actualHours = calculateDuration(start, end);
+			const differenceMinutes = Math.abs(entry.duration - actualHours) * 60;
+
+			if (differenceMinutes > this.options.durationToleranceMinutes) {
+				errors.push(
+					`Duration (${entry.duration.toFixed(2)}h) does not match start and end times (${actualHours.toFixed(2)}h)`
+				);
+				suggestions.push(`Set the duration to ${actualHours.toFixed(2)}h`);
+			}
+
+			if (actualHours > 24) {
+				errors.push('Entry cannot be longer than 24 hours');
+			}
+
+			// An entry ending exactly at midnight stays on its own day
+			if (!isSameDay(start, new Date(end.getTime() - 1))) {
+				warnings.push('Entry crosses midnight');
+				suggestions.push('Split the entry at midnight');
+			}
+		}
+
+		otherEntries
+			.filter(
+				(other) => other.id !== entry.id && this.hasClockTimes(entry) && this.hasClockTimes(other)
+			)
+			.forEach((other) => {
+				const minutes = this.getOverlapMinutes(entry, other);
+				if (minutes <= 0) return;
+
+				errors.push(`Overlaps with "${other.description || other.date}" by ${minutes} minutes`);
+				suggestions.push(
+					this.isSameWork(entry, other)
+						? 'Merge with the overlapping entry'
+						: 'Trim the entry so it no longer overlaps'
+				);
+			});
+
+		return {
+			isValid: errors.length === 0,
+			errors,
+			warnings,
+			suggestions: [...new Set(suggestions)]
+		};
+	}
+
+	/**
+	 * Validate a set of entries together (e.g. a day or week)
+	 */
+	validateEntries(entries: TimeEntry[]): TimeEntryValidation {
+		const errors: string[] = [];
+		const warnings: string[] = [];
+		const suggestions: string[] = [];
+
+		entries.forEach((entry) => {
+			const validation = this.validateEntry(entry);
+			const label = `${entry.date} ${entry.description || 'entry'}`;
+			errors.push(...validation.errors.map((error) => `${label}: ${error}`));
+			warnings.push(...validation.warnings.map((warning) => `${label}: ${warning}`));
+			suggestions.push(...validation.suggestions.map((suggestion) => `${label}: ${suggestion}`));
+		});
+
+		this.findOverlaps(entries).forEach(({ first, second, minutes }) => {
+			errors.push(
+				`${first.date}: "${first.description || 'entry'}" and "${second.description || 'entry'}" overlap by ${minutes} minutes`
+			);
+			suggestions.push(
+				this.isSameWork(first, second)
+					? `${first.date}: Merge the overlapping entries`
+					: `${first.date}: Trim one of the overlapping entries`
+			);
+		});
+
+		this.findGaps(entries).forEach(({ date, before, after, minutes }) => {
+			warnings.push(
+				`${date}: Unexplained gap of ${minutes} minutes between ${formatTime(new Date(before.endTime))} and ${formatTime(new Date(after.startTime))}`
+			);
+		});
+
+		this.findMergeCandidates(entries).forEach(([first]) => {
+			suggestions.push(
+				`${first.date}: Merge "${first.description || 'entry'}" with adjacent entry`
+			);
+		});
+
+		return {
+			isValid: errors.length === 0,
+			errors: [...new Set(errors)],
+			warnings: [...new Set(warnings)],
+			suggestions: [...new Set(suggestions)]
+		};
+	}
+
+	/**
+	 * Find every pair of entries that cover the same time
+	 */
+	findOverlaps(entries: TimeEntry[]): TimeEntryOverlap[] {
+		const sorted = this.sortByStart(entries.filter((entry) => this.hasClockTimes(entry)));
+		const overlaps: TimeEntryOverlap[] = [];
+
+		sorted.forEach((first, index) => {
+			const firstEnd = new Date(first.endTime).getTime();
+
+			for (const second of sorted.slice(index + 1)) {
+				// Later entries start even later, so none of them can overlap
+				if (new Date(second.startTime).getTime() >= firstEnd) break;
+
+				const minutes = this.getOverlapMinutes(first, second);
+				if (minutes > 0) {
+					overlaps.push({ first, second, minutes });
+				}
+			}
+		});
+
+		return overlaps;
+	}
+
+	/**
+	 * Find gaps between consecutive entries on the same day
+	 */
+	findGaps(entries: TimeEntry[]): TimeEntryGap[] {
+		const gaps: TimeEntryGap[] = [];
+
+		const timedEntries = entries.filter((entry) => this.hasClockTimes(entry));
+		this.groupByDate(timedEntries).forEach((dayEntries, date) => {
+			let previous: TimeEntry | undefined;
+			let previousEnd = 0;
+
+			this.sortByStart(dayEntries).forEach((entry) => {
+				const start = new Date(entry.startTime).getTime();
+				const end = new Date(entry.endTime).getTime();
+
+				if (previous) {
+					const minutes = Math.round((start - previousEnd) / MS_PER_MINUTE);
+					if (minutes >= this.options.minGapMinutes && minutes <= this.options.maxGapMinutes) {
+						gaps.push({ date, before: previous, after: entry, minutes });
+					}
+				}
+
+				// Track the latest end so nested entries do not create false gaps
+				if (!previous || end > previousEnd) {
+					previous = entry;
+					previousEnd = end;
+				}
+			});
+		});
+
+		return gaps;
+	}
+
+	/**
+	 * Find adjacent entries on the same project and task that could be merged
+	 */
+	findMergeCandidates(entries: TimeEntry[]): Array<[TimeEntry, TimeEntry]> {
+		const candidates: Array<[TimeEntry, TimeEntry]> = [];
+
+		this.groupByDate(entries).forEach((dayEntries) => {
+			const sorted = this.sortByStart(dayEntries);
+
+			sorted.slice(1).forEach((entry, index) => {
+				const previous = sorted[index];
+				if (!previous || !this.isSameWork(previous, entry)) return;
+
+				const gapMinutes =
+					(new Date(entry.startTime).getTime() - new Date(previous.endTime).getTime()) /
+					MS_PER_MINUTE;
+				if (gapMinutes >= 0 && gapMinutes <= this.options.mergeThresholdMinutes) {
+					candidates.push([previous, entry]);
+				}
+			});
+		});
+
+		return candidates;
+	}
+
+	private hasClockTimes(entry: TimeEntry): boolean {
+		return entry.fromTimer;
+	}
+
+	private getOverlapMinutes(a: TimeEntry, b: TimeEntry): number {
+		const start = Math.max(new Date(a.startTime).getTime(), new Date(b.startTime).getTime());
+		const end = Math.min(new Date(a.endTime).getTime(), new Date(b.endTime).getTime());
+		return Math.max(0, Math.round((end - start) / MS_PER_MINUTE));
+	}
+
+	private isSameWork(a: TimeEntry, b: TimeEntry): boolean {
+		return a.projectId === b.projectId && a.taskId === b.taskId;
+	}
+
+	private sortByStart(entries: TimeEntry[]): TimeEntry[] {
+		return [...entries].sort(
+			(a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+		);
+	}
+
+	private groupByDate(entries: TimeEntry[]): Map<string, TimeEntry[]> {
+		const groups = new Map<string, TimeEntry[]>();
+		entries.forEach((entry) => {
+			groups.set(entry.date, [...(groups.get(entry.date) ?? []), entry]);
+		});
+		return groups;
+	}
+}
+
+// Export singleton instance
+export const timeEntryValidator = new TimeEntryValidator();
@@ -0,0 +1,112 @@
+/**
+ * Budget Alerts Store Tests
+ *
+ * Tests for alerting once when project spend crosses a budget threshold
+ * and re-arming alerts when spend drops back
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { budgetAlertLevels, checkBudgetAlerts, clearBudgetAlerts } from './budgetAlerts';
+import { eventBus } from '../utils/eventBus';
+import { calculateBudgetBurn } from '../utils/budget-utils';
+import { createMockProject, createMockTimeEntry } from '../utils/test-helpers';
+import type { ProjectSummary } from '$lib/types/index.js';
+
+// Mock the event bus
+vi.mock('../utils/eventBus', () => ({
+	eventBus: {
+		emit: vi.fn()
+	}
+}));
+
+const project = createMockProject({ id: 'project-1', name: 'Website', estimatedHours: 10 });
+
+// Summary for a project with the given hours tracked against its 10 hour estimate
+function summaryWithHours(hours: number): ProjectSummary {
+	const entries = [createMockTimeEntry({ date: '2024-03-01', duration: hours, billableHours: 0 })];
+	const budgetBurn = calculateBudgetBurn(
+		{ estimatedHours: 10, endDate: '2024-03-01' },
+		entries,
+		() => 0,
+		'2024-03-01'
+	);
+
+	return {
+		project,
+		totalHours: hours,
+		totalBillable: 0,
+		entryCount: 1,
+		taskCount: 0,
+		completedTasks: 0,
+		progressPercentage: 0,
+		...(budgetBurn ? { budgetBurn } : {})
+	};
+}
+
+describe('Budget Alerts Store', () => {
+	beforeEach(() => {
+		clearBudgetAlerts();
+		vi.clearAllMocks();
+	});
+
+	it('should alert once for the highest threshold crossed', () => {
+		checkBudgetAlerts([summaryWithHours(8.5)], [50, 80, 100]);
+
+		expect(eventBus.emit).toHaveBeenCalledWith('project:budgetThreshold', {
+			projectId: 'project-1',
+			threshold: 50,
+			percentUsed: 85
+		});
+		expect(eventBus.emit).toHaveBeenCalledWith('project:budgetThreshold', {
+			projectId: 'project-1',
+			threshold: 80,
+			percentUsed: 85
+		});
+		expect(eventBus.emit).toHaveBeenCalledWith('ui:notification', {
+			type: 'warning',
+			message: 'Website has passed 80% of its budget'
+		});
+		expect(
+			vi.mocked(eventBus.emit).mock.calls.filter(([event]) => event === 'ui:notification')
+		).toHaveLength(1);
+		expect(get(budgetAlertLevels)).toEqual({ 'project-1': 85 });
+	});
+
+	it('should not repeat alerts until another threshold is crossed', () => {
+		checkBudgetAlerts([summaryWithHours(8.5)], [50, 80, 100]);
+		vi.clearAllMocks();
+
+		checkBudgetAlerts([summaryWithHours(9)], [50, 80, 100]);
+		expect(eventBus.emit).not.toHaveBeenCalledWith('ui:notification', expect.anything());
+
+		checkBudgetAlerts([summaryWithHours(10.5)], [50, 80, 100]);
+		expect(eventBus.emit).toHaveBeenCalledWith('ui:notification', {
+			type: 'error',
+			message: 'Website has used 105% of its budget'
+		});
+	});
+
+	it('should alert again after spend drops back below a threshold', () => {
+		checkBudgetAlerts([summaryWithHours(6)], [50]);
+		checkBudgetAlerts([summaryWithHours(4)], [50]);
+		vi.clearAllMocks();
+
+		checkBudgetAlerts([summaryWithHours(5)], [50]);
+
+		expect(eventBus.emit).toHaveBeenCalledWith(
+			'project:budgetThreshold',
+			expect.objectContaining({ threshold: 50 })
+		);
+	});
+
+	it('should skip the notification when notifications are off', () => {
+		checkBudgetAlerts([summaryWithHours(6)], [50], false);
+
+		expect(eventBus.emit).toHaveBeenCalledWith(
+			'project:budgetThreshold',
+			expect.objectContaining({ threshold: 50 })
+		);
+		expect(eventBus.emit).not.toHaveBeenCalledWith('ui:notification', expect.anything());
+	});
+});
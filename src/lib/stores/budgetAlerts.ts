@@ -0,0 +1,121 @@
+/**
+ * Budget Alerts Store for TimeFlow Pro
+ *
+ * Watches each project's budget burn and raises an alert when spend crosses
+ * one of the configured thresholds (50/80/100% by default). The last burn
+ * seen per project is persisted, so an alert fires once per crossing rather
+ * than on every reload; dropping back below a threshold re-arms it.
+ *
+ * @example
+ * ```typescript
+ * import { watchBudgetAlerts } from '$lib/stores/budgetAlerts';
+ *
+ * const stop = watchBudgetAlerts();
+ * ```
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { ProjectSummary } from '$lib/types/index.js';
+import { eventBus } from '$lib/utils/eventBus.js';
+import { describeBudgetAlert, getCrossedThresholds } from '$lib/utils/budget-utils.js';
+import { projectSummaries } from './projectStore.js';
+import { settingsStore } from './settingsStore.js';
+
+// Storage key for localStorage persistence
+const STORAGE_KEY = 'timeflow-budget-alerts';
+
+/**
+ * Load the last percentages seen from localStorage
+ */
+function loadBudgetAlertsFromStorage(): Record<string, number> {
+	if (typeof window === 'undefined') return {};
+
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		return stored ? JSON.parse(stored) : {};
+	} catch (error) {
+		console.error('Failed to load budget alerts from localStorage:', error);
+		return {};
+	}
+}
+
+/**
+ * Save the last percentages seen to localStorage
+ */
+function saveBudgetAlertsToStorage(levels: Record<string, number>): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(levels));
+	} catch (error) {
+		console.error('Failed to save budget alerts to localStorage:', error);
+		eventBus.emit('storage:error', { error, timestamp: new Date() });
+	}
+}
+
+// Percent of budget used per project when last checked
+const { subscribe, set } = writable<Record<string, number>>(loadBudgetAlertsFromStorage());
+
+/**
+ * Compare project summaries with the last check and alert on thresholds
+ * crossed since. Every crossed threshold emits `project:budgetThreshold`;
+ * the highest one also emits a `ui:notification` when notifications are on.
+ */
+export function checkBudgetAlerts(
+	summaries: ProjectSummary[],
+	thresholds: number[],
+	notify: boolean = true
+): void {
+	const previousLevels = get({ subscribe });
+	const levels: Record<string, number> = {};
+
+	summaries.forEach(({ project, budgetBurn }) => {
+		if (!budgetBurn) return;
+
+		const previousPercent = previousLevels[project.id] ?? 0;
+		levels[project.id] = budgetBurn.percentUsed;
+
+		const crossed = getCrossedThresholds(previousPercent, budgetBurn.percentUsed, thresholds);
+		crossed.forEach((threshold) => {
+			eventBus.emit('project:budgetThreshold', {
+				projectId: project.id,
+				threshold,
+				percentUsed: budgetBurn.percentUsed
+			});
+		});
+
+		const highest = crossed[crossed.length - 1];
+		if (notify && highest !== undefined) {
+			eventBus.emit('ui:notification', {
+				type: highest >= 100 ? 'error' : 'warning',
+				message: describeBudgetAlert(project.name, highest, budgetBurn)
+			});
+		}
+	});
+
+	set(levels);
+	saveBudgetAlertsToStorage(levels);
+}
+
+/**
+ * Check budgets whenever projects, time entries or alert settings change.
+ * Returns a function that stops watching.
+ */
+export function watchBudgetAlerts(): () => void {
+	return derived([projectSummaries, settingsStore], (values) => values).subscribe(
+		([summaries, settings]) => {
+			checkBudgetAlerts(summaries, settings.budgetAlertThresholds, settings.notificationsEnabled);
+		}
+	);
+}
+
+/**
+ * Forget the percentages seen, so every threshold can alert again
+ */
+export function clearBudgetAlerts(): void {
+	set({});
+	saveBudgetAlertsToStorage({});
+}
+
+// Export the main store
+export const budgetAlertLevels = { subscribe };
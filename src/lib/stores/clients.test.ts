@@ -0,0 +1,190 @@
+/**
+ * Clients Store Tests
+ *
+ * Tests for client CRUD, propagation of client renames to linked projects,
+ * and migration of project client names into client records
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import {
+	clients,
+	activeClients,
+	clientProjectCounts,
+	createClient,
+	updateClient,
+	deleteClient,
+	getClient,
+	migrateClientsFromProjects,
+	clearAllClients
+} from './clients';
+import {
+	projects,
+	projectsByClient,
+	projectsByClientId,
+	createProject,
+	getProject,
+	clearAllProjects
+} from './projects';
+import { eventBus } from '../utils/eventBus';
+import { createMockProject } from '../utils/test-helpers';
+import type { Project } from '$lib/types/index.js';
+
+// Mock the event bus
+vi.mock('../utils/eventBus', () => ({
+	eventBus: {
+		emit: vi.fn()
+	}
+}));
+
+function addProject(overrides: Partial<Project> = {}): string {
+	const {
+		id: _id,
+		createdAt: _createdAt,
+		updatedAt: _updatedAt,
+		...projectData
+	} = createMockProject(overrides);
+	return createProject(projectData);
+}
+
+describe('Clients Store', () => {
+	beforeEach(() => {
+		clearAllClients();
+		clearAllProjects();
+		vi.clearAllMocks();
+	});
+
+	describe('CRUD', () => {
+		it('should create a client', () => {
+			const clientId = createClient({
+				name: ' Acme Corp ',
+				defaultCurrency: 'EUR',
+				isActive: true
+			});
+
+			expect(getClient(clientId)?.name).toBe('Acme Corp');
+			expect(get(clients)).toHaveLength(1);
+			expect(eventBus.emit).toHaveBeenCalledWith('client:created', {
+				clientId,
+				name: 'Acme Corp'
+			});
+		});
+
+		it('should reject invalid and duplicate clients', () => {
+			createClient({ name: 'Acme Corp', defaultCurrency: 'USD', isActive: true });
+
+			expect(() => createClient({ name: '', defaultCurrency: 'USD', isActive: true })).toThrow(
+				'Invalid client data'
+			);
+			expect(() =>
+				createClient({ name: 'acme corp', defaultCurrency: 'USD', isActive: true })
+			).toThrow('already exists');
+		});
+
+		it('should deactivate a client', () => {
+			const clientId = createClient({ name: 'Acme Corp', defaultCurrency: 'USD', isActive: true });
+
+			updateClient(clientId, { isActive: false });
+
+			expect(get(activeClients)).toHaveLength(0);
+			expect(eventBus.emit).toHaveBeenCalledWith('client:updated', {
+				clientId,
+				changes: { isActive: false }
+			});
+		});
+
+		it('should record billing rate changes in the rate history', () => {
+			const clientId = createClient({
+				name: 'Acme Corp',
+				defaultBillingRate: 100,
+				defaultCurrency: 'USD',
+				isActive: true
+			});
+
+			updateClient(clientId, { defaultBillingRate: 120 });
+
+			expect(getClient(clientId)?.rateHistory).toEqual([
+				{ rate: 100 },
+				{ rate: 120, effectiveFrom: expect.any(String) }
+			]);
+		});
+
+		it('should rename linked projects when a client is renamed', () => {
+			const clientId = createClient({ name: 'Acme Corp', defaultCurrency: 'USD', isActive: true });
+			const projectId = addProject({ clientId, clientName: 'Acme Corp' });
+
+			updateClient(clientId, { name: 'Acme Industries' });
+
+			expect(getProject(projectId)?.clientName).toBe('Acme Industries');
+		});
+
+		it('should refuse to delete a client with linked projects', () => {
+			const clientId = createClient({ name: 'Acme Corp', defaultCurrency: 'USD', isActive: true });
+			addProject({ clientId, clientName: 'Acme Corp' });
+
+			expect(get(clientProjectCounts).get(clientId)).toBe(1);
+			expect(() => deleteClient(clientId)).toThrow('linked projects');
+			expect(getClient(clientId)).toBeDefined();
+		});
+
+		it('should delete a client without projects', () => {
+			const clientId = createClient({ name: 'Acme Corp', defaultCurrency: 'USD', isActive: true });
+
+			expect(deleteClient(clientId)).toBe(true);
+			expect(getClient(clientId)).toBeUndefined();
+			expect(() => deleteClient(clientId)).toThrow('Client not found');
+		});
+	});
+
+	describe('Migration', () => {
+		it('should create clients from project client names', () => {
+			addProject({ clientName: 'Acme Corp', defaultBillingRate: 90, currency: 'EUR' });
+			addProject({ clientName: 'acme corp' });
+			addProject({ clientName: 'Globex' });
+
+			expect(migrateClientsFromProjects()).toEqual({ created: 2, failedProjectIds: [] });
+
+			const acme = get(clients).find((client) => client.name === 'Acme Corp');
+			expect(acme).toMatchObject({ defaultBillingRate: 90, defaultCurrency: 'EUR' });
+			expect(get(projects).every((project) => project.clientId)).toBe(true);
+			expect(get(clientProjectCounts).get(acme?.id ?? '')).toBe(2);
+			expect(get(projectsByClientId).get(acme?.id ?? '')).toHaveLength(2);
+			expect(get(projectsByClient).get('Acme Corp')).toHaveLength(2);
+			expect(eventBus.emit).toHaveBeenCalledWith('clients:migrated', {
+				count: 2,
+				failedProjectIds: [],
+				timestamp: expect.any(Date)
+			});
+		});
+
+		it('should link projects to existing clients and skip linked projects', () => {
+			const clientId = createClient({ name: 'Acme Corp', defaultCurrency: 'USD', isActive: true });
+			const projectId = addProject({ clientName: 'Acme Corp' });
+
+			expect(migrateClientsFromProjects().created).toBe(0);
+			expect(getProject(projectId)?.clientId).toBe(clientId);
+			expect(migrateClientsFromProjects()).toEqual({ created: 0, failedProjectIds: [] });
+			expect(get(clients)).toHaveLength(1);
+		});
+
+		it('should report projects it could not link and leave them for the next run', () => {
+			const failingId = addProject({ clientName: 'Globex' });
+			addProject({ clientName: 'Acme Corp' });
+			vi.mocked(eventBus.emit).mockImplementationOnce(() => {
+				throw new Error('Storage unavailable');
+			});
+			const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			expect(migrateClientsFromProjects()).toEqual({ created: 1, failedProjectIds: [failingId] });
+			expect(getProject(failingId)?.clientId).toBeUndefined();
+			expect(eventBus.emit).toHaveBeenCalledWith('clients:migrated', {
+				count: 1,
+				failedProjectIds: [failingId],
+				timestamp: expect.any(Date)
+			});
+			expect(consoleErrorSpy).toHaveBeenCalled();
+
+			consoleErrorSpy.mockRestore();
+		});
+	});
+});
@@ -0,0 +1,290 @@
+/**
+ * Clients Store for TimeFlow Pro
+ *
+ * Dedicated Svelte store for client management with CRUD operations,
+ * localStorage persistence, and migration of the free-text `clientName`
+ * on existing projects into linked client records.
+ *
+ * @example
+ * ```typescript
+ * import { clients, createClient, migrateClientsFromProjects } from '$lib/stores/clients';
+ *
+ * // Create client
+ * const clientId = createClient({
+ *   name: 'Acme Corp',
+ *   defaultBillingRate: 120,
+ *   defaultCurrency: 'EUR',
+ *   isActive: true
+ * });
+ *
+ * // Link existing projects to client records
+ * migrateClientsFromProjects();
+ * ```
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Client, Project } from '$lib/types/index.js';
+import { eventBus } from '$lib/utils/eventBus.js';
+import { getCurrentTimestamp } from '$lib/utils/dateUtils.js';
+import { ClientService } from '$lib/services/client-service.js';
+import { recordRateChange } from '$lib/utils/billing-rate-utils.js';
+import { projects, updateProject } from './projects.js';
+
+// Storage key for localStorage persistence
+const STORAGE_KEY = 'timeflow-clients';
+
+// Client service instance
+const clientService = new ClientService();
+
+/**
+ * Load clients from localStorage
+ */
+function loadClientsFromStorage(): Client[] {
+	if (typeof window === 'undefined') return [];
+
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		return stored ? JSON.parse(stored) : [];
+	} catch (error) {
+		console.error('Failed to load clients from localStorage:', error);
+		return [];
+	}
+}
+
+/**
+ * Save clients to localStorage
+ */
+function saveClientsToStorage(clients: Client[]): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(clients));
+	} catch (error) {
+		console.error('Failed to save clients to localStorage:', error);
+		eventBus.emit('storage:error', { error, timestamp: new Date() });
+	}
+}
+
+/**
+ * Generate a unique ID
+ */
+function generateId(): string {
+	return `client-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Create the writable store with initial data from localStorage
+const { subscribe, set, update } = writable<Client[]>(loadClientsFromStorage());
+
+/**
+ * Get projects linked to a client
+ */
+function getLinkedProjects(clientId: string): Project[] {
+	return get(projects).filter((project) => project.clientId === clientId);
+}
+
+/**
+ * Create a new client
+ */
+export function createClient(clientData: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>): string {
+	// Validate client data
+	const validation = clientService.validateClient(clientData, get({ subscribe }));
+	if (!validation.isValid) {
+		throw new Error(`Invalid client data: ${validation.errors.join(', ')}`);
+	}
+
+	const id = generateId();
+	const now = getCurrentTimestamp();
+
+	const newClient: Client = {
+		...clientData,
+		name: clientData.name.trim(),
+		id,
+		createdAt: now,
+		updatedAt: now
+	};
+
+	update((clients) => {
+		const updatedClients = [...clients, newClient];
+		saveClientsToStorage(updatedClients);
+		return updatedClients;
+	});
+
+	// Emit event
+	eventBus.emit('client:created', {
+		clientId: id,
+		name: newClient.name
+	});
+
+	return id;
+}
+
+/**
+ * Update an existing client.
+ * Renaming a client also updates the client name on its linked projects, and
+ * rate changes are recorded in the rate history so earlier entries keep their rate.
+ */
+export function updateClient(
+	clientId: string,
+	updates: Partial<Omit<Client, 'id' | 'createdAt'>>
+): boolean {
+	const clients = get({ subscribe });
+	const clientIndex = clients.findIndex((c) => c.id === clientId);
+	if (clientIndex === -1) {
+		throw new Error('Client not found');
+	}
+
+	const currentClient = clients[clientIndex];
+	const updatedClient: Client = {
+		...currentClient,
+		...updates,
+		updatedAt: getCurrentTimestamp()
+	} as Client;
+
+	if (
+		currentClient &&
+		'defaultBillingRate' in updates &&
+		updates.defaultBillingRate !== currentClient.defaultBillingRate
+	) {
+		updatedClient.rateHistory = recordRateChange(
+			currentClient.rateHistory,
+			currentClient.defaultBillingRate,
+			updates.defaultBillingRate
+		);
+	}
+
+	// Validate updated client
+	const validation = clientService.validateClient(updatedClient, clients);
+	if (!validation.isValid) {
+		throw new Error(`Invalid client data: ${validation.errors.join(', ')}`);
+	}
+
+	const updatedClients = [...clients];
+	updatedClients[clientIndex] = updatedClient;
+	set(updatedClients);
+	saveClientsToStorage(updatedClients);
+
+	if (updates.name !== undefined) {
+		getLinkedProjects(clientId)
+			.filter((project) => project.clientName !== updatedClient.name)
+			.forEach((project) => updateProject(project.id, { clientName: updatedClient.name }));
+	}
+
+	// Emit event
+	eventBus.emit('client:updated', {
+		clientId,
+		changes: updates
+	});
+
+	return true;
+}
+
+/**
+ * Delete a client.
+ * Clients with linked projects cannot be deleted; deactivate them instead.
+ */
+export function deleteClient(clientId: string): boolean {
+	const clients = get({ subscribe });
+	if (!clients.some((c) => c.id === clientId)) {
+		throw new Error('Client not found');
+	}
+
+	if (getLinkedProjects(clientId).length > 0) {
+		throw new Error('Client has linked projects; deactivate it instead');
+	}
+
+	const updatedClients = clients.filter((c) => c.id !== clientId);
+	set(updatedClients);
+	saveClientsToStorage(updatedClients);
+
+	// Emit event
+	eventBus.emit('client:deleted', { clientId });
+
+	return true;
+}
+
+/**
+ * Get client by ID (non-reactive)
+ */
+export function getClient(clientId: string): Client | undefined {
+	const clients = get({ subscribe });
+	return clients.find((c) => c.id === clientId);
+}
+
+/**
+ * Find client by name (non-reactive)
+ */
+export function findClientByName(name: string): Client | undefined {
+	return clientService.findClientByName(get({ subscribe }), name);
+}
+
+/**
+ * Create client records from the client names on existing projects and link
+ * each project to its client. Returns the number of clients created and the
+ * projects that could not be linked, which stay unlinked for the next run.
+ */
+export function migrateClientsFromProjects(): { created: number; failedProjectIds: string[] } {
+	let created = 0;
+	const failedProjectIds: string[] = [];
+
+	get(projects)
+		.filter((project) => !project.clientId && project.clientName.trim())
+		.forEach((project) => {
+			try {
+				let client = findClientByName(project.clientName);
+
+				if (!client) {
+					const clientId = createClient(
+						clientService.generateDefaultClient({
+							name: project.clientName,
+							...(project.defaultBillingRate !== undefined
+								? { defaultBillingRate: project.defaultBillingRate }
+								: {}),
+							defaultCurrency: project.currency || 'USD'
+						})
+					);
+					client = getClient(clientId);
+					created++;
+				}
+
+				if (client) {
+					updateProject(project.id, { clientId: client.id, clientName: client.name });
+				}
+			} catch (error) {
+				console.error(`Failed to migrate client for project ${project.id}:`, error);
+				failedProjectIds.push(project.id);
+			}
+		});
+
+	if (created > 0 || failedProjectIds.length > 0) {
+		eventBus.emit('clients:migrated', {
+			count: created,
+			failedProjectIds,
+			timestamp: new Date()
+		});
+	}
+
+	return { created, failedProjectIds };
+}
+
+/**
+ * Clear all clients
+ */
+export function clearAllClients(): void {
+	set([]);
+	saveClientsToStorage([]);
+	eventBus.emit('clients:cleared', { timestamp: new Date() });
+}
+
+// Derived stores for computed values
+export const activeClients = derived({ subscribe }, (clients) => clients.filter((c) => c.isActive));
+
+export const clientProjectCounts = derived([{ subscribe }, projects], ([clients, projectList]) => {
+	const counts = new Map<string, number>();
+	clients.forEach((client) => {
+		counts.set(client.id, projectList.filter((p) => p.clientId === client.id).length);
+	});
+	return counts;
+});
+
+// Export the main store
+export const clients = { subscribe };
@@ -0,0 +1,86 @@
+/**
+ * Exchange Rates Store Tests
+ *
+ * Tests for saving, deleting and importing exchange rates and for the
+ * converter following the reporting currency setting
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import {
+	exchangeRates,
+	currencyConverter,
+	saveExchangeRate,
+	deleteExchangeRate,
+	importExchangeRates,
+	exportExchangeRates,
+	clearAllExchangeRates
+} from './exchangeRates';
+import { settingsStore } from './settingsStore';
+import { eventBus } from '../utils/eventBus';
+
+// Mock the event bus
+vi.mock('../utils/eventBus', () => ({
+	eventBus: {
+		emit: vi.fn()
+	}
+}));
+
+describe('Exchange Rates Store', () => {
+	beforeEach(() => {
+		clearAllExchangeRates();
+		settingsStore.updateSetting('reportingCurrency', 'USD');
+		vi.clearAllMocks();
+	});
+
+	it('should replace the rate for the same pair and date', () => {
+		const id = saveExchangeRate({ from: 'eur', to: 'usd', rate: 1.08, date: '2024-03-01' });
+		const updatedId = saveExchangeRate({ from: 'EUR', to: 'USD', rate: 1.1, date: '2024-03-01' });
+
+		expect(updatedId).toBe(id);
+		expect(get(exchangeRates)).toEqual([
+			{ id, from: 'EUR', to: 'USD', rate: 1.1, date: '2024-03-01' }
+		]);
+		expect(eventBus.emit).toHaveBeenCalledWith('exchangeRate:saved', {
+			exchangeRateId: id,
+			from: 'EUR',
+			to: 'USD',
+			date: '2024-03-01'
+		});
+	});
+
+	it('should reject invalid rates', () => {
+		expect(() =>
+			saveExchangeRate({ from: 'EUR', to: 'USD', rate: -1, date: '2024-03-01' })
+		).toThrow('Invalid exchange rate: rate must be a positive number');
+	});
+
+	it('should delete rates and reject unknown ids', () => {
+		const id = saveExchangeRate({ from: 'EUR', to: 'USD', rate: 1.08, date: '2024-03-01' });
+
+		expect(deleteExchangeRate(id)).toBe(true);
+		expect(get(exchangeRates)).toHaveLength(0);
+		expect(() => deleteExchangeRate(id)).toThrow('Exchange rate not found');
+	});
+
+	it('should import valid rows and report the rest', () => {
+		const result = importExchangeRates('2024-03-01,EUR,USD,1.08\n2024-03-01,GBP,USD,abc');
+
+		expect(result).toEqual({
+			imported: 1,
+			errors: ['Line 2: rate must be a positive number']
+		});
+		expect(exportExchangeRates()).toBe('date,from,to,rate\n2024-03-01,EUR,USD,1.08');
+	});
+
+	it('should convert into the reporting currency setting', () => {
+		saveExchangeRate({ from: 'EUR', to: 'USD', rate: 1.25, date: '2024-03-01' });
+
+		expect(get(currencyConverter).convert(100, 'EUR', '2024-03-15')).toBeCloseTo(125);
+
+		settingsStore.updateSetting('reportingCurrency', 'EUR');
+
+		expect(get(currencyConverter).reportingCurrency).toBe('EUR');
+		expect(get(currencyConverter).convert(125, 'USD', '2024-03-15')).toBeCloseTo(100);
+	});
+});
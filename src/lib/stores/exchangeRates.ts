@@ -0,0 +1,178 @@
+/**
+ * Exchange Rates Store for TimeFlow Pro
+ *
+ * Dedicated Svelte store for the local exchange rate table with
+ * localStorage persistence and CSV import. Combined with the reporting
+ * currency setting it provides the converter used by totals across projects.
+ *
+ * @example
+ * ```typescript
+ * import { currencyConverter, importExchangeRates, saveExchangeRate } from '$lib/stores/exchangeRates';
+ *
+ * saveExchangeRate({ from: 'EUR', to: 'USD', rate: 1.08, date: '2024-03-01' });
+ * importExchangeRates('date,from,to,rate\n2024-04-01,GBP,USD,1.27');
+ *
+ * const total = get(currencyConverter).convert(1000, 'EUR', '2024-03-15');
+ * ```
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { ExchangeRate } from '$lib/types/index.js';
+import { eventBus } from '$lib/utils/eventBus.js';
+import {
+	createCurrencyConverter,
+	exchangeRatesToCsv,
+	parseExchangeRateCsv,
+	validateExchangeRate
+} from '$lib/utils/currency-utils.js';
+import { settingsStore } from './settingsStore.js';
+
+// Storage key for localStorage persistence
+const STORAGE_KEY = 'timeflow-exchange-rates';
+
+/**
+ * Load exchange rates from localStorage
+ */
+function loadExchangeRatesFromStorage(): ExchangeRate[] {
+	if (typeof window === 'undefined') return [];
+
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		return stored ? JSON.parse(stored) : [];
+	} catch (error) {
+		console.error('Failed to load exchange rates from localStorage:', error);
+		return [];
+	}
+}
+
+/**
+ * Save exchange rates to localStorage
+ */
+function saveExchangeRatesToStorage(rates: ExchangeRate[]): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(rates));
+	} catch (error) {
+		console.error('Failed to save exchange rates to localStorage:', error);
+		eventBus.emit('storage:error', { error, timestamp: new Date() });
+	}
+}
+
+/**
+ * Generate a unique ID
+ */
+function generateId(): string {
+	return `rate-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Create the writable store with initial data from localStorage
+const { subscribe, set, update } = writable<ExchangeRate[]>(loadExchangeRatesFromStorage());
+
+/**
+ * Add rates to a table; a rate for the same pair and date replaces the existing one
+ */
+function mergeRates(rates: ExchangeRate[], incoming: Omit<ExchangeRate, 'id'>[]): ExchangeRate[] {
+	return incoming.reduce((merged, rate) => {
+		const existing = merged.find(
+			(r) => r.from === rate.from && r.to === rate.to && r.date === rate.date
+		);
+		return existing
+			? merged.map((r) => (r === existing ? { ...rate, id: existing.id } : r))
+			: [...merged, { ...rate, id: generateId() }];
+	}, rates);
+}
+
+/**
+ * Save an exchange rate, replacing any rate for the same currency pair and date
+ */
+export function saveExchangeRate(rateData: Omit<ExchangeRate, 'id'>): string {
+	const rate = { ...rateData, from: rateData.from.toUpperCase(), to: rateData.to.toUpperCase() };
+	const errors = validateExchangeRate(rate);
+	if (errors.length > 0) {
+		throw new Error(`Invalid exchange rate: ${errors.join(', ')}`);
+	}
+
+	const updatedRates = mergeRates(get({ subscribe }), [rate]);
+	set(updatedRates);
+	saveExchangeRatesToStorage(updatedRates);
+
+	const saved = updatedRates.find(
+		(r) => r.from === rate.from && r.to === rate.to && r.date === rate.date
+	);
+	const id = saved?.id ?? '';
+
+	// Emit event
+	eventBus.emit('exchangeRate:saved', {
+		exchangeRateId: id,
+		from: rate.from,
+		to: rate.to,
+		date: rate.date
+	});
+
+	return id;
+}
+
+/**
+ * Delete an exchange rate
+ */
+export function deleteExchangeRate(exchangeRateId: string): boolean {
+	const rates = get({ subscribe });
+	if (!rates.some((r) => r.id === exchangeRateId)) {
+		throw new Error('Exchange rate not found');
+	}
+
+	update((rates) => {
+		const updatedRates = rates.filter((r) => r.id !== exchangeRateId);
+		saveExchangeRatesToStorage(updatedRates);
+		return updatedRates;
+	});
+
+	eventBus.emit('exchangeRate:deleted', { exchangeRateId });
+
+	return true;
+}
+
+/**
+ * Import exchange rates from CSV (date, from, to, rate). Valid rows are saved
+ * even when other rows have errors.
+ */
+export function importExchangeRates(csv: string): { imported: number; errors: string[] } {
+	const { rates, errors } = parseExchangeRateCsv(csv);
+
+	if (rates.length > 0) {
+		update((existing) => {
+			const updatedRates = mergeRates(existing, rates);
+			saveExchangeRatesToStorage(updatedRates);
+			return updatedRates;
+		});
+
+		eventBus.emit('exchangeRates:imported', { count: rates.length, timestamp: new Date() });
+	}
+
+	return { imported: rates.length, errors };
+}
+
+/**
+ * Export the exchange rate table as CSV
+ */
+export function exportExchangeRates(): string {
+	return exchangeRatesToCsv(get({ subscribe }));
+}
+
+/**
+ * Clear all exchange rates
+ */
+export function clearAllExchangeRates(): void {
+	set([]);
+	saveExchangeRatesToStorage([]);
+	eventBus.emit('exchangeRates:cleared', { timestamp: new Date() });
+}
+
+// Converter into the reporting currency for totals across projects
+export const currencyConverter = derived([{ subscribe }, settingsStore], ([rates, settings]) =>
+	createCurrencyConverter(rates, settings.reportingCurrency)
+);
+
+// Export the main store
+export const exchangeRates = { subscribe };
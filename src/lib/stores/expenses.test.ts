@@ -0,0 +1,129 @@
+/**
+ * Expenses Store Tests
+ *
+ * Tests for expense CRUD, receipts stored outside the expense, and keeping
+ * expenses on an invoice locked until the invoice is voided
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import {
+	expenses,
+	readyExpenses,
+	createExpense,
+	updateExpense,
+	deleteExpense,
+	attachReceipt,
+	getReceiptFile,
+	billExpenses,
+	setInvoiceExpensesStatus,
+	getExpense,
+	clearAllExpenses
+} from './expenses';
+import { eventBus } from '../utils/eventBus';
+import { receiptService } from '../services/receipt-service';
+import type { Expense } from '$lib/types/index.js';
+
+// Mock the event bus
+vi.mock('../utils/eventBus', () => ({
+	eventBus: {
+		emit: vi.fn()
+	}
+}));
+
+// Mock receipt storage, which needs IndexedDB
+vi.mock('../services/receipt-service', () => ({
+	receiptService: {
+		saveReceipt: vi.fn(async (file: Blob, name: string) => ({
+			id: `receipt-${name}`,
+			name,
+			type: file.type,
+			size: file.size
+		})),
+		getReceipt: vi.fn(async () => new Blob(['receipt'])),
+		deleteReceipt: vi.fn(async () => undefined)
+	}
+}));
+
+const expenseData: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'> = {
+	projectId: 'project-1',
+	date: '2024-03-12',
+	description: ' Design tool licence ',
+	amount: 50,
+	currency: 'USD',
+	category: 'software',
+	markup: 10,
+	billingStatus: 'ready'
+};
+
+describe('Expenses Store', () => {
+	beforeEach(() => {
+		clearAllExpenses();
+		vi.clearAllMocks();
+	});
+
+	it('should create an expense', () => {
+		const expenseId = createExpense(expenseData);
+
+		expect(getExpense(expenseId)).toMatchObject({
+			description: 'Design tool licence',
+			amount: 50,
+			billingStatus: 'ready'
+		});
+		expect(get(readyExpenses)).toHaveLength(1);
+		expect(eventBus.emit).toHaveBeenCalledWith('expense:created', {
+			expenseId,
+			projectId: 'project-1',
+			amount: 50
+		});
+	});
+
+	it('should reject invalid expenses', () => {
+		expect(() => createExpense({ ...expenseData, amount: 0 })).toThrow(
+			'Amount must be greater than zero'
+		);
+		expect(get(expenses)).toHaveLength(0);
+	});
+
+	it('should attach a receipt and replace the previous one', async () => {
+		const expenseId = createExpense(expenseData);
+
+		await attachReceipt(expenseId, new Blob(['a'], { type: 'image/png' }), 'first.png');
+		await attachReceipt(expenseId, new Blob(['b'], { type: 'image/png' }), 'second.png');
+
+		expect(getExpense(expenseId)?.receipt).toMatchObject({ id: 'receipt-second.png' });
+		expect(receiptService.deleteReceipt).toHaveBeenCalledWith('receipt-first.png');
+		expect(await getReceiptFile(expenseId)).toBeInstanceOf(Blob);
+	});
+
+	it('should lock billed expenses until the invoice is voided', () => {
+		const expenseId = createExpense(expenseData);
+
+		expect(billExpenses([expenseId], 'invoice-1')).toBe(1);
+		expect(getExpense(expenseId)).toMatchObject({
+			billingStatus: 'billed',
+			invoiceId: 'invoice-1'
+		});
+		expect(() => updateExpense(expenseId, { amount: 60 })).toThrow('on an invoice');
+		expect(() => deleteExpense(expenseId)).toThrow('on an invoice');
+		expect(updateExpense(expenseId, { notes: 'Annual plan' })).toBe(true);
+
+		setInvoiceExpensesStatus('invoice-1', 'paid');
+		expect(getExpense(expenseId)?.billingStatus).toBe('paid');
+
+		setInvoiceExpensesStatus('invoice-1', 'ready');
+		expect(getExpense(expenseId)?.billingStatus).toBe('ready');
+		expect(getExpense(expenseId)?.invoiceId).toBeUndefined();
+		expect(deleteExpense(expenseId)).toBe(true);
+	});
+
+	it('should delete the receipt with the expense', async () => {
+		const expenseId = createExpense(expenseData);
+		await attachReceipt(expenseId, new Blob(['a']), 'receipt.pdf');
+
+		deleteExpense(expenseId);
+
+		expect(get(expenses)).toHaveLength(0);
+		expect(receiptService.deleteReceipt).toHaveBeenCalledWith('receipt-receipt.pdf');
+	});
+});
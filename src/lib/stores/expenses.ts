@@ -0,0 +1,351 @@
+/**
+ * Expenses Store for TimeFlow Pro
+ *
+ * Dedicated Svelte store for reimbursable project costs with localStorage
+ * persistence. Receipt files are kept in IndexedDB and only their metadata
+ * is stored on the expense. Ready expenses are billed on the client's next
+ * invoice and follow the invoice as it is paid or voided.
+ *
+ * @example
+ * ```typescript
+ * import { expenses, createExpense, attachReceipt } from '$lib/stores/expenses';
+ *
+ * const expenseId = createExpense({
+ *   projectId: 'project-123',
+ *   date: '2024-03-12',
+ *   description: 'Design tool licence',
+ *   amount: 49,
+ *   currency: 'USD',
+ *   category: 'software',
+ *   markup: 10,
+ *   billingStatus: 'ready'
+ * });
+ *
+ * await attachReceipt(expenseId, file);
+ * ```
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Expense } from '$lib/types/index.js';
+import { eventBus } from '$lib/utils/eventBus.js';
+import { getCurrentTimestamp } from '$lib/utils/dateUtils.js';
+import { ExpenseService } from '$lib/services/expense-service.js';
+import { receiptService } from '$lib/services/receipt-service.js';
+
+// Storage key for localStorage persistence
+const STORAGE_KEY = 'timeflow-expenses';
+
+// Fields that cannot change once an expense is on an invoice
+const BILLED_FIELDS: Array<keyof Expense> = [
+	'projectId',
+	'clientId',
+	'date',
+	'amount',
+	'currency',
+	'markup',
+	'billingStatus',
+	'invoiceId'
+];
+
+// Expense service instance
+const expenseService = new ExpenseService();
+
+/**
+ * Load expenses from localStorage
+ */
+function loadExpensesFromStorage(): Expense[] {
+	if (typeof window === 'undefined') return [];
+
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		return stored ? JSON.parse(stored) : [];
+	} catch (error) {
+		console.error('Failed to load expenses from localStorage:', error);
+		return [];
+	}
+}
+
+/**
+ * Save expenses to localStorage
+ */
+function saveExpensesToStorage(expenses: Expense[]): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(expenses));
+	} catch (error) {
+		console.error('Failed to save expenses to localStorage:', error);
+		eventBus.emit('storage:error', { error, timestamp: new Date() });
+	}
+}
+
+/**
+ * Generate a unique ID
+ */
+function generateId(): string {
+	return `expense-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Create the writable store with initial data from localStorage
+const { subscribe, set, update } = writable<Expense[]>(loadExpensesFromStorage());
+
+/**
+ * Replace expenses matching a predicate and persist the result
+ */
+function updateExpenses(
+	predicate: (expense: Expense) => boolean,
+	change: (expense: Expense) => Expense
+): string[] {
+	const changedIds: string[] = [];
+
+	update((expenses) => {
+		const updatedExpenses = expenses.map((expense) => {
+			if (!predicate(expense)) return expense;
+			changedIds.push(expense.id);
+			return change(expense);
+		});
+		saveExpensesToStorage(updatedExpenses);
+		return updatedExpenses;
+	});
+
+	return changedIds;
+}
+
+/**
+ * Remove a stored receipt file, logging rather than failing the caller
+ */
+function discardReceiptFile(receiptId: string): void {
+	receiptService.deleteReceipt(receiptId).catch((error) => {
+		console.error('Failed to delete receipt:', error);
+	});
+}
+
+/**
+ * Create a new expense
+ */
+export function createExpense(
+	expenseData: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>
+): string {
+	const validation = expenseService.validateExpense(expenseData);
+	if (!validation.isValid) {
+		throw new Error(`Invalid expense data: ${validation.errors.join(', ')}`);
+	}
+
+	const id = generateId();
+	const now = getCurrentTimestamp();
+
+	const newExpense: Expense = {
+		...expenseData,
+		description: expenseData.description.trim(),
+		id,
+		createdAt: now,
+		updatedAt: now
+	};
+
+	update((expenses) => {
+		const updatedExpenses = [...expenses, newExpense];
+		saveExpensesToStorage(updatedExpenses);
+		return updatedExpenses;
+	});
+
+	// Emit event
+	eventBus.emit('expense:created', {
+		expenseId: id,
+		...(newExpense.projectId ? { projectId: newExpense.projectId } : {}),
+		amount: newExpense.amount
+	});
+
+	return id;
+}
+
+/**
+ * Update an existing expense.
+ * Expenses on an invoice keep their amount, date and billing details until
+ * the invoice is voided.
+ */
+export function updateExpense(
+	expenseId: string,
+	updates: Partial<Omit<Expense, 'id' | 'createdAt'>>
+): boolean {
+	const currentExpense = getExpense(expenseId);
+	if (!currentExpense) {
+		throw new Error('Expense not found');
+	}
+
+	const changes: Partial<Expense> = updates;
+	if (
+		(currentExpense.billingStatus === 'billed' || currentExpense.billingStatus === 'paid') &&
+		BILLED_FIELDS.some((field) => field in changes && changes[field] !== currentExpense[field])
+	) {
+		throw new Error('Expense is on an invoice; void the invoice to change it');
+	}
+
+	const updatedExpense: Expense = {
+		...currentExpense,
+		...updates,
+		updatedAt: getCurrentTimestamp()
+	};
+
+	const validation = expenseService.validateExpense(updatedExpense);
+	if (!validation.isValid) {
+		throw new Error(`Invalid expense data: ${validation.errors.join(', ')}`);
+	}
+
+	updateExpenses(
+		(expense) => expense.id === expenseId,
+		() => updatedExpense
+	);
+
+	// Emit event
+	eventBus.emit('expense:updated', {
+		expenseId,
+		changes: updates
+	});
+
+	return true;
+}
+
+/**
+ * Delete an expense and its receipt.
+ * Expenses on an invoice cannot be deleted; void the invoice first.
+ */
+export function deleteExpense(expenseId: string): boolean {
+	const expense = getExpense(expenseId);
+	if (!expense) {
+		throw new Error('Expense not found');
+	}
+
+	if (expense.billingStatus === 'billed' || expense.billingStatus === 'paid') {
+		throw new Error('Expense is on an invoice; void the invoice to delete it');
+	}
+
+	update((expenses) => {
+		const updatedExpenses = expenses.filter((e) => e.id !== expenseId);
+		saveExpensesToStorage(updatedExpenses);
+		return updatedExpenses;
+	});
+
+	if (expense.receipt) {
+		discardReceiptFile(expense.receipt.id);
+	}
+
+	// Emit event
+	eventBus.emit('expense:deleted', { expenseId });
+
+	return true;
+}
+
+/**
+ * Attach a receipt file to an expense, replacing any earlier receipt
+ */
+export async function attachReceipt(expenseId: string, file: Blob, name?: string): Promise<void> {
+	const expense = getExpense(expenseId);
+	if (!expense) {
+		throw new Error('Expense not found');
+	}
+
+	const receipt = await receiptService.saveReceipt(file, name);
+	updateExpense(expenseId, { receipt });
+
+	if (expense.receipt) {
+		discardReceiptFile(expense.receipt.id);
+	}
+}
+
+/**
+ * Remove the receipt attached to an expense
+ */
+export async function removeReceipt(expenseId: string): Promise<void> {
+	const expense = getExpense(expenseId);
+	if (!expense) {
+		throw new Error('Expense not found');
+	}
+	if (!expense.receipt) return;
+
+	await receiptService.deleteReceipt(expense.receipt.id);
+
+	const { receipt: _receipt, ...withoutReceipt } = expense;
+	updateExpenses(
+		(e) => e.id === expenseId,
+		() => ({ ...withoutReceipt, updatedAt: getCurrentTimestamp() })
+	);
+
+	eventBus.emit('expense:updated', { expenseId, changes: { receipt: undefined } });
+}
+
+/**
+ * Get the receipt file attached to an expense
+ */
+export async function getReceiptFile(expenseId: string): Promise<Blob | undefined> {
+	const receipt = getExpense(expenseId)?.receipt;
+	return receipt ? receiptService.getReceipt(receipt.id) : undefined;
+}
+
+/**
+ * Mark ready expenses billed on an invoice.
+ * Returns the number of expenses changed.
+ */
+export function billExpenses(expenseIds: string[], invoiceId: string): number {
+	const ids = new Set(expenseIds);
+	const now = getCurrentTimestamp();
+
+	return updateExpenses(
+		(expense) => ids.has(expense.id) && expense.billingStatus === 'ready',
+		(expense) => ({ ...expense, billingStatus: 'billed', invoiceId, updatedAt: now })
+	).length;
+}
+
+/**
+ * Move an invoice's expenses to a new billing status: paid when the invoice
+ * is paid, back to billed when it is no longer settled, and ready (dropping
+ * the invoice link) when the invoice is voided.
+ * Returns the number of expenses changed.
+ */
+export function setInvoiceExpensesStatus(
+	invoiceId: string,
+	status: 'paid' | 'billed' | 'ready'
+): number {
+	const now = getCurrentTimestamp();
+
+	return updateExpenses(
+		(expense) =>
+			expense.invoiceId === invoiceId &&
+			(status !== 'paid' || expense.billingStatus === 'billed') &&
+			(status !== 'billed' || expense.billingStatus === 'paid'),
+		(expense) => {
+			const changed: Expense = { ...expense, billingStatus: status, updatedAt: now };
+			if (status === 'ready') {
+				delete changed.invoiceId;
+			}
+			return changed;
+		}
+	).length;
+}
+
+/**
+ * Get expense by ID (non-reactive)
+ */
+export function getExpense(expenseId: string): Expense | undefined {
+	const expenses = get({ subscribe });
+	return expenses.find((e) => e.id === expenseId);
+}
+
+/**
+ * Clear all expenses and their receipts
+ */
+export function clearAllExpenses(): void {
+	get({ subscribe }).forEach((expense) => {
+		if (expense.receipt) discardReceiptFile(expense.receipt.id);
+	});
+	set([]);
+	saveExpensesToStorage([]);
+	eventBus.emit('expenses:cleared', { timestamp: new Date() });
+}
+
+// Derived stores for computed values
+export const readyExpenses = derived({ subscribe }, (expenses) =>
+	expenses.filter((e) => e.billingStatus === 'ready')
+);
+
+// Export the main store
+export const expenses = { subscribe };
@@ -13,6 +13,7 @@ export {
 	isStopped,
 	currentElapsed,
 	hasActiveTimer,
+	canUndoStop,
 	timerContext
 } from './timerStore.js';
 
@@ -22,7 +23,10 @@ export {
 	selectedProject,
 	selectedTask,
 	projectsWithTasks,
-	selectedProjectTasks
+	selectedProjectTasks,
+	timeEntryFilter,
+	filteredTimeEntries,
+	timeEntrySummary
 } from './projectStore.js';
 
 // Settings Store - Application settings and preferences
@@ -34,5 +38,17 @@ export {
 	notificationSettings
 } from './settingsStore.js';
 
+// Exchange Rates Store - Currency conversion for totals across projects
+export { exchangeRates, currencyConverter } from './exchangeRates.js';
+
+// Expenses Store - Reimbursable project costs billed on invoices
+export { expenses, readyExpenses } from './expenses.js';
+
+// Tax Profiles Store - Tax rules applied on invoices
+export { taxProfiles } from './taxProfiles.js';
+
+// Budget Alerts Store - Alerts when project spend crosses budget thresholds
+export { budgetAlertLevels, watchBudgetAlerts } from './budgetAlerts.js';
+
 // Re-export types for convenience
 export type { AppSettings } from './settingsStore.js';
@@ -0,0 +1,343 @@
+/**
+ * Invoices Store Tests
+ *
+ * Tests for creating invoices from ready time entries and expenses, tax lines
+ * from the client's tax profile, payments and receivables aging, and keeping
+ * entry and expense billing status in step as invoices are paid or voided
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import {
+	invoices,
+	invoiceRevenue,
+	outstandingInvoices,
+	agingReport,
+	createInvoice,
+	recordPayment,
+	deletePayment,
+	markInvoicePaid,
+	voidInvoice,
+	getInvoice,
+	clearAllInvoices
+} from './invoices';
+import { createClient, updateClient, clearAllClients } from './clients';
+import { createTaxProfile, clearAllTaxProfiles } from './taxProfiles';
+import { createExpense, getExpense, clearAllExpenses } from './expenses';
+import { projectStore, timeEntries } from './projectStore';
+import { eventBus } from '../utils/eventBus';
+import { createMockProject, createMockTimeEntry } from '../utils/test-helpers';
+import type { InvoiceDraft, TimeEntry } from '$lib/types/index.js';
+
+// Mock the event bus
+vi.mock('../utils/eventBus', () => ({
+	eventBus: {
+		emit: vi.fn()
+	}
+}));
+
+function addEntry(overrides: Partial<TimeEntry> = {}): string {
+	const {
+		id: _id,
+		createdAt: _createdAt,
+		updatedAt: _updatedAt,
+		...entryData
+	} = createMockTimeEntry(overrides);
+	return projectStore.createTimeEntry(entryData);
+}
+
+function getEntry(entryId: string): TimeEntry | undefined {
+	return get(timeEntries).find((entry) => entry.id === entryId);
+}
+
+describe('Invoices Store', () => {
+	let draft: InvoiceDraft;
+	let entryIds: string[];
+	let projectId: string;
+
+	beforeEach(() => {
+		clearAllInvoices();
+		clearAllClients();
+		clearAllTaxProfiles();
+		clearAllExpenses();
+		projectStore.clearAll();
+		vi.clearAllMocks();
+
+		const clientId = createClient({ name: 'Acme Corp', defaultCurrency: 'EUR', isActive: true });
+
+		const {
+			id: _id,
+			createdAt: _createdAt,
+			updatedAt: _updatedAt,
+			...projectData
+		} = createMockProject({ clientId, currency: 'EUR' });
+		projectId = projectStore.createProject(projectData);
+
+		entryIds = [
+			addEntry({ projectId, date: '2024-03-04', duration: 2, billableHours: 2 }),
+			addEntry({ projectId, date: '2024-03-05', duration: 1, billableHours: 1 })
+		];
+		// Outside the billing period
+		addEntry({ projectId, date: '2024-04-02', duration: 1, billableHours: 1 });
+
+		draft = {
+			clientId,
+			dateRange: { start: '2024-03-01', end: '2024-03-31' },
+			grouping: 'task',
+			issueDate: '2024-04-01'
+		};
+	});
+
+	it('should create an invoice and bill its entries', () => {
+		const invoiceId = createInvoice(draft);
+		const invoice = getInvoice(invoiceId);
+
+		expect(invoice).toMatchObject({
+			number: 'INV-0001',
+			status: 'issued',
+			currency: 'EUR',
+			dueDate: '2024-05-01',
+			total: 225
+		});
+		expect(invoice?.entryIds.sort()).toEqual([...entryIds].sort());
+		entryIds.forEach((entryId) => {
+			expect(getEntry(entryId)).toMatchObject({ billingStatus: 'billed', invoiceId });
+		});
+		expect(get(outstandingInvoices)).toHaveLength(1);
+		expect(eventBus.emit).toHaveBeenCalledWith('invoice:created', {
+			invoiceId,
+			number: 'INV-0001',
+			clientId: draft.clientId
+		});
+	});
+
+	it('should add tax from the client tax profile and report it separately', () => {
+		const taxProfileId = createTaxProfile({
+			name: 'VAT',
+			rate: 20,
+			inclusive: false,
+			reverseCharge: false
+		});
+		updateClient(draft.clientId, { taxProfileId });
+
+		const invoice = getInvoice(createInvoice(draft));
+
+		expect(invoice?.taxLines).toEqual([{ name: 'VAT', rate: 20, amount: 45 }]);
+		expect(invoice?.total).toBe(270);
+		expect(get(invoiceRevenue)).toMatchObject({ net: 225, tax: 45 });
+	});
+
+	it('should refuse to create an invoice without ready entries', () => {
+		createInvoice(draft);
+
+		expect(() => createInvoice(draft)).toThrow('No ready time entries');
+		expect(get(invoices)).toHaveLength(1);
+	});
+
+	it('should refuse to invoice a currency without an exchange rate', () => {
+		updateClient(draft.clientId, { defaultCurrency: 'USD' });
+
+		expect(() => createInvoice(draft)).toThrow('No exchange rate from EUR to USD');
+		expect(get(invoices)).toHaveLength(0);
+		entryIds.forEach((entryId) => {
+			expect(getEntry(entryId)?.billingStatus).toBe('ready');
+		});
+	});
+
+	it('should leave entries ready when billing fails part way', () => {
+		vi.mocked(eventBus.emit).mockImplementation((event, data) => {
+			if (event === 'timeEntry:bulk' && (data as { operation: string }).operation === 'bill') {
+				throw new Error('Storage unavailable');
+			}
+		});
+
+		expect(() => createInvoice(draft)).toThrow('Storage unavailable');
+		expect(get(invoices)).toHaveLength(0);
+		entryIds.forEach((entryId) => {
+			expect(getEntry(entryId)?.billingStatus).toBe('ready');
+			expect(getEntry(entryId)?.invoiceId).toBeUndefined();
+		});
+
+		vi.mocked(eventBus.emit).mockReset();
+	});
+
+	it('should mark entries paid when the invoice is paid', () => {
+		const invoiceId = createInvoice(draft);
+
+		markInvoicePaid(invoiceId, '2024-04-15');
+
+		expect(getInvoice(invoiceId)).toMatchObject({ status: 'paid', paidDate: '2024-04-15' });
+		entryIds.forEach((entryId) => {
+			expect(getEntry(entryId)?.billingStatus).toBe('paid');
+		});
+		expect(get(outstandingInvoices)).toHaveLength(0);
+		expect(() => markInvoicePaid(invoiceId)).toThrow('already paid');
+	});
+
+	it('should keep entries billed until payments settle the invoice', () => {
+		const invoiceId = createInvoice(draft);
+
+		recordPayment(invoiceId, { date: '2024-04-10', amount: 100, method: 'bank-transfer' });
+
+		expect(getInvoice(invoiceId)?.status).toBe('issued');
+		expect(getEntry(entryIds[0] ?? '')?.billingStatus).toBe('billed');
+		expect(() =>
+			recordPayment(invoiceId, { date: '2024-04-20', amount: 200, method: 'card' })
+		).toThrow('Payment exceeds the balance due');
+
+		const paymentId = recordPayment(invoiceId, {
+			date: '2024-04-20',
+			amount: 125,
+			method: 'card',
+			reference: 'ch_123'
+		});
+
+		expect(getInvoice(invoiceId)).toMatchObject({ status: 'paid', paidDate: '2024-04-20' });
+		expect(getInvoice(invoiceId)?.payments).toHaveLength(2);
+		entryIds.forEach((entryId) => {
+			expect(getEntry(entryId)?.billingStatus).toBe('paid');
+		});
+		expect(eventBus.emit).toHaveBeenCalledWith('invoice:paymentRecorded', {
+			invoiceId,
+			paymentId,
+			amount: 125
+		});
+	});
+
+	it('should return an invoice to issued when a payment is removed', () => {
+		const invoiceId = createInvoice(draft);
+		const paymentId = recordPayment(invoiceId, {
+			date: '2024-04-10',
+			amount: 225,
+			method: 'cash'
+		});
+
+		deletePayment(invoiceId, paymentId);
+
+		const invoice = getInvoice(invoiceId);
+		expect(invoice?.status).toBe('issued');
+		expect(invoice?.paidDate).toBeUndefined();
+		expect(invoice?.payments).toEqual([]);
+		entryIds.forEach((entryId) => {
+			expect(getEntry(entryId)?.billingStatus).toBe('billed');
+		});
+		expect(() => deletePayment(invoiceId, paymentId)).toThrow('Payment not found');
+	});
+
+	it('should refuse to void an invoice with payments', () => {
+		const invoiceId = createInvoice(draft);
+		recordPayment(invoiceId, { date: '2024-04-10', amount: 100, method: 'check' });
+
+		expect(() => voidInvoice(invoiceId)).toThrow('has payments');
+		expect(getInvoice(invoiceId)?.status).toBe('issued');
+	});
+
+	it('should report outstanding balances by client in the aging report', () => {
+		const invoiceId = createInvoice(draft);
+		recordPayment(invoiceId, { date: '2024-04-10', amount: 25, method: 'card' });
+
+		const [row] = get(agingReport).rows;
+
+		expect(row).toMatchObject({
+			clientId: draft.clientId,
+			clientName: 'Acme Corp',
+			invoiceCount: 1
+		});
+		// Due 2024-05-01, so long past 90 days
+		expect(row?.buckets.current).toBe(0);
+		expect(row?.buckets.days90plus).toBe(row?.total);
+	});
+
+	it('should release entries and keep the number when an invoice is voided', () => {
+		const invoiceId = createInvoice(draft);
+
+		voidInvoice(invoiceId);
+
+		expect(getInvoice(invoiceId)?.status).toBe('void');
+		entryIds.forEach((entryId) => {
+			const entry = getEntry(entryId);
+			expect(entry?.billingStatus).toBe('ready');
+			expect(entry?.invoiceId).toBeUndefined();
+		});
+		expect(() => markInvoicePaid(invoiceId)).toThrow('is void');
+
+		const reissuedId = createInvoice(draft);
+		expect(getInvoice(reissuedId)?.number).toBe('INV-0002');
+	});
+
+	it('should invoice completed milestones once, until the invoice is voided', () => {
+		const invoiceId = createInvoice(draft);
+		const {
+			id: _id,
+			createdAt: _createdAt,
+			updatedAt: _updatedAt,
+			...projectData
+		} = createMockProject({
+			clientId: draft.clientId,
+			name: 'Rebrand',
+			currency: 'EUR',
+			billingModel: {
+				type: 'fixed-fee',
+				fee: 3000,
+				milestones: [{ id: 'm1', name: 'Design', amount: 3000, completedDate: '2024-03-20' }]
+			}
+		});
+		projectStore.createProject(projectData);
+
+		const milestoneInvoiceId = createInvoice(draft);
+		expect(getInvoice(milestoneInvoiceId)).toMatchObject({
+			total: 3000,
+			entryIds: [],
+			lineItems: [expect.objectContaining({ kind: 'milestone', description: 'Rebrand: Design' })]
+		});
+		expect(getInvoice(invoiceId)?.status).toBe('issued');
+		expect(() => createInvoice(draft)).toThrow(
+			'No ready time entries, expenses or billable milestones'
+		);
+
+		voidInvoice(milestoneInvoiceId);
+		expect(getInvoice(createInvoice(draft))?.total).toBe(3000);
+	});
+
+	it('should bill ready expenses and release them when the invoice is voided', () => {
+		const expenseId = createExpense({
+			projectId,
+			date: '2024-03-12',
+			description: 'Train tickets',
+			amount: 80,
+			currency: 'EUR',
+			category: 'travel',
+			markup: 0,
+			billingStatus: 'ready'
+		});
+
+		const invoiceId = createInvoice(draft);
+
+		expect(getInvoice(invoiceId)).toMatchObject({ expenseIds: [expenseId] });
+		expect(getExpense(expenseId)).toMatchObject({ billingStatus: 'billed', invoiceId });
+
+		markInvoicePaid(invoiceId, '2024-04-15');
+		expect(getExpense(expenseId)?.billingStatus).toBe('paid');
+	});
+
+	it('should invoice expenses alone and release them on void', () => {
+		createInvoice(draft);
+		const expenseId = createExpense({
+			projectId,
+			date: '2024-03-20',
+			description: 'Stock photos',
+			amount: 40,
+			currency: 'EUR',
+			category: 'software',
+			markup: 25,
+			billingStatus: 'ready'
+		});
+
+		const invoiceId = createInvoice(draft);
+		expect(getInvoice(invoiceId)).toMatchObject({ total: 50, entryIds: [] });
+
+		voidInvoice(invoiceId);
+		expect(getExpense(expenseId)?.billingStatus).toBe('ready');
+		expect(getExpense(expenseId)?.invoiceId).toBeUndefined();
+	});
+});
@@ -0,0 +1,430 @@
+/**
+ * Invoices Store for TimeFlow Pro
+ *
+ * Dedicated Svelte store for invoices with localStorage persistence. Creating
+ * an invoice bills the client's ready time entries and expenses, along with
+ * milestones and retainer months of projects not billed hourly; payments are
+ * recorded against it, and once it is paid in full its entries and expenses
+ * are marked paid. Voiding an invoice releases them back to ready.
+ *
+ * @example
+ * ```typescript
+ * import { invoices, createInvoice, markInvoicePaid } from '$lib/stores/invoices';
+ *
+ * const invoiceId = createInvoice({
+ *   clientId: 'client-123',
+ *   dateRange: { start: '2024-03-01', end: '2024-03-31' },
+ *   grouping: 'task'
+ * });
+ *
+ * recordPayment(invoiceId, { date: '2024-04-10', amount: 500, method: 'bank-transfer' });
+ * markInvoicePaid(invoiceId);
+ * ```
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type {
+	BulkTimeEntryOperation,
+	Invoice,
+	InvoiceDraft,
+	InvoicePayment
+} from '$lib/types/index.js';
+import { eventBus } from '$lib/utils/eventBus.js';
+import { formatDate, getCurrentTimestamp } from '$lib/utils/dateUtils.js';
+import { createCurrencyConverter, findUnconvertedCurrencies } from '$lib/utils/currency-utils.js';
+import { InvoiceService } from '$lib/services/invoice-service.js';
+import { billingRateSources, projectStore, timeEntries } from './projectStore.js';
+import { clients, getClient } from './clients.js';
+import { currencyConverter, exchangeRates } from './exchangeRates.js';
+import { billExpenses, expenses, setInvoiceExpensesStatus } from './expenses.js';
+import { taxProfiles } from './taxProfiles.js';
+
+// Storage key for localStorage persistence
+const STORAGE_KEY = 'timeflow-invoices';
+
+// Invoice service instance
+const invoiceService = new InvoiceService();
+
+/**
+ * Load invoices from localStorage
+ */
+function loadInvoicesFromStorage(): Invoice[] {
+	if (typeof window === 'undefined') return [];
+
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		return stored ? JSON.parse(stored) : [];
+	} catch (error) {
+		console.error('Failed to load invoices from localStorage:', error);
+		return [];
+	}
+}
+
+/**
+ * Save invoices to localStorage
+ */
+function saveInvoicesToStorage(invoices: Invoice[]): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(invoices));
+	} catch (error) {
+		console.error('Failed to save invoices to localStorage:', error);
+		eventBus.emit('storage:error', { error, timestamp: new Date() });
+	}
+}
+
+/**
+ * Generate a unique ID
+ */
+function generateId(): string {
+	return `invoice-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Create the writable store with initial data from localStorage
+const { subscribe, set, update } = writable<Invoice[]>(loadInvoicesFromStorage());
+
+/**
+ * Replace an invoice and persist the result
+ */
+function replaceInvoice(invoice: Invoice): void {
+	update((invoices) => {
+		const updatedInvoices = invoices.map((i) => (i.id === invoice.id ? invoice : i));
+		saveInvoicesToStorage(updatedInvoices);
+		return updatedInvoices;
+	});
+}
+
+/**
+ * Get an invoice that can still change, or throw
+ */
+function getIssuedInvoice(invoiceId: string): Invoice {
+	const invoice = getInvoice(invoiceId);
+	if (!invoice) {
+		throw new Error('Invoice not found');
+	}
+	if (invoice.status === 'paid') {
+		throw new Error(`Invoice ${invoice.number} is already paid`);
+	}
+	if (invoice.status === 'void') {
+		throw new Error(`Invoice ${invoice.number} is void`);
+	}
+	return invoice;
+}
+
+/**
+ * Mark an invoice paid in full; its entries and expenses move from billed to paid
+ */
+function settleInvoice(invoice: Invoice, paidDate: string): void {
+	replaceInvoice({
+		...invoice,
+		status: 'paid',
+		paidDate,
+		updatedAt: getCurrentTimestamp()
+	});
+	projectStore.setInvoiceEntriesStatus(invoice.id, 'paid');
+	setInvoiceExpensesStatus(invoice.id, 'paid');
+
+	eventBus.emit('invoice:paid', { invoiceId: invoice.id, timestamp: new Date() });
+}
+
+/**
+ * Build the invoice a draft would create, without billing anything
+ */
+export function previewInvoice(
+	draft: InvoiceDraft
+): Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'> {
+	const validation = invoiceService.validateDraft(draft);
+	if (!validation.isValid) {
+		throw new Error(`Invalid invoice: ${validation.errors.join(', ')}`);
+	}
+
+	const client = getClient(draft.clientId);
+	if (!client) {
+		throw new Error('Client not found');
+	}
+
+	const rateSources = get(billingRateSources);
+	const allEntries = get(timeEntries);
+	const entries = invoiceService.selectBillableEntries(
+		allEntries,
+		rateSources.projects ?? [],
+		draft
+	);
+	const billableExpenses = invoiceService.selectBillableExpenses(
+		get(expenses),
+		rateSources.projects ?? [],
+		draft
+	);
+
+	return invoiceService.createInvoiceData(
+		draft,
+		client,
+		entries,
+		rateSources,
+		invoiceService.getNextSequence(get({ subscribe })),
+		get(taxProfiles),
+		{ entries: allEntries, invoices: get({ subscribe }) },
+		billableExpenses,
+		createCurrencyConverter(get(exchangeRates), client.defaultCurrency)
+	);
+}
+
+/**
+ * Create an invoice from the client's ready entries and expenses and mark them
+ * billed. Entries are checked before anything is billed, and a failure part
+ * way leaves the entries and expenses ready again.
+ */
+export function createInvoice(draft: InvoiceDraft): string {
+	const invoiceData = previewInvoice(draft);
+	if (invoiceData.lineItems.length === 0) {
+		throw new Error(
+			'No ready time entries, expenses or billable milestones for this client and period'
+		);
+	}
+
+	const id = generateId();
+	const now = getCurrentTimestamp();
+	const newInvoice: Invoice = {
+		...invoiceData,
+		id,
+		createdAt: now,
+		updatedAt: now
+	};
+
+	const billEntries: BulkTimeEntryOperation = {
+		operation: 'bill',
+		entryIds: newInvoice.entryIds,
+		parameters: { invoiceId: id },
+		requireConfirmation: false
+	};
+
+	// Invoices for expenses, milestones or retainer months alone bill no entries
+	const billsEntries = newInvoice.entryIds.length > 0;
+	if (billsEntries) {
+		const preview = projectStore.previewBulkOperation(billEntries);
+		if (!preview.isValid) {
+			throw new Error(`Could not bill time entries: ${preview.errors.join(', ')}`);
+		}
+	}
+
+	try {
+		if (billsEntries) {
+			const result = projectStore.applyBulkOperation(billEntries, true);
+			if (!result.success) {
+				throw new Error(`Could not bill time entries: ${result.errors.join(', ')}`);
+			}
+		}
+		if (newInvoice.expenseIds) {
+			billExpenses(newInvoice.expenseIds, id);
+		}
+
+		update((invoices) => {
+			const updatedInvoices = [...invoices, newInvoice];
+			saveInvoicesToStorage(updatedInvoices);
+			return updatedInvoices;
+		});
+	} catch (error) {
+		// Release anything billed so far, as the invoice was never saved
+		projectStore.setInvoiceEntriesStatus(id, 'ready');
+		setInvoiceExpensesStatus(id, 'ready');
+		throw error;
+	}
+
+	// Emit event
+	eventBus.emit('invoice:created', {
+		invoiceId: id,
+		number: newInvoice.number,
+		clientId: newInvoice.clientId
+	});
+
+	return id;
+}
+
+/**
+ * Record a payment against an issued invoice. When the payment settles the
+ * balance, the invoice is paid and its entries move from billed to paid.
+ */
+export function recordPayment(
+	invoiceId: string,
+	paymentData: Omit<InvoicePayment, 'id' | 'createdAt'>
+): string {
+	const invoice = getIssuedInvoice(invoiceId);
+
+	const validation = invoiceService.validatePayment(invoice, paymentData);
+	if (!validation.isValid) {
+		throw new Error(`Invalid payment: ${validation.errors.join(', ')}`);
+	}
+
+	const payments = invoice.payments ?? [];
+	const payment: InvoicePayment = {
+		...paymentData,
+		id: `payment-${payments.length + 1}-${Date.now()}`,
+		createdAt: getCurrentTimestamp()
+	};
+	const updatedInvoice: Invoice = {
+		...invoice,
+		payments: [...payments, payment],
+		updatedAt: getCurrentTimestamp()
+	};
+	replaceInvoice(updatedInvoice);
+
+	eventBus.emit('invoice:paymentRecorded', {
+		invoiceId,
+		paymentId: payment.id,
+		amount: payment.amount
+	});
+
+	if (invoiceService.getBalanceDue(updatedInvoice) === 0) {
+		settleInvoice(updatedInvoice, payment.date);
+	}
+
+	return payment.id;
+}
+
+/**
+ * Remove a payment recorded in error. A paid invoice that is no longer
+ * settled returns to issued and its entries and expenses back to billed.
+ */
+export function deletePayment(invoiceId: string, paymentId: string): boolean {
+	const invoice = getInvoice(invoiceId);
+	if (!invoice) {
+		throw new Error('Invoice not found');
+	}
+	if (invoice.status === 'void') {
+		throw new Error(`Invoice ${invoice.number} is void`);
+	}
+	if (!invoice.payments?.some((p) => p.id === paymentId)) {
+		throw new Error('Payment not found');
+	}
+
+	const { paidDate: _paidDate, ...unpaid } = invoice;
+	const updatedInvoice: Invoice = {
+		...unpaid,
+		status: 'issued',
+		payments: invoice.payments.filter((p) => p.id !== paymentId),
+		updatedAt: getCurrentTimestamp()
+	};
+	replaceInvoice(updatedInvoice);
+
+	if (invoice.status === 'paid') {
+		projectStore.setInvoiceEntriesStatus(invoiceId, 'billed');
+		setInvoiceExpensesStatus(invoiceId, 'billed');
+	}
+
+	eventBus.emit('invoice:paymentDeleted', { invoiceId, paymentId });
+
+	return true;
+}
+
+/**
+ * Mark an issued invoice as paid by recording a payment for its balance;
+ * its entries move from billed to paid
+ */
+export function markInvoicePaid(
+	invoiceId: string,
+	paidDate: string = formatDate(new Date())
+): boolean {
+	const invoice = getIssuedInvoice(invoiceId);
+	const balance = invoiceService.getBalanceDue(invoice);
+
+	if (balance === 0) {
+		settleInvoice(invoice, paidDate);
+	} else {
+		recordPayment(invoiceId, { date: paidDate, amount: balance, method: 'other' });
+	}
+
+	return true;
+}
+
+/**
+ * Void an issued invoice; its entries and expenses return to ready so they can be
+ * invoiced again.
+ * The invoice keeps its number. Invoices with payments cannot be voided.
+ */
+export function voidInvoice(
+	invoiceId: string,
+	voidedDate: string = formatDate(new Date())
+): boolean {
+	const invoice = getIssuedInvoice(invoiceId);
+	if (invoice.payments?.length) {
+		throw new Error(`Invoice ${invoice.number} has payments; remove them before voiding`);
+	}
+
+	replaceInvoice({
+		...invoice,
+		status: 'void',
+		voidedDate,
+		updatedAt: getCurrentTimestamp()
+	});
+	projectStore.setInvoiceEntriesStatus(invoiceId, 'ready');
+	setInvoiceExpensesStatus(invoiceId, 'ready');
+
+	eventBus.emit('invoice:voided', { invoiceId, timestamp: new Date() });
+
+	return true;
+}
+
+/**
+ * Get invoice by ID (non-reactive)
+ */
+export function getInvoice(invoiceId: string): Invoice | undefined {
+	const invoices = get({ subscribe });
+	return invoices.find((i) => i.id === invoiceId);
+}
+
+/**
+ * Clear all invoices
+ */
+export function clearAllInvoices(): void {
+	set([]);
+	saveInvoicesToStorage([]);
+	eventBus.emit('invoices:cleared', { timestamp: new Date() });
+}
+
+// Derived stores for computed values
+export const outstandingInvoices = derived({ subscribe }, (invoices) =>
+	invoices.filter((i) => i.status === 'issued')
+);
+
+export const overdueInvoices = derived({ subscribe }, (invoices) =>
+	invoices.filter((i) => invoiceService.isOverdue(i))
+);
+
+// Accounts receivable aging per client, in the reporting currency
+export const agingReport = derived(
+	[{ subscribe }, clients, currencyConverter],
+	([invoices, clientList, converter]) =>
+		invoiceService.buildAgingReport(invoices, clientList, formatDate(new Date()), converter)
+);
+
+// Net revenue and tax on invoices that were not voided, in the reporting currency,
+// with the invoice currencies that had no exchange rate and were counted unconverted
+export const invoiceRevenue = derived(
+	[{ subscribe }, currencyConverter],
+	([invoices, converter]) => {
+		const billed = invoices.filter((i) => i.status !== 'void');
+		return billed.reduce(
+			(totals, invoice) => {
+				const { net, tax } = invoiceService.getTaxBreakdown(invoice);
+				return {
+					...totals,
+					net: totals.net + converter.convert(net, invoice.currency, invoice.issueDate),
+					tax: totals.tax + converter.convert(tax, invoice.currency, invoice.issueDate)
+				};
+			},
+			{
+				currency: converter.reportingCurrency,
+				net: 0,
+				tax: 0,
+				unconvertedCurrencies: findUnconvertedCurrencies(
+					converter,
+					billed.map((invoice) => invoice.currency)
+				)
+			}
+		);
+	}
+);
+
+// Export the main store
+export const invoices = { subscribe };
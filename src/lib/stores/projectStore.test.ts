@@ -0,0 +1,286 @@
+/**
+ * Project Store Tests
+ *
+ * Tests for splitting, merging, trimming, filtering and bulk operations on
+ * time entries in the project store
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import {
+	projectStore,
+	timeEntries,
+	timeEntryFilter,
+	filteredTimeEntries,
+	timeEntrySummary
+} from './projectStore';
+import { eventBus } from '../utils/eventBus';
+import { createMockProject, createMockTask, createMockTimeEntry } from '../utils/test-helpers';
+import type { TimeEntry } from '$lib/types/index.js';
+
+// Mock the event bus
+vi.mock('../utils/eventBus', () => ({
+	eventBus: {
+		emit: vi.fn()
+	}
+}));
+
+function addEntry(overrides: Partial<TimeEntry> = {}): string {
+	const {
+		id: _id,
+		createdAt: _createdAt,
+		updatedAt: _updatedAt,
+		...entryData
+	} = createMockTimeEntry(overrides);
+	return projectStore.createTimeEntry(entryData);
+}
+
+describe('Project Store', () => {
+	let sourceProjectId: string;
+	let targetProjectId: string;
+	let entryIds: string[];
+
+	beforeEach(() => {
+		projectStore.clearAll();
+		vi.clearAllMocks();
+
+		const {
+			id: _id,
+			createdAt: _createdAt,
+			updatedAt: _updatedAt,
+			...projectData
+		} = createMockProject();
+		sourceProjectId = projectStore.createProject(projectData);
+		targetProjectId = projectStore.createProject({ ...projectData, name: 'Target Project' });
+
+		entryIds = [
+			addEntry({ projectId: sourceProjectId, duration: 2 }),
+			addEntry({ projectId: sourceProjectId, duration: 1.5 }),
+			addEntry({ projectId: sourceProjectId, duration: 1, billingStatus: 'billed' })
+		];
+	});
+
+	describe('Bulk Operations', () => {
+		it('should preview an operation without changing entries', () => {
+			const preview = projectStore.previewBulkOperation({
+				operation: 'delete',
+				entryIds: entryIds.slice(0, 2),
+				requireConfirmation: true
+			});
+
+			expect(preview.isValid).toBe(true);
+			expect(preview.entries).toHaveLength(2);
+			expect(preview.totalHours).toBe(3.5);
+			expect(get(timeEntries)).toHaveLength(3);
+		});
+
+		it('should move entries to another project and emit one event', () => {
+			const result = projectStore.applyBulkOperation({
+				operation: 'move',
+				entryIds: entryIds.slice(0, 2),
+				parameters: { projectId: targetProjectId },
+				requireConfirmation: false
+			});
+
+			expect(result).toEqual({ success: true, affectedCount: 2, errors: [] });
+			const moved = get(timeEntries).filter((e) => e.projectId === targetProjectId);
+			expect(moved).toHaveLength(2);
+			expect(moved.every((e) => e.taskId === undefined)).toBe(true);
+			expect(eventBus.emit).toHaveBeenCalledWith(
+				'timeEntry:bulk',
+				expect.objectContaining({ operation: 'move', entryIds: entryIds.slice(0, 2) })
+			);
+		});
+
+		it('should give moved entries the target project rate', () => {
+			const pricierProjectId = projectStore.createProject({
+				...createMockProject(),
+				name: 'Pricier Project',
+				defaultBillingRate: 150
+			});
+			const entryId = addEntry({ projectId: sourceProjectId, billingRate: 80 });
+
+			projectStore.applyBulkOperation({
+				operation: 'move',
+				entryIds: [entryId],
+				parameters: { projectId: pricierProjectId },
+				requireConfirmation: false
+			});
+
+			expect(projectStore.getTimeEntry(entryId)?.billingRate).toBe(150);
+		});
+
+		it('should reject a task that belongs to another project', () => {
+			const {
+				id: _id,
+				createdAt: _createdAt,
+				updatedAt: _updatedAt,
+				...taskData
+			} = createMockTask({
+				projectId: sourceProjectId
+			});
+			const taskId = projectStore.createTask(taskData);
+
+			const result = projectStore.applyBulkOperation({
+				operation: 'move',
+				entryIds: entryIds.slice(0, 1),
+				parameters: { projectId: targetProjectId, taskId },
+				requireConfirmation: false
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toContain('Target task does not belong to the target project');
+		});
+
+		it('should apply nothing when any entry is invalid', () => {
+			const result = projectStore.applyBulkOperation({
+				operation: 'delete',
+				entryIds: [...entryIds, 'missing-entry'],
+				requireConfirmation: false
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toContain('Time entry not found: missing-entry');
+			expect(result.errors).toContain(
+				'1 selected entries are already billed and cannot be changed'
+			);
+			expect(get(timeEntries)).toHaveLength(3);
+			expect(eventBus.emit).not.toHaveBeenCalledWith('timeEntry:bulk', expect.anything());
+		});
+
+		it('should require confirmation when requested', () => {
+			const operation = {
+				operation: 'delete' as const,
+				entryIds: entryIds.slice(0, 2),
+				requireConfirmation: true
+			};
+
+			expect(projectStore.applyBulkOperation(operation).success).toBe(false);
+			expect(get(timeEntries)).toHaveLength(3);
+
+			expect(projectStore.applyBulkOperation(operation, true).affectedCount).toBe(2);
+			expect(get(timeEntries)).toHaveLength(1);
+		});
+
+		it('should mark ready entries as billed', () => {
+			const result = projectStore.applyBulkOperation({
+				operation: 'bill',
+				entryIds: entryIds.slice(0, 2),
+				parameters: { invoiceId: 'INV-001' },
+				requireConfirmation: false
+			});
+
+			expect(result.success).toBe(true);
+			const billed = entryIds.slice(0, 2).map((id) => projectStore.getTimeEntry(id));
+			expect(billed.every((e) => e?.billingStatus === 'billed' && e.invoiceId === 'INV-001')).toBe(
+				true
+			);
+		});
+
+		it('should only update supported fields', () => {
+			const result = projectStore.applyBulkOperation({
+				operation: 'update',
+				entryIds: entryIds.slice(0, 2),
+				parameters: { category: 'meeting', duration: 8 },
+				requireConfirmation: false
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toContain('These fields cannot be updated in bulk: duration');
+
+			projectStore.applyBulkOperation({
+				operation: 'update',
+				entryIds: entryIds.slice(0, 2),
+				parameters: { category: 'meeting' },
+				requireConfirmation: false
+			});
+			expect(projectStore.getTimeEntry(entryIds[0] ?? '')?.category).toBe('meeting');
+		});
+
+		it('should validate the updated entries', () => {
+			const result = projectStore.applyBulkOperation({
+				operation: 'update',
+				entryIds: entryIds.slice(0, 2),
+				parameters: { billingRate: -5 },
+				requireConfirmation: false
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toContain(
+				'Test time entry: Billing rate must be a non-negative number'
+			);
+			expect(projectStore.getTimeEntry(entryIds[0] ?? '')?.billingRate).toBeUndefined();
+		});
+	});
+
+	describe('Split, Merge and Trim', () => {
+		let entryId: string;
+
+		beforeEach(() => {
+			entryId = addEntry({
+				projectId: sourceProjectId,
+				startTime: '2024-03-04T09:00:00.000Z',
+				endTime: '2024-03-04T13:00:00.000Z',
+				duration: 4
+			});
+			vi.clearAllMocks();
+		});
+
+		it('should split an entry and emit update and create events', () => {
+			const newId = projectStore.splitTimeEntry(entryId, new Date('2024-03-04T12:00:00Z'));
+
+			expect(newId).toBeTruthy();
+			expect(projectStore.getTimeEntry(entryId)?.duration).toBe(3);
+			expect(projectStore.getTimeEntry(newId ?? '')?.duration).toBe(1);
+			expect(eventBus.emit).toHaveBeenCalledWith(
+				'timeEntry:updated',
+				expect.objectContaining({ entryId })
+			);
+			expect(eventBus.emit).toHaveBeenCalledWith(
+				'timeEntry:created',
+				expect.objectContaining({ entryId: newId })
+			);
+		});
+
+		it('should merge split entries back together', () => {
+			const newId = projectStore.splitTimeEntry(entryId, new Date('2024-03-04T12:00:00Z'));
+
+			expect(projectStore.mergeTimeEntries(entryId, newId ?? '')).toBe(true);
+			expect(projectStore.getTimeEntry(entryId)?.duration).toBe(4);
+			expect(projectStore.getTimeEntry(newId ?? '')).toBeUndefined();
+		});
+
+		it('should trim an entry and report invalid ranges', () => {
+			expect(
+				projectStore.trimTimeEntry(
+					entryId,
+					new Date('2024-03-04T12:00:00Z'),
+					new Date('2024-03-04T13:00:00Z')
+				)
+			).toBe(true);
+			expect(projectStore.getTimeEntry(entryId)?.duration).toBe(3);
+
+			expect(
+				projectStore.trimTimeEntry(
+					entryId,
+					new Date('2024-03-04T14:00:00Z'),
+					new Date('2024-03-04T15:00:00Z')
+				)
+			).toBe(false);
+			expect(get(projectStore).error).toBe('Trim range does not overlap the entry');
+		});
+	});
+
+	describe('Filtered Entries', () => {
+		it('should follow the current filter', () => {
+			timeEntryFilter.set({ billingStatus: ['billed'] });
+
+			expect(get(filteredTimeEntries).map((e) => e.id)).toEqual([entryIds[2]]);
+			expect(get(timeEntrySummary).totalEntries).toBe(1);
+
+			timeEntryFilter.set({});
+			expect(get(filteredTimeEntries)).toHaveLength(3);
+			expect(get(timeEntrySummary).totalBillableAmount).toBe(2 * 3 * 75);
+		});
+	});
+});
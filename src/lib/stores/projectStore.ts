@@ -18,11 +18,25 @@
  * 
  * // Get project by ID
  * const project = projectStore.getProject('project-id');
+ *
+ * // Move entries to another project in one step
+ * projectStore.applyBulkOperation({
+ *   operation: 'move',
+ *   entryIds: ['entry-1', 'entry-2'],
+ *   parameters: { projectId: 'project-2' },
+ *   requireConfirmation: false
+ * });
  * ```
  */
 
 import { writable, derived, get } from 'svelte/store';
 import type { Project, Task, TimeEntry, ProjectSummary, TaskSummary } from '$lib/types/index.js';
+import type {
+	TimeEntryFilter,
+	BulkTimeEntryOperation,
+	BulkTimeEntryPreview,
+	BulkTimeEntryResult
+} from '$lib/types/index.js';
 import { eventBus } from '$lib/utils/eventBus.js';
 import { getCurrentTimestamp } from '$lib/utils/dateUtils.js';
 import {
@@ -32,6 +46,21 @@ import {
 	calculateProjectProgress,
 	calculateTaskProgress
 } from '$lib/utils/progress-utils.js';
+import {
+	isTimeEntryLocked,
+	resolveSessionRate,
+	mergeTimeEntries as mergeEntryData,
+	splitTimeEntry as splitEntryData,
+	trimTimeEntry as trimEntryData
+} from '$lib/utils/time-entry-utils.js';
+import { TimeEntryService } from '$lib/services/time-entry-service.js';
+import { TimeEntryValidator } from '$lib/services/time-entry-validator.js';
+import type { BillingRateSources } from '$lib/utils/billing-rate-utils.js';
+import { getProject as getProjectRecord, projects as projectRecords } from './projects.js';
+import { getTask as getTaskRecord, tasks as taskRecords } from './tasks.js';
+import { clients as clientRecords } from './clients.js';
+import { settingsStore } from './settingsStore.js';
+import { currencyConverter } from './exchangeRates.js';
 
 // Project store state interface
 interface ProjectStoreState {
@@ -108,6 +137,11 @@ function saveToStorage(state: ProjectStoreState): void {
 // Create the writable store with initial data from localStorage
 const { subscribe, set, update } = writable<ProjectStoreState>(loadFromStorage());
 
+// Current time entry filter used by the filtered entry and summary stores
+export const timeEntryFilter = writable<TimeEntryFilter>({});
+
+const timeEntryService = new TimeEntryService();
+
 /**
  * Generate a unique ID
  */
@@ -456,6 +490,353 @@ function deleteTimeEntry(entryId: string): boolean {
 	return deleted;
 }
 
+/**
+ * Split a time entry at the given instant.
+ * Returns the ID of the new entry holding the time after `at`.
+ */
+function splitTimeEntry(
+	entryId: string,
+	at: Date,
+	overrides: { taskId?: string | undefined; description?: string } = {}
+): string | null {
+	const entry = getTimeEntry(entryId);
+	if (!entry) {
+		setError('Time entry not found');
+		return null;
+	}
+
+	try {
+		const { updates, newEntry } = splitEntryData(entry, at, overrides);
+		updateTimeEntry(entryId, updates);
+		return createTimeEntry(newEntry);
+	} catch (error) {
+		setError(error instanceof Error ? error.message : 'Failed to split time entry');
+		return null;
+	}
+}
+
+/**
+ * Merge two adjacent time entries on the same task into the earlier one
+ */
+function mergeTimeEntries(firstId: string, secondId: string): boolean {
+	const first = getTimeEntry(firstId);
+	const second = getTimeEntry(secondId);
+	if (!first || !second) {
+		setError('Time entry not found');
+		return false;
+	}
+
+	try {
+		const { keepId, removeId, updates } = mergeEntryData(first, second);
+		updateTimeEntry(keepId, updates);
+		return deleteTimeEntry(removeId);
+	} catch (error) {
+		setError(error instanceof Error ? error.message : 'Failed to merge time entries');
+		return false;
+	}
+}
+
+/**
+ * Remove a time range from a time entry, splitting it when the range is in the middle
+ */
+function trimTimeEntry(entryId: string, from: Date, to: Date): boolean {
+	const entry = getTimeEntry(entryId);
+	if (!entry) {
+		setError('Time entry not found');
+		return false;
+	}
+
+	try {
+		const { updates, newEntry } = trimEntryData(entry, from, to);
+		updateTimeEntry(entryId, updates);
+		if (newEntry) {
+			createTimeEntry(newEntry);
+		}
+		return true;
+	} catch (error) {
+		setError(error instanceof Error ? error.message : 'Failed to trim time entry');
+		return false;
+	}
+}
+
+// Fields that may be changed by a bulk 'update'
+const BULK_UPDATE_FIELDS = ['description', 'category', 'tags', 'notes', 'billingRate'];
+
+/**
+ * Look up a project in this store or in the dedicated projects store
+ */
+function findProject(state: ProjectStoreState, projectId: string): Project | undefined {
+	return state.projects.find(p => p.id === projectId) ?? getProjectRecord(projectId);
+}
+
+/**
+ * Look up a task in this store or in the dedicated tasks store
+ */
+function findTask(state: ProjectStoreState, taskId: string): Task | undefined {
+	return state.tasks.find(t => t.id === taskId) ?? getTaskRecord(taskId);
+}
+
+/**
+ * Validate a bulk operation against the current entries
+ */
+function validateBulkOperation(
+	state: ProjectStoreState,
+	operation: BulkTimeEntryOperation
+): BulkTimeEntryPreview {
+	const errors: string[] = [];
+	const warnings: string[] = [];
+	const parameters = operation.parameters ?? {};
+	const entryIds = [...new Set(operation.entryIds)];
+
+	if (entryIds.length === 0) {
+		errors.push('No time entries selected');
+	}
+	if (entryIds.length < operation.entryIds.length) {
+		warnings.push('Duplicate time entries were ignored');
+	}
+
+	const entries: TimeEntry[] = [];
+	entryIds.forEach(entryId => {
+		const entry = state.timeEntries.find(e => e.id === entryId);
+		if (entry) {
+			entries.push(entry);
+		} else {
+			errors.push(`Time entry not found: ${entryId}`);
+		}
+	});
+
+	if (operation.operation !== 'bill') {
+		const locked = entries.filter(isTimeEntryLocked);
+		if (locked.length > 0) {
+			errors.push(`${locked.length} selected entries are already billed and cannot be changed`);
+		}
+	}
+
+	switch (operation.operation) {
+		case 'update': {
+			const fields = Object.keys(parameters);
+			const unsupported = fields.filter(field => !BULK_UPDATE_FIELDS.includes(field));
+			if (fields.length === 0) {
+				errors.push('No fields to update');
+			}
+			if (unsupported.length > 0) {
+				errors.push(`These fields cannot be updated in bulk: ${unsupported.join(', ')}`);
+				break;
+			}
+
+			// Only report problems the update introduces, not ones the entries already had
+			const validator = new TimeEntryValidator();
+			entries.forEach(entry => {
+				const existing = validator.validateEntry(entry).errors;
+				const updated = applyBulkChange(state, entry, operation, entry.updatedAt);
+				if (!updated) return;
+				validator.validateEntry(updated).errors
+					.filter(error => !existing.includes(error))
+					.forEach(error => errors.push(`${entry.description || entry.date}: ${error}`));
+			});
+			break;
+		}
+
+		case 'move': {
+			const { projectId, taskId } = parameters;
+			if (typeof projectId !== 'string' || !projectId) {
+				errors.push('A target project is required');
+				break;
+			}
+			if (!findProject(state, projectId)) {
+				errors.push('Target project not found');
+			}
+			if (taskId !== undefined) {
+				const task = typeof taskId === 'string' ? findTask(state, taskId) : undefined;
+				if (!task) {
+					errors.push('Target task not found');
+				} else if (task.projectId !== projectId) {
+					errors.push('Target task does not belong to the target project');
+				}
+			}
+
+			const unchanged = entries.filter(e => e.projectId === projectId && e.taskId === taskId);
+			if (unchanged.length > 0) {
+				warnings.push(`${unchanged.length} selected entries are already in the target project`);
+			}
+			break;
+		}
+
+		case 'bill': {
+			const notReady = entries.filter(e => e.billingStatus !== 'ready');
+			if (notReady.length > 0) {
+				errors.push(`${notReady.length} selected entries are not ready to bill`);
+			}
+			if (parameters.invoiceId !== undefined && typeof parameters.invoiceId !== 'string') {
+				errors.push('Invoice ID must be a string');
+			}
+			break;
+		}
+
+		case 'delete':
+			break;
+	}
+
+	return {
+		operation: operation.operation,
+		entries,
+		totalHours: calculateTotalHours(entries),
+		isValid: errors.length === 0,
+		errors,
+		warnings
+	};
+}
+
+/**
+ * Apply a bulk operation to a single entry; returns null when the entry is removed.
+ * Moved entries take the billing rate of their new task or project on the
+ * entry's date, replacing the rate frozen from where they came from.
+ */
+function applyBulkChange(
+	state: ProjectStoreState,
+	entry: TimeEntry,
+	operation: BulkTimeEntryOperation,
+	updatedAt: string
+): TimeEntry | null {
+	const parameters = operation.parameters ?? {};
+
+	switch (operation.operation) {
+		case 'delete':
+			return null;
+
+		case 'update':
+			return { ...entry, ...(parameters as Partial<TimeEntry>), updatedAt };
+
+		case 'move': {
+			const moved: TimeEntry = { ...entry, projectId: parameters.projectId as string, updatedAt };
+			delete moved.taskId;
+			delete moved.billingRate;
+			if (typeof parameters.taskId === 'string') {
+				moved.taskId = parameters.taskId;
+			}
+
+			const billingRate = resolveSessionRate(
+				{
+					project: findProject(state, moved.projectId),
+					task: moved.taskId ? findTask(state, moved.taskId) : undefined
+				},
+				moved.date
+			);
+			if (billingRate !== undefined) {
+				moved.billingRate = billingRate;
+			}
+			return moved;
+		}
+
+		case 'bill': {
+			const billed: TimeEntry = { ...entry, billingStatus: 'billed', updatedAt };
+			if (typeof parameters.invoiceId === 'string') {
+				billed.invoiceId = parameters.invoiceId;
+			}
+			return billed;
+		}
+	}
+}
+
+/**
+ * Preview a bulk operation without changing any data
+ */
+function previewBulkOperation(operation: BulkTimeEntryOperation): BulkTimeEntryPreview {
+	return validateBulkOperation(get({ subscribe }), operation);
+}
+
+/**
+ * Apply a bulk operation to all selected time entries at once.
+ * Nothing changes unless every entry passes validation, and operations that
+ * require confirmation only run when `confirmed` is set.
+ */
+function applyBulkOperation(operation: BulkTimeEntryOperation, confirmed = false): BulkTimeEntryResult {
+	const preview = previewBulkOperation(operation);
+
+	if (!preview.isValid) {
+		setError(preview.errors.join('; '));
+		return { success: false, affectedCount: 0, errors: preview.errors };
+	}
+
+	if (operation.requireConfirmation && !confirmed) {
+		return { success: false, affectedCount: 0, errors: ['Operation requires confirmation'] };
+	}
+
+	const entryIds = new Set(preview.entries.map(e => e.id));
+	const now = getCurrentTimestamp();
+
+	update(state => {
+		const newEntries = state.timeEntries.flatMap(entry => {
+			if (!entryIds.has(entry.id)) return [entry];
+			const changed = applyBulkChange(state, entry, operation, now);
+			return changed ? [changed] : [];
+		});
+
+		const newState = {
+			...state,
+			timeEntries: newEntries,
+			error: null
+		};
+		saveToStorage(newState);
+		return newState;
+	});
+
+	// Emit a single event for the whole operation
+	eventBus.emit('timeEntry:bulk', {
+		operation: operation.operation,
+		entryIds: [...entryIds],
+		...(operation.parameters ? { parameters: operation.parameters } : {}),
+		timestamp: new Date()
+	});
+
+	return { success: true, affectedCount: entryIds.size, errors: [] };
+}
+
+/**
+ * Move the entries billed on an invoice to `paid`, back to `billed` when a
+ * payment is removed, or release them back to `ready` (without the invoice
+ * link) when the invoice is voided.
+ * Returns the number of entries changed.
+ */
+function setInvoiceEntriesStatus(invoiceId: string, status: 'paid' | 'billed' | 'ready'): number {
+	const entryIds: string[] = [];
+	const now = getCurrentTimestamp();
+
+	update(state => {
+		const newEntries = state.timeEntries.map(entry => {
+			if (entry.invoiceId !== invoiceId) return entry;
+			if (status === 'paid' && entry.billingStatus !== 'billed') return entry;
+			if (status === 'billed' && entry.billingStatus !== 'paid') return entry;
+
+			entryIds.push(entry.id);
+			const changed: TimeEntry = { ...entry, billingStatus: status, updatedAt: now };
+			if (status === 'ready') {
+				delete changed.invoiceId;
+			}
+			return changed;
+		});
+
+		const newState = {
+			...state,
+			timeEntries: newEntries,
+			error: null
+		};
+		saveToStorage(newState);
+		return newState;
+	});
+
+	if (entryIds.length > 0) {
+		eventBus.emit('timeEntry:bulk', {
+			operation: status === 'paid' ? 'pay' : status === 'billed' ? 'bill' : 'unbill',
+			entryIds,
+			parameters: { invoiceId },
+			timestamp: new Date()
+		});
+	}
+
+	return entryIds.length;
+}
+
 /**
  * Select a project
  */
@@ -563,19 +944,30 @@ export const selectedProjectTasks = derived(
 		: []
 );
 
+// Records for every level of the billing rate hierarchy
+export const billingRateSources = derived(
+	[{ subscribe }, projectRecords, taskRecords, clientRecords, settingsStore],
+	([state, projectList, taskList, clientList, settings]): BillingRateSources => ({
+		projects: [...state.projects, ...projectList],
+		tasks: [...state.tasks, ...taskList],
+		clients: clientList,
+		defaultRate: settings.defaultBillingRate
+	})
+);
+
 // Derived stores for progress tracking and summaries
 export const projectSummaries = derived(
-	{ subscribe },
-	state => state.projects.map(project =>
-		generateProjectSummary(project, state.tasks, state.timeEntries)
+	[{ subscribe }, billingRateSources],
+	([state, rateSources]) => state.projects.map(project =>
+		generateProjectSummary(project, state.tasks, state.timeEntries, rateSources)
 	)
 );
 
 export const taskSummaries = derived(
-	{ subscribe },
-	state => state.tasks.map(task => {
+	[{ subscribe }, billingRateSources],
+	([state, rateSources]) => state.tasks.map(task => {
 		const project = state.projects.find(p => p.id === task.projectId);
-		return generateTaskSummary(task, state.timeEntries, project);
+		return generateTaskSummary(task, state.timeEntries, project, rateSources, state.tasks);
 	})
 );
 
@@ -623,7 +1015,7 @@ export const taskProgress = derived(
 	state => {
 		const progressMap = new Map<string, number>();
 		state.tasks.forEach(task => {
-			const progress = calculateTaskProgress(task, state.timeEntries);
+			const progress = calculateTaskProgress(task, state.timeEntries, state.tasks);
 			progressMap.set(task.id, progress);
 		});
 		return progressMap;
@@ -635,6 +1027,18 @@ export const timeEntries = derived(
 	state => state.timeEntries
 );
 
+export const filteredTimeEntries = derived(
+	[{ subscribe }, timeEntryFilter],
+	([state, filter]) => timeEntryService.filterEntries(state.timeEntries, filter)
+);
+
+// Totals span projects, so amounts are converted into the reporting currency
+export const timeEntrySummary = derived(
+	[filteredTimeEntries, billingRateSources, currencyConverter],
+	([entries, rateSources, converter]) =>
+		timeEntryService.calculateSummary(entries, rateSources.projects, rateSources, converter)
+);
+
 // Export the store with methods
 export const projectStore = {
 	subscribe,
@@ -647,6 +1051,12 @@ export const projectStore = {
 	createTimeEntry,
 	updateTimeEntry,
 	deleteTimeEntry,
+	splitTimeEntry,
+	mergeTimeEntries,
+	trimTimeEntry,
+	previewBulkOperation,
+	applyBulkOperation,
+	setInvoiceEntriesStatus,
 	selectProject,
 	selectTask,
 	getProject,
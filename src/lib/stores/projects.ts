@@ -29,6 +29,7 @@ import { eventBus } from '$lib/utils/eventBus.js';
 import { getCurrentTimestamp } from '$lib/utils/dateUtils.js';
 import { generateProjectSummary, calculateProjectProgress } from '$lib/utils/progress-utils.js';
 import { ProjectService } from '$lib/services/project-service.js';
+import { recordRateChange } from '$lib/utils/billing-rate-utils.js';
 
 // Storage key for localStorage persistence
 const STORAGE_KEY = 'timeflow-projects';
@@ -111,7 +112,8 @@ export function createProject(projectData: Omit<Project, 'id' | 'createdAt' | 'u
 }
 
 /**
- * Update an existing project
+ * Update an existing project.
+ * Rate changes are recorded in the rate history so earlier entries keep their rate.
  */
 export function updateProject(projectId: string, updates: Partial<Omit<Project, 'id' | 'createdAt'>>): boolean {
 	let updated = false;
@@ -122,12 +124,25 @@ export function updateProject(projectId: string, updates: Partial<Omit<Project,
 			throw new Error('Project not found');
 		}
 
+		const currentProject = projects[projectIndex];
 		const updatedProject: Project = {
-			...projects[projectIndex],
+			...currentProject,
 			...updates,
 			updatedAt: getCurrentTimestamp()
 		};
 
+		if (
+			currentProject &&
+			'defaultBillingRate' in updates &&
+			updates.defaultBillingRate !== currentProject.defaultBillingRate
+		) {
+			updatedProject.rateHistory = recordRateChange(
+				currentProject.rateHistory,
+				currentProject.defaultBillingRate,
+				updates.defaultBillingRate
+			);
+		}
+
 		// Validate updated project
 		const validation = projectService.validateProject(updatedProject);
 		if (!validation.isValid) {
@@ -288,6 +303,21 @@ export const projectsByClient = derived(
 	}
 );
 
+// Projects linked to a client record, keyed by client ID
+export const projectsByClientId = derived(
+	{ subscribe },
+	projects => {
+		const clientMap = new Map<string, Project[]>();
+		projects.forEach(project => {
+			if (!project.clientId) return;
+			const clientProjects = clientMap.get(project.clientId) || [];
+			clientProjects.push(project);
+			clientMap.set(project.clientId, clientProjects);
+		});
+		return clientMap;
+	}
+);
+
 export const projectColorMap = derived(
 	{ subscribe },
 	projects => {
@@ -24,6 +24,8 @@
 import { writable, derived, get } from 'svelte/store';
 import { browser } from '$app/environment';
 import { eventBus } from '$lib/utils/eventBus.js';
+import { DEFAULT_BUDGET_ALERT_THRESHOLDS } from '$lib/utils/budget-utils.js';
+import type { TaskBoardSwimlane, TaskWipLimits } from '$lib/types/index.js';
 
 // Settings interface
 export interface AppSettings {
@@ -38,9 +40,15 @@ export interface AppSettings {
 	timerSoundEnabled: boolean;
 	timerSoundVolume: number; // 0-100
 	reminderInterval: number; // minutes, 0 = disabled
+	pomodoroWorkMinutes: number;
+	pomodoroShortBreakMinutes: number;
+	pomodoroLongBreakMinutes: number;
+	pomodoroSessionsBeforeLongBreak: number;
 	
 	// Time tracking
 	defaultProjectId: string | null;
+	defaultBillingRate: number; // fallback hourly rate when no entry, task, project or client rate applies
+	reportingCurrency: string; // ISO code totals across projects are converted into
 	roundTimeEntries: boolean;
 	roundingInterval: number; // minutes (1, 5, 15, 30)
 	trackIdleTime: boolean;
@@ -51,6 +59,7 @@ export interface AppSettings {
 	desktopNotifications: boolean;
 	emailNotifications: boolean;
 	weeklyReports: boolean;
+	budgetAlertThresholds: number[]; // percent of a project's budget that raises an alert
 	
 	// Data and privacy
 	autoSave: boolean;
@@ -62,6 +71,14 @@ export interface AppSettings {
 	defaultExportFormat: 'csv' | 'pdf' | 'json';
 	includeTaskDetails: boolean;
 	includeProjectSummary: boolean;
+	invoiceBusinessName: string; // sender name printed on invoices and reports
+	invoiceBusinessAddress: string;
+	invoiceLogo: string; // JPEG data URL, '' = no logo
+	invoicePaymentTerms: string; // printed on invoices, '' = derived from the due date
+	
+	// Task board
+	taskBoardSwimlane: TaskBoardSwimlane;
+	taskBoardWipLimits: TaskWipLimits; // most tasks per status column, across all projects
 	
 	// Advanced
 	developerMode: boolean;
@@ -82,9 +99,15 @@ const defaultSettings: AppSettings = {
 	timerSoundEnabled: true,
 	timerSoundVolume: 50,
 	reminderInterval: 0,
+	pomodoroWorkMinutes: 25,
+	pomodoroShortBreakMinutes: 5,
+	pomodoroLongBreakMinutes: 15,
+	pomodoroSessionsBeforeLongBreak: 4,
 	
 	// Time tracking
 	defaultProjectId: null,
+	defaultBillingRate: 0,
+	reportingCurrency: 'USD',
 	roundTimeEntries: false,
 	roundingInterval: 15,
 	trackIdleTime: true,
@@ -95,6 +118,7 @@ const defaultSettings: AppSettings = {
 	desktopNotifications: false,
 	emailNotifications: false,
 	weeklyReports: false,
+	budgetAlertThresholds: DEFAULT_BUDGET_ALERT_THRESHOLDS,
 	
 	// Data and privacy
 	autoSave: true,
@@ -106,6 +130,14 @@ const defaultSettings: AppSettings = {
 	defaultExportFormat: 'csv',
 	includeTaskDetails: true,
 	includeProjectSummary: true,
+	invoiceBusinessName: '',
+	invoiceBusinessAddress: '',
+	invoiceLogo: '',
+	invoicePaymentTerms: '',
+	
+	// Task board
+	taskBoardSwimlane: 'none',
+	taskBoardWipLimits: {},
 	
 	// Advanced
 	developerMode: false,
@@ -210,7 +242,7 @@ function reset(): void {
 /**
  * Reset a specific category of settings
  */
-function resetCategory(category: 'appearance' | 'timer' | 'tracking' | 'notifications' | 'data' | 'export' | 'advanced'): void {
+function resetCategory(category: 'appearance' | 'timer' | 'tracking' | 'notifications' | 'data' | 'export' | 'board' | 'advanced'): void {
 	const categoryDefaults: Partial<AppSettings> = {};
 	
 	switch (category) {
@@ -225,9 +257,15 @@ function resetCategory(category: 'appearance' | 'timer' | 'tracking' | 'notifica
 			categoryDefaults.timerSoundEnabled = defaultSettings.timerSoundEnabled;
 			categoryDefaults.timerSoundVolume = defaultSettings.timerSoundVolume;
 			categoryDefaults.reminderInterval = defaultSettings.reminderInterval;
+			categoryDefaults.pomodoroWorkMinutes = defaultSettings.pomodoroWorkMinutes;
+			categoryDefaults.pomodoroShortBreakMinutes = defaultSettings.pomodoroShortBreakMinutes;
+			categoryDefaults.pomodoroLongBreakMinutes = defaultSettings.pomodoroLongBreakMinutes;
+			categoryDefaults.pomodoroSessionsBeforeLongBreak = defaultSettings.pomodoroSessionsBeforeLongBreak;
 			break;
 		case 'tracking':
 			categoryDefaults.defaultProjectId = defaultSettings.defaultProjectId;
+			categoryDefaults.defaultBillingRate = defaultSettings.defaultBillingRate;
+			categoryDefaults.reportingCurrency = defaultSettings.reportingCurrency;
 			categoryDefaults.roundTimeEntries = defaultSettings.roundTimeEntries;
 			categoryDefaults.roundingInterval = defaultSettings.roundingInterval;
 			categoryDefaults.trackIdleTime = defaultSettings.trackIdleTime;
@@ -238,6 +276,7 @@ function resetCategory(category: 'appearance' | 'timer' | 'tracking' | 'notifica
 			categoryDefaults.desktopNotifications = defaultSettings.desktopNotifications;
 			categoryDefaults.emailNotifications = defaultSettings.emailNotifications;
 			categoryDefaults.weeklyReports = defaultSettings.weeklyReports;
+			categoryDefaults.budgetAlertThresholds = defaultSettings.budgetAlertThresholds;
 			break;
 		case 'data':
 			categoryDefaults.autoSave = defaultSettings.autoSave;
@@ -249,6 +288,14 @@ function resetCategory(category: 'appearance' | 'timer' | 'tracking' | 'notifica
 			categoryDefaults.defaultExportFormat = defaultSettings.defaultExportFormat;
 			categoryDefaults.includeTaskDetails = defaultSettings.includeTaskDetails;
 			categoryDefaults.includeProjectSummary = defaultSettings.includeProjectSummary;
+			categoryDefaults.invoiceBusinessName = defaultSettings.invoiceBusinessName;
+			categoryDefaults.invoiceBusinessAddress = defaultSettings.invoiceBusinessAddress;
+			categoryDefaults.invoiceLogo = defaultSettings.invoiceLogo;
+			categoryDefaults.invoicePaymentTerms = defaultSettings.invoicePaymentTerms;
+			break;
+		case 'board':
+			categoryDefaults.taskBoardSwimlane = defaultSettings.taskBoardSwimlane;
+			categoryDefaults.taskBoardWipLimits = defaultSettings.taskBoardWipLimits;
 			break;
 		case 'advanced':
 			categoryDefaults.developerMode = defaultSettings.developerMode;
@@ -339,7 +386,13 @@ export const timerSettings = derived(
 		showTimerInTitle: settings.showTimerInTitle,
 		timerSoundEnabled: settings.timerSoundEnabled,
 		timerSoundVolume: settings.timerSoundVolume,
-		reminderInterval: settings.reminderInterval
+		reminderInterval: settings.reminderInterval,
+		pomodoro: {
+			workMinutes: settings.pomodoroWorkMinutes,
+			shortBreakMinutes: settings.pomodoroShortBreakMinutes,
+			longBreakMinutes: settings.pomodoroLongBreakMinutes,
+			sessionsBeforeLongBreak: settings.pomodoroSessionsBeforeLongBreak
+		}
 	})
 );
 
@@ -347,6 +400,8 @@ export const trackingSettings = derived(
 	{ subscribe },
 	settings => ({
 		defaultProjectId: settings.defaultProjectId,
+		defaultBillingRate: settings.defaultBillingRate,
+		reportingCurrency: settings.reportingCurrency,
 		roundTimeEntries: settings.roundTimeEntries,
 		roundingInterval: settings.roundingInterval,
 		trackIdleTime: settings.trackIdleTime,
@@ -360,7 +415,28 @@ export const notificationSettings = derived(
 		notificationsEnabled: settings.notificationsEnabled,
 		desktopNotifications: settings.desktopNotifications,
 		emailNotifications: settings.emailNotifications,
-		weeklyReports: settings.weeklyReports
+		weeklyReports: settings.weeklyReports,
+		budgetAlertThresholds: settings.budgetAlertThresholds
+	})
+);
+
+// Sender details printed on invoices and reports
+export const invoiceSettings = derived(
+	{ subscribe },
+	settings => ({
+		name: settings.invoiceBusinessName,
+		address: settings.invoiceBusinessAddress,
+		logo: settings.invoiceLogo,
+		paymentTerms: settings.invoicePaymentTerms
+	})
+);
+
+// Layout and WIP limits of the task board
+export const taskBoardSettings = derived(
+	{ subscribe },
+	settings => ({
+		swimlane: settings.taskBoardSwimlane,
+		wipLimits: settings.taskBoardWipLimits
 	})
 );
 
@@ -390,11 +466,3 @@ export const settingsStore = {
 	exportSettings,
 	importSettings
 };
-
-// Export derived stores
-export {
-	appearanceSettings,
-	timerSettings,
-	trackingSettings,
-	notificationSettings
-};
@@ -0,0 +1,314 @@
+/**
+ * Tasks Store Tests
+ *
+ * Tests for task dependencies: validation on save, blocked tasks that
+ * cannot be started, and cleanup when a dependency is deleted; and for
+ * subtasks: moving tasks between parents, completing parents and deleting
+ * parents with or without their subtasks; for moves on the task board;
+ * for the next occurrences of recurring tasks; and for enforced status
+ * transitions and status history
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import {
+	tasks,
+	blockedTasks,
+	createTask,
+	updateTask,
+	deleteTask,
+	completeTask,
+	startTask,
+	cancelTask,
+	moveTask,
+	reopenTask,
+	setParentTask,
+	getTask,
+	clearAllTasks
+} from './tasks';
+import { eventBus } from '../utils/eventBus';
+import { createMockTask } from '../utils/test-helpers';
+import type { Task } from '$lib/types/index.js';
+
+// Mock the event bus
+vi.mock('../utils/eventBus', () => ({
+	eventBus: {
+		emit: vi.fn()
+	}
+}));
+
+function addTask(overrides: Partial<Task> = {}): string {
+	const {
+		id: _id,
+		createdAt: _createdAt,
+		updatedAt: _updatedAt,
+		...taskData
+	} = createMockTask(overrides);
+	return createTask(taskData);
+}
+
+describe('Tasks Store', () => {
+	let designId: string;
+	let buildId: string;
+
+	beforeEach(() => {
+		clearAllTasks();
+		designId = addTask({ title: 'Design' });
+		buildId = addTask({ title: 'Build', dependencies: [designId] });
+	});
+
+	it('should block tasks until their dependencies are finished', () => {
+		expect(get(blockedTasks).map((t) => t.id)).toEqual([buildId]);
+		expect(() => startTask(buildId)).toThrow('Task is blocked by unfinished dependencies: Design');
+		expect(getTask(buildId)?.status).toBe('pending');
+
+		completeTask(designId);
+
+		expect(get(blockedTasks)).toEqual([]);
+		expect(startTask(buildId)).toBe(true);
+		expect(getTask(buildId)?.status).toBe('in-progress');
+	});
+
+	it('should reject invalid dependencies', () => {
+		expect(() => addTask({ title: 'Launch', dependencies: ['missing'] })).toThrow(
+			'Dependency tasks not found: missing'
+		);
+		expect(() => updateTask(designId, { dependencies: [buildId] })).toThrow(
+			'Dependencies would create a cycle: Design → Build → Design'
+		);
+		expect(() => updateTask(buildId, { projectId: 'project-2' })).toThrow(
+			'Dependencies must be in the same project: Design'
+		);
+	});
+
+	it('should remove a deleted task from the dependencies of others', () => {
+		deleteTask(designId);
+
+		expect(getTask(buildId)?.dependencies).toEqual([]);
+		expect(startTask(buildId)).toBe(true);
+	});
+
+	describe('Subtasks', () => {
+		let parentId: string;
+		let childId: string;
+		let siblingId: string;
+
+		beforeEach(() => {
+			parentId = addTask({ title: 'Release' });
+			childId = addTask({ title: 'Changelog' });
+			siblingId = addTask({ title: 'Announcement' });
+			setParentTask(childId, parentId);
+			setParentTask(siblingId, parentId);
+		});
+
+		it('should move tasks between parents', () => {
+			expect(getTask(parentId)?.subtasks).toEqual([childId, siblingId]);
+			expect(setParentTask(childId, parentId)).toBe(false);
+
+			setParentTask(childId, designId);
+			expect(getTask(parentId)?.subtasks).toEqual([siblingId]);
+			expect(getTask(designId)?.subtasks).toEqual([childId]);
+
+			setParentTask(childId, null);
+			expect(getTask(designId)?.subtasks).toEqual([]);
+		});
+
+		it('should reject a parent below the task', () => {
+			expect(() => setParentTask(parentId, childId)).toThrow(
+				'Subtasks cannot include a parent of this task: Release'
+			);
+		});
+
+		it('should complete the parent once all subtasks are finished', () => {
+			completeTask(childId);
+			expect(getTask(parentId)?.status).toBe('pending');
+
+			cancelTask(siblingId);
+			expect(getTask(parentId)?.status).toBe('completed');
+		});
+
+		it('should save the subtask when its parent cannot be completed', () => {
+			vi.mocked(eventBus.emit).mockImplementation((event, data) => {
+				if (event === 'task:completed' && (data as { taskId: string }).taskId === parentId) {
+					throw new Error('Storage unavailable');
+				}
+			});
+			completeTask(childId);
+
+			expect(cancelTask(siblingId)).toBe(true);
+			expect(getTask(siblingId)?.status).toBe('cancelled');
+			expect(getTask(parentId)?.status).toBe('pending');
+			expect(eventBus.emit).toHaveBeenCalledWith('ui:notification', {
+				type: 'warning',
+				message: 'Could not complete "Release": Storage unavailable'
+			});
+		});
+
+		it('should move subtasks up a level when their parent is deleted', () => {
+			const epicId = addTask({ title: 'Epic' });
+			setParentTask(parentId, epicId);
+
+			deleteTask(parentId);
+
+			expect(getTask(epicId)?.subtasks).toEqual([childId, siblingId]);
+			expect(getTask(childId)).toBeDefined();
+		});
+
+		it('should delete subtasks with their parent when asked', () => {
+			deleteTask(parentId, 'delete');
+
+			expect(getTask(childId)).toBeUndefined();
+			expect(getTask(siblingId)).toBeUndefined();
+			expect(getTask(designId)).toBeDefined();
+		});
+	});
+
+	describe('Board moves', () => {
+		it('should move tasks through the status transitions', () => {
+			expect(moveTask(designId, 'in-progress')).toBe(true);
+			expect(moveTask(designId, 'in-progress')).toBe(false);
+
+			moveTask(designId, 'completed');
+			expect(getTask(designId)).toMatchObject({ status: 'completed', completionPercentage: 100 });
+			expect(getTask(designId)?.completedAt).toBeDefined();
+
+			moveTask(designId, 'pending');
+			expect(getTask(designId)?.status).toBe('pending');
+			expect(getTask(designId)?.completedAt).toBeUndefined();
+		});
+
+		it('should keep blocked tasks out of progress', () => {
+			expect(() => moveTask(buildId, 'in-progress')).toThrow(
+				'Task is blocked by unfinished dependencies: Design'
+			);
+			expect(moveTask(buildId, 'on-hold')).toBe(true);
+		});
+
+		it('should refuse moves into a column at its WIP limit', () => {
+			moveTask(designId, 'in-progress', { 'in-progress': 1 });
+			const otherId = addTask({ title: 'Docs' });
+
+			expect(() => moveTask(otherId, 'in-progress', { 'in-progress': 1 })).toThrow(
+				'In Progress is at its WIP limit of 1'
+			);
+			expect(getTask(otherId)?.status).toBe('pending');
+		});
+	});
+
+	describe('Status changes', () => {
+		it('should refuse transitions the state machine does not allow', () => {
+			cancelTask(designId);
+
+			expect(() => completeTask(designId)).toThrow(
+				'Cannot change a task from Cancelled to Completed'
+			);
+			expect(() => moveTask(designId, 'in-progress')).toThrow(
+				'Cannot change a task from Cancelled to In Progress'
+			);
+			expect(reopenTask(designId)).toBe(true);
+		});
+
+		it('should not complete a task with open subtasks', () => {
+			const parentId = addTask({ title: 'Release', subtasks: [designId] });
+
+			expect(() => completeTask(parentId)).toThrow(
+				'Cannot complete a task with open subtasks: Design'
+			);
+			expect(getTask(parentId)?.status).toBe('pending');
+		});
+
+		it('should keep a history of status changes', () => {
+			startTask(designId);
+			completeTask(designId);
+
+			expect(getTask(designId)?.statusHistory?.map(({ from, to }) => ({ from, to }))).toEqual([
+				{ from: undefined, to: 'pending' },
+				{ from: 'pending', to: 'in-progress' },
+				{ from: 'in-progress', to: 'completed' }
+			]);
+
+			updateTask(designId, { title: 'Design v2' });
+			expect(getTask(designId)?.statusHistory).toHaveLength(3);
+		});
+	});
+
+	describe('Recurring tasks', () => {
+		let reportId: string;
+
+		beforeEach(() => {
+			reportId = addTask({
+				title: 'Weekly report',
+				dueDate: '2026-10-19',
+				recurrence: { frequency: 'weekly', interval: 1, count: 2 }
+			});
+		});
+
+		function getSeries() {
+			return get(tasks).filter((t) => t.title === 'Weekly report');
+		}
+
+		it('should create the next occurrence when a task is completed', () => {
+			completeTask(reportId);
+
+			const [, next] = getSeries();
+			expect(next).toMatchObject({
+				status: 'pending',
+				dueDate: '2026-10-26',
+				completionPercentage: 0,
+				recurrenceSeriesId: reportId,
+				recurrenceIndex: 2
+			});
+			expect(next?.completedAt).toBeUndefined();
+		});
+
+		it('should start the next occurrence with its checklist unticked', () => {
+			updateTask(reportId, { checklist: [{ id: 'item-1', text: 'Gather numbers', done: true }] });
+			completeTask(reportId);
+
+			expect(getSeries()[1]?.checklist).toEqual([
+				{ id: 'item-1', text: 'Gather numbers', done: false }
+			]);
+		});
+
+		it("should keep monthly occurrences on the series' first day", () => {
+			const rentId = addTask({
+				title: 'Pay rent',
+				dueDate: '2024-01-31',
+				recurrence: { frequency: 'monthly', interval: 1 }
+			});
+
+			completeTask(rentId);
+			const secondId = get(tasks).find((t) => t.recurrenceIndex === 2)?.id ?? '';
+			completeTask(secondId);
+
+			expect(
+				get(tasks)
+					.filter((t) => t.title === 'Pay rent')
+					.map((t) => t.dueDate)
+			).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+		});
+
+		it('should not create the same occurrence twice', () => {
+			completeTask(reportId);
+			reopenTask(reportId);
+			completeTask(reportId);
+
+			expect(getSeries()).toHaveLength(2);
+		});
+
+		it('should stop once the series has ended', () => {
+			completeTask(reportId);
+			const nextId = getSeries()[1]?.id ?? '';
+
+			completeTask(nextId);
+
+			expect(getSeries()).toHaveLength(2);
+		});
+
+		it('should reject invalid rules', () => {
+			expect(() =>
+				updateTask(reportId, { recurrence: { frequency: 'daily', interval: 0 } })
+			).toThrow('Invalid recurrence: Repeat interval must be a whole number of at least 1');
+		});
+	});
+});
@@ -3,7 +3,12 @@
  * 
  * Dedicated Svelte store for task management with CRUD operations,
  * project relationship validation, progress calculation based on time entries,
- * and task filtering and sorting capabilities.
+ * and task filtering and sorting capabilities. Tasks with unfinished
+ * dependencies are blocked and cannot be started. Parent tasks complete
+ * when all of their subtasks are finished. Moves on the task board go
+ * through the same status transitions and respect column WIP limits.
+ * Completing a recurring task creates its next occurrence. Status changes
+ * follow the task status state machine and are kept in each task's history.
  * 
  * @example
  * ```typescript
@@ -24,7 +29,7 @@
  */
 
 import { writable, derived, get } from 'svelte/store';
-import type { Task, TaskSummary, TaskFilter, Project, TimeEntry } from '$lib/types/index.js';
+import type { Task, TaskSummary, TaskFilter, TaskStatus, TaskWipLimits, Project, TimeEntry } from '$lib/types/index.js';
 import { eventBus } from '$lib/utils/eventBus.js';
 import { getCurrentTimestamp } from '$lib/utils/dateUtils.js';
 import { 
@@ -35,6 +40,12 @@ import {
 	getDaysUntilDue
 } from '$lib/utils/progress-utils.js';
 import { TaskService } from '$lib/services/task-service.js';
+import { recordRateChange } from '$lib/utils/billing-rate-utils.js';
+import { isTaskBlocked, isTaskFinished } from '$lib/utils/task-dependency-utils.js';
+import { findParentTask, getDescendantIds, getSubtasks } from '$lib/utils/task-hierarchy-utils.js';
+import { getWipLimitError } from '$lib/utils/task-board-utils.js';
+import { getNextOccurrence, getRecurrenceStartDate, validateRecurrence } from '$lib/utils/recurrence-utils.js';
+import { getStatusTransitionError, recordStatusChange } from '$lib/utils/task-status-utils.js';
 
 // Storage key for localStorage persistence
 const STORAGE_KEY = 'timeflow-tasks';
@@ -85,12 +96,29 @@ const { subscribe, set, update } = writable<Task[]>(loadTasksFromStorage());
  * Create a new task
  */
 export function createTask(taskData: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): string {
+	const existingTasks = get({ subscribe });
+	const dependencyErrors = taskService.validateDependencies(taskData, existingTasks);
+	if (dependencyErrors.length > 0) {
+		throw new Error(`Invalid task dependencies: ${dependencyErrors.join(', ')}`);
+	}
+	const subtaskErrors = taskService.validateSubtasks(taskData, existingTasks);
+	if (subtaskErrors.length > 0) {
+		throw new Error(`Invalid subtasks: ${subtaskErrors.join(', ')}`);
+	}
+	if (taskData.recurrence) {
+		const recurrenceErrors = validateRecurrence(taskData.recurrence, taskData.dueDate);
+		if (recurrenceErrors.length > 0) {
+			throw new Error(`Invalid recurrence: ${recurrenceErrors.join(', ')}`);
+		}
+	}
+
 	const id = generateId();
 	const now = getCurrentTimestamp();
 	
 	const newTask: Task = {
 		...taskData,
 		id,
+		statusHistory: [{ to: taskData.status, changedAt: now }],
 		createdAt: now,
 		updatedAt: now
 	};
@@ -112,10 +140,18 @@ export function createTask(taskData: Omit<Task, 'id' | 'createdAt' | 'updatedAt'
 }
 
 /**
- * Update an existing task
+ * Update an existing task.
+ * Rate changes are recorded in the rate history so earlier entries keep their rate.
+ * Changed dependencies, subtasks or project are checked against the other tasks.
+ * Status changes must be allowed by the task status state machine and are
+ * added to the task's status history.
+ * Finishing the last open subtask completes the parent, and completing a
+ * recurring task creates its next occurrence.
  */
 export function updateTask(taskId: string, updates: Partial<Omit<Task, 'id' | 'createdAt'>>): boolean {
 	let updated = false;
+	let finished = false;
+	let completed = false;
 
 	update(tasks => {
 		const taskIndex = tasks.findIndex(t => t.id === taskId);
@@ -123,12 +159,65 @@ export function updateTask(taskId: string, updates: Partial<Omit<Task, 'id' | 'c
 			throw new Error('Task not found');
 		}
 
+		const currentTask = tasks[taskIndex];
 		const updatedTask: Task = {
-			...tasks[taskIndex],
+			...currentTask,
 			...updates,
 			updatedAt: getCurrentTimestamp()
 		};
 
+		if ('dependencies' in updates || 'projectId' in updates) {
+			const dependencyErrors = taskService.validateDependencies(updatedTask, tasks);
+			if (dependencyErrors.length > 0) {
+				throw new Error(`Invalid task dependencies: ${dependencyErrors.join(', ')}`);
+			}
+		}
+
+		if ('subtasks' in updates || 'projectId' in updates) {
+			const nextTasks = tasks.map(t => t.id === taskId ? updatedTask : t);
+			const parent = findParentTask(taskId, nextTasks);
+			const subtaskErrors = [
+				...taskService.validateSubtasks(updatedTask, nextTasks),
+				...(parent ? taskService.validateSubtasks(parent, nextTasks) : [])
+			];
+			if (subtaskErrors.length > 0) {
+				throw new Error(`Invalid subtasks: ${subtaskErrors.join(', ')}`);
+			}
+		}
+
+		if (currentTask && updatedTask.status !== currentTask.status) {
+			// Guards look at the dependencies and subtasks the task is saved with
+			const statusError = getStatusTransitionError({ ...updatedTask, status: currentTask.status }, updatedTask.status, tasks);
+			if (statusError) {
+				throw new Error(statusError);
+			}
+			updatedTask.statusHistory = recordStatusChange(currentTask, updatedTask.status, updatedTask.updatedAt);
+		}
+
+		// A reopened task is no longer completed
+		if (updatedTask.status !== 'completed') {
+			delete updatedTask.completedAt;
+		}
+
+		if (updatedTask.recurrence && ('recurrence' in updates || 'dueDate' in updates)) {
+			const recurrenceErrors = validateRecurrence(updatedTask.recurrence, updatedTask.dueDate);
+			if (recurrenceErrors.length > 0) {
+				throw new Error(`Invalid recurrence: ${recurrenceErrors.join(', ')}`);
+			}
+		}
+
+		if (
+			currentTask &&
+			'customBillingRate' in updates &&
+			updates.customBillingRate !== currentTask.customBillingRate
+		) {
+			updatedTask.rateHistory = recordRateChange(
+				currentTask.rateHistory,
+				currentTask.customBillingRate,
+				updates.customBillingRate
+			);
+		}
+
 		const updatedTasks = [...tasks];
 		updatedTasks[taskIndex] = updatedTask;
 		updated = true;
@@ -149,31 +238,178 @@ export function updateTask(taskId: string, updates: Partial<Omit<Task, 'id' | 'c
 			});
 		}
 
+		finished = !!currentTask && !isTaskFinished(currentTask) && isTaskFinished(updatedTask);
+		completed = currentTask?.status !== 'completed' && updatedTask.status === 'completed';
+
 		return updatedTasks;
 	});
 
+	if (finished) {
+		completeFinishedParent(taskId);
+	}
+	if (completed) {
+		createNextOccurrence(taskId);
+	}
+
 	return updated;
 }
 
 /**
- * Delete a task
+ * Create the next occurrence of a recurring task, due on the rule's next
+ * date, unless the series has ended. Occurrences are keyed by series and
+ * position, so completing a task again, or completing a reopened one,
+ * never creates a second copy. Returns the ID of the next occurrence.
+ */
+export function createNextOccurrence(taskId: string): string | undefined {
+	const tasks = get({ subscribe });
+	const task = tasks.find(t => t.id === taskId);
+	if (!task?.recurrence) return undefined;
+
+	const seriesId = task.recurrenceSeriesId ?? task.id;
+	const index = task.recurrenceIndex ?? 1;
+	const existing = tasks.find(t => (t.recurrenceSeriesId ?? t.id) === seriesId && (t.recurrenceIndex ?? 1) === index + 1);
+	if (existing) return existing.id;
+
+	// Monthly dates follow the series' first occurrence while it still exists
+	const first = tasks.find(t => t.id === seriesId) ?? task;
+	const dueDate = getNextOccurrence(
+		task.recurrence,
+		getRecurrenceStartDate(task),
+		index,
+		getRecurrenceStartDate(first)
+	);
+	if (!dueDate) return undefined;
+
+	const {
+		id: _id,
+		createdAt: _createdAt,
+		updatedAt: _updatedAt,
+		completedAt: _completedAt,
+		asanaTaskId: _asanaTaskId,
+		...template
+	} = task;
+	return createTask({
+		...template,
+		status: 'pending',
+		actualHours: 0,
+		completionPercentage: 0,
+		dependencies: [],
+		subtasks: [],
+		// Each occurrence starts with its checklist unticked
+		...(task.checklist && { checklist: task.checklist.map(item => ({ ...item, done: false })) }),
+		dueDate,
+		recurrenceSeriesId: seriesId,
+		recurrenceIndex: index + 1
+	});
+}
+
+/**
+ * Complete the parent of a task once all of its subtasks are finished and at
+ * least one was completed. Completing the parent repeats this up the tree.
+ * The subtask is already saved, so a parent that cannot be completed is left
+ * open with a warning rather than failing the subtask's update.
+ */
+function completeFinishedParent(taskId: string): void {
+	const tasks = get({ subscribe });
+	const parent = findParentTask(taskId, tasks);
+	if (!parent || isTaskFinished(parent)) return;
+
+	const subtasks = getSubtasks(parent, tasks);
+	if (!subtasks.every(isTaskFinished) || !subtasks.some(t => t.status === 'completed')) return;
+
+	try {
+		completeTask(parent.id);
+	} catch (error) {
+		eventBus.emit('ui:notification', {
+			type: 'warning',
+			message: `Could not complete "${parent.title}": ${error instanceof Error ? error.message : String(error)}`
+		});
+	}
+}
+
+/**
+ * Move a task under a parent task, or to the top level with null.
+ * Returns false when the task already has that parent.
+ */
+export function setParentTask(taskId: string, parentId: string | null): boolean {
+	const tasks = get({ subscribe });
+	if (!tasks.some(t => t.id === taskId)) {
+		throw new Error('Task not found');
+	}
+
+	const currentParent = findParentTask(taskId, tasks);
+	if ((currentParent?.id ?? null) === parentId) return false;
+
+	// Check the new parent as if the task had already left its current one
+	const detachedTasks = tasks.map(t => t.id === currentParent?.id
+		? { ...t, subtasks: t.subtasks.filter(id => id !== taskId) }
+		: t
+	);
+	const parent = parentId ? detachedTasks.find(t => t.id === parentId) : undefined;
+	if (parentId && !parent) {
+		throw new Error('Parent task not found');
+	}
+
+	if (parent) {
+		const subtaskErrors = taskService.validateSubtasks(
+			{ ...parent, subtasks: [...parent.subtasks, taskId] },
+			detachedTasks
+		);
+		if (subtaskErrors.length > 0) {
+			throw new Error(`Invalid subtasks: ${subtaskErrors.join(', ')}`);
+		}
+	}
+
+	if (currentParent) {
+		updateTask(currentParent.id, { subtasks: currentParent.subtasks.filter(id => id !== taskId) });
+	}
+	if (parent) {
+		updateTask(parent.id, { subtasks: [...parent.subtasks, taskId] });
+	}
+
+	return true;
+}
+
+/**
+ * Delete a task, removing it from the dependencies of other tasks.
+ * Its subtasks are deleted with it, or with 'promote' move up to take its
+ * place under its parent (or to the top level).
  */
-export function deleteTask(taskId: string): boolean {
+export function deleteTask(taskId: string, subtasks: 'promote' | 'delete' = 'promote'): boolean {
 	let deleted = false;
 
 	update(tasks => {
-		const taskExists = tasks.some(t => t.id === taskId);
-		if (!taskExists) {
+		const task = tasks.find(t => t.id === taskId);
+		if (!task) {
 			throw new Error('Task not found');
 		}
 
-		const updatedTasks = tasks.filter(t => t.id !== taskId);
+		const deletedIds = subtasks === 'delete' ? [taskId, ...getDescendantIds(taskId, tasks)] : [taskId];
+		const now = getCurrentTimestamp();
+
+		const updatedTasks = tasks
+			.filter(t => !deletedIds.includes(t.id))
+			.map(t => {
+				const linked = t.subtasks.includes(taskId) || t.dependencies.some(id => deletedIds.includes(id));
+				if (!linked) return t;
+
+				return {
+					...t,
+					// The parent takes over promoted subtasks in the deleted task's place
+					subtasks: t.subtasks.flatMap(id => {
+						if (id !== taskId) return [id];
+						return subtasks === 'promote' ? task.subtasks : [];
+					}),
+					dependencies: t.dependencies.filter(id => !deletedIds.includes(id)),
+					updatedAt: now
+				};
+			});
 		deleted = true;
 
 		saveTasksToStorage(updatedTasks);
 
-		// Emit event
-		eventBus.emit('task:deleted', { taskId });
+		// Emit events
+		deletedIds.forEach(id => eventBus.emit('task:deleted', { taskId: id }));
 
 		return updatedTasks;
 	});
@@ -182,7 +418,8 @@ export function deleteTask(taskId: string): boolean {
 }
 
 /**
- * Complete a task
+ * Complete a task.
+ * Throws while any of its subtasks are still open.
  */
 export function completeTask(taskId: string): boolean {
 	return updateTask(taskId, { 
@@ -193,7 +430,8 @@ export function completeTask(taskId: string): boolean {
 }
 
 /**
- * Start working on a task
+ * Start working on a task.
+ * Throws when the task still depends on unfinished tasks.
  */
 export function startTask(taskId: string): boolean {
 	return updateTask(taskId, { status: 'in-progress' });
@@ -213,6 +451,47 @@ export function cancelTask(taskId: string): boolean {
 	return updateTask(taskId, { status: 'cancelled' });
 }
 
+/**
+ * Reopen a finished or paused task
+ */
+export function reopenTask(taskId: string): boolean {
+	return updateTask(taskId, { status: 'pending' });
+}
+
+/**
+ * Move a task to another status, as on the task board. The move goes
+ * through startTask, pauseTask, completeTask, cancelTask or reopenTask so
+ * the usual checks, events and timestamps apply.
+ * Throws when the task cannot move to the status, or the status is at its
+ * WIP limit.
+ */
+export function moveTask(taskId: string, status: TaskStatus, wipLimits: TaskWipLimits = {}): boolean {
+	const tasks = get({ subscribe });
+	const task = tasks.find(t => t.id === taskId);
+	if (!task) {
+		throw new Error('Task not found');
+	}
+	if (task.status === status) return false;
+
+	const moveError = getStatusTransitionError(task, status, tasks) ?? getWipLimitError(task, status, tasks, wipLimits);
+	if (moveError) {
+		throw new Error(moveError);
+	}
+
+	switch (status) {
+		case 'in-progress':
+			return startTask(taskId);
+		case 'on-hold':
+			return pauseTask(taskId);
+		case 'completed':
+			return completeTask(taskId);
+		case 'cancelled':
+			return cancelTask(taskId);
+		case 'pending':
+			return reopenTask(taskId);
+	}
+}
+
 /**
  * Get task by ID (non-reactive)
  */
@@ -290,6 +569,11 @@ export const overdueTasks = derived(
 	tasks => tasks.filter(t => isTaskOverdue(t))
 );
 
+export const blockedTasks = derived(
+	{ subscribe },
+	tasks => tasks.filter(t => isTaskBlocked(t, tasks))
+);
+
 export const urgentTasks = derived(
 	{ subscribe },
 	tasks => tasks.filter(t => t.priority === 'urgent' && t.status !== 'completed')
@@ -0,0 +1,71 @@
+/**
+ * Tax Profiles Store Tests
+ *
+ * Tests for creating, updating and deleting tax profiles, including
+ * profiles still attached to a client
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import {
+	taxProfiles,
+	createTaxProfile,
+	updateTaxProfile,
+	deleteTaxProfile,
+	getTaxProfile,
+	clearAllTaxProfiles
+} from './taxProfiles';
+import { createClient, clearAllClients } from './clients';
+import { eventBus } from '../utils/eventBus';
+
+// Mock the event bus
+vi.mock('../utils/eventBus', () => ({
+	eventBus: {
+		emit: vi.fn()
+	}
+}));
+
+const vat = { name: ' VAT ', rate: 20, inclusive: false, reverseCharge: false };
+
+describe('Tax Profiles Store', () => {
+	beforeEach(() => {
+		clearAllClients();
+		clearAllTaxProfiles();
+		vi.clearAllMocks();
+	});
+
+	it('should create a tax profile', () => {
+		const taxProfileId = createTaxProfile(vat);
+
+		expect(getTaxProfile(taxProfileId)).toMatchObject({ name: 'VAT', rate: 20 });
+		expect(eventBus.emit).toHaveBeenCalledWith('taxProfile:created', {
+			taxProfileId,
+			name: 'VAT'
+		});
+	});
+
+	it('should reject invalid rates on create and update', () => {
+		expect(() => createTaxProfile({ ...vat, rate: -5 })).toThrow(
+			'Invalid tax profile: Tax rate must be between 0 and 100'
+		);
+
+		const taxProfileId = createTaxProfile(vat);
+		expect(() => updateTaxProfile(taxProfileId, { rate: 150 })).toThrow('Invalid tax profile');
+
+		updateTaxProfile(taxProfileId, { rate: 21, inclusive: true });
+		expect(getTaxProfile(taxProfileId)).toMatchObject({ rate: 21, inclusive: true });
+	});
+
+	it('should not delete profiles attached to a client', () => {
+		const taxProfileId = createTaxProfile(vat);
+		createClient({ name: 'Acme Corp', defaultCurrency: 'EUR', taxProfileId, isActive: true });
+
+		expect(() => deleteTaxProfile(taxProfileId)).toThrow(
+			'Tax profile is used by clients or projects'
+		);
+
+		clearAllClients();
+		expect(deleteTaxProfile(taxProfileId)).toBe(true);
+		expect(get(taxProfiles)).toHaveLength(0);
+	});
+});
@@ -0,0 +1,189 @@
+/**
+ * Tax Profiles Store for TimeFlow Pro
+ *
+ * Dedicated Svelte store for tax profiles with localStorage persistence.
+ * Profiles are attached to clients or projects and applied when invoices
+ * are generated.
+ *
+ * @example
+ * ```typescript
+ * import { taxProfiles, createTaxProfile } from '$lib/stores/taxProfiles';
+ *
+ * const taxProfileId = createTaxProfile({
+ *   name: 'VAT',
+ *   rate: 20,
+ *   inclusive: false,
+ *   reverseCharge: false
+ * });
+ * ```
+ */
+
+import { writable, get } from 'svelte/store';
+import type { TaxProfile } from '$lib/types/index.js';
+import { eventBus } from '$lib/utils/eventBus.js';
+import { getCurrentTimestamp } from '$lib/utils/dateUtils.js';
+import { validateTaxProfile } from '$lib/utils/tax-utils.js';
+import { billingRateSources } from './projectStore.js';
+
+// Storage key for localStorage persistence
+const STORAGE_KEY = 'timeflow-tax-profiles';
+
+/**
+ * Load tax profiles from localStorage
+ */
+function loadTaxProfilesFromStorage(): TaxProfile[] {
+	if (typeof window === 'undefined') return [];
+
+	try {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		return stored ? JSON.parse(stored) : [];
+	} catch (error) {
+		console.error('Failed to load tax profiles from localStorage:', error);
+		return [];
+	}
+}
+
+/**
+ * Save tax profiles to localStorage
+ */
+function saveTaxProfilesToStorage(profiles: TaxProfile[]): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+	} catch (error) {
+		console.error('Failed to save tax profiles to localStorage:', error);
+		eventBus.emit('storage:error', { error, timestamp: new Date() });
+	}
+}
+
+/**
+ * Generate a unique ID
+ */
+function generateId(): string {
+	return `tax-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Create the writable store with initial data from localStorage
+const { subscribe, set, update } = writable<TaxProfile[]>(loadTaxProfilesFromStorage());
+
+/**
+ * Create a new tax profile
+ */
+export function createTaxProfile(
+	profileData: Omit<TaxProfile, 'id' | 'createdAt' | 'updatedAt'>
+): string {
+	const errors = validateTaxProfile(profileData);
+	if (errors.length > 0) {
+		throw new Error(`Invalid tax profile: ${errors.join(', ')}`);
+	}
+
+	const id = generateId();
+	const now = getCurrentTimestamp();
+
+	const newProfile: TaxProfile = {
+		...profileData,
+		name: profileData.name.trim(),
+		id,
+		createdAt: now,
+		updatedAt: now
+	};
+
+	update((profiles) => {
+		const updatedProfiles = [...profiles, newProfile];
+		saveTaxProfilesToStorage(updatedProfiles);
+		return updatedProfiles;
+	});
+
+	// Emit event
+	eventBus.emit('taxProfile:created', {
+		taxProfileId: id,
+		name: newProfile.name
+	});
+
+	return id;
+}
+
+/**
+ * Update an existing tax profile. Invoices already issued keep their tax lines.
+ */
+export function updateTaxProfile(
+	taxProfileId: string,
+	updates: Partial<Omit<TaxProfile, 'id' | 'createdAt'>>
+): boolean {
+	const profiles = get({ subscribe });
+	const currentProfile = profiles.find((p) => p.id === taxProfileId);
+	if (!currentProfile) {
+		throw new Error('Tax profile not found');
+	}
+
+	const updatedProfile: TaxProfile = {
+		...currentProfile,
+		...updates,
+		updatedAt: getCurrentTimestamp()
+	};
+
+	const errors = validateTaxProfile(updatedProfile);
+	if (errors.length > 0) {
+		throw new Error(`Invalid tax profile: ${errors.join(', ')}`);
+	}
+
+	const updatedProfiles = profiles.map((p) => (p.id === taxProfileId ? updatedProfile : p));
+	set(updatedProfiles);
+	saveTaxProfilesToStorage(updatedProfiles);
+
+	// Emit event
+	eventBus.emit('taxProfile:updated', {
+		taxProfileId,
+		changes: updates
+	});
+
+	return true;
+}
+
+/**
+ * Delete a tax profile.
+ * Profiles still attached to a client or project cannot be deleted.
+ */
+export function deleteTaxProfile(taxProfileId: string): boolean {
+	const profiles = get({ subscribe });
+	if (!profiles.some((p) => p.id === taxProfileId)) {
+		throw new Error('Tax profile not found');
+	}
+
+	const { projects = [], clients = [] } = get(billingRateSources);
+	if (
+		projects.some((p) => p.taxProfileId === taxProfileId) ||
+		clients.some((c) => c.taxProfileId === taxProfileId)
+	) {
+		throw new Error('Tax profile is used by clients or projects');
+	}
+
+	const updatedProfiles = profiles.filter((p) => p.id !== taxProfileId);
+	set(updatedProfiles);
+	saveTaxProfilesToStorage(updatedProfiles);
+
+	// Emit event
+	eventBus.emit('taxProfile:deleted', { taxProfileId });
+
+	return true;
+}
+
+/**
+ * Get tax profile by ID (non-reactive)
+ */
+export function getTaxProfile(taxProfileId: string): TaxProfile | undefined {
+	return get({ subscribe }).find((p) => p.id === taxProfileId);
+}
+
+/**
+ * Clear all tax profiles
+ */
+export function clearAllTaxProfiles(): void {
+	set([]);
+	saveTaxProfilesToStorage([]);
+	eventBus.emit('taxProfiles:cleared', { timestamp: new Date() });
+}
+
+// Export the main store
+export const taxProfiles = { subscribe };
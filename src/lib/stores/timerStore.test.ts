@@ -6,7 +6,12 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { get } from 'svelte/store';
-import { timerStore, isRunning, isPaused, isStopped, currentElapsed } from './timerStore';
+import { timerStore, isRunning, isPaused, isStopped, currentElapsed, canUndoStop, phaseRemaining, UNDO_WINDOW } from './timerStore';
+import { projectStore } from './projectStore';
+import { eventBus } from '../utils/eventBus';
+import { createProject, clearAllProjects } from './projects';
+import { createTask, clearAllTasks } from './tasks';
+import { withTimeZone } from '../utils/test-helpers';
 
 // Mock the event bus
 vi.mock('../utils/eventBus', () => ({
@@ -123,6 +128,132 @@ describe('Timer Store', () => {
 		});
 	});
 
+	describe('Time Entry Creation', () => {
+		let projectId: string;
+
+		beforeEach(() => {
+			clearAllProjects();
+			clearAllTasks();
+			projectStore.clearAll();
+
+			projectId = createProject({
+				name: 'Timer Project',
+				clientName: 'Timer Client',
+				defaultBillingRate: 80,
+				colorCode: '#3B82F6',
+				status: 'active',
+				estimatedHours: 10,
+				actualHours: 0,
+				currency: 'USD',
+				tags: [],
+				isBillable: true,
+				isArchived: false
+			});
+		});
+
+		it('should create a time entry when stopping a timer with a project', () => {
+			timerStore.start({ projectId, description: 'Writing docs' });
+			vi.advanceTimersByTime(1800 * 1000);
+
+			const entryId = timerStore.stop();
+
+			expect(entryId).toBeTruthy();
+			const entry = entryId ? projectStore.getTimeEntry(entryId) : undefined;
+			expect(entry).toBeDefined();
+			if (!entry) return;
+			expect(entry.projectId).toBe(projectId);
+			expect(entry.fromTimer).toBe(true);
+			expect(entry.isEdited).toBe(false);
+			expect(entry.duration).toBe(0.5);
+			expect(entry.billableHours).toBe(0.5);
+			expect(entry.billingRate).toBe(80);
+			expect(entry.billingStatus).toBe('ready');
+			expect(entry.description).toBe('Writing docs');
+			expect(new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()).toBe(1800 * 1000);
+		});
+
+		it('should prefer the task billing rate over the project rate', () => {
+			const taskId = createTask({
+				projectId,
+				title: 'Rated Task',
+				priority: 'medium',
+				status: 'in-progress',
+				actualHours: 0,
+				tags: [],
+				completionPercentage: 0,
+				isBillable: true,
+				customBillingRate: 120,
+				dependencies: [],
+				subtasks: []
+			});
+
+			timerStore.start({ projectId, taskId });
+			vi.advanceTimersByTime(60 * 1000);
+			const entry = projectStore.getTimeEntry(timerStore.stop() ?? '');
+
+			expect(entry?.taskId).toBe(taskId);
+			expect(entry?.billingRate).toBe(120);
+			expect(entry?.description).toBe('Rated Task');
+		});
+
+		it('should exclude paused time from the entry', () => {
+			timerStore.start({ projectId });
+			vi.advanceTimersByTime(60 * 1000);
+			timerStore.pause();
+			vi.advanceTimersByTime(60 * 1000);
+
+			const entry = projectStore.getTimeEntry(timerStore.stop() ?? '');
+			expect(entry).toBeDefined();
+			expect((entry?.duration ?? 0) * 3600).toBeCloseTo(60);
+		});
+
+		it('should log a running session before starting another', () => {
+			timerStore.start({ projectId, description: 'First' });
+			vi.advanceTimersByTime(60 * 1000);
+			timerStore.start({ projectId, description: 'Second' });
+			vi.advanceTimersByTime(30 * 1000);
+			timerStore.startPomodoro({ projectId });
+
+			const entries = get(projectStore).timeEntries;
+			expect(entries.map(entry => entry.description)).toEqual(['First', 'Second']);
+			expect((entries[1]?.duration ?? 0) * 3600).toBeCloseTo(30);
+			expect(timerStore.getCurrentState().elapsedTime).toBe(0);
+		});
+
+		it('should not create an entry without a project', () => {
+			timerStore.start();
+			vi.advanceTimersByTime(5000);
+
+			expect(timerStore.stop()).toBe(null);
+			expect(get(projectStore).timeEntries).toHaveLength(0);
+		});
+
+		it('should undo the created entry within the undo window', () => {
+			timerStore.start({ projectId });
+			vi.advanceTimersByTime(5000);
+			const entryId = timerStore.stop() ?? '';
+			expect(entryId).toBeTruthy();
+
+			expect(get(canUndoStop)).toBe(true);
+			expect(timerStore.undoLastEntry()).toBe(true);
+			expect(projectStore.getTimeEntry(entryId)).toBeUndefined();
+			expect(get(canUndoStop)).toBe(false);
+		});
+
+		it('should keep the entry once the undo window has passed', () => {
+			timerStore.start({ projectId });
+			vi.advanceTimersByTime(5000);
+			const entryId = timerStore.stop() ?? '';
+			expect(entryId).toBeTruthy();
+
+			vi.advanceTimersByTime(UNDO_WINDOW);
+
+			expect(get(canUndoStop)).toBe(false);
+			expect(timerStore.undoLastEntry()).toBe(false);
+			expect(projectStore.getTimeEntry(entryId)).toBeDefined();
+		});
+	});
+
 	describe('Pausing and Resuming Timer', () => {
 		it('should pause running timer', () => {
 			timerStore.start();
@@ -276,6 +407,115 @@ describe('Timer Store', () => {
 		});
 	});
 
+	describe('Pomodoro Mode', () => {
+		const config = { workMinutes: 1, shortBreakMinutes: 1, longBreakMinutes: 2, sessionsBeforeLongBreak: 2 };
+		let projectId: string;
+
+		beforeEach(() => {
+			vi.setSystemTime(new Date('2026-10-19T09:00:00.000Z'));
+			clearAllProjects();
+			projectStore.clearAll();
+			timerStore.clearFocusStats();
+
+			projectId = createProject({
+				name: 'Focus Project',
+				clientName: 'Focus Client',
+				defaultBillingRate: 80,
+				colorCode: '#3B82F6',
+				status: 'active',
+				estimatedHours: 10,
+				actualHours: 0,
+				currency: 'USD',
+				tags: [],
+				isBillable: true,
+				isArchived: false
+			});
+		});
+
+		it('should move through work and break phases on its own', () => {
+			timerStore.startPomodoro({ projectId, config });
+			expect(timerStore.getCurrentState().pomodoro).toMatchObject({ phase: 'work', phaseDuration: 60 });
+
+			vi.advanceTimersByTime(45 * 1000);
+			expect(get(phaseRemaining)).toBe(15);
+
+			vi.advanceTimersByTime(15 * 1000);
+			expect(timerStore.getCurrentState().pomodoro).toMatchObject({ phase: 'short-break', completedSessions: 1 });
+
+			vi.advanceTimersByTime(60 * 1000);
+			expect(timerStore.getCurrentState().pomodoro?.phase).toBe('work');
+
+			vi.advanceTimersByTime(60 * 1000);
+			expect(timerStore.getCurrentState().pomodoro).toMatchObject({
+				phase: 'long-break',
+				phaseDuration: 120,
+				completedSessions: 2
+			});
+
+			vi.advanceTimersByTime(120 * 1000);
+			expect(timerStore.getCurrentState().pomodoro?.phase).toBe('work');
+			expect(timerStore.getCurrentState().status).toBe('running');
+		});
+
+		it('should only log work phases as time entries', () => {
+			timerStore.startPomodoro({ projectId, config });
+			vi.advanceTimersByTime(180 * 1000);
+
+			const entries = get(projectStore).timeEntries;
+			expect(entries).toHaveLength(2);
+			entries.forEach(entry => expect(entry.duration * 3600).toBeCloseTo(60));
+
+			// Stopping during the long break that follows logs nothing
+			vi.advanceTimersByTime(30 * 1000);
+			expect(timerStore.getCurrentState().pomodoro?.phase).toBe('long-break');
+			expect(timerStore.stop()).toBe(null);
+			expect(get(projectStore).timeEntries).toHaveLength(2);
+		});
+
+		it('should keep focus statistics for the day', () => {
+			timerStore.startPomodoro({ projectId, config });
+			vi.advanceTimersByTime(90 * 1000);
+			timerStore.skipPhase();
+			vi.advanceTimersByTime(20 * 1000);
+			timerStore.skipPhase();
+
+			expect(timerStore.getCurrentState().pomodoro).toMatchObject({ phase: 'short-break', completedSessions: 1 });
+			expect(timerStore.getFocusStats()).toEqual({
+				date: '2026-10-19',
+				focusSeconds: 80,
+				breakSeconds: 30,
+				completedSessions: 1
+			});
+			expect(get(projectStore).timeEntries).toHaveLength(2);
+		});
+
+		it('should count evening sessions toward the local day', () => {
+			withTimeZone('America/New_York', () => {
+				// 23:30 in New York is already the next day in UTC
+				vi.setSystemTime(new Date('2026-10-20T03:30:00.000Z'));
+				timerStore.startPomodoro({ projectId, config });
+				vi.advanceTimersByTime(60 * 1000);
+
+				expect(timerStore.getFocusStats()).toMatchObject({ date: '2026-10-19', focusSeconds: 60, completedSessions: 1 });
+				expect(timerStore.getFocusStats(new Date('2026-10-20T12:00:00.000Z')).focusSeconds).toBe(0);
+			});
+		});
+
+		it('should chime when a phase ends and at stopwatch milestones', () => {
+			timerStore.startPomodoro({ config });
+			vi.advanceTimersByTime(60 * 1000);
+
+			expect(eventBus.emit).toHaveBeenCalledWith('timer:chime', expect.objectContaining({ reason: 'phase-end', phase: 'work' }));
+			expect(eventBus.emit).toHaveBeenCalledWith('timer:phase', expect.objectContaining({ phase: 'short-break' }));
+
+			timerStore.start();
+			expect(timerStore.getCurrentState().mode).toBe('stopwatch');
+			vi.advanceTimersByTime(1800 * 1000);
+
+			expect(eventBus.emit).toHaveBeenCalledWith('timer:chime', expect.objectContaining({ reason: 'milestone', elapsed: 1800 }));
+		});
+	});
+
 	describe('Edge Cases', () => {
 		it('should handle rapid start/stop cycles', () => {
 			for (let i = 0; i < 5; i++) {
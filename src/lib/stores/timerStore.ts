@@ -16,15 +16,35 @@
  * // Start timer
  * timerStore.start({ projectId: '123', taskId: '456' });
  * 
- * // Stop timer
- * timerStore.stop();
+ * // Stop timer (creates a time entry for the session)
+ * const entryId = timerStore.stop();
+ *
+ * // Changed your mind? Undo within the undo window
+ * timerStore.undoLastEntry();
+ *
+ * // Pomodoro mode: 25 minute work phases with breaks in between
+ * timerStore.startPomodoro({ projectId: '123', config: { workMinutes: 25 } });
  * ```
  */
 
 import { writable, derived, get } from 'svelte/store';
-import type { TimerState, TimerStatus } from '$lib/types/index.js';
+import type {
+	FocusDayStats,
+	PomodoroConfig,
+	PomodoroPhase,
+	PomodoroState,
+	TimerMode,
+	TimerState,
+	TimerStatus
+} from '$lib/types/index.js';
 import { eventBus } from '$lib/utils/eventBus.js';
-import { getCurrentTimestamp } from '$lib/utils/dateUtils.js';
+import { formatLocalDate, getCurrentTimestamp } from '$lib/utils/dateUtils.js';
+import { isMilestoneReached } from '$lib/utils/time-utils.js';
+import { createTimeEntryFromTimer } from '$lib/utils/time-entry-utils.js';
+import type { TimerSessionSnapshot } from '$lib/utils/time-entry-utils.js';
+import { projectStore } from './projectStore.js';
+import { getProject } from './projects.js';
+import { getTask } from './tasks.js';
 
 // Timer state interface
 interface TimerStoreState extends TimerState {
@@ -32,6 +52,9 @@ interface TimerStoreState extends TimerState {
 	intervalId?: number;
 	lastTick?: Date;
 	totalElapsed: number; // Total elapsed time including previous sessions
+	lastEntryId: string | null; // Entry created by the last stop, while it can still be undone
+	mode: TimerMode;
+	pomodoro: PomodoroState | null; // Current phase while in Pomodoro mode
 }
 
 // Initial timer state
@@ -46,7 +69,10 @@ const initialState: TimerStoreState = {
 	taskId: null,
 	description: '',
 	lastTick: undefined,
-	intervalId: undefined
+	intervalId: undefined,
+	lastEntryId: null,
+	mode: 'stopwatch',
+	pomodoro: null
 };
 
 // Create the writable store
@@ -55,20 +81,79 @@ const { subscribe, set, update } = writable<TimerStoreState>(initialState);
 // Timer interval duration (1 second)
 const TIMER_INTERVAL = 1000;
 
+// How long a time entry created by stop() can be undone (10 seconds)
+export const UNDO_WINDOW = 10000;
+
+// Pending undo window timeout
+let undoTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+// Default Pomodoro phase lengths
+export const DEFAULT_POMODORO_CONFIG: PomodoroConfig = {
+	workMinutes: 25,
+	shortBreakMinutes: 5,
+	longBreakMinutes: 15,
+	sessionsBeforeLongBreak: 4
+};
+
+// Storage key for per-day focus statistics
+const FOCUS_STATS_STORAGE_KEY = 'timeflow-focus-stats';
+
+/**
+ * Load focus statistics from localStorage
+ */
+function loadFocusStatsFromStorage(): Record<string, FocusDayStats> {
+	if (typeof window === 'undefined') return {};
+
+	try {
+		const stored = localStorage.getItem(FOCUS_STATS_STORAGE_KEY);
+		return stored ? JSON.parse(stored) : {};
+	} catch (error) {
+		console.error('Failed to load focus statistics from localStorage:', error);
+		return {};
+	}
+}
+
 /**
- * Start the timer with optional project and task
+ * Save focus statistics to localStorage
+ */
+function saveFocusStatsToStorage(stats: Record<string, FocusDayStats>): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		localStorage.setItem(FOCUS_STATS_STORAGE_KEY, JSON.stringify(stats));
+	} catch (error) {
+		console.error('Failed to save focus statistics to localStorage:', error);
+		eventBus.emit('storage:error', { error, timestamp: new Date() });
+	}
+}
+
+// Per-day focus statistics
+const focusStatsStore = writable<Record<string, FocusDayStats>>(loadFocusStatsFromStorage());
+
+/**
+ * Close the undo window for the last created time entry
+ */
+function clearUndoWindow(): void {
+	if (undoTimeoutId) {
+		clearTimeout(undoTimeoutId);
+		undoTimeoutId = undefined;
+	}
+}
+
+/**
+ * Start the timer with optional project and task. A session already
+ * running or paused is stopped and logged first.
  */
 function start(options: {
 	projectId?: string;
 	taskId?: string;
 	description?: string;
 } = {}): void {
-	update(state => {
-		// If timer is already running, stop it first
-		if (state.status === 'running' && state.intervalId) {
-			clearInterval(state.intervalId);
-		}
+	if (get({ subscribe }).status !== 'stopped') {
+		stop();
+	}
 
+	update(state => {
 		const now = new Date();
 		const newState: TimerStoreState = {
 			...state,
@@ -80,24 +165,13 @@ function start(options: {
 			projectId: options.projectId || state.projectId,
 			taskId: options.taskId || state.taskId,
 			description: options.description || state.description,
-			lastTick: now
+			lastTick: now,
+			mode: 'stopwatch',
+			pomodoro: null
 		};
 
 		// Start the interval
-		newState.intervalId = setInterval(() => {
-			update(currentState => {
-				if (currentState.status === 'running' && currentState.startTime) {
-					const now = new Date();
-					const elapsed = Math.floor((now.getTime() - currentState.startTime.getTime()) / 1000);
-					return {
-						...currentState,
-						elapsedTime: elapsed,
-						lastTick: now
-					};
-				}
-				return currentState;
-			});
-		}, TIMER_INTERVAL);
+		newState.intervalId = setInterval(tick, TIMER_INTERVAL);
 
 		// Emit event
 		eventBus.emit('timer:start', {
@@ -111,37 +185,284 @@ function start(options: {
 }
 
 /**
- * Stop the timer and calculate final duration
+ * Start the timer in Pomodoro mode, beginning with a work phase. Phases
+ * follow each other automatically until the timer is stopped; lengths not
+ * given in `config` fall back to DEFAULT_POMODORO_CONFIG. Like start(), it
+ * stops and logs a session already in progress.
  */
-function stop(): void {
-	update(state => {
-		if (state.intervalId) {
-			clearInterval(state.intervalId);
+function startPomodoro(options: {
+	projectId?: string;
+	taskId?: string;
+	description?: string;
+	config?: Partial<PomodoroConfig>;
+} = {}): void {
+	const { config: overrides, ...context } = options;
+	const config: PomodoroConfig = { ...DEFAULT_POMODORO_CONFIG, ...overrides };
+
+	start(context);
+	update(state => ({
+		...state,
+		mode: 'pomodoro',
+		pomodoro: {
+			phase: 'work',
+			phaseDuration: getPhaseDuration('work', config),
+			completedSessions: 0,
+			config
 		}
+	}));
 
-		const now = new Date();
-		const finalElapsed = state.startTime 
-			? Math.floor((now.getTime() - state.startTime.getTime()) / 1000)
-			: state.elapsedTime;
+	eventBus.emit('timer:phase', {
+		phase: 'work',
+		completedSessions: 0,
+		timestamp: new Date()
+	});
+}
 
-		const newState: TimerStoreState = {
-			...state,
-			status: 'stopped',
-			endTime: now,
-			elapsedTime: finalElapsed,
-			totalElapsed: state.totalElapsed + finalElapsed,
-			intervalId: undefined,
-			lastTick: now
+/**
+ * Update elapsed time once a second. A stopwatch chimes at each
+ * milestone; a Pomodoro timer chimes and moves on when its phase is over.
+ */
+function tick(): void {
+	const state = get({ subscribe });
+	if (state.status !== 'running' || !state.startTime) return;
+
+	const now = new Date();
+	const elapsed = Math.floor((now.getTime() - state.startTime.getTime()) / 1000);
+	update(current => ({ ...current, elapsedTime: elapsed, lastTick: now }));
+
+	if (state.pomodoro) {
+		if (elapsed >= state.pomodoro.phaseDuration) {
+			eventBus.emit('timer:chime', {
+				reason: 'phase-end',
+				phase: state.pomodoro.phase,
+				elapsed: state.pomodoro.phaseDuration,
+				timestamp: now
+			});
+			// The next phase starts when this one was due to end, however late the tick
+			const phaseEnd = new Date(state.startTime.getTime() + state.pomodoro.phaseDuration * 1000);
+			endPhase(phaseEnd, true, phaseEnd);
+		}
+	} else if (elapsed !== state.elapsedTime && isMilestoneReached(elapsed)) {
+		eventBus.emit('timer:chime', { reason: 'milestone', elapsed, timestamp: now });
+	}
+}
+
+/**
+ * End the current Pomodoro phase early and move on to the next one. Time
+ * worked in a skipped work phase is still logged, but no session is completed.
+ */
+function skipPhase(): void {
+	const state = get({ subscribe });
+	if (!state.pomodoro || state.status === 'stopped') return;
+
+	const now = new Date();
+	const endedAt = state.status === 'paused' && state.pausedTime ? state.pausedTime : now;
+	endPhase(endedAt, false, now);
+}
+
+/**
+ * Log the Pomodoro phase that ended at `endedAt` and start the next one,
+ * running, at `nextStart`. Every `sessionsBeforeLongBreak`-th completed work
+ * phase is followed by a long break, other work phases by a short one, and
+ * breaks by work.
+ */
+function endPhase(endedAt: Date, completed: boolean, nextStart: Date): void {
+	const state = get({ subscribe });
+	const { pomodoro, startTime } = state;
+	if (!pomodoro || !startTime) return;
+
+	const seconds = Math.floor((endedAt.getTime() - startTime.getTime()) / 1000);
+	logSession(state, endedAt, seconds, completed);
+
+	const completedSessions = pomodoro.completedSessions + (pomodoro.phase === 'work' && completed ? 1 : 0);
+	let phase: PomodoroPhase = 'work';
+	if (pomodoro.phase === 'work') {
+		phase = completed && completedSessions % pomodoro.config.sessionsBeforeLongBreak === 0
+			? 'long-break'
+			: 'short-break';
+	}
+
+	update(current => ({
+		...current,
+		status: 'running',
+		startTime: nextStart,
+		pausedTime: null,
+		elapsedTime: 0,
+		lastTick: new Date(),
+		intervalId: current.intervalId ?? setInterval(tick, TIMER_INTERVAL),
+		pomodoro: {
+			...pomodoro,
+			phase,
+			phaseDuration: getPhaseDuration(phase, pomodoro.config),
+			completedSessions
+		}
+	}));
+
+	eventBus.emit('timer:phase', {
+		phase,
+		completedSessions,
+		timestamp: nextStart
+	});
+}
+
+/**
+ * Length of a Pomodoro phase in seconds
+ */
+function getPhaseDuration(phase: PomodoroPhase, config: PomodoroConfig): number {
+	const minutes = phase === 'work'
+		? config.workMinutes
+		: phase === 'short-break' ? config.shortBreakMinutes : config.longBreakMinutes;
+	return Math.max(1, Math.round(minutes * 60));
+}
+
+/**
+ * Log a finished session: as a time entry when a project is selected and,
+ * in Pomodoro mode, in the focus statistics of the day it ended. Pomodoro
+ * breaks are never logged as time entries. Returns the created entry ID.
+ */
+function logSession(state: TimerStoreState, endedAt: Date, seconds: number, completed: boolean): string | null {
+	if (seconds <= 0) return null;
+
+	if (state.pomodoro) {
+		recordFocusTime(endedAt, state.pomodoro.phase, seconds, completed);
+		if (state.pomodoro.phase !== 'work') return null;
+	}
+
+	if (!state.projectId) return null;
+
+	return persistTimeEntry({
+		projectId: state.projectId,
+		...(state.taskId ? { taskId: state.taskId } : {}),
+		description: state.description,
+		endTime: endedAt,
+		elapsedSeconds: seconds
+	});
+}
+
+/**
+ * Add Pomodoro time to the focus statistics of the day it ended
+ */
+function recordFocusTime(endedAt: Date, phase: PomodoroPhase, seconds: number, completed: boolean): void {
+	focusStatsStore.update(stats => {
+		const date = formatLocalDate(endedAt);
+		const day = stats[date] ?? createEmptyFocusDay(date);
+		const updated = {
+			...stats,
+			[date]: phase === 'work'
+				? {
+					...day,
+					focusSeconds: day.focusSeconds + seconds,
+					completedSessions: day.completedSessions + (completed ? 1 : 0)
+				}
+				: { ...day, breakSeconds: day.breakSeconds + seconds }
 		};
+		saveFocusStatsToStorage(updated);
+		return updated;
+	});
+}
 
-		// Emit event
-		eventBus.emit('timer:stop', {
-			duration: finalElapsed,
-			timestamp: now
-		});
+function createEmptyFocusDay(date: string): FocusDayStats {
+	return { date, focusSeconds: 0, breakSeconds: 0, completedSessions: 0 };
+}
 
-		return newState;
+/**
+ * Focus statistics for a day, with zeros for a day without Pomodoro sessions
+ */
+function getFocusStats(date: Date = new Date()): FocusDayStats {
+	const key = formatLocalDate(date);
+	return get(focusStatsStore)[key] ?? createEmptyFocusDay(key);
+}
+
+/**
+ * Clear all focus statistics
+ */
+function clearFocusStats(): void {
+	focusStatsStore.set({});
+	saveFocusStatsToStorage({});
+}
+
+/**
+ * Stop the timer, calculate final duration and persist the session as a time entry.
+ * Returns the created time entry ID, or null when no entry was created
+ * (no project selected, nothing tracked or a Pomodoro break).
+ */
+function stop(): string | null {
+	const state = get({ subscribe });
+	if (state.intervalId) {
+		clearInterval(state.intervalId);
+	}
+
+	const now = new Date();
+	// A paused timer stopped counting when it was paused
+	const trackedUntil = state.status === 'paused' && state.pausedTime ? state.pausedTime : now;
+	const finalElapsed = state.startTime && state.status !== 'stopped'
+		? Math.floor((trackedUntil.getTime() - state.startTime.getTime()) / 1000)
+		: state.elapsedTime;
+
+	set({
+		...state,
+		status: 'stopped',
+		endTime: now,
+		elapsedTime: finalElapsed,
+		totalElapsed: state.totalElapsed + finalElapsed,
+		intervalId: undefined,
+		lastTick: now
+	});
+
+	const entryId = state.status !== 'stopped'
+		? logSession(state, trackedUntil, finalElapsed, false)
+		: null;
+
+	// Emit event
+	eventBus.emit('timer:stop', {
+		duration: finalElapsed,
+		timestamp: now,
+		...(entryId ? { entryId } : {})
+	});
+
+	return entryId;
+}
+
+/**
+ * Create a time entry for a finished session and open the undo window
+ */
+function persistTimeEntry(session: TimerSessionSnapshot): string {
+	const entryData = createTimeEntryFromTimer(session, {
+		project: getProject(session.projectId),
+		task: session.taskId ? getTask(session.taskId) : undefined
 	});
+
+	const entryId = projectStore.createTimeEntry(entryData);
+
+	clearUndoWindow();
+	update(current => ({ ...current, lastEntryId: entryId }));
+	undoTimeoutId = setTimeout(() => {
+		undoTimeoutId = undefined;
+		update(current => (current.lastEntryId === entryId ? { ...current, lastEntryId: null } : current));
+	}, UNDO_WINDOW);
+
+	return entryId;
+}
+
+/**
+ * Undo the time entry created by the last stop, while the undo window is open
+ */
+function undoLastEntry(): boolean {
+	const { lastEntryId } = get({ subscribe });
+	if (!lastEntryId) return false;
+
+	clearUndoWindow();
+	update(state => ({ ...state, lastEntryId: null }));
+
+	const deleted = projectStore.deleteTimeEntry(lastEntryId);
+	if (deleted) {
+		eventBus.emit('timer:entry-discarded', {
+			entryId: lastEntryId,
+			timestamp: new Date()
+		});
+	}
+
+	return deleted;
 }
 
 /**
@@ -204,20 +525,7 @@ function resume(): void {
 		};
 
 		// Start the interval again
-		newState.intervalId = setInterval(() => {
-			update(currentState => {
-				if (currentState.status === 'running' && currentState.startTime) {
-					const now = new Date();
-					const elapsed = Math.floor((now.getTime() - currentState.startTime.getTime()) / 1000);
-					return {
-						...currentState,
-						elapsedTime: elapsed,
-						lastTick: now
-					};
-				}
-				return currentState;
-			});
-		}, TIMER_INTERVAL);
+		newState.intervalId = setInterval(tick, TIMER_INTERVAL);
 
 		// Emit event
 		eventBus.emit('timer:resume', {
@@ -232,6 +540,8 @@ function resume(): void {
  * Reset the timer to initial state
  */
 function reset(): void {
+	clearUndoWindow();
+
 	update(state => {
 		if (state.intervalId) {
 			clearInterval(state.intervalId);
@@ -297,6 +607,30 @@ export const hasActiveTimer = derived(
 	state => state.status === 'running' || state.status === 'paused'
 );
 
+export const canUndoStop = derived(
+	{ subscribe },
+	state => state.lastEntryId !== null
+);
+
+export const timerMode = derived(
+	{ subscribe },
+	state => state.mode
+);
+
+export const pomodoroState = derived(
+	{ subscribe },
+	state => state.pomodoro
+);
+
+// Seconds left in the current Pomodoro phase, null outside Pomodoro mode
+export const phaseRemaining = derived(
+	{ subscribe },
+	state => state.pomodoro ? Math.max(0, state.pomodoro.phaseDuration - state.elapsedTime) : null
+);
+
+// Focus statistics keyed by day (YYYY-MM-DD)
+export const focusStats = { subscribe: focusStatsStore.subscribe };
+
 export const timerContext = derived(
 	{ subscribe },
 	state => ({
@@ -312,18 +646,24 @@ function cleanup(): void {
 	if (state.intervalId) {
 		clearInterval(state.intervalId);
 	}
+	clearUndoWindow();
 }
 
 // Export the store with methods
 export const timerStore = {
 	subscribe,
 	start,
+	startPomodoro,
+	skipPhase,
 	stop,
 	pause,
 	resume,
 	reset,
+	undoLastEntry,
 	updateContext,
 	getCurrentState,
+	getFocusStats,
+	clearFocusStats,
 	cleanup
 };
 
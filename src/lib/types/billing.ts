@@ -0,0 +1,162 @@
+/**
+ * Billing TypeScript interfaces for TimeFlow Pro
+ *
+ * These interfaces define the structure for:
+ * - Date-effective billing rates
+ * - Billing rate resolution
+ * - Currency exchange rates
+ * - Tax profiles applied on invoices
+ * - Project billing models (hourly, fixed fee, retainer, capped)
+ */
+
+export interface RateChange {
+	/** Hourly rate from the effective date; omitted when the level stops setting its own rate */
+	rate?: number;
+
+	/** First day the rate applies (YYYY-MM-DD); omitted for the original rate */
+	effectiveFrom?: string;
+}
+
+export type BillingRateSource = 'entry' | 'task' | 'project' | 'client' | 'default';
+
+export interface ResolvedBillingRate {
+	/** Hourly rate applied to the entry */
+	rate: number;
+
+	/** Level of the hierarchy the rate came from */
+	source: BillingRateSource;
+}
+
+export interface ExchangeRate {
+	/** Unique exchange rate identifier */
+	id: string;
+
+	/** Currency converted from (ISO code, e.g., EUR) */
+	from: string;
+
+	/** Currency converted to (ISO code, e.g., USD) */
+	to: string;
+
+	/** Units of `to` per unit of `from` */
+	rate: number;
+
+	/** First day the rate applies (YYYY-MM-DD) */
+	date: string;
+}
+
+export interface TaxProfile {
+	/** Unique tax profile identifier */
+	id: string;
+
+	/** Tax name printed on invoices (e.g., VAT, GST) */
+	name: string;
+
+	/** Tax rate as a percentage */
+	rate: number;
+
+	/** Whether billing rates already include the tax */
+	inclusive: boolean;
+
+	/** Whether the customer accounts for the tax (no tax is charged) */
+	reverseCharge: boolean;
+
+	/** Note printed on reverse charge invoices */
+	reverseChargeNote?: string;
+
+	/** When this tax profile was created */
+	createdAt: string; // ISO date string
+
+	/** When this tax profile was last updated */
+	updatedAt: string; // ISO date string
+}
+
+export type BillingModelType = 'hourly' | 'fixed-fee' | 'retainer' | 'capped';
+
+export type RetainerRollover = 'none' | 'unused-hours';
+
+/** Time billed at the hourly rates of the billing rate hierarchy */
+export interface HourlyBillingModel {
+	type: 'hourly';
+}
+
+/** A fixed price, invoiced milestone by milestone */
+export interface FixedFeeBillingModel {
+	type: 'fixed-fee';
+
+	/** Agreed price for the project */
+	fee: number;
+
+	/** Payments the fee is split into; amounts add up to the fee */
+	milestones: Milestone[];
+}
+
+/** A monthly fee covering a number of hours, with extra hours billed as overage */
+export interface RetainerBillingModel {
+	type: 'retainer';
+
+	/** Fee invoiced for every month of the retainer */
+	monthlyFee: number;
+
+	/** Hours covered by the monthly fee */
+	includedHours: number;
+
+	/** What happens to included hours left unused at the end of a month */
+	rollover: RetainerRollover;
+
+	/** Most unused hours carried into the next month; defaults to the included hours */
+	maxRolloverHours?: number;
+
+	/** Hourly rate for hours beyond those included */
+	overageRate: number;
+}
+
+/** Time billed hourly, up to a not-to-exceed amount */
+export interface CappedBillingModel {
+	type: 'capped';
+
+	/** Most that can be billed for the project */
+	cap: number;
+}
+
+export type BillingModel =
+	| HourlyBillingModel
+	| FixedFeeBillingModel
+	| RetainerBillingModel
+	| CappedBillingModel;
+
+export interface Milestone {
+	/** Milestone identifier, unique within the project */
+	id: string;
+
+	/** Milestone name printed on invoices */
+	name: string;
+
+	/** Share of the fee invoiced when the milestone is completed */
+	amount: number;
+
+	/** Date the milestone is due (YYYY-MM-DD) */
+	dueDate?: string;
+
+	/** Date the milestone was completed (YYYY-MM-DD); completed milestones can be invoiced */
+	completedDate?: string;
+}
+
+export interface RetainerPeriod {
+	/** Month (YYYY-MM) */
+	month: string;
+
+	/** Billable hours worked in the month */
+	hours: number;
+
+	/** Hours available in the month, including hours rolled over */
+	availableHours: number;
+
+	/** Unused hours carried in from the previous month */
+	rolledOverHours: number;
+
+	/** Hours beyond those available, billed at the overage rate */
+	overageHours: number;
+
+	/** Monthly fee plus overage */
+	amount: number;
+}
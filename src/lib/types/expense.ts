@@ -0,0 +1,79 @@
+/**
+ * Expense TypeScript interfaces for TimeFlow Pro
+ *
+ * These interfaces define the structure for:
+ * - Reimbursable project costs (software, travel, etc.)
+ * - Markup charged when expenses are billed to the client
+ * - Receipts attached to expenses
+ */
+
+import type { BillingStatus } from './time-entry.js';
+
+export type ExpenseCategory =
+	| 'software'
+	| 'travel'
+	| 'equipment'
+	| 'meals'
+	| 'subcontractor'
+	| 'other';
+
+export interface ExpenseReceipt {
+	/** Receipt identifier; the file is stored under this key in IndexedDB */
+	id: string;
+
+	/** Original file name */
+	name: string;
+
+	/** MIME type of the file */
+	type: string;
+
+	/** File size in bytes */
+	size: number;
+}
+
+export interface Expense {
+	/** Unique expense identifier */
+	id: string;
+
+	/** Project the expense was incurred for */
+	projectId?: string;
+
+	/** Client the expense is billed to (defaults to the project's client) */
+	clientId?: string;
+
+	/** Date the expense was incurred (YYYY-MM-DD format) */
+	date: string;
+
+	/** What was paid for */
+	description: string;
+
+	/** Amount paid */
+	amount: number;
+
+	/** Currency code of the amount (USD, EUR, etc.) */
+	currency: string;
+
+	/** Expense category */
+	category: ExpenseCategory;
+
+	/** Markup charged on top of the amount when billed, as a percentage */
+	markup: number;
+
+	/** Billing status; non-billable expenses are never invoiced */
+	billingStatus: BillingStatus;
+
+	/** Invoice ID when billed */
+	invoiceId?: string;
+
+	/** Receipt attached to the expense */
+	receipt?: ExpenseReceipt;
+
+	/** Expense notes */
+	notes?: string;
+
+	/** When this expense was created */
+	createdAt: string; // ISO date string
+
+	/** When this expense was last updated */
+	updatedAt: string; // ISO date string
+}
@@ -11,20 +11,51 @@ export type {
 	TimerSession,
 	TimerConfig,
 	TimerStatus,
-	TimerDisplayOptions
+	TimerDisplayOptions,
+	TimerMode,
+	PomodoroPhase,
+	PomodoroConfig,
+	PomodoroState,
+	FocusDayStats
 } from './timer.js';
 
 // Project types
-export type { Project, ProjectStatus, ProjectSummary, Client, ProjectFilter } from './project.js';
+export type {
+	Project,
+	ProjectStatus,
+	ProjectSummary,
+	ProjectBudgetBurn,
+	BurnDownPoint,
+	Client,
+	ProjectFilter
+} from './project.js';
 
 // Task types
 export type {
 	Task,
 	TaskPriority,
 	TaskStatus,
+	TaskStatusChange,
+	TaskChecklistItem,
+	RecurrenceFrequency,
+	TaskRecurrence,
 	TaskSummary,
 	TaskFilter,
-	TaskProgress
+	TaskProgress,
+	TaskRollup,
+	TaskTreeNode,
+	TaskGraphNode,
+	TaskGraphEdge,
+	TaskDependencyGraph,
+	ScheduledTask,
+	ProjectSchedule,
+	EstimateGroupBy,
+	EstimateAccuracy,
+	EstimateSuggestion,
+	TaskBoardSwimlane,
+	TaskWipLimits,
+	TaskBoardColumn,
+	TaskBoardLane
 } from './task.js';
 
 // Time entry types
@@ -36,9 +67,48 @@ export type {
 	TimeEntrySummary,
 	DailyTimeEntry,
 	TimeEntryValidation,
-	BulkTimeEntryOperation
+	BulkTimeEntryOperation,
+	BulkTimeEntryPreview,
+	BulkTimeEntryResult
 } from './time-entry.js';
 
+// Invoice types
+export type {
+	Invoice,
+	InvoiceStatus,
+	InvoiceLineGrouping,
+	InvoiceLineItem,
+	InvoiceLineKind,
+	InvoiceTaxLine,
+	InvoiceDraft,
+	InvoicePayment,
+	PaymentMethod,
+	AgingBucket,
+	AgingReportRow,
+	AgingReport
+} from './invoice.js';
+
+// Expense types
+export type { Expense, ExpenseCategory, ExpenseReceipt } from './expense.js';
+
+// Billing types
+export type {
+	RateChange,
+	BillingRateSource,
+	ResolvedBillingRate,
+	ExchangeRate,
+	TaxProfile,
+	BillingModelType,
+	BillingModel,
+	HourlyBillingModel,
+	FixedFeeBillingModel,
+	RetainerBillingModel,
+	CappedBillingModel,
+	RetainerRollover,
+	Milestone,
+	RetainerPeriod
+} from './billing.js';
+
 // Component types
 export type {
 	BaseComponentProps,
@@ -0,0 +1,242 @@
+/**
+ * Invoice TypeScript interfaces for TimeFlow Pro
+ *
+ * These interfaces define the structure for:
+ * - Invoices built from ready time entries and expenses
+ * - Invoice line items and grouping
+ * - Invoice lifecycle (issued, paid, void)
+ * - Payments and accounts receivable aging
+ */
+
+import type { Client } from './project.js';
+
+export type InvoiceStatus = 'issued' | 'paid' | 'void';
+
+export type PaymentMethod = 'bank-transfer' | 'card' | 'cash' | 'check' | 'other';
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus';
+
+export type InvoiceLineGrouping = 'task' | 'category' | 'day';
+
+export type InvoiceLineKind =
+	| 'time'
+	| 'milestone'
+	| 'retainer'
+	| 'overage'
+	| 'cap-adjustment'
+	| 'expense';
+
+export interface InvoiceLineItem {
+	/** Line item identifier, unique within the invoice */
+	id: string;
+
+	/** Line description (task, category or day) */
+	description: string;
+
+	/** What the line bills; time when omitted */
+	kind?: InvoiceLineKind;
+
+	/** Billable hours on this line */
+	hours: number;
+
+	/** Hourly rate applied to this line; the line amount for fixed amounts */
+	rate: number;
+
+	/** Line amount (hours × rate, or the fixed amount) */
+	amount: number;
+
+	/** Project a milestone, retainer, overage, cap adjustment or expense line belongs to */
+	projectId?: string;
+
+	/** Milestone invoiced on this line */
+	milestoneId?: string;
+
+	/** Retainer month billed on this line (YYYY-MM) */
+	month?: string;
+
+	/** Tax profile applied to this line */
+	taxProfileId?: string;
+
+	/** Time entries billed on this line */
+	entryIds: string[];
+
+	/** Expenses billed on this line */
+	expenseIds?: string[];
+}
+
+export interface InvoiceTaxLine {
+	/** Tax name printed on the invoice (e.g., VAT) */
+	name: string;
+
+	/** Tax rate as a percentage */
+	rate: number;
+
+	/** Tax amount */
+	amount: number;
+
+	/** Whether the tax is included in the line amounts rather than added */
+	inclusive?: boolean;
+
+	/** Whether the customer accounts for the tax (amount is zero) */
+	reverseCharge?: boolean;
+}
+
+export interface InvoicePayment {
+	/** Payment identifier, unique within the invoice */
+	id: string;
+
+	/** Date the payment was received (YYYY-MM-DD) */
+	date: string;
+
+	/** Amount received, in the invoice currency */
+	amount: number;
+
+	/** How the payment was made */
+	method: PaymentMethod;
+
+	/** Bank or transaction reference */
+	reference?: string;
+
+	/** When this payment was recorded */
+	createdAt: string; // ISO date string
+}
+
+export interface Invoice {
+	/** Unique invoice identifier */
+	id: string;
+
+	/** Formatted invoice number (e.g., INV-0001) */
+	number: string;
+
+	/** Position in the invoice number sequence */
+	sequence: number;
+
+	/** Client this invoice is addressed to */
+	clientId: string;
+
+	/** Client name at the time of invoicing */
+	clientName: string;
+
+	/** Invoice status */
+	status: InvoiceStatus;
+
+	/** Currency code (USD, EUR, etc.) */
+	currency: string;
+
+	/** How time entries are grouped into line items */
+	grouping: InvoiceLineGrouping;
+
+	/** Period covered by the invoice (YYYY-MM-DD) */
+	dateRange: {
+		start: string;
+		end: string;
+	};
+
+	/** Issue date (YYYY-MM-DD) */
+	issueDate: string;
+
+	/** Payment due date (YYYY-MM-DD) */
+	dueDate: string;
+
+	/** Invoice line items */
+	lineItems: InvoiceLineItem[];
+
+	/** All time entries billed on this invoice */
+	entryIds: string[];
+
+	/** All expenses billed on this invoice */
+	expenseIds?: string[];
+
+	/** Sum of line item amounts */
+	subtotal: number;
+
+	/** Taxes charged on the subtotal */
+	taxLines?: InvoiceTaxLine[];
+
+	/** Amount due */
+	total: number;
+
+	/** Tax notes printed on the invoice (e.g., reverse charge) */
+	taxNotes?: string[];
+
+	/** Notes printed on the invoice */
+	notes?: string;
+
+	/** Payments received against this invoice */
+	payments?: InvoicePayment[];
+
+	/** Date the invoice was paid in full (YYYY-MM-DD) */
+	paidDate?: string;
+
+	/** Date the invoice was voided (YYYY-MM-DD) */
+	voidedDate?: string;
+
+	/** When this invoice was created */
+	createdAt: string; // ISO date string
+
+	/** When this invoice was last updated */
+	updatedAt: string; // ISO date string
+}
+
+export interface InvoiceDraft {
+	/** Client to invoice */
+	clientId: string;
+
+	/** Period to collect ready time entries and expenses from (YYYY-MM-DD) */
+	dateRange: {
+		start: string;
+		end: string;
+	};
+
+	/** How time entries are grouped into line items */
+	grouping: InvoiceLineGrouping;
+
+	/** Issue date (defaults to today) */
+	issueDate?: string;
+
+	/** Payment due date (defaults to the issue date plus the payment terms) */
+	dueDate?: string;
+
+	/** Notes printed on the invoice */
+	notes?: string;
+}
+
+export interface AgingReportRow {
+	/** Client the balances are owed by */
+	clientId: string;
+
+	/** Client record, when it still exists */
+	client?: Client;
+
+	/** Client name from the client record or the invoices */
+	clientName: string;
+
+	/** Outstanding balance per age bucket */
+	buckets: Record<AgingBucket, number>;
+
+	/** Outstanding balance across all buckets */
+	total: number;
+
+	/** Number of invoices with an outstanding balance */
+	invoiceCount: number;
+}
+
+export interface AgingReport {
+	/** Date the balances are aged against (YYYY-MM-DD) */
+	asOf: string;
+
+	/** Currency of the amounts, when converted into a reporting currency */
+	currency?: string;
+
+	/** Currencies without an exchange rate, whose balances are counted unconverted */
+	unconvertedCurrencies?: string[];
+
+	/** One row per client with an outstanding balance */
+	rows: AgingReportRow[];
+
+	/** Outstanding balance per age bucket across clients */
+	totals: Record<AgingBucket, number>;
+
+	/** Outstanding balance across all clients */
+	total: number;
+}
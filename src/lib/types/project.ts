@@ -7,6 +7,8 @@
  * - Project settings and configuration
  */
 
+import type { BillingModel, RateChange } from './billing.js';
+
 export interface Project {
 	/** Unique project identifier */
 	id: string;
@@ -17,11 +19,20 @@ export interface Project {
 	/** Client name */
 	clientName: string;
 
+	/** Linked client record */
+	clientId?: string;
+
 	/** Project description */
 	description?: string;
 
-	/** Default billing rate per hour */
-	defaultBillingRate: number;
+	/** Default billing rate per hour; unset to use the client's or the global default rate */
+	defaultBillingRate?: number;
+
+	/** Date-effective changes to the default billing rate */
+	rateHistory?: RateChange[];
+
+	/** How work on the project is billed; hourly when omitted */
+	billingModel?: BillingModel;
 
 	/** Project color code for UI */
 	colorCode: string;
@@ -41,6 +52,9 @@ export interface Project {
 	/** Currency code (USD, EUR, etc.) */
 	currency: string;
 
+	/** Tax profile for invoiced work; empty inherits the client's */
+	taxProfileId?: string;
+
 	/** Project start date */
 	startDate?: string; // ISO date string
 
@@ -89,6 +103,49 @@ export interface ProjectSummary {
 
 	/** Last activity date */
 	lastActivity?: string; // ISO date string
+
+	/** Spend against the budget and estimated hours, when either is set */
+	budgetBurn?: ProjectBudgetBurn;
+}
+
+export interface ProjectBudgetBurn {
+	/** Hours tracked */
+	hoursUsed: number;
+
+	/** Estimated hours the hours are measured against */
+	hoursBudget?: number;
+
+	/** Share of the estimated hours used, in percent */
+	hoursPercent?: number;
+
+	/** Billable amount tracked */
+	amountSpent: number;
+
+	/** Budget the amount is measured against */
+	amountBudget?: number;
+
+	/** Share of the budget spent, in percent */
+	amountPercent?: number;
+
+	/** The higher of the hours and amount percentages */
+	percentUsed: number;
+
+	/** Average share of the budget used per day since work started, in percent */
+	dailyBurnRate: number;
+
+	/** Day the budget ran out, or is projected to at the current burn rate */
+	projectedOverrunDate?: string; // YYYY-MM-DD
+
+	/** Budget remaining at the end of each day with tracked time */
+	burnDown: BurnDownPoint[];
+}
+
+export interface BurnDownPoint {
+	/** Day (YYYY-MM-DD) */
+	date: string;
+
+	/** Share of the budget left, in percent (negative once overrun) */
+	remainingPercent: number;
 }
 
 export interface Client {
@@ -113,9 +170,15 @@ export interface Client {
 	/** Default billing rate for this client */
 	defaultBillingRate?: number;
 
+	/** Date-effective changes to the default billing rate */
+	rateHistory?: RateChange[];
+
 	/** Default currency for this client */
 	defaultCurrency: string;
 
+	/** Tax profile applied to this client's invoices */
+	taxProfileId?: string;
+
 	/** Client notes */
 	notes?: string;
 
@@ -7,6 +7,8 @@
  * - Asana integration
  */
 
+import type { RateChange } from './billing.js';
+
 export interface Task {
 	/** Unique task identifier */
 	id: string;
@@ -32,6 +34,9 @@ export interface Task {
 	/** Task status */
 	status: TaskStatus;
 
+	/** Status changes, oldest first; tasks created before it was kept have none */
+	statusHistory?: TaskStatusChange[];
+
 	/** Asana task ID for integration */
 	asanaTaskId?: string;
 
@@ -53,12 +58,30 @@ export interface Task {
 	/** Custom billing rate for this task */
 	customBillingRate?: number;
 
-	/** Task dependencies (other task IDs) */
+	/** Date-effective changes to the custom billing rate */
+	rateHistory?: RateChange[];
+
+	/** Tasks in the same project that must be finished before this one starts */
 	dependencies: string[];
 
-	/** Subtasks */
+	/** Child tasks (other task IDs in the same project); a task has at most one parent */
 	subtasks: string[];
 
+	/** Checklist items, in order */
+	checklist?: TaskChecklistItem[];
+
+	/** Whether the share of checklist items done sets the task's progress instead of its hours */
+	progressFromChecklist?: boolean;
+
+	/** How the task repeats; completing it creates the next occurrence */
+	recurrence?: TaskRecurrence;
+
+	/** ID of the first task of the recurring series this task belongs to */
+	recurrenceSeriesId?: string;
+
+	/** Position of this task in its recurring series, starting at 1 */
+	recurrenceIndex?: number;
+
 	/** Task notes */
 	notes?: string;
 
@@ -76,6 +99,59 @@ export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
 
 export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'cancelled' | 'on-hold';
 
+/** A checklist item: a step too small to be a subtask */
+export interface TaskChecklistItem {
+	/** Unique identifier within the task */
+	id: string;
+
+	/** What needs doing */
+	text: string;
+
+	/** Whether it is done */
+	done: boolean;
+}
+
+/** One entry in a task's status history */
+export interface TaskStatusChange {
+	/** Status the task left; absent for the status it was created with */
+	from?: TaskStatus;
+
+	/** Status the task entered */
+	to: TaskStatus;
+
+	/** When the change happened */
+	changedAt: string; // ISO date string
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * When a task repeats, after the RRULE model of iCalendar. The task's due
+ * date is the first occurrence.
+ */
+export interface TaskRecurrence {
+	/** Unit the task repeats in */
+	frequency: RecurrenceFrequency;
+
+	/** Repeat every this many days, weeks or months */
+	interval: number;
+
+	/** Weekly: days of the week to repeat on, 0 = Sunday; defaults to the due date's */
+	weekdays?: number[];
+
+	/** Monthly by date: day of the month, clamped to shorter months; defaults to the first due date's */
+	monthDay?: number;
+
+	/** Monthly by weekday: e.g. the second Tuesday, or with week -1 the last Tuesday */
+	monthWeekday?: { weekday: number; week: number };
+
+	/** Last day an occurrence may fall on (YYYY-MM-DD) */
+	until?: string;
+
+	/** Number of occurrences in the series, the first included */
+	count?: number;
+}
+
 export interface TaskSummary {
 	/** Task information */
 	task: Task;
@@ -100,6 +176,37 @@ export interface TaskSummary {
 
 	/** Last activity date */
 	lastActivity?: string; // ISO date string
+
+	/** Hours and progress including subtasks, for tasks that have them */
+	rollup?: TaskRollup;
+}
+
+export interface TaskRollup {
+	/** Hours tracked on the task and all of its subtasks */
+	actualHours: number;
+
+	/** Estimate from the subtasks, or the task's own when they have none */
+	estimatedHours: number;
+
+	/** Progress weighted across the subtasks */
+	completionPercentage: number;
+
+	/** Number of direct subtasks */
+	subtaskCount: number;
+
+	/** Number of direct subtasks that are completed */
+	completedSubtasks: number;
+}
+
+export interface TaskTreeNode {
+	/** Task at this point in the tree */
+	task: Task;
+
+	/** Distance from the top of the tree */
+	depth: number;
+
+	/** Subtasks in the tree */
+	children: TaskTreeNode[];
 }
 
 export interface TaskFilter {
@@ -159,3 +266,158 @@ export interface TaskProgress {
 	/** Last updated */
 	updatedAt: string; // ISO date string
 }
+
+export interface TaskGraphNode {
+	/** Task shown by this node */
+	task: Task;
+
+	/** Column in the graph: the length of the longest dependency chain before this task */
+	level: number;
+
+	/** Whether unfinished dependencies keep this task from starting */
+	isBlocked: boolean;
+}
+
+export interface TaskGraphEdge {
+	/** Task that must finish first */
+	from: string;
+
+	/** Task that depends on it */
+	to: string;
+}
+
+export interface TaskDependencyGraph {
+	/** Tasks ordered by level, then by their order in the task list */
+	nodes: TaskGraphNode[];
+
+	/** One edge per dependency between tasks in the graph */
+	edges: TaskGraphEdge[];
+}
+
+export interface ScheduledTask {
+	/** Task being scheduled */
+	task: Task;
+
+	/** Estimated hours still to work */
+	remainingHours: number;
+
+	/** Working days the remaining hours take */
+	durationDays: number;
+
+	/** First day the task can start once the work before it is done */
+	earliestStart: string; // YYYY-MM-DD
+
+	/** Day the task finishes if it starts as early as it can */
+	earliestFinish: string; // YYYY-MM-DD
+
+	/** Last day the task can start without moving the forecast end date */
+	latestStart: string; // YYYY-MM-DD
+
+	/** Last day the task can finish without moving the forecast end date */
+	latestFinish: string; // YYYY-MM-DD
+
+	/** Working days the task can slip without moving the forecast end date */
+	slackDays: number;
+
+	/** Whether any delay to the task moves the forecast end date */
+	isCritical: boolean;
+
+	/** Whether its earliest finish falls after its due date */
+	isLate: boolean;
+
+	/** Whether it keeps the project from finishing by the project's end date */
+	delaysProject: boolean;
+}
+
+export interface ProjectSchedule {
+	/** First working day of the schedule */
+	startDate: string; // YYYY-MM-DD
+
+	/** Day the remaining work is forecast to be done */
+	forecastEndDate: string; // YYYY-MM-DD
+
+	/** Working days the forecast runs past the project's end date; 0 when on time */
+	overrunDays: number;
+
+	/** Unfinished tasks ordered by earliest start */
+	tasks: ScheduledTask[];
+
+	/** IDs of the critical tasks with work left, in order */
+	criticalPath: string[];
+
+	/** IDs of unfinished tasks without an estimate, scheduled as taking no time */
+	unestimatedTaskIds: string[];
+}
+
+/** What similar past tasks are grouped by to judge estimates */
+export type EstimateGroupBy = 'project' | 'category' | 'tag';
+
+/** How actual hours compared with estimates for one group of completed tasks */
+export interface EstimateAccuracy {
+	/** What the group has in common */
+	groupBy: EstimateGroupBy;
+
+	/** Project ID, time entry category or tag shared by the group */
+	key: string;
+
+	/** Completed tasks with an estimate and tracked time in the group */
+	sampleSize: number;
+
+	/** Median of actual hours divided by estimated hours */
+	ratio: number;
+
+	/** 25th percentile of the ratios */
+	lowRatio: number;
+
+	/** 75th percentile of the ratios */
+	highRatio: number;
+}
+
+/** A corrected estimate for a task, from the history of similar tasks */
+export interface EstimateSuggestion {
+	/** Hours as estimated */
+	estimatedHours: number;
+
+	/** Estimate corrected by the group's median ratio */
+	suggestedHours: number;
+
+	/** Lower end of the likely range */
+	lowHours: number;
+
+	/** Upper end of the likely range */
+	highHours: number;
+
+	/** How much history the suggestion rests on */
+	confidence: 'low' | 'medium' | 'high';
+
+	/** Group the suggestion is based on */
+	basis: EstimateAccuracy;
+}
+
+/** What divides the task board into horizontal lanes */
+export type TaskBoardSwimlane = 'none' | 'priority' | 'assignee';
+
+/** Most tasks allowed in each board column; columns without one are unlimited */
+export type TaskWipLimits = Partial<Record<TaskStatus, number>>;
+
+export interface TaskBoardColumn {
+	/** Status of the tasks in this column */
+	status: TaskStatus;
+
+	/** Column heading */
+	label: string;
+
+	/** Tasks in this column and lane */
+	tasks: Task[];
+}
+
+export interface TaskBoardLane {
+	/** Priority or assignee the lane holds; '' for tasks without one */
+	key: string;
+
+	/** Lane heading */
+	label: string;
+
+	/** One column per status, in board order */
+	columns: TaskBoardColumn[];
+}
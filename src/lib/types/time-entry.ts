@@ -138,6 +138,12 @@ export interface TimeEntrySummary {
 	/** Total billable amount */
 	totalBillableAmount: number;
 
+	/** Currency of totalBillableAmount, when amounts were converted into a reporting currency */
+	currency?: string;
+
+	/** Currencies without an exchange rate, whose amounts are counted unconverted */
+	unconvertedCurrencies?: string[];
+
 	/** Average hours per day */
 	averageHoursPerDay: number;
 
@@ -201,3 +207,34 @@ export interface BulkTimeEntryOperation {
 	/** Whether to confirm before executing */
 	requireConfirmation: boolean;
 }
+
+export interface BulkTimeEntryPreview {
+	/** Operation being previewed */
+	operation: BulkTimeEntryOperation['operation'];
+
+	/** Entries the operation would change, as they are now */
+	entries: TimeEntry[];
+
+	/** Total hours of the affected entries */
+	totalHours: number;
+
+	/** Whether the operation can be applied */
+	isValid: boolean;
+
+	/** Problems that block the operation */
+	errors: string[];
+
+	/** Non-blocking notices */
+	warnings: string[];
+}
+
+export interface BulkTimeEntryResult {
+	/** Whether the operation was applied */
+	success: boolean;
+
+	/** Number of entries changed */
+	affectedCount: number;
+
+	/** Why the operation was not applied */
+	errors: string[];
+}
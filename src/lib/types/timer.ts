@@ -7,10 +7,16 @@
  * - Timer configuration
  * - Timer display options
  * - Timer persistence
+ * - Pomodoro sessions and focus statistics
  */
 
 export type TimerStatus = 'stopped' | 'running' | 'paused';
 
+/** Free-running stopwatch, or Pomodoro work and break phases */
+export type TimerMode = 'stopwatch' | 'pomodoro';
+
+export type PomodoroPhase = 'work' | 'short-break' | 'long-break';
+
 export interface TimerState {
 	/** Current timer status */
 	status: TimerStatus;
@@ -92,6 +98,48 @@ export interface TimerConfig {
 	autoStart: boolean;
 }
 
+export interface PomodoroConfig {
+	/** Length of a work phase in minutes */
+	workMinutes: number;
+
+	/** Length of a short break in minutes */
+	shortBreakMinutes: number;
+
+	/** Length of a long break in minutes */
+	longBreakMinutes: number;
+
+	/** Work sessions completed before a break is a long one */
+	sessionsBeforeLongBreak: number;
+}
+
+export interface PomodoroState {
+	/** Phase currently timed */
+	phase: PomodoroPhase;
+
+	/** Length of the current phase in seconds */
+	phaseDuration: number;
+
+	/** Work sessions completed since the Pomodoro timer was started */
+	completedSessions: number;
+
+	/** Phase lengths in use */
+	config: PomodoroConfig;
+}
+
+export interface FocusDayStats {
+	/** Local day in YYYY-MM-DD format */
+	date: string;
+
+	/** Seconds spent in Pomodoro work phases */
+	focusSeconds: number;
+
+	/** Seconds spent in Pomodoro breaks */
+	breakSeconds: number;
+
+	/** Work phases run to the end */
+	completedSessions: number;
+}
+
 export interface TimerDisplayOptions {
 	/** Format for time display (HH:MM:SS, HH:MM, etc.) */
 	format: 'HH:MM:SS' | 'HH:MM' | 'decimal';
@@ -145,9 +193,17 @@ export interface TimerAccuracyMetrics {
 
 export interface TimerEvents {
 	'timer:start': { projectId?: string; taskId?: string; timestamp: Date };
-	'timer:stop': { duration: number; timestamp: Date };
+	'timer:stop': { duration: number; timestamp: Date; entryId?: string };
 	'timer:pause': { timestamp: Date };
 	'timer:resume': { timestamp: Date };
 	'timer:reset': { timestamp: Date };
+	'timer:entry-discarded': { entryId: string; timestamp: Date };
 	'timer:accuracy-warning': { drift: number; timestamp: Date };
+	'timer:phase': { phase: PomodoroPhase; completedSessions: number; timestamp: Date };
+	'timer:chime': {
+		reason: 'milestone' | 'phase-end';
+		phase?: PomodoroPhase;
+		elapsed: number;
+		timestamp: Date;
+	};
 }
@@ -0,0 +1,161 @@
+/**
+ * Billing Model Utilities Tests
+ *
+ * Tests for retainer months with rollover and overage, amounts under each
+ * billing model, and billing model validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	calculateModelAmount,
+	describeBillingModel,
+	getBillingModel,
+	getRetainerPeriods,
+	listMonths,
+	validateBillingModel
+} from './billing-model-utils';
+import { createMockProject, createMockTimeEntry } from './test-helpers';
+import type { FixedFeeBillingModel, RetainerBillingModel } from '$lib/types/index.js';
+
+const rate = () => 100;
+
+const retainer: RetainerBillingModel = {
+	type: 'retainer',
+	monthlyFee: 2000,
+	includedHours: 20,
+	rollover: 'none',
+	overageRate: 150
+};
+
+const fixedFee: FixedFeeBillingModel = {
+	type: 'fixed-fee',
+	fee: 5000,
+	milestones: [
+		{ id: 'm1', name: 'Design', amount: 2000, completedDate: '2024-03-10' },
+		{ id: 'm2', name: 'Build', amount: 3000 }
+	]
+};
+
+const entries = [
+	createMockTimeEntry({ id: 'a', date: '2024-01-10', billableHours: 12 }),
+	createMockTimeEntry({ id: 'b', date: '2024-03-05', billableHours: 30 })
+];
+
+describe('Billing Model Utilities', () => {
+	describe('getBillingModel', () => {
+		it('should default to hourly', () => {
+			expect(getBillingModel(createMockProject())).toEqual({ type: 'hourly' });
+			expect(getBillingModel({ billingModel: retainer })).toBe(retainer);
+		});
+	});
+
+	describe('listMonths', () => {
+		it('should list every month across a year end', () => {
+			expect(listMonths('2023-11', '2024-02')).toEqual([
+				'2023-11',
+				'2023-12',
+				'2024-01',
+				'2024-02'
+			]);
+			expect(listMonths('2024-03', '2024-02')).toEqual([]);
+		});
+	});
+
+	describe('getRetainerPeriods', () => {
+		it('should charge the fee every month and overage past the included hours', () => {
+			const periods = getRetainerPeriods(retainer, entries);
+
+			expect(periods.map((p) => p.month)).toEqual(['2024-01', '2024-02', '2024-03']);
+			expect(periods.map((p) => p.amount)).toEqual([2000, 2000, 3500]);
+			expect(periods[2]).toMatchObject({ hours: 30, availableHours: 20, overageHours: 10 });
+		});
+
+		it('should roll unused hours into the next month', () => {
+			const periods = getRetainerPeriods({ ...retainer, rollover: 'unused-hours' }, entries);
+
+			// 8h unused in January, 20h in February (capped at the included hours)
+			expect(periods.map((p) => p.rolledOverHours)).toEqual([0, 8, 20]);
+			expect(periods[2]).toMatchObject({ availableHours: 40, overageHours: 0, amount: 2000 });
+		});
+
+		it('should limit rollover to the maximum', () => {
+			const periods = getRetainerPeriods(
+				{ ...retainer, rollover: 'unused-hours', maxRolloverHours: 5 },
+				entries
+			);
+
+			expect(periods[2]).toMatchObject({ availableHours: 25, overageHours: 5, amount: 2750 });
+		});
+
+		it('should use the given months', () => {
+			expect(getRetainerPeriods(retainer, [], '2024-01', '2024-02')).toHaveLength(2);
+			expect(getRetainerPeriods(retainer, [])).toEqual([]);
+		});
+	});
+
+	describe('calculateModelAmount', () => {
+		it('should price hourly time at the rate', () => {
+			expect(calculateModelAmount({ type: 'hourly' }, entries, rate)).toBe(4200);
+		});
+
+		it('should stop capped projects at the cap', () => {
+			expect(calculateModelAmount({ type: 'capped', cap: 3000 }, entries, rate)).toBe(3000);
+			expect(calculateModelAmount({ type: 'capped', cap: 5000 }, entries, rate)).toBe(4200);
+		});
+
+		it('should bill completed milestones of a fixed fee', () => {
+			expect(calculateModelAmount(fixedFee, entries, rate)).toBe(2000);
+		});
+
+		it('should bill retainer fees and overage', () => {
+			expect(calculateModelAmount(retainer, entries, rate)).toBe(7500);
+		});
+
+		it('should convert fixed amounts', () => {
+			expect(calculateModelAmount(fixedFee, entries, rate, (amount) => amount * 1.1)).toBeCloseTo(
+				2200
+			);
+		});
+	});
+
+	describe('validateBillingModel', () => {
+		it('should accept complete models', () => {
+			expect(validateBillingModel({ type: 'hourly' })).toEqual([]);
+			expect(validateBillingModel({ ...fixedFee })).toEqual([]);
+			expect(validateBillingModel(retainer)).toEqual([]);
+			expect(validateBillingModel({ type: 'capped', cap: 1000 })).toEqual([]);
+		});
+
+		it('should require milestones that add up to the fee', () => {
+			expect(validateBillingModel({ ...fixedFee, milestones: [] })).toEqual([
+				'Add at least one milestone'
+			]);
+			expect(
+				validateBillingModel({
+					...fixedFee,
+					milestones: [{ id: 'm1', name: ' ', amount: 1000 }]
+				})
+			).toEqual(['Every milestone needs a name', 'Milestone amounts must add up to the fixed fee']);
+		});
+
+		it('should reject missing or negative amounts', () => {
+			expect(
+				validateBillingModel({ ...retainer, monthlyFee: 0, overageRate: -1, maxRolloverHours: -5 })
+			).toEqual([
+				'Monthly fee must be greater than zero',
+				'Overage rate cannot be negative',
+				'Rollover limit cannot be negative'
+			]);
+			expect(validateBillingModel({ type: 'capped', cap: NaN })).toEqual([
+				'Cap must be greater than zero'
+			]);
+		});
+	});
+
+	describe('describeBillingModel', () => {
+		it('should summarise the model', () => {
+			expect(describeBillingModel(retainer, 'USD')).toBe('Retainer: $2,000.00/month for 20h');
+			expect(describeBillingModel(fixedFee, 'USD')).toBe('Fixed fee: $5,000.00 in 2 milestones');
+		});
+	});
+});
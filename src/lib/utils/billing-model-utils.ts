@@ -0,0 +1,248 @@
+/**
+ * Billing Model Utilities for TimeFlow Pro
+ *
+ * Amounts billed under each project billing model: hourly, fixed fee with
+ * milestone payments, monthly retainer with included hours, rollover and
+ * overage, and hourly capped at a not-to-exceed amount.
+ *
+ * @example
+ * ```typescript
+ * import { calculateModelAmount, getRetainerPeriods } from '$lib/utils/billing-model-utils';
+ *
+ * const amount = calculateModelAmount(project.billingModel, entries, resolveRate);
+ * const periods = getRetainerPeriods(retainer, entries);
+ * ```
+ */
+
+import type {
+	BillingModel,
+	BillingModelType,
+	InvoiceLineItem,
+	Project,
+	RetainerBillingModel,
+	RetainerPeriod,
+	TimeEntry
+} from '$lib/types/index.js';
+import { formatCurrency } from './currency-utils.js';
+
+export const BILLING_MODEL_TYPES: BillingModelType[] = [
+	'hourly',
+	'fixed-fee',
+	'retainer',
+	'capped'
+];
+
+/**
+ * A project's billing model; projects without one are billed hourly
+ */
+export function getBillingModel(project?: Pick<Project, 'billingModel'>): BillingModel {
+	return project?.billingModel ?? { type: 'hourly' };
+}
+
+/**
+ * Whether time on the model is priced at hourly rates (hourly and capped)
+ */
+export function isBilledByTheHour(model: BillingModel): boolean {
+	return model.type === 'hourly' || model.type === 'capped';
+}
+
+/**
+ * Whether an invoice line bills a fixed amount rather than hours at a rate
+ */
+export function isFixedAmountLine(line: Pick<InvoiceLineItem, 'kind'>): boolean {
+	return (
+		line.kind === 'milestone' ||
+		line.kind === 'retainer' ||
+		line.kind === 'cap-adjustment' ||
+		line.kind === 'expense'
+	);
+}
+
+/**
+ * Month of a date (YYYY-MM-DD → YYYY-MM)
+ */
+export function getMonth(date: string): string {
+	return date.slice(0, 7);
+}
+
+/**
+ * Every month from one month to another, inclusive (YYYY-MM)
+ */
+export function listMonths(from: string, to: string): string[] {
+	const months: string[] = [];
+	let [year = 0, month = 1] = from.split('-').map(Number);
+
+	for (let current = from; current <= to; ) {
+		months.push(current);
+		month += 1;
+		if (month > 12) {
+			month = 1;
+			year += 1;
+		}
+		current = `${year}-${String(month).padStart(2, '0')}`;
+	}
+
+	return months;
+}
+
+/**
+ * Retainer months with the hours worked, hours available after rollover,
+ * overage and amount due. Months run from the first to the last month with
+ * time unless given, so months without work still carry the fee.
+ */
+export function getRetainerPeriods(
+	model: RetainerBillingModel,
+	entries: TimeEntry[],
+	fromMonth?: string,
+	toMonth?: string
+): RetainerPeriod[] {
+	const hoursByMonth = new Map<string, number>();
+	entries.forEach((entry) => {
+		const month = getMonth(entry.date);
+		hoursByMonth.set(month, (hoursByMonth.get(month) ?? 0) + entry.billableHours);
+	});
+
+	const workedMonths = [...hoursByMonth.keys()].sort();
+	const first = fromMonth ?? workedMonths[0];
+	const last = toMonth ?? workedMonths[workedMonths.length - 1];
+	if (!first || !last) return [];
+
+	const maxRollover = model.maxRolloverHours ?? model.includedHours;
+	let rolledOverHours = 0;
+
+	return listMonths(first, last).map((month) => {
+		const hours = hoursByMonth.get(month) ?? 0;
+		const availableHours = model.includedHours + rolledOverHours;
+		const overageHours = Math.max(0, hours - availableHours);
+		const period: RetainerPeriod = {
+			month,
+			hours: round(hours),
+			availableHours: round(availableHours),
+			rolledOverHours: round(rolledOverHours),
+			overageHours: round(overageHours),
+			amount: round(model.monthlyFee + overageHours * model.overageRate)
+		};
+
+		rolledOverHours =
+			model.rollover === 'unused-hours'
+				? Math.min(Math.max(0, availableHours - hours), maxRollover)
+				: 0;
+
+		return period;
+	});
+}
+
+/**
+ * Amount billed for a project's entries under its billing model.
+ * `rate` prices entries by the hour; `convertAmount` converts the model's
+ * fixed amounts (fees, milestones, caps) into the currency `rate` returns.
+ */
+export function calculateModelAmount(
+	model: BillingModel,
+	entries: TimeEntry[],
+	rate: (entry: TimeEntry) => number,
+	convertAmount: (amount: number, date?: string) => number = (amount) => amount
+): number {
+	const hourly = () => entries.reduce((sum, entry) => sum + entry.billableHours * rate(entry), 0);
+
+	switch (model.type) {
+		case 'hourly':
+			return hourly();
+		case 'capped': {
+			const lastDate = entries.reduce<string | undefined>(
+				(latest, entry) => (!latest || entry.date > latest ? entry.date : latest),
+				undefined
+			);
+			return Math.min(hourly(), convertAmount(model.cap, lastDate));
+		}
+		case 'fixed-fee':
+			return model.milestones
+				.filter((milestone) => milestone.completedDate)
+				.reduce(
+					(sum, milestone) => sum + convertAmount(milestone.amount, milestone.completedDate),
+					0
+				);
+		case 'retainer':
+			return getRetainerPeriods(model, entries).reduce(
+				(sum, period) => sum + convertAmount(period.amount, `${period.month}-01`),
+				0
+			);
+	}
+}
+
+/**
+ * Validate a billing model
+ */
+export function validateBillingModel(model: BillingModel): string[] {
+	const errors: string[] = [];
+
+	switch (model.type) {
+		case 'hourly':
+			break;
+		case 'fixed-fee': {
+			if (!(model.fee > 0)) {
+				errors.push('Fixed fee must be greater than zero');
+			}
+			if (model.milestones.length === 0) {
+				errors.push('Add at least one milestone');
+			}
+			if (model.milestones.some((milestone) => !milestone.name?.trim())) {
+				errors.push('Every milestone needs a name');
+			}
+			if (model.milestones.some((milestone) => !(milestone.amount > 0))) {
+				errors.push('Milestone amounts must be greater than zero');
+			}
+			const milestoneTotal = round(model.milestones.reduce((sum, m) => sum + m.amount, 0));
+			if (model.milestones.length > 0 && milestoneTotal !== round(model.fee)) {
+				errors.push('Milestone amounts must add up to the fixed fee');
+			}
+			break;
+		}
+		case 'retainer':
+			if (!(model.monthlyFee > 0)) {
+				errors.push('Monthly fee must be greater than zero');
+			}
+			if (!(model.includedHours >= 0)) {
+				errors.push('Included hours cannot be negative');
+			}
+			if (!(model.overageRate >= 0)) {
+				errors.push('Overage rate cannot be negative');
+			}
+			if (model.maxRolloverHours !== undefined && !(model.maxRolloverHours >= 0)) {
+				errors.push('Rollover limit cannot be negative');
+			}
+			break;
+		case 'capped':
+			if (!(model.cap > 0)) {
+				errors.push('Cap must be greater than zero');
+			}
+			break;
+		default:
+			errors.push('Billing model must be hourly, fixed fee, retainer or capped');
+	}
+
+	return errors;
+}
+
+/**
+ * Short description of a billing model (e.g., "Retainer: $2,000.00/month for 20h")
+ */
+export function describeBillingModel(model: BillingModel, currency: string): string {
+	switch (model.type) {
+		case 'hourly':
+			return 'Hourly';
+		case 'fixed-fee':
+			return `Fixed fee: ${formatCurrency(model.fee, currency)} in ${model.milestones.length} ${
+				model.milestones.length === 1 ? 'milestone' : 'milestones'
+			}`;
+		case 'retainer':
+			return `Retainer: ${formatCurrency(model.monthlyFee, currency)}/month for ${model.includedHours}h`;
+		case 'capped':
+			return `Hourly, capped at ${formatCurrency(model.cap, currency)}`;
+	}
+}
+
+// Round to cents / hundredths of an hour
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,161 @@
+/**
+ * Billing Rate Utilities Tests for TimeFlow Pro
+ *
+ * Tests for the billing rate hierarchy and date-effective rate changes.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+	getEffectiveRate,
+	resolveBillingRate,
+	createRateResolver,
+	recordRateChange
+} from './billing-rate-utils.js';
+import { calculateBillableAmount } from './progress-utils.js';
+import {
+	createMockProject,
+	createMockTask,
+	createMockTimeEntry,
+	withTimeZone
+} from './test-helpers.js';
+import type { Client, TimeEntry } from '$lib/types/index.js';
+
+describe('Billing Rate Utilities', () => {
+	const client: Client = {
+		id: 'client-1',
+		name: 'Acme Corp',
+		defaultBillingRate: 110,
+		defaultCurrency: 'USD',
+		isActive: true,
+		createdAt: '2024-01-01T00:00:00.000Z',
+		updatedAt: '2024-01-01T00:00:00.000Z'
+	};
+
+	function entry(overrides: Partial<TimeEntry> = {}): TimeEntry {
+		const { billingRate: _billingRate, ...data } = createMockTimeEntry({
+			date: '2024-03-04',
+			...overrides
+		});
+		return overrides.billingRate !== undefined
+			? { ...data, billingRate: overrides.billingRate }
+			: data;
+	}
+
+	describe('getEffectiveRate', () => {
+		const history = [{ rate: 80 }, { rate: 100, effectiveFrom: '2024-03-01' }];
+
+		it('should use the latest change on or before the date', () => {
+			expect(getEffectiveRate(100, history, '2024-02-28')).toBe(80);
+			expect(getEffectiveRate(100, history, '2024-03-01')).toBe(100);
+			expect(getEffectiveRate(100, history, '2024-06-01')).toBe(100);
+		});
+
+		it('should fall back to the current rate without applicable changes', () => {
+			expect(getEffectiveRate(90, undefined, '2024-03-01')).toBe(90);
+			expect(getEffectiveRate(90, [{ rate: 120, effectiveFrom: '2025-01-01' }], '2024-03-01')).toBe(
+				90
+			);
+		});
+	});
+
+	describe('resolveBillingRate', () => {
+		const project = createMockProject({ clientId: 'client-1' });
+		const task = createMockTask({ customBillingRate: 95 });
+
+		it('should prefer the entry rate', () => {
+			expect(resolveBillingRate(entry({ billingRate: 150 }), { tasks: [task] })).toEqual({
+				rate: 150,
+				source: 'entry'
+			});
+		});
+
+		it('should walk task, project, client and global default', () => {
+			const sources = { projects: [project], tasks: [task], clients: [client], defaultRate: 40 };
+
+			expect(resolveBillingRate(entry(), sources).source).toBe('task');
+			expect(resolveBillingRate(entry(), { ...sources, tasks: [] })).toEqual({
+				rate: 75,
+				source: 'project'
+			});
+
+			const stoppedProject = { ...project, rateHistory: [{ effectiveFrom: '2024-01-01' }] };
+			expect(
+				resolveBillingRate(entry(), { ...sources, tasks: [], projects: [stoppedProject] })
+			).toEqual({ rate: 110, source: 'client' });
+
+			expect(resolveBillingRate(entry(), { defaultRate: 40 })).toEqual({
+				rate: 40,
+				source: 'default'
+			});
+		});
+
+		it('should fall through to the client and default rates without a project rate', () => {
+			const { defaultBillingRate: _defaultBillingRate, ...unpriced } = project;
+			const sources = { projects: [unpriced], tasks: [], clients: [client], defaultRate: 40 };
+
+			expect(resolveBillingRate(entry(), sources)).toEqual({ rate: 110, source: 'client' });
+			expect(resolveBillingRate(entry(), { ...sources, clients: [] })).toEqual({
+				rate: 40,
+				source: 'default'
+			});
+		});
+
+		it('should keep historical rates for older entries', () => {
+			const repriced = {
+				...project,
+				defaultBillingRate: 100,
+				rateHistory: recordRateChange(undefined, 75, 100, '2024-03-01')
+			};
+			const resolveRate = createRateResolver({ projects: [repriced] });
+
+			expect(resolveRate(entry({ date: '2024-02-15' }))).toBe(75);
+			expect(resolveRate(entry({ date: '2024-03-04' }))).toBe(100);
+			expect(
+				calculateBillableAmount(
+					[entry({ date: '2024-02-15' }), entry({ date: '2024-03-04' })],
+					resolveRate
+				)
+			).toBe(350);
+		});
+	});
+
+	describe('recordRateChange', () => {
+		it('should record the original rate on the first change', () => {
+			expect(recordRateChange(undefined, 75, 100, '2024-03-01')).toEqual([
+				{ rate: 75 },
+				{ rate: 100, effectiveFrom: '2024-03-01' }
+			]);
+		});
+
+		it('should replace a change on the same day and keep changes sorted', () => {
+			const history = recordRateChange(undefined, 75, 100, '2024-03-01');
+
+			expect(recordRateChange(history, 100, 90, '2024-03-01')).toEqual([
+				{ rate: 75 },
+				{ rate: 90, effectiveFrom: '2024-03-01' }
+			]);
+			expect(recordRateChange(history, 100, 60, '2024-02-01').map((c) => c.rate)).toEqual([
+				75, 60, 100
+			]);
+		});
+
+		it("should default to today's local date", () => {
+			withTimeZone('America/New_York', () => {
+				vi.useFakeTimers();
+				vi.setSystemTime(new Date('2024-03-01T03:00:00Z'));
+				try {
+					expect(recordRateChange(undefined, 75, 100).at(-1)?.effectiveFrom).toBe('2024-02-29');
+				} finally {
+					vi.useRealTimers();
+				}
+			});
+		});
+
+		it('should record a removed rate', () => {
+			expect(recordRateChange(undefined, 95, undefined, '2024-03-01')).toEqual([
+				{ rate: 95 },
+				{ effectiveFrom: '2024-03-01' }
+			]);
+		});
+	});
+});
@@ -0,0 +1,141 @@
+/**
+ * Billing Rate Utilities for TimeFlow Pro
+ *
+ * Resolves the hourly rate for a time entry through the rate hierarchy
+ * (entry → task → project → client → global default). Task, project and
+ * client rates are date-effective: a rate change only applies to work dated
+ * on or after the change, so historical entries keep the rate they were
+ * worked at.
+ *
+ * @example
+ * ```typescript
+ * import { createRateResolver, resolveBillingRate } from '$lib/utils/billing-rate-utils';
+ *
+ * const { rate, source } = resolveBillingRate(entry, { projects, tasks, clients, defaultRate: 50 });
+ * const amount = calculateBillableAmount(entries, createRateResolver({ projects, tasks }));
+ * ```
+ */
+
+import type {
+	Client,
+	Project,
+	RateChange,
+	ResolvedBillingRate,
+	Task,
+	TimeEntry
+} from '$lib/types/index.js';
+import { formatLocalDate } from './dateUtils.js';
+import type { CurrencyConverter } from './currency-utils.js';
+
+/**
+ * Records for each level of the rate hierarchy
+ */
+export interface BillingRateSources {
+	projects?: Project[];
+	tasks?: Task[];
+	clients?: Client[];
+	/** Global default rate used when no level sets a rate */
+	defaultRate?: number;
+}
+
+/**
+ * Get the rate that applies on a date, given the current rate and its history.
+ * The latest change on or before the date wins; without one the current rate applies.
+ */
+export function getEffectiveRate(
+	currentRate: number | undefined,
+	history: RateChange[] | undefined,
+	date: string
+): number | undefined {
+	let applicable: RateChange | undefined;
+
+	(history ?? []).forEach((change) => {
+		if (change.effectiveFrom && change.effectiveFrom > date) return;
+		if (!applicable || (change.effectiveFrom ?? '') >= (applicable.effectiveFrom ?? '')) {
+			applicable = change;
+		}
+	});
+
+	return applicable ? applicable.rate : currentRate;
+}
+
+/**
+ * Resolve the rate for a time entry: entry → task → project → client → global default
+ */
+export function resolveBillingRate(
+	entry: TimeEntry,
+	sources: BillingRateSources = {}
+): ResolvedBillingRate {
+	if (entry.billingRate !== undefined) {
+		return { rate: entry.billingRate, source: 'entry' };
+	}
+
+	const task = entry.taskId ? sources.tasks?.find((t) => t.id === entry.taskId) : undefined;
+	const taskRate = task && getEffectiveRate(task.customBillingRate, task.rateHistory, entry.date);
+	if (taskRate !== undefined) {
+		return { rate: taskRate, source: 'task' };
+	}
+
+	const project = sources.projects?.find((p) => p.id === entry.projectId);
+	const projectRate =
+		project && getEffectiveRate(project.defaultBillingRate, project.rateHistory, entry.date);
+	if (projectRate !== undefined) {
+		return { rate: projectRate, source: 'project' };
+	}
+
+	const client = project?.clientId
+		? sources.clients?.find((c) => c.id === project.clientId)
+		: undefined;
+	const clientRate =
+		client && getEffectiveRate(client.defaultBillingRate, client.rateHistory, entry.date);
+	if (clientRate !== undefined) {
+		return { rate: clientRate, source: 'client' };
+	}
+
+	return { rate: sources.defaultRate ?? 0, source: 'default' };
+}
+
+/**
+ * Create a function that resolves entry rates against fixed sources. With a
+ * converter, rates are converted from the project currency into the reporting
+ * currency at the entry date, for totals across projects.
+ */
+export function createRateResolver(
+	sources: BillingRateSources,
+	converter?: CurrencyConverter
+): (entry: TimeEntry) => number {
+	if (!converter) {
+		return (entry) => resolveBillingRate(entry, sources).rate;
+	}
+
+	return (entry) => {
+		const { rate } = resolveBillingRate(entry, sources);
+		const currency = sources.projects?.find((p) => p.id === entry.projectId)?.currency;
+		return currency ? converter.convert(rate, currency, entry.date) : rate;
+	};
+}
+
+/**
+ * Record a rate change in a rate history. The first change also records the
+ * previous rate as the original rate, so earlier work keeps it. Changes take
+ * effect from today in the user's time zone unless a date is given.
+ */
+export function recordRateChange(
+	history: RateChange[] | undefined,
+	previousRate: number | undefined,
+	nextRate: number | undefined,
+	effectiveFrom: string = formatLocalDate(new Date())
+): RateChange[] {
+	const changes = history && history.length > 0 ? [...history] : [];
+
+	if (changes.length === 0 && previousRate !== undefined) {
+		changes.push({ rate: previousRate });
+	}
+
+	const next: RateChange =
+		nextRate !== undefined ? { rate: nextRate, effectiveFrom } : { effectiveFrom };
+
+	return [...changes.filter((change) => change.effectiveFrom !== effectiveFrom), next].sort(
+		(a, b) => (a.effectiveFrom ?? '').localeCompare(b.effectiveFrom ?? '')
+	);
+}
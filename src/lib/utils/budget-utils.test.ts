@@ -0,0 +1,125 @@
+/**
+ * Budget Utilities Tests
+ *
+ * Tests for budget burn in hours and money, the burn-down and projected
+ * overrun date, and alert threshold crossings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateBudgetBurn, describeBudgetAlert, getCrossedThresholds } from './budget-utils';
+import { createMockTimeEntry, withTimeZone } from './test-helpers';
+
+const rate = () => 50;
+
+describe('Budget Utilities', () => {
+	describe('calculateBudgetBurn', () => {
+		const project = { budget: 1000, estimatedHours: 20 };
+		const entries = [
+			createMockTimeEntry({ id: 'a', date: '2024-03-01', duration: 4, billableHours: 4 }),
+			createMockTimeEntry({ id: 'b', date: '2024-03-02', duration: 6, billableHours: 6 })
+		];
+
+		it('should measure hours and money against the estimate and budget', () => {
+			const burn = calculateBudgetBurn(project, entries, rate, '2024-03-04');
+
+			expect(burn).toMatchObject({
+				hoursUsed: 10,
+				hoursBudget: 20,
+				hoursPercent: 50,
+				amountSpent: 500,
+				amountBudget: 1000,
+				amountPercent: 50,
+				percentUsed: 50
+			});
+			expect(burn?.burnDown).toEqual([
+				{ date: '2024-03-01', remainingPercent: 80 },
+				{ date: '2024-03-02', remainingPercent: 50 }
+			]);
+		});
+
+		it('should use whichever of hours and money is further along', () => {
+			const burn = calculateBudgetBurn(project, entries, () => 10, '2024-03-04');
+
+			expect(burn?.amountPercent).toBe(10);
+			expect(burn?.percentUsed).toBe(50);
+		});
+
+		it('should project the overrun date from the daily burn rate', () => {
+			const burn = calculateBudgetBurn(project, entries, rate, '2024-03-04');
+
+			// 50% over four days leaves four more days of budget
+			expect(burn?.dailyBurnRate).toBe(12.5);
+			expect(burn?.projectedOverrunDate).toBe('2024-03-08');
+		});
+
+		it('should project the same overrun date outside UTC', () => {
+			withTimeZone('Europe/Berlin', () => {
+				expect(
+					calculateBudgetBurn(project, entries, rate, '2024-03-04')?.projectedOverrunDate
+				).toBe('2024-03-08');
+			});
+		});
+
+		it('should report the day an overrun budget ran out', () => {
+			const burn = calculateBudgetBurn(
+				project,
+				[
+					...entries,
+					createMockTimeEntry({ id: 'c', date: '2024-03-03', duration: 12, billableHours: 12 })
+				],
+				rate,
+				'2024-03-04'
+			);
+
+			expect(burn?.percentUsed).toBe(110);
+			expect(burn?.projectedOverrunDate).toBe('2024-03-03');
+			expect(burn?.burnDown[2]?.remainingPercent).toBe(-10);
+		});
+
+		it('should leave out overruns projected after the project ends', () => {
+			const burn = calculateBudgetBurn(
+				{ ...project, endDate: '2024-03-06' },
+				entries,
+				rate,
+				'2024-03-04'
+			);
+
+			expect(burn?.projectedOverrunDate).toBeUndefined();
+		});
+
+		it('should skip projects without a budget or estimate', () => {
+			expect(calculateBudgetBurn({}, entries, rate)).toBeUndefined();
+			expect(calculateBudgetBurn({ budget: 1000 }, [], rate)).toMatchObject({
+				percentUsed: 0,
+				dailyBurnRate: 0,
+				burnDown: []
+			});
+		});
+	});
+
+	describe('getCrossedThresholds', () => {
+		it('should return the thresholds reached since the last check', () => {
+			expect(getCrossedThresholds(40, 85, [100, 50, 80])).toEqual([50, 80]);
+			expect(getCrossedThresholds(80, 80)).toEqual([]);
+			expect(getCrossedThresholds(0, 100)).toEqual([50, 80, 100]);
+		});
+
+		it('should not alert when spend falls back', () => {
+			expect(getCrossedThresholds(90, 60)).toEqual([]);
+		});
+	});
+
+	describe('describeBudgetAlert', () => {
+		it('should mention the projected overrun before the budget runs out', () => {
+			const burn = calculateBudgetBurn({ budget: 1000 }, [], rate);
+			if (!burn) throw new Error('Expected a budget burn');
+
+			expect(
+				describeBudgetAlert('Website', 80, { ...burn, projectedOverrunDate: '2024-03-08' })
+			).toBe('Website has passed 80% of its budget; at this pace it runs out on 2024-03-08');
+			expect(describeBudgetAlert('Website', 100, { ...burn, percentUsed: 104.6 })).toBe(
+				'Website has used 105% of its budget'
+			);
+		});
+	});
+});
@@ -0,0 +1,147 @@
+/**
+ * Budget Burn Utilities for TimeFlow Pro
+ *
+ * Compares the time tracked on a project with its estimated hours and
+ * budget: how much of each is used, a day-by-day burn-down, the date the
+ * budget runs out at the current pace, and which alert thresholds a
+ * change in spend crosses.
+ *
+ * @example
+ * ```typescript
+ * import { calculateBudgetBurn, getCrossedThresholds } from '$lib/utils/budget-utils';
+ *
+ * const burn = calculateBudgetBurn(project, entries, (entry) => entry.billingRate ?? 0);
+ * const crossed = getCrossedThresholds(45, burn?.percentUsed ?? 0, [50, 80, 100]);
+ * ```
+ */
+
+import type { BurnDownPoint, Project, ProjectBudgetBurn, TimeEntry } from '$lib/types/index.js';
+import { formatDate, shiftDate } from './dateUtils.js';
+
+/** Percentages of the budget that raise an alert when reached */
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [50, 80, 100];
+
+/**
+ * Budget burn for a project's time entries. Hours are measured against
+ * `estimatedHours` and the billable amount against `budget`; whichever is
+ * further along sets the overall percentage. Returns undefined when the
+ * project has neither.
+ *
+ * The overrun date is the day spend reached 100%, or else the day it will
+ * at the average daily burn rate. Projections past the project's end date
+ * are left out, since the project finishes within budget.
+ */
+export function calculateBudgetBurn(
+	project: Pick<Project, 'budget' | 'estimatedHours' | 'endDate'>,
+	entries: TimeEntry[],
+	rate: (entry: TimeEntry) => number,
+	asOf: string = formatDate(new Date())
+): ProjectBudgetBurn | undefined {
+	const hoursBudget =
+		project.estimatedHours && project.estimatedHours > 0 ? project.estimatedHours : undefined;
+	const amountBudget = project.budget && project.budget > 0 ? project.budget : undefined;
+	if (!hoursBudget && !amountBudget) return undefined;
+
+	const percentUsedOf = (hours: number, amount: number) =>
+		Math.max(
+			hoursBudget ? (hours / hoursBudget) * 100 : 0,
+			amountBudget ? (amount / amountBudget) * 100 : 0
+		);
+
+	// Hours and amount per day
+	const days = new Map<string, { hours: number; amount: number }>();
+	entries.forEach((entry) => {
+		const day = days.get(entry.date) ?? { hours: 0, amount: 0 };
+		day.hours += entry.duration;
+		day.amount += entry.billableHours * rate(entry);
+		days.set(entry.date, day);
+	});
+
+	let hoursUsed = 0;
+	let amountSpent = 0;
+	let projectedOverrunDate: string | undefined;
+	const burnDown: BurnDownPoint[] = [...days.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([date, day]) => {
+			hoursUsed += day.hours;
+			amountSpent += day.amount;
+			const percent = percentUsedOf(hoursUsed, amountSpent);
+			if (percent >= 100 && !projectedOverrunDate) {
+				projectedOverrunDate = date;
+			}
+			return { date, remainingPercent: round(100 - percent) };
+		});
+
+	const percentUsed = percentUsedOf(hoursUsed, amountSpent);
+	const firstDay = burnDown[0]?.date;
+	const elapsedDays = firstDay ? Math.max(1, daysBetween(firstDay, asOf) + 1) : 0;
+	const dailyBurnRate = elapsedDays > 0 ? percentUsed / elapsedDays : 0;
+
+	if (!projectedOverrunDate && dailyBurnRate > 0) {
+		const projected = shiftDate(asOf, Math.ceil((100 - percentUsed) / dailyBurnRate));
+		if (!project.endDate || projected <= project.endDate.slice(0, 10)) {
+			projectedOverrunDate = projected;
+		}
+	}
+
+	const burn: ProjectBudgetBurn = {
+		hoursUsed: round(hoursUsed),
+		amountSpent: round(amountSpent),
+		percentUsed: round(percentUsed),
+		dailyBurnRate: round(dailyBurnRate),
+		burnDown
+	};
+	if (hoursBudget) {
+		burn.hoursBudget = hoursBudget;
+		burn.hoursPercent = round((hoursUsed / hoursBudget) * 100);
+	}
+	if (amountBudget) {
+		burn.amountBudget = amountBudget;
+		burn.amountPercent = round((amountSpent / amountBudget) * 100);
+	}
+	if (projectedOverrunDate) {
+		burn.projectedOverrunDate = projectedOverrunDate;
+	}
+
+	return burn;
+}
+
+/**
+ * Thresholds reached by moving from one percentage to another, lowest first.
+ * Falling back below a threshold crosses nothing.
+ */
+export function getCrossedThresholds(
+	previousPercent: number,
+	currentPercent: number,
+	thresholds: number[] = DEFAULT_BUDGET_ALERT_THRESHOLDS
+): number[] {
+	return [...new Set(thresholds)]
+		.filter((threshold) => previousPercent < threshold && currentPercent >= threshold)
+		.sort((a, b) => a - b);
+}
+
+/**
+ * Alert text for a project reaching a budget threshold
+ */
+export function describeBudgetAlert(
+	projectName: string,
+	threshold: number,
+	burn: ProjectBudgetBurn
+): string {
+	if (threshold >= 100) {
+		return `${projectName} has used ${Math.round(burn.percentUsed)}% of its budget`;
+	}
+	const overrun = burn.projectedOverrunDate
+		? `; at this pace it runs out on ${burn.projectedOverrunDate}`
+		: '';
+	return `${projectName} has passed ${threshold}% of its budget${overrun}`;
+}
+
+function daysBetween(from: string, to: string): number {
+	return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+// Round to hundredths
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
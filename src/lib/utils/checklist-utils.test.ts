@@ -0,0 +1,48 @@
+/**
+ * Checklist Utilities Tests
+ *
+ * Tests for checklist progress, reordering items and validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getChecklistProgress, moveChecklistItem, validateChecklist } from './checklist-utils';
+import type { TaskChecklistItem } from '$lib/types/index.js';
+
+const checklist: TaskChecklistItem[] = [
+	{ id: 'draft', text: 'Draft', done: true },
+	{ id: 'review', text: 'Review', done: false },
+	{ id: 'publish', text: 'Publish', done: false },
+	{ id: 'announce', text: 'Announce', done: true }
+];
+
+describe('Checklist Utilities', () => {
+	it('should give the share of items done', () => {
+		expect(getChecklistProgress(checklist)).toBe(50);
+		expect(getChecklistProgress([])).toBeUndefined();
+		expect(getChecklistProgress()).toBeUndefined();
+	});
+
+	it('should move items to a new position', () => {
+		expect(moveChecklistItem(checklist, 3, 0).map((item) => item.id)).toEqual([
+			'announce',
+			'draft',
+			'review',
+			'publish'
+		]);
+		expect(moveChecklistItem(checklist, 0, 1).map((item) => item.id)).toEqual([
+			'review',
+			'draft',
+			'publish',
+			'announce'
+		]);
+		expect(moveChecklistItem(checklist, 0, -1)).toBe(checklist);
+	});
+
+	it('should reject empty items and repeated IDs', () => {
+		expect(validateChecklist(checklist)).toEqual([]);
+		expect(validateChecklist([...checklist, { id: 'draft', text: '  ', done: false }])).toEqual([
+			'Checklist items cannot be empty',
+			'Checklist item IDs must be unique'
+		]);
+	});
+});
@@ -0,0 +1,59 @@
+/**
+ * Checklist Utilities for TimeFlow Pro
+ *
+ * Works with task checklists: the ordered, tick-off steps kept inside a
+ * task that are too small to be subtasks. Covers how much of a checklist
+ * is done, reordering items and validating them.
+ *
+ * @example
+ * ```typescript
+ * import { getChecklistProgress, moveChecklistItem } from '$lib/utils/checklist-utils';
+ *
+ * getChecklistProgress(task.checklist); // 50
+ * const reordered = moveChecklistItem(task.checklist, 2, 0);
+ * ```
+ */
+
+import type { TaskChecklistItem } from '$lib/types/index.js';
+
+/**
+ * Share of checklist items done, as a percentage. Returns undefined for an
+ * empty or missing checklist.
+ */
+export function getChecklistProgress(checklist: TaskChecklistItem[] = []): number | undefined {
+	if (checklist.length === 0) return undefined;
+	return (checklist.filter((item) => item.done).length / checklist.length) * 100;
+}
+
+/**
+ * Checklist with the item at `from` moved to position `to`. Positions out
+ * of range leave the order unchanged.
+ */
+export function moveChecklistItem(
+	checklist: TaskChecklistItem[],
+	from: number,
+	to: number
+): TaskChecklistItem[] {
+	const item = checklist[from];
+	if (!item || to < 0 || to >= checklist.length) return checklist;
+
+	const reordered = checklist.filter((_, index) => index !== from);
+	reordered.splice(to, 0, item);
+	return reordered;
+}
+
+/**
+ * Validate checklist items: each needs text and an ID of its own
+ */
+export function validateChecklist(checklist: TaskChecklistItem[]): string[] {
+	const errors: string[] = [];
+
+	if (checklist.some((item) => !item.text.trim())) {
+		errors.push('Checklist items cannot be empty');
+	}
+	if (new Set(checklist.map((item) => item.id)).size !== checklist.length) {
+		errors.push('Checklist item IDs must be unique');
+	}
+
+	return errors;
+}
@@ -0,0 +1,120 @@
+/**
+ * Currency Utilities Tests
+ *
+ * Tests for money formatting, dated exchange rate lookup (direct, inverse
+ * and cross rates), conversion into a reporting currency and CSV handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	createCurrencyConverter,
+	exchangeRatesToCsv,
+	findExchangeRate,
+	findUnconvertedCurrencies,
+	formatCurrency,
+	parseExchangeRateCsv,
+	validateExchangeRate
+} from './currency-utils';
+import type { ExchangeRate } from '$lib/types/index.js';
+
+const rates: ExchangeRate[] = [
+	{ id: 'rate-1', from: 'EUR', to: 'USD', rate: 1.1, date: '2024-01-01' },
+	{ id: 'rate-2', from: 'EUR', to: 'USD', rate: 1.2, date: '2024-03-01' },
+	{ id: 'rate-3', from: 'USD', to: 'CAD', rate: 1.35, date: '2024-01-01' }
+];
+
+describe('Currency Utilities', () => {
+	describe('formatCurrency', () => {
+		it('should format amounts in the given currency', () => {
+			expect(formatCurrency(1234.5, 'USD')).toBe('$1,234.50');
+			expect(formatCurrency(1234.5, 'EUR')).toBe('€1,234.50');
+		});
+
+		it('should fall back to the code for unknown currencies', () => {
+			expect(formatCurrency(10, 'not-a-code')).toBe('10.00 not-a-code');
+		});
+	});
+
+	describe('findExchangeRate', () => {
+		it('should use the latest rate on or before the date', () => {
+			expect(findExchangeRate(rates, 'EUR', 'USD', '2024-02-15')).toBe(1.1);
+			expect(findExchangeRate(rates, 'EUR', 'USD', '2024-03-01')).toBe(1.2);
+		});
+
+		it('should use the earliest rate for dates before the table starts', () => {
+			expect(findExchangeRate(rates, 'EUR', 'USD', '2023-06-01')).toBe(1.1);
+		});
+
+		it('should invert rates quoted the other way', () => {
+			expect(findExchangeRate(rates, 'USD', 'EUR', '2024-03-15')).toBeCloseTo(1 / 1.2);
+		});
+
+		it('should cross rates through a shared currency', () => {
+			expect(findExchangeRate(rates, 'EUR', 'CAD', '2024-03-15')).toBeCloseTo(1.2 * 1.35);
+		});
+
+		it('should return 1 for the same currency and undefined without a rate', () => {
+			expect(findExchangeRate(rates, 'GBP', 'GBP')).toBe(1);
+			expect(findExchangeRate(rates, 'GBP', 'USD')).toBeUndefined();
+		});
+	});
+
+	describe('createCurrencyConverter', () => {
+		it('should convert amounts into the reporting currency on their date', () => {
+			const converter = createCurrencyConverter(rates, 'USD');
+
+			expect(converter.convert(100, 'EUR', '2024-01-15')).toBeCloseTo(110);
+			expect(converter.convert(100, 'EUR', '2024-03-15')).toBeCloseTo(120);
+			expect(converter.convert(100, 'USD')).toBe(100);
+		});
+
+		it('should leave amounts without a rate unconverted', () => {
+			const converter = createCurrencyConverter(rates, 'USD');
+
+			expect(converter.hasRate('GBP')).toBe(false);
+			expect(converter.convert(100, 'GBP')).toBe(100);
+		});
+
+		it('should list the currencies it has no rate for once each', () => {
+			const converter = createCurrencyConverter(rates, 'USD');
+
+			expect(findUnconvertedCurrencies(converter, ['GBP', 'EUR', 'USD', 'CHF', 'GBP'])).toEqual([
+				'CHF',
+				'GBP'
+			]);
+		});
+	});
+
+	describe('parseExchangeRateCsv', () => {
+		it('should parse rows with an optional header and report invalid lines', () => {
+			const result = parseExchangeRateCsv(
+				'date,from,to,rate\n2024-04-01,gbp,usd,1.27\n\n2024-04-01;EUR;USD;1.08\n2024-04-01,EUR,EUR,1\nbad,row'
+			);
+
+			expect(result.rates).toEqual([
+				{ date: '2024-04-01', from: 'GBP', to: 'USD', rate: 1.27 },
+				{ date: '2024-04-01', from: 'EUR', to: 'USD', rate: 1.08 }
+			]);
+			expect(result.errors).toEqual([
+				'Line 5: currencies must differ',
+				'Line 6: date must be YYYY-MM-DD, currencies must be 3-letter ISO codes, rate must be a positive number'
+			]);
+		});
+	});
+
+	describe('validateExchangeRate', () => {
+		it('should reject rates that are not positive', () => {
+			expect(validateExchangeRate({ date: '2024-01-01', from: 'EUR', to: 'USD', rate: 0 })).toEqual(
+				['rate must be a positive number']
+			);
+		});
+	});
+
+	describe('exchangeRatesToCsv', () => {
+		it('should write rates oldest first with a header', () => {
+			expect(exchangeRatesToCsv([...rates].reverse())).toBe(
+				'date,from,to,rate\n2024-01-01,EUR,USD,1.1\n2024-01-01,USD,CAD,1.35\n2024-03-01,EUR,USD,1.2'
+			);
+		});
+	});
+});
@@ -0,0 +1,212 @@
+/**
+ * Currency Utilities for TimeFlow Pro
+ *
+ * Money formatting and conversion between currencies using a local table of
+ * dated exchange rates. A conversion on a date uses the latest rate on or
+ * before that date, so historical amounts keep the rate of their day.
+ * Aggregates across projects convert every amount into one reporting
+ * currency before summing.
+ *
+ * @example
+ * ```typescript
+ * import { createCurrencyConverter, formatCurrency } from '$lib/utils/currency-utils';
+ *
+ * const converter = createCurrencyConverter(rates, 'USD');
+ * const total = converter.convert(1000, 'EUR', '2024-03-15');
+ * formatCurrency(total, converter.reportingCurrency); // "$1,085.00"
+ * ```
+ */
+
+import type { ExchangeRate } from '$lib/types/index.js';
+import { formatDate } from './dateUtils.js';
+
+/**
+ * Converts amounts into a reporting currency
+ */
+export interface CurrencyConverter {
+	/** Currency every converted amount is expressed in */
+	reportingCurrency: string;
+	/** Units of the reporting currency per unit of a currency on a date */
+	getRate(currency: string, date?: string): number | undefined;
+	/** Whether a currency can be converted on a date */
+	hasRate(currency: string, date?: string): boolean;
+	/**
+	 * Convert an amount into the reporting currency. Amounts in a currency
+	 * without an exchange rate are returned unconverted.
+	 */
+	convert(amount: number, currency: string, date?: string): number;
+}
+
+export interface ExchangeRateCsvResult {
+	rates: Omit<ExchangeRate, 'id'>[];
+	errors: string[];
+}
+
+/**
+ * Format an amount as money with Intl.NumberFormat. Unknown currency codes
+ * fall back to the amount followed by the code.
+ */
+export function formatCurrency(amount: number, currency: string, locale = 'en-US'): string {
+	try {
+		return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+	} catch {
+		return `${amount.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+	}
+}
+
+/**
+ * Find the exchange rate from one currency to another on a date. Rates are
+ * used directly, inverted, or crossed through one shared currency. The latest
+ * rate on or before the date applies; for dates before the first rate, the
+ * earliest rate applies.
+ */
+export function findExchangeRate(
+	rates: ExchangeRate[],
+	from: string,
+	to: string,
+	date: string = formatDate(new Date())
+): number | undefined {
+	if (from === to) return 1;
+
+	const direct = findPairRate(rates, from, to, date);
+	if (direct !== undefined) return direct;
+
+	// Cross rate through a currency both sides have a rate with
+	const intermediates = new Set(rates.flatMap((rate) => [rate.from, rate.to]));
+	for (const via of intermediates) {
+		if (via === from || via === to) continue;
+		const first = findPairRate(rates, from, via, date);
+		const second = first !== undefined ? findPairRate(rates, via, to, date) : undefined;
+		if (first !== undefined && second !== undefined) {
+			return first * second;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Create a converter into a reporting currency from an exchange rate table
+ */
+export function createCurrencyConverter(
+	rates: ExchangeRate[],
+	reportingCurrency: string
+): CurrencyConverter {
+	const getRate = (currency: string, date?: string) =>
+		findExchangeRate(rates, currency, reportingCurrency, date);
+
+	return {
+		reportingCurrency,
+		getRate,
+		hasRate: (currency, date) => getRate(currency, date) !== undefined,
+		convert: (amount, currency, date) => amount * (getRate(currency, date) ?? 1)
+	};
+}
+
+/**
+ * Currencies a converter has no exchange rate for. Amounts in these
+ * currencies are left unconverted, so totals built from them mix currencies
+ * and should say so.
+ */
+export function findUnconvertedCurrencies(
+	converter: CurrencyConverter,
+	currencies: Iterable<string>
+): string[] {
+	return [...new Set(currencies)].filter((currency) => !converter.hasRate(currency)).sort();
+}
+
+/**
+ * Parse exchange rates from CSV with the columns date, from, to, rate.
+ * A header row is optional; invalid rows are reported and skipped.
+ */
+export function parseExchangeRateCsv(csv: string): ExchangeRateCsvResult {
+	const rates: Omit<ExchangeRate, 'id'>[] = [];
+	const errors: string[] = [];
+
+	csv.split(/\r?\n/).forEach((line, index) => {
+		const row = line.trim();
+		if (!row) return;
+
+		const [date = '', from = '', to = '', rateValue = ''] = row
+			.split(/[,;\t]/)
+			.map((cell) => cell.trim().replace(/^"|"$/g, ''));
+
+		if (index === 0 && date.toLowerCase() === 'date') return;
+
+		const rate = {
+			date,
+			from: from.toUpperCase(),
+			to: to.toUpperCase(),
+			rate: Number(rateValue)
+		};
+		const rowErrors = validateExchangeRate(rate);
+
+		if (rowErrors.length > 0) {
+			errors.push(`Line ${index + 1}: ${rowErrors.join(', ')}`);
+		} else {
+			rates.push(rate);
+		}
+	});
+
+	return { rates, errors };
+}
+
+/**
+ * Validate an exchange rate; returns the problems found
+ */
+export function validateExchangeRate(rate: Partial<Omit<ExchangeRate, 'id'>>): string[] {
+	const errors: string[] = [];
+
+	if (!rate.date || !/^\d{4}-\d{2}-\d{2}$/.test(rate.date)) {
+		errors.push('date must be YYYY-MM-DD');
+	}
+	if (!isCurrencyCode(rate.from ?? '') || !isCurrencyCode(rate.to ?? '')) {
+		errors.push('currencies must be 3-letter ISO codes');
+	} else if (rate.from === rate.to) {
+		errors.push('currencies must differ');
+	}
+	if (rate.rate === undefined || !Number.isFinite(rate.rate) || rate.rate <= 0) {
+		errors.push('rate must be a positive number');
+	}
+
+	return errors;
+}
+
+/**
+ * Write exchange rates as CSV (date, from, to, rate), oldest first
+ */
+export function exchangeRatesToCsv(rates: ExchangeRate[]): string {
+	const rows = [...rates]
+		.sort((a, b) => a.date.localeCompare(b.date) || a.from.localeCompare(b.from))
+		.map((rate) => `${rate.date},${rate.from},${rate.to},${rate.rate}`);
+
+	return ['date,from,to,rate', ...rows].join('\n');
+}
+
+/**
+ * Whether a value is a 3-letter ISO currency code
+ */
+export function isCurrencyCode(value: string): boolean {
+	return /^[A-Z]{3}$/.test(value);
+}
+
+// Rate for a currency pair, using the pair in either direction
+function findPairRate(
+	rates: ExchangeRate[],
+	from: string,
+	to: string,
+	date: string
+): number | undefined {
+	const candidates = rates
+		.filter(
+			(rate) =>
+				rate.rate > 0 &&
+				((rate.from === from && rate.to === to) || (rate.from === to && rate.to === from))
+		)
+		.sort((a, b) => a.date.localeCompare(b.date));
+
+	const applicable = candidates.filter((rate) => rate.date <= date).pop() ?? candidates[0];
+	if (!applicable) return undefined;
+
+	return applicable.from === from ? applicable.rate : 1 / applicable.rate;
+}
@@ -5,7 +5,16 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { formatDuration, calculateDuration, formatDate, formatTime, addDays, isToday } from './dateUtils';
+import {
+	formatDuration,
+	calculateDuration,
+	formatDate,
+	formatLocalDate,
+	formatTime,
+	addDays,
+	shiftDate,
+	isToday
+} from './dateUtils';
 import { isValidEmail } from './validationUtils';
 
 describe('Date Utilities', () => {
@@ -52,6 +61,13 @@ describe('Date Utilities', () => {
 		});
 	});
 
+	describe('formatLocalDate', () => {
+		it('should use the local calendar day', () => {
+			expect(formatLocalDate(new Date(2024, 0, 15, 23, 30))).toBe('2024-01-15');
+			expect(formatLocalDate(new Date(2024, 8, 1, 0, 15))).toBe('2024-09-01');
+		});
+	});
+
 	describe('formatTime', () => {
 		it('should format time in 24-hour format', () => {
 			const date = new Date('2024-01-15T14:30:00Z');
@@ -75,6 +91,14 @@ describe('Date Utilities', () => {
 		});
 	});
 
+	describe('shiftDate', () => {
+		it('should shift calendar dates across month and year ends', () => {
+			expect(shiftDate('2024-01-31', 1)).toBe('2024-02-01');
+			expect(shiftDate('2024-03-01', -1)).toBe('2024-02-29');
+			expect(shiftDate('2024-12-25', 10)).toBe('2025-01-04');
+		});
+	});
+
 	describe('isToday', () => {
 		it('should return true for today\'s date', () => {
 			const today = new Date();
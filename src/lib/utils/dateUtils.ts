@@ -82,6 +82,17 @@ export function formatDate(date: Date): string {
 	return date.toISOString().split('T')[0] ?? '';
 }
 
+/**
+ * Format date to YYYY-MM-DD format in local time
+ * @param date - Date to format
+ * @returns Formatted date string for the local calendar day
+ */
+export function formatLocalDate(date: Date): string {
+	const month = (date.getMonth() + 1).toString().padStart(2, '0');
+	const day = date.getDate().toString().padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Format date to localized string
  * @param date - Date to format
@@ -214,6 +225,18 @@ export function addDays(date: Date, days: number): Date {
 	return result;
 }
 
+/**
+ * Add days to a calendar date, independent of the local time zone
+ * @param date - Date string (YYYY-MM-DD)
+ * @param days - Number of days to add (can be negative)
+ * @returns Shifted date string (YYYY-MM-DD)
+ */
+export function shiftDate(date: string, days: number): string {
+	const result = new Date(`${date}T00:00:00Z`);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result.toISOString().slice(0, 10);
+}
+
 /**
  * Add hours to a date
  * @param date - Input date
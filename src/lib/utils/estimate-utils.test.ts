@@ -0,0 +1,104 @@
+/**
+ * Estimate Utilities Tests
+ *
+ * Tests for estimate accuracy per project, category and tag, and for
+ * corrected estimates with their ranges and confidence
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getEstimateAccuracy, getEstimateSuggestion } from './estimate-utils';
+import { createMockTask, createMockTimeEntry } from './test-helpers';
+import type { Task, TimeEntry, TimeEntryCategory } from '$lib/types/index.js';
+
+// Completed tasks estimated at 10 hours that took the given hours
+function history(
+	actualHours: number[],
+	tags: string[] = [],
+	category: TimeEntryCategory = 'development'
+) {
+	const tasks: Task[] = [];
+	const timeEntries: TimeEntry[] = [];
+	actualHours.forEach((hours, index) => {
+		const id = `${tags.join('-') || category}-${index}`;
+		tasks.push(createMockTask({ id, status: 'completed', estimatedHours: 10, tags }));
+		timeEntries.push(
+			createMockTimeEntry({ id: `entry-${id}`, taskId: id, duration: hours, category })
+		);
+	});
+	return { tasks, timeEntries };
+}
+
+describe('Estimate Utilities', () => {
+	describe('getEstimateAccuracy', () => {
+		it('should give the median ratio and spread per group', () => {
+			const { tasks, timeEntries } = history([10, 12, 14, 16, 20], ['api']);
+
+			expect(getEstimateAccuracy(tasks, timeEntries)).toEqual([
+				{
+					groupBy: 'project',
+					key: 'project-1',
+					sampleSize: 5,
+					ratio: 1.4,
+					lowRatio: 1.2,
+					highRatio: 1.6
+				},
+				{
+					groupBy: 'category',
+					key: 'development',
+					sampleSize: 5,
+					ratio: 1.4,
+					lowRatio: 1.2,
+					highRatio: 1.6
+				},
+				{ groupBy: 'tag', key: 'api', sampleSize: 5, ratio: 1.4, lowRatio: 1.2, highRatio: 1.6 }
+			]);
+		});
+
+		it('should only learn from completed tasks with an estimate and tracked time', () => {
+			const tasks = [
+				createMockTask({ id: 'open', estimatedHours: 10 }),
+				createMockTask({ id: 'unestimated', status: 'completed', estimatedHours: 0 }),
+				createMockTask({ id: 'untracked', status: 'completed', estimatedHours: 10 })
+			];
+			const timeEntries = ['open', 'unestimated'].map((taskId) =>
+				createMockTimeEntry({ id: taskId, taskId })
+			);
+
+			expect(getEstimateAccuracy(tasks, timeEntries)).toEqual([]);
+		});
+	});
+
+	describe('getEstimateSuggestion', () => {
+		it('should correct the estimate from the most consistent group', () => {
+			const tagged = history([10, 12, 14, 16, 20], ['api']);
+			const untagged = history([5, 20, 30], [], 'design');
+			const tasks = [...tagged.tasks, ...untagged.tasks];
+			const timeEntries = [...tagged.timeEntries, ...untagged.timeEntries];
+
+			const suggestion = getEstimateSuggestion(
+				createMockTask({ id: 'new', estimatedHours: 5, tags: ['api'] }),
+				tasks,
+				timeEntries
+			);
+
+			expect(suggestion).toMatchObject({
+				estimatedHours: 5,
+				suggestedHours: 7,
+				lowHours: 6,
+				highHours: 8,
+				confidence: 'medium',
+				basis: { groupBy: 'tag', key: 'api' }
+			});
+		});
+
+		it('should need an estimate and enough history', () => {
+			const { tasks, timeEntries } = history([10, 12]);
+			const task = createMockTask({ id: 'new', estimatedHours: 5 });
+
+			expect(getEstimateSuggestion(task, tasks, timeEntries)).toBeUndefined();
+			expect(
+				getEstimateSuggestion({ ...task, estimatedHours: 0 }, history([10, 12, 14]).tasks, [])
+			).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,145 @@
+/**
+ * Estimate Utilities for TimeFlow Pro
+ *
+ * Learns how far estimates run from the hours tasks really take. Completed
+ * tasks are grouped by project, by the time entry category most of their
+ * hours went to and by tag; each group's median ratio of actual to
+ * estimated hours corrects the estimate of a new task in the same group,
+ * and the spread of its ratios gives the likely range.
+ *
+ * @example
+ * ```typescript
+ * import { getEstimateSuggestion } from '$lib/utils/estimate-utils';
+ *
+ * const suggestion = getEstimateSuggestion({ ...task, estimatedHours: 8 }, tasks, timeEntries);
+ * // { suggestedHours: 11.2, lowHours: 9.6, highHours: 13.6, confidence: 'medium', ... }
+ * ```
+ */
+
+import type {
+	EstimateAccuracy,
+	EstimateGroupBy,
+	EstimateSuggestion,
+	Task,
+	TimeEntry,
+	TimeEntryCategory
+} from '$lib/types/index.js';
+
+/** Completed tasks a group needs before its history is used */
+export const MIN_ESTIMATE_SAMPLES = 3;
+
+interface EstimateGroup {
+	groupBy: EstimateGroupBy;
+	key: string;
+}
+
+/**
+ * Accuracy of past estimates per project, time entry category and tag.
+ * Counts completed tasks without subtasks that have both an estimate and
+ * tracked time; groups of any size are returned.
+ */
+export function getEstimateAccuracy(tasks: Task[], timeEntries: TimeEntry[]): EstimateAccuracy[] {
+	const ratiosByGroup = new Map<string, EstimateGroup & { ratios: number[] }>();
+
+	tasks.forEach((task) => {
+		if (task.status !== 'completed' || task.subtasks.length > 0 || !task.estimatedHours) return;
+
+		const entries = timeEntries.filter((entry) => entry.taskId === task.id);
+		const actualHours = entries.reduce((sum, entry) => sum + entry.duration, 0);
+		if (actualHours <= 0) return;
+
+		getEstimateGroups(task, entries).forEach((group) => {
+			const id = `${group.groupBy}:${group.key}`;
+			const ratios = ratiosByGroup.get(id)?.ratios ?? [];
+			ratios.push(actualHours / (task.estimatedHours ?? 1));
+			ratiosByGroup.set(id, { ...group, ratios });
+		});
+	});
+
+	return [...ratiosByGroup.values()].map(({ groupBy, key, ratios }) => {
+		const sorted = [...ratios].sort((a, b) => a - b);
+		return {
+			groupBy,
+			key,
+			sampleSize: sorted.length,
+			ratio: percentile(sorted, 0.5),
+			lowRatio: percentile(sorted, 0.25),
+			highRatio: percentile(sorted, 0.75)
+		};
+	});
+}
+
+/**
+ * Corrected estimate for a task, from the groups it shares with completed
+ * tasks. Of the groups with at least MIN_ESTIMATE_SAMPLES tasks, the one
+ * whose ratios agree most closely is used. Confidence is high from 10
+ * tasks and medium from 5. Returns undefined without an estimate or
+ * enough history. A saved task is left out of its own history.
+ */
+export function getEstimateSuggestion(
+	task: Pick<Task, 'projectId' | 'tags' | 'estimatedHours'> & { id?: string },
+	tasks: Task[],
+	timeEntries: TimeEntry[]
+): EstimateSuggestion | undefined {
+	const estimatedHours = Number(task.estimatedHours);
+	if (!(estimatedHours > 0)) return undefined;
+
+	const ownEntries = task.id ? timeEntries.filter((entry) => entry.taskId === task.id) : [];
+	const groups = getEstimateGroups(task, ownEntries);
+	const spread = (accuracy: EstimateAccuracy) =>
+		(accuracy.highRatio - accuracy.lowRatio) / accuracy.ratio;
+
+	const basis = getEstimateAccuracy(
+		tasks.filter((t) => t.id !== task.id),
+		timeEntries
+	)
+		.filter(
+			(accuracy) =>
+				accuracy.sampleSize >= MIN_ESTIMATE_SAMPLES &&
+				groups.some((group) => group.groupBy === accuracy.groupBy && group.key === accuracy.key)
+		)
+		.sort((a, b) => spread(a) - spread(b) || b.sampleSize - a.sampleSize)[0];
+	if (!basis) return undefined;
+
+	return {
+		estimatedHours,
+		suggestedHours: roundHours(estimatedHours * basis.ratio),
+		lowHours: roundHours(estimatedHours * basis.lowRatio),
+		highHours: roundHours(estimatedHours * basis.highRatio),
+		confidence: basis.sampleSize >= 10 ? 'high' : basis.sampleSize >= 5 ? 'medium' : 'low',
+		basis
+	};
+}
+
+// Groups a task belongs to; its category is the one most of its hours went to
+function getEstimateGroups(
+	task: Pick<Task, 'projectId' | 'tags'>,
+	entries: TimeEntry[]
+): EstimateGroup[] {
+	const groups: EstimateGroup[] = [{ groupBy: 'project', key: task.projectId }];
+
+	const hoursByCategory = new Map<TimeEntryCategory, number>();
+	entries.forEach((entry) => {
+		hoursByCategory.set(
+			entry.category,
+			(hoursByCategory.get(entry.category) ?? 0) + entry.duration
+		);
+	});
+	const [category] = [...hoursByCategory.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+	if (category) groups.push({ groupBy: 'category', key: category });
+
+	new Set(task.tags).forEach((tag) => groups.push({ groupBy: 'tag', key: tag }));
+	return groups;
+}
+
+// Linear interpolation between the closest ranks of sorted values
+function percentile(sorted: number[], p: number): number {
+	const position = (sorted.length - 1) * p;
+	const lower = sorted[Math.floor(position)] ?? 0;
+	const upper = sorted[Math.ceil(position)] ?? lower;
+	return lower + (upper - lower) * (position - Math.floor(position));
+}
+
+function roundHours(hours: number): number {
+	return Math.round(hours * 10) / 10;
+}
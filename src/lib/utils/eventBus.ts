@@ -26,17 +26,63 @@
 export interface EventMap {
 	// Timer events
 	'timer:start': { projectId?: string; taskId?: string; timestamp: Date };
-	'timer:stop': { duration: number; timestamp: Date };
+	'timer:stop': { duration: number; timestamp: Date; entryId?: string };
 	'timer:pause': { timestamp: Date };
 	'timer:resume': { timestamp: Date };
 	'timer:reset': { timestamp: Date };
+	'timer:entry-discarded': { entryId: string; timestamp: Date };
+	'timer:phase': {
+		phase: 'work' | 'short-break' | 'long-break';
+		completedSessions: number;
+		timestamp: Date;
+	};
+	'timer:chime': {
+		reason: 'milestone' | 'phase-end';
+		phase?: 'work' | 'short-break' | 'long-break';
+		elapsed: number;
+		timestamp: Date;
+	};
 	
 	// Project events
 	'project:created': { projectId: string; name: string };
 	'project:updated': { projectId: string; changes: Record<string, unknown> };
 	'project:deleted': { projectId: string };
 	'project:selected': { projectId: string };
+	'project:budgetThreshold': { projectId: string; threshold: number; percentUsed: number };
 	
+	// Client events
+	'client:created': { clientId: string; name: string };
+	'client:updated': { clientId: string; changes: Record<string, unknown> };
+	'client:deleted': { clientId: string };
+	'clients:cleared': { timestamp: Date };
+	'clients:migrated': { count: number; failedProjectIds: string[]; timestamp: Date };
+
+	// Invoice events
+	'invoice:created': { invoiceId: string; number: string; clientId: string };
+	'invoice:paid': { invoiceId: string; timestamp: Date };
+	'invoice:voided': { invoiceId: string; timestamp: Date };
+	'invoice:paymentRecorded': { invoiceId: string; paymentId: string; amount: number };
+	'invoice:paymentDeleted': { invoiceId: string; paymentId: string };
+	'invoices:cleared': { timestamp: Date };
+
+	// Expense events
+	'expense:created': { expenseId: string; projectId?: string; amount: number };
+	'expense:updated': { expenseId: string; changes: Record<string, unknown> };
+	'expense:deleted': { expenseId: string };
+	'expenses:cleared': { timestamp: Date };
+
+	// Exchange rate events
+	'exchangeRate:saved': { exchangeRateId: string; from: string; to: string; date: string };
+	'exchangeRate:deleted': { exchangeRateId: string };
+	'exchangeRates:imported': { count: number; timestamp: Date };
+	'exchangeRates:cleared': { timestamp: Date };
+
+	// Tax profile events
+	'taxProfile:created': { taxProfileId: string; name: string };
+	'taxProfile:updated': { taxProfileId: string; changes: Record<string, unknown> };
+	'taxProfile:deleted': { taxProfileId: string };
+	'taxProfiles:cleared': { timestamp: Date };
+
 	// Task events
 	'task:created': { taskId: string; projectId: string; name: string };
 	'task:updated': { taskId: string; changes: Record<string, unknown> };
@@ -47,6 +93,12 @@ export interface EventMap {
 	'timeEntry:created': { entryId: string; projectId: string; taskId?: string };
 	'timeEntry:updated': { entryId: string; changes: Record<string, unknown> };
 	'timeEntry:deleted': { entryId: string };
+	'timeEntry:bulk': {
+		operation: 'update' | 'delete' | 'move' | 'bill' | 'pay' | 'unbill';
+		entryIds: string[];
+		parameters?: Record<string, unknown>;
+		timestamp: Date;
+	};
 	
 	// UI events
 	'ui:notification': { type: 'success' | 'error' | 'warning' | 'info'; message: string; duration?: number };
@@ -63,6 +115,7 @@ export interface EventMap {
 	'data:sync:complete': { timestamp: Date; success: boolean };
 	'data:export:start': { format: string; timestamp: Date };
 	'data:export:complete': { format: string; success: boolean; timestamp: Date };
+	'storage:error': { error: unknown; timestamp: Date };
 }
 
 // Event listener function type
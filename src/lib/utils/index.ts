@@ -22,6 +22,7 @@ export {
 	startOfMonth,
 	endOfMonth,
 	addDays,
+	shiftDate,
 	addHours,
 	addMinutes,
 	isSameDay,
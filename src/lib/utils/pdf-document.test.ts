@@ -0,0 +1,140 @@
+/**
+ * PDF Document Tests
+ *
+ * Tests for text encoding and measurement, wrapping, JPEG parsing and the
+ * structure of the PDF files the writer produces
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	PdfDocument,
+	encodePdfText,
+	measurePdfText,
+	wrapPdfText,
+	readJpegInfo
+} from './pdf-document';
+
+// Decode PDF bytes as one character per byte
+function toText(bytes: Uint8Array): string {
+	return Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+}
+
+// Smallest JPEG header the writer needs: SOI, an APP0 segment and a SOF0 frame
+function createJpeg(width: number, height: number): string {
+	const soi = [0xff, 0xd8];
+	const app0 = [0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46];
+	const sof0 = [0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff];
+	const rest = [0x03, 0x01, 0x22, 0x00, 0xff, 0xd9];
+	const data = String.fromCharCode(...soi, ...app0, ...sof0, ...rest);
+	return `data:image/jpeg;base64,${btoa(data)}`;
+}
+
+describe('PDF Document', () => {
+	describe('encodePdfText', () => {
+		it('should map currency symbols and typographic characters to WinAnsi', () => {
+			expect(encodePdfText('€1 – £2')).toBe('\x801 \x96 £2');
+		});
+
+		it('should replace characters the standard fonts cannot show', () => {
+			expect(encodePdfText('日本')).toBe('??');
+		});
+	});
+
+	describe('measurePdfText', () => {
+		it('should measure Helvetica glyph widths', () => {
+			// H = 722, i = 222 units at 10pt
+			expect(measurePdfText('Hi', 10)).toBeCloseTo(9.44);
+			expect(measurePdfText('Hi', 10, true)).toBeCloseTo(10);
+		});
+	});
+
+	describe('wrapPdfText', () => {
+		it('should wrap words to fit the width and keep line breaks', () => {
+			const lines = wrapPdfText('one two three four\nfive', measurePdfText('one two', 10), 10);
+
+			expect(lines).toEqual(['one two', 'three', 'four', 'five']);
+		});
+	});
+
+	describe('readJpegInfo', () => {
+		it('should read the frame size and components', () => {
+			const data = atob(createJpeg(64, 32).split(',')[1] ?? '');
+
+			expect(readJpegInfo(data)).toEqual({ width: 64, height: 32, components: 3 });
+		});
+
+		it('should reject data that is not a JPEG', () => {
+			expect(() => readJpegInfo('\x89PNG')).toThrow('Image is not a JPEG');
+		});
+	});
+
+	describe('PdfDocument', () => {
+		it('should write a PDF with a valid cross-reference table', () => {
+			const doc = new PdfDocument({ title: 'Test (draft)' });
+			doc.text('Hello (world)', 50, 60, { bold: true });
+			doc.addPage();
+			doc.line(50, 70, 200, 70);
+
+			const pdf = toText(doc.output());
+			const xrefOffset = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+			const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+
+			expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+			expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+			expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+			offsets.forEach((offset, index) => {
+				expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+			});
+			expect(pdf).toContain('/Count 2');
+			expect(pdf).toContain('/Title (Test \\(draft\\))');
+			expect(pdf).toContain('/F2 10 Tf');
+			expect(pdf).toContain('(Hello \\(world\\)) Tj');
+		});
+
+		it('should place text from the top of the page', () => {
+			const doc = new PdfDocument({ pageSize: 'letter' });
+			doc.text('Total', 500, 100, { align: 'right' });
+
+			const pdf = toText(doc.output());
+			const width = measurePdfText('Total', 10);
+
+			expect(pdf).toContain(`${Math.round((500 - width) * 100) / 100} 692 Td (Total) Tj`);
+		});
+
+		it('should embed JPEG images once and scale them to fit', () => {
+			const doc = new PdfDocument();
+			const logo = createJpeg(200, 100);
+
+			expect(doc.image(logo, 50, 50, 100, 100)).toEqual({ width: 100, height: 50 });
+			doc.addPage();
+			doc.image(logo, 50, 50, 100, 100);
+
+			const pdf = toText(doc.output());
+
+			expect(pdf.match(/\/Subtype \/Image/g)).toHaveLength(1);
+			expect(pdf).toContain('/Width 200 /Height 100 /ColorSpace /DeviceRGB');
+			expect(pdf.match(/\/Im1 Do/g)).toHaveLength(2);
+		});
+
+		it('should reject images that are not JPEG data URLs', () => {
+			const doc = new PdfDocument();
+
+			expect(() => doc.image('data:image/png;base64,iVBORw0KGgo=', 0, 0, 10, 10)).toThrow(
+				'Only JPEG images can be added to a PDF'
+			);
+		});
+
+		it('should draw on an earlier page after moving to it', () => {
+			const doc = new PdfDocument();
+			doc.addPage();
+			doc.goToPage(0);
+			doc.text('First', 50, 50);
+
+			const pdf = toText(doc.output());
+			const firstStream = pdf.indexOf('stream\n');
+
+			expect(pdf.indexOf('(First) Tj')).toBeLessThan(pdf.indexOf('stream\n', firstStream + 1));
+			expect(() => doc.goToPage(2)).toThrow('Page 3 does not exist');
+		});
+	});
+});
@@ -0,0 +1,475 @@
+/**
+ * PDF Document Utilities for TimeFlow Pro
+ *
+ * A small PDF writer that runs entirely in the browser, so invoices and
+ * reports can be produced without a server. It supports what printable
+ * documents need: text in the standard Helvetica fonts, lines, filled
+ * rectangles and JPEG images. Coordinates are in points from the top-left
+ * corner of the page.
+ *
+ * @example
+ * ```typescript
+ * import { PdfDocument, downloadPdf } from '$lib/utils/pdf-document';
+ *
+ * const doc = new PdfDocument({ title: 'Invoice INV-0001' });
+ * doc.text('Invoice INV-0001', 50, 60, { size: 18, bold: true });
+ * doc.line(50, 70, 545, 70);
+ * downloadPdf(doc.output(), 'INV-0001.pdf');
+ * ```
+ */
+
+export type PdfPageSize = 'a4' | 'letter';
+
+export type PdfTextAlign = 'left' | 'center' | 'right';
+
+export interface PdfDocumentOptions {
+	/** Page size (defaults to A4) */
+	pageSize?: PdfPageSize;
+	/** Document title stored in the PDF metadata */
+	title?: string;
+}
+
+export interface PdfTextOptions {
+	/** Font size in points */
+	size?: number;
+	bold?: boolean;
+	/** Alignment relative to x */
+	align?: PdfTextAlign;
+	/** Hex color (e.g., #111827) */
+	color?: string;
+}
+
+export interface PdfLineOptions {
+	/** Hex color (e.g., #e5e7eb) */
+	color?: string;
+	/** Line width in points */
+	width?: number;
+}
+
+interface PdfImage {
+	name: string;
+	width: number;
+	height: number;
+	colorSpace: string;
+	data: string;
+}
+
+const PAGE_SIZES: Record<PdfPageSize, { width: number; height: number }> = {
+	a4: { width: 595.28, height: 841.89 },
+	letter: { width: 612, height: 792 }
+};
+
+// Glyph widths (1/1000 em) for characters 32–126 in the standard fonts
+const HELVETICA_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+	556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+	611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+	667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+	222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+	278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+	556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+	611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+	667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+	278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding can still represent
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+	'€': 0x80,
+	'…': 0x85,
+	'‘': 0x91,
+	'’': 0x92,
+	'“': 0x93,
+	'”': 0x94,
+	'•': 0x95,
+	'–': 0x96,
+	'—': 0x97
+};
+
+/**
+ * Encode text as WinAnsi bytes (one character per byte). Characters the
+ * standard fonts cannot show become '?'.
+ */
+export function encodePdfText(value: string): string {
+	return Array.from(value)
+		.map((char) => {
+			const extra = WIN_ANSI_EXTRAS[char];
+			if (extra !== undefined) return String.fromCharCode(extra);
+
+			const code = char.charCodeAt(0);
+			if (code === 0x2009 || code === 0x202f) return ' ';
+			if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return char;
+			return '?';
+		})
+		.join('');
+}
+
+/**
+ * Width of text in points when set in Helvetica at the given size
+ */
+export function measurePdfText(value: string, size: number, bold = false): number {
+	const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+	const units = Array.from(encodePdfText(value)).reduce((sum, char) => {
+		const code = char.charCodeAt(0);
+		if (code === 160) return sum + 278;
+		return sum + (widths[code - 32] ?? 556);
+	}, 0);
+
+	return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines that fit within a width. Existing line breaks are kept;
+ * words longer than the width are left on their own line.
+ */
+export function wrapPdfText(value: string, maxWidth: number, size: number, bold = false): string[] {
+	return value.split(/\r?\n/).flatMap((paragraph) => {
+		const lines: string[] = [];
+		let current = '';
+
+		paragraph.split(/\s+/).forEach((word) => {
+			if (!word) return;
+			const candidate = current ? `${current} ${word}` : word;
+			if (current && measurePdfText(candidate, size, bold) > maxWidth) {
+				lines.push(current);
+				current = word;
+			} else {
+				current = candidate;
+			}
+		});
+
+		lines.push(current);
+		return lines;
+	});
+}
+
+/**
+ * Read the pixel size and color space from JPEG data (one character per byte)
+ */
+export function readJpegInfo(data: string): { width: number; height: number; components: number } {
+	const byte = (index: number) => data.charCodeAt(index) & 0xff;
+
+	if (byte(0) !== 0xff || byte(1) !== 0xd8) {
+		throw new Error('Image is not a JPEG');
+	}
+
+	let offset = 2;
+	while (offset + 9 < data.length) {
+		if (byte(offset) !== 0xff) {
+			throw new Error('Invalid JPEG data');
+		}
+
+		const marker = byte(offset + 1);
+		const length = (byte(offset + 2) << 8) | byte(offset + 3);
+		const isStartOfFrame =
+			marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+		if (isStartOfFrame) {
+			return {
+				height: (byte(offset + 5) << 8) | byte(offset + 6),
+				width: (byte(offset + 7) << 8) | byte(offset + 8),
+				components: byte(offset + 9)
+			};
+		}
+
+		offset += 2 + length;
+	}
+
+	throw new Error('JPEG image size not found');
+}
+
+export class PdfDocument {
+	readonly width: number;
+	readonly height: number;
+
+	private title: string;
+	private pages: string[][] = [];
+	private currentPage = 0;
+	private images = new Map<string, PdfImage>();
+
+	constructor(options: PdfDocumentOptions = {}) {
+		const size = PAGE_SIZES[options.pageSize ?? 'a4'];
+		this.width = size.width;
+		this.height = size.height;
+		this.title = options.title ?? '';
+		this.addPage();
+	}
+
+	/**
+	 * Number of pages in the document
+	 */
+	get pageCount(): number {
+		return this.pages.length;
+	}
+
+	/**
+	 * Start a new page; later drawing goes on it
+	 */
+	addPage(): void {
+		this.pages.push([]);
+		this.currentPage = this.pages.length - 1;
+	}
+
+	/**
+	 * Continue drawing on an existing page (0-based), e.g. to add page numbers
+	 */
+	goToPage(index: number): void {
+		if (index < 0 || index >= this.pages.length) {
+			throw new Error(`Page ${index + 1} does not exist`);
+		}
+		this.currentPage = index;
+	}
+
+	/**
+	 * Draw a single line of text with its baseline at y
+	 */
+	text(value: string, x: number, y: number, options: PdfTextOptions = {}): void {
+		const { size = 10, bold = false, align = 'left', color = '#111827' } = options;
+		const width = measurePdfText(value, size, bold);
+		const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+		const escaped = encodePdfText(value).replace(/[\\()]/g, (char) => `\\${char}`);
+
+		this.draw(
+			`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ` +
+				`${num(left)} ${num(this.height - y)} Td (${escaped}) Tj ET`
+		);
+	}
+
+	/**
+	 * Draw a straight line
+	 */
+	line(x1: number, y1: number, x2: number, y2: number, options: PdfLineOptions = {}): void {
+		const { color = '#d1d5db', width = 0.75 } = options;
+		this.draw(
+			`q ${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(this.height - y1)} m ` +
+				`${num(x2)} ${num(this.height - y2)} l S Q`
+		);
+	}
+
+	/**
+	 * Draw a filled rectangle with its top-left corner at (x, y)
+	 */
+	rect(x: number, y: number, width: number, height: number, fill: string): void {
+		this.draw(
+			`q ${rgb(fill)} rg ${num(x)} ${num(this.height - y - height)} ` +
+				`${num(width)} ${num(height)} re f Q`
+		);
+	}
+
+	/**
+	 * Draw a JPEG image (a data URL) with its top-left corner at (x, y), scaled
+	 * to fit within the given box while keeping its aspect ratio.
+	 * Returns the drawn size.
+	 */
+	image(
+		dataUrl: string,
+		x: number,
+		y: number,
+		maxWidth: number,
+		maxHeight: number
+	): { width: number; height: number } {
+		const image = this.loadImage(dataUrl);
+		const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+		const width = image.width * scale;
+		const height = image.height * scale;
+
+		this.draw(
+			`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm ` +
+				`/${image.name} Do Q`
+		);
+
+		return { width, height };
+	}
+
+	/**
+	 * Serialize the document to PDF bytes
+	 */
+	output(): Uint8Array {
+		// Object ids are 1-based positions in this list
+		const objects: string[] = [];
+		const reserve = () => objects.push('');
+		const setObject = (id: number, body: string) => {
+			objects[id - 1] = body;
+		};
+		const stream = (dictionary: string, data: string) =>
+			`<< ${dictionary} /Length ${data.length} >>\nstream\n${data}\nendstream`;
+
+		const catalogId = reserve();
+		const pagesId = reserve();
+		const regularFontId = reserve();
+		const boldFontId = reserve();
+		const infoId = reserve();
+
+		setObject(
+			regularFontId,
+			'<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+		);
+		setObject(
+			boldFontId,
+			'<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+		);
+		setObject(
+			infoId,
+			`<< /Title (${encodePdfText(this.title).replace(/[\\()]/g, (char) => `\\${char}`)}) ` +
+				`/Producer (TimeFlow Pro) /CreationDate (D:${pdfDate(new Date())}) >>`
+		);
+
+		const imageRefs = [...this.images.values()].map((image) => {
+			const id = reserve();
+			const decode = image.colorSpace === 'DeviceCMYK' ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+			setObject(
+				id,
+				stream(
+					`/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+						`/ColorSpace /${image.colorSpace} /BitsPerComponent 8${decode} /Filter /DCTDecode`,
+					image.data
+				)
+			);
+			return `/${image.name} ${id} 0 R`;
+		});
+
+		const xObjects = imageRefs.length > 0 ? ` /XObject << ${imageRefs.join(' ')} >>` : '';
+		const resources = `<< /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >>${xObjects} >>`;
+
+		const pageIds = this.pages.map((operations) => {
+			const contentId = reserve();
+			const pageId = reserve();
+			setObject(contentId, stream('', operations.join('\n')));
+			setObject(
+				pageId,
+				`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+					`/Resources ${resources} /Contents ${contentId} 0 R >>`
+			);
+			return pageId;
+		});
+
+		setObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+		setObject(
+			pagesId,
+			`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+		);
+
+		// Header with a binary comment so transfer tools treat the file as binary
+		let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+		const offsets = objects.map((body, index) => {
+			const offset = pdf.length;
+			pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+			return offset;
+		});
+
+		const xrefOffset = pdf.length;
+		pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+		pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+		pdf +=
+			`trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n` +
+			`startxref\n${xrefOffset}\n%%EOF\n`;
+
+		const bytes = new Uint8Array(pdf.length);
+		for (let i = 0; i < pdf.length; i++) {
+			bytes[i] = pdf.charCodeAt(i) & 0xff;
+		}
+		return bytes;
+	}
+
+	private draw(operation: string): void {
+		this.pages[this.currentPage]?.push(operation);
+	}
+
+	private loadImage(dataUrl: string): PdfImage {
+		const existing = this.images.get(dataUrl);
+		if (existing) return existing;
+
+		const match = /^data:image\/jpe?g;base64,(.+)$/.exec(dataUrl);
+		if (!match?.[1]) {
+			throw new Error('Only JPEG images can be added to a PDF');
+		}
+
+		const data = atob(match[1]);
+		const { width, height, components } = readJpegInfo(data);
+		const image: PdfImage = {
+			name: `Im${this.images.size + 1}`,
+			width,
+			height,
+			colorSpace: components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB',
+			data
+		};
+
+		this.images.set(dataUrl, image);
+		return image;
+	}
+}
+
+/**
+ * Offer PDF bytes to the user as a file download
+ */
+export function downloadPdf(bytes: Uint8Array, fileName: string): void {
+	const url = URL.createObjectURL(new Blob([new Uint8Array(bytes)], { type: 'application/pdf' }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Convert an image file to a JPEG data URL no larger than maxSize pixels on
+ * either side, ready to embed in a PDF. Transparent areas become white.
+ */
+export function convertImageToJpeg(file: File, maxSize = 600): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const url = URL.createObjectURL(file);
+		const img = new Image();
+
+		img.onload = () => {
+			const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+			const canvas = document.createElement('canvas');
+			canvas.width = Math.max(1, Math.round(img.width * scale));
+			canvas.height = Math.max(1, Math.round(img.height * scale));
+
+			const context = canvas.getContext('2d');
+			if (!context) {
+				URL.revokeObjectURL(url);
+				reject(new Error('Image conversion is not supported in this browser'));
+				return;
+			}
+
+			context.fillStyle = '#ffffff';
+			context.fillRect(0, 0, canvas.width, canvas.height);
+			context.drawImage(img, 0, 0, canvas.width, canvas.height);
+			URL.revokeObjectURL(url);
+			resolve(canvas.toDataURL('image/jpeg', 0.9));
+		};
+
+		img.onerror = () => {
+			URL.revokeObjectURL(url);
+			reject(new Error('Could not read image file'));
+		};
+
+		img.src = url;
+	});
+}
+
+// Format a number for a PDF content stream
+function num(value: number): string {
+	return String(Math.round(value * 100) / 100);
+}
+
+// Convert a hex color to PDF RGB components
+function rgb(hex: string): string {
+	const value = hex.replace('#', '');
+	return [0, 2, 4]
+		.map((start) => num(parseInt(value.slice(start, start + 2), 16) / 255 || 0))
+		.join(' ');
+}
+
+// Format a date as a PDF date string (YYYYMMDDHHmmSS)
+function pdfDate(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return (
+		`${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+		`${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+	);
+}
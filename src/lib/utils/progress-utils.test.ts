@@ -13,6 +13,7 @@ import {
 	calculateBillableAmount,
 	calculateProjectProgress,
 	calculateTaskProgress,
+	calculateTaskRollup,
 	isTaskOverdue,
 	getDaysUntilDue,
 	isTaskOnTrack,
@@ -24,6 +25,7 @@ import {
 	formatProgress,
 	estimateCompletionDate
 } from './progress-utils.js';
+import { createMockTask, createMockTimeEntry } from './test-helpers.js';
 
 // Mock data
 const mockProject: Project = {
@@ -56,7 +58,9 @@ const mockTask: Task = {
 	createdAt: '2024-01-01T00:00:00Z',
 	updatedAt: '2024-01-01T00:00:00Z',
 	completionPercentage: 0,
-	isBillable: true
+	isBillable: true,
+	dependencies: [],
+	subtasks: []
 };
 
 const mockTimeEntries: TimeEntry[] = [
@@ -163,6 +167,59 @@ describe('Progress Utilities', () => {
 			const progress = calculateTaskProgress(taskWithCompletion, []);
 			expect(progress).toBe(75);
 		});
+
+		it('should use checklist progress instead of hours when the task asks for it', () => {
+			const checklist = [
+				{ id: 'item-1', text: 'Draft', done: true },
+				{ id: 'item-2', text: 'Review', done: false },
+				{ id: 'item-3', text: 'Publish', done: false },
+				{ id: 'item-4', text: 'Announce', done: true }
+			];
+			const taskWithChecklist = { ...mockTask, estimatedHours: 10, checklist };
+			const timeEntries = mockTimeEntries.slice(0, 1).map(entry => ({ ...entry, duration: 1 }));
+
+			expect(calculateTaskProgress(taskWithChecklist, timeEntries)).toBe(10);
+			expect(calculateTaskProgress({ ...taskWithChecklist, progressFromChecklist: true }, timeEntries)).toBe(50);
+		});
+	});
+
+	describe('Subtask Roll-up', () => {
+		const parent: Task = { ...mockTask, id: 'parent', estimatedHours: 2, subtasks: ['child-a', 'child-b'] };
+		const childA: Task = { ...mockTask, id: 'child-a', estimatedHours: 6, subtasks: [] };
+		const childB: Task = { ...mockTask, id: 'child-b', estimatedHours: 2, status: 'completed', subtasks: [] };
+		const entries = [
+			createMockTimeEntry({ id: 'own', taskId: 'parent', duration: 1 }),
+			createMockTimeEntry({ id: 'a', taskId: 'child-a', duration: 3 })
+		];
+
+		it('should roll up hours, estimates and weighted progress from subtasks', () => {
+			const rollup = calculateTaskRollup(parent, entries, [parent, childA, childB]);
+
+			expect(rollup).toEqual({
+				actualHours: 4,
+				estimatedHours: 8,
+				completionPercentage: 62.5, // (50% × 6h + 100% × 2h) / 8h
+				subtaskCount: 2,
+				completedSubtasks: 1
+			});
+			expect(calculateTaskProgress(parent, entries, [parent, childA, childB])).toBe(62.5);
+		});
+
+		it('should weight subtasks equally when one has no estimate and skip cancelled ones', () => {
+			const { estimatedHours: _estimatedHours, ...withoutEstimate } = createMockTask({ id: 'child-a', completionPercentage: 20 });
+			const unestimated: Task = withoutEstimate;
+			const cancelled: Task = { ...childB, id: 'child-c', status: 'cancelled' };
+			const tasks = [{ ...parent, subtasks: ['child-a', 'child-b', 'child-c'] }, unestimated, childB, cancelled];
+
+			expect(calculateTaskProgress(tasks[0]!, [], tasks)).toBe(60);
+		});
+
+		it('should include the roll-up in the task summary of parents only', () => {
+			const tasks = [parent, childA, childB];
+
+			expect(generateTaskSummary(parent, entries, mockProject, {}, tasks).rollup?.actualHours).toBe(4);
+			expect(generateTaskSummary(childA, entries, mockProject, {}, tasks).rollup).toBeUndefined();
+		});
 	});
 
 	describe('Due Date Utilities', () => {
@@ -276,6 +333,16 @@ describe('Progress Utilities', () => {
 			expect(estimatedDate).toBeNull();
 		});
 
+		it('should finish after the unfinished tasks it depends on', () => {
+			const first = { ...mockTask, id: 'task-0', estimatedHours: 40 };
+			const second = { ...mockTask, estimatedHours: 8, dependencies: ['task-0'] };
+
+			const alone = estimateCompletionDate(second, []);
+			const afterFirst = estimateCompletionDate(second, [], [first, second]);
+			expect(alone).toBeInstanceOf(Date);
+			expect(Number(afterFirst)).toBeGreaterThan(Number(alone));
+		});
+
 		it('should return null for tasks without estimated hours', () => {
 			const taskWithoutEstimate = { ...mockTask, estimatedHours: undefined };
 			const estimatedDate = estimateCompletionDate(taskWithoutEstimate, mockTimeEntries);
@@ -13,7 +13,13 @@
  * ```
  */
 
-import type { Project, Task, TimeEntry, ProjectSummary, TaskSummary } from '$lib/types/index.js';
+import type { BillingModel, Project, Task, TimeEntry, ProjectSummary, TaskSummary, TaskRollup } from '$lib/types/index.js';
+import { createRateResolver, type BillingRateSources } from './billing-rate-utils.js';
+import { calculateBudgetBurn } from './budget-utils.js';
+import { calculateModelAmount } from './billing-model-utils.js';
+import { getSubtasks } from './task-hierarchy-utils.js';
+import { calculateProjectSchedule } from './schedule-utils.js';
+import { getChecklistProgress } from './checklist-utils.js';
 
 /**
  * Calculate total hours from time entries
@@ -30,13 +36,26 @@ export function calculateBillableHours(timeEntries: TimeEntry[]): number {
 }
 
 /**
- * Calculate total billable amount from time entries
+ * Calculate total billable amount from time entries.
+ * Accepts a flat default rate or a resolver from the billing rate hierarchy.
+ * Pass a project's billing model to bill its entries under that model; fixed
+ * amounts of the model go through `convertAmount` when rates are converted.
  */
-export function calculateBillableAmount(timeEntries: TimeEntry[], defaultRate: number): number {
-	return timeEntries.reduce((total, entry) => {
-		const rate = entry.billingRate || defaultRate;
-		return total + (entry.billableHours * rate);
-	}, 0);
+export function calculateBillableAmount(
+	timeEntries: TimeEntry[],
+	defaultRate: number | ((entry: TimeEntry) => number),
+	billingModel?: BillingModel,
+	convertAmount?: (amount: number, date?: string) => number
+): number {
+	const resolveRate = typeof defaultRate === 'function'
+		? defaultRate
+		: (entry: TimeEntry) => entry.billingRate || defaultRate;
+
+	if (billingModel && billingModel.type !== 'hourly') {
+		return calculateModelAmount(billingModel, timeEntries, resolveRate, convertAmount);
+	}
+
+	return timeEntries.reduce((total, entry) => total + (entry.billableHours * resolveRate(entry)), 0);
 }
 
 /**
@@ -66,15 +85,67 @@ export function calculateProjectProgress(
 }
 
 /**
- * Calculate task progress percentage
+ * Calculate task progress percentage.
+ * Pass the other tasks to roll up progress from the task's subtasks.
+ * Tasks that take their progress from their checklist use the share of items done.
+ */
+export function calculateTaskProgress(task: Task, timeEntries: TimeEntry[], tasks: Task[] = []): number {
+	return calculateTaskRollup(task, timeEntries, tasks).completionPercentage;
+}
+
+/**
+ * Calculate hours and progress of a task including its subtasks.
+ * A parent's hours are its own plus its subtasks'. Its estimate is the sum of
+ * the subtask estimates, or its own when none of them has one. Its progress is
+ * the average of its subtasks' progress weighted by their estimates, with equal
+ * weights when any subtask has no estimate; cancelled subtasks are left out.
  */
-export function calculateTaskProgress(task: Task, timeEntries: TimeEntry[]): number {
+export function calculateTaskRollup(task: Task, timeEntries: TimeEntry[], tasks: Task[] = []): TaskRollup {
+	return rollUpTask(task, timeEntries, tasks, new Set());
+}
+
+// Roll up a task, skipping tasks already visited in case stored subtasks form a cycle
+function rollUpTask(task: Task, timeEntries: TimeEntry[], tasks: Task[], visited: Set<string>): TaskRollup {
+	visited.add(task.id);
+	const ownHours = calculateTotalHours(timeEntries.filter(entry => entry.taskId === task.id));
+	const subtasks = tasks.length > 0
+		? getSubtasks(task, tasks).filter(subtask => !visited.has(subtask.id))
+		: [];
+
+	if (subtasks.length === 0) {
+		return {
+			actualHours: ownHours,
+			estimatedHours: task.estimatedHours || 0,
+			completionPercentage: calculateOwnTaskProgress(task, ownHours),
+			subtaskCount: 0,
+			completedSubtasks: 0
+		};
+	}
+
+	const rollups = subtasks.map(subtask => ({
+		subtask,
+		rollup: rollUpTask(subtask, timeEntries, tasks, visited)
+	}));
+	const subtaskEstimate = rollups.reduce((sum, { rollup }) => sum + rollup.estimatedHours, 0);
+
+	return {
+		actualHours: ownHours + rollups.reduce((sum, { rollup }) => sum + rollup.actualHours, 0),
+		estimatedHours: subtaskEstimate > 0 ? subtaskEstimate : task.estimatedHours || 0,
+		completionPercentage: calculateRolledUpProgress(task, ownHours, rollups),
+		subtaskCount: subtasks.length,
+		completedSubtasks: subtasks.filter(subtask => subtask.status === 'completed').length
+	};
+}
+
+// Progress of a task from its checklist, own hours or completion percentage
+function calculateOwnTaskProgress(task: Task, actualHours: number): number {
 	if (task.status === 'completed') return 100;
 	if (task.status === 'cancelled') return 0;
+
+	const checklistProgress = task.progressFromChecklist ? getChecklistProgress(task.checklist) : undefined;
+	if (checklistProgress !== undefined) return checklistProgress;
 	
 	if (task.estimatedHours && task.estimatedHours > 0) {
-		const taskEntries = timeEntries.filter(entry => entry.taskId === task.id);
-		const actualHours = calculateTotalHours(taskEntries);
 		return Math.min(100, (actualHours / task.estimatedHours) * 100);
 	}
 	
@@ -82,6 +153,28 @@ export function calculateTaskProgress(task: Task, timeEntries: TimeEntry[]): num
 	return task.completionPercentage || 0;
 }
 
+// Progress of a parent task weighted across its open subtasks
+function calculateRolledUpProgress(
+	task: Task,
+	ownHours: number,
+	rollups: Array<{ subtask: Task; rollup: TaskRollup }>
+): number {
+	if (task.status === 'completed') return 100;
+	if (task.status === 'cancelled') return 0;
+
+	const counted = rollups.filter(({ subtask }) => subtask.status !== 'cancelled');
+	if (counted.length === 0) return calculateOwnTaskProgress(task, ownHours);
+
+	const useEstimates = counted.every(({ rollup }) => rollup.estimatedHours > 0);
+	const weightOf = (rollup: TaskRollup) => useEstimates ? rollup.estimatedHours : 1;
+	const totalWeight = counted.reduce((sum, { rollup }) => sum + weightOf(rollup), 0);
+
+	return counted.reduce(
+		(sum, { rollup }) => sum + rollup.completionPercentage * weightOf(rollup),
+		0
+	) / totalWeight;
+}
+
 /**
  * Determine if a task is overdue
  */
@@ -144,13 +237,16 @@ export function isTaskOnTrack(task: Task, timeEntries: TimeEntry[]): boolean {
 export function generateProjectSummary(
 	project: Project,
 	tasks: Task[],
-	timeEntries: TimeEntry[]
+	timeEntries: TimeEntry[],
+	rateSources: BillingRateSources = {}
 ): ProjectSummary {
 	const projectTasks = tasks.filter(task => task.projectId === project.id);
 	const projectEntries = timeEntries.filter(entry => entry.projectId === project.id);
 	
+	const rateResolver = createRateResolver({ ...rateSources, projects: [project], tasks: projectTasks });
 	const totalHours = calculateTotalHours(projectEntries);
-	const totalBillable = calculateBillableAmount(projectEntries, project.defaultBillingRate);
+	const totalBillable = calculateBillableAmount(projectEntries, rateResolver, project.billingModel);
+	const budgetBurn = calculateBudgetBurn(project, projectEntries, rateResolver);
 	const completedTasks = projectTasks.filter(task => task.status === 'completed').length;
 	const progressPercentage = calculateProjectProgress(project, tasks, timeEntries);
 	
@@ -169,7 +265,8 @@ export function generateProjectSummary(
 		taskCount: projectTasks.length,
 		completedTasks,
 		progressPercentage,
-		lastActivity
+		lastActivity,
+		...(budgetBurn ? { budgetBurn } : {})
 	};
 }
 
@@ -179,13 +276,18 @@ export function generateProjectSummary(
 export function generateTaskSummary(
 	task: Task,
 	timeEntries: TimeEntry[],
-	project?: Project
+	project?: Project,
+	rateSources: BillingRateSources = {},
+	tasks: Task[] = []
 ): TaskSummary {
 	const taskEntries = timeEntries.filter(entry => entry.taskId === task.id);
 	const totalTime = calculateTotalHours(taskEntries);
-	const billingRate = project?.defaultBillingRate || 0;
-	const totalBillable = calculateBillableAmount(taskEntries, billingRate);
-	const progressPercentage = calculateTaskProgress(task, timeEntries);
+	const totalBillable = calculateBillableAmount(
+		taskEntries,
+		createRateResolver({ ...rateSources, projects: project ? [project] : [], tasks: [task] })
+	);
+	const rollup = calculateTaskRollup(task, timeEntries, tasks);
+	const progressPercentage = rollup.completionPercentage;
 	const isOverdue = isTaskOverdue(task);
 	const daysUntilDue = getDaysUntilDue(task);
 	
@@ -204,7 +306,8 @@ export function generateTaskSummary(
 		progressPercentage,
 		isOverdue,
 		daysUntilDue,
-		lastActivity
+		lastActivity,
+		...(rollup.subtaskCount > 0 ? { rollup } : {})
 	};
 }
 
@@ -264,43 +367,23 @@ export function formatProgress(percentage: number): string {
 }
 
 /**
- * Calculate estimated completion date based on current progress
+ * Estimate the day a task will be finished: its earliest finish in the
+ * schedule of its project's tasks, so unfinished work it depends on comes
+ * first. Without the other tasks only the task's own remaining hours count.
  */
 export function estimateCompletionDate(
 	task: Task,
-	timeEntries: TimeEntry[]
+	timeEntries: TimeEntry[],
+	tasks: Task[] = [],
+	project: Pick<Project, 'startDate' | 'endDate'> = {}
 ): Date | null {
 	if (!task.estimatedHours || task.status === 'completed' || task.status === 'cancelled') {
 		return null;
 	}
-	
-	const taskEntries = timeEntries.filter(entry => entry.taskId === task.id);
-	if (taskEntries.length === 0) return null;
-	
-	const totalHours = calculateTotalHours(taskEntries);
-	const remainingHours = task.estimatedHours - totalHours;
-	
-	if (remainingHours <= 0) return new Date(); // Already complete
-	
-	// Calculate average hours per day from recent entries
-	const recentEntries = taskEntries
-		.filter(entry => {
-			const entryDate = new Date(entry.date);
-			const weekAgo = new Date();
-			weekAgo.setDate(weekAgo.getDate() - 7);
-			return entryDate >= weekAgo;
-		});
-	
-	if (recentEntries.length === 0) return null;
-	
-	const uniqueDays = new Set(recentEntries.map(entry => entry.date)).size;
-	const averageHoursPerDay = calculateTotalHours(recentEntries) / uniqueDays;
-	
-	if (averageHoursPerDay <= 0) return null;
-	
-	const estimatedDays = Math.ceil(remainingHours / averageHoursPerDay);
-	const completionDate = new Date();
-	completionDate.setDate(completionDate.getDate() + estimatedDays);
-	
-	return completionDate;
+
+	const scheduledTasks = tasks.some(t => t.id === task.id) ? tasks : [...tasks, task];
+	const schedule = calculateProjectSchedule(project, scheduledTasks, timeEntries);
+	const scheduled = schedule.tasks.find(s => s.task.id === task.id);
+
+	return scheduled ? new Date(`${scheduled.earliestFinish}T00:00:00`) : null;
 }
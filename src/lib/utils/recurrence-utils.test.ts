@@ -0,0 +1,141 @@
+/**
+ * Recurrence Utilities Tests
+ *
+ * Tests for occurrence dates of daily, weekly and monthly rules, series
+ * ends by date and count, descriptions and rule validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	describeRecurrence,
+	getNextOccurrence,
+	getUpcomingOccurrences,
+	validateRecurrence
+} from './recurrence-utils';
+import type { TaskRecurrence } from '$lib/types/index.js';
+
+// A Monday
+const monday = '2026-10-19';
+
+describe('Recurrence Utilities', () => {
+	describe('getNextOccurrence', () => {
+		it('should repeat every few days', () => {
+			expect(getNextOccurrence({ frequency: 'daily', interval: 2 }, monday)).toBe('2026-10-21');
+		});
+
+		it('should repeat on the chosen weekdays', () => {
+			const rule: TaskRecurrence = { frequency: 'weekly', interval: 1, weekdays: [3, 1] };
+
+			expect(getUpcomingOccurrences(rule, monday, 1, 3)).toEqual([
+				'2026-10-21',
+				'2026-10-26',
+				'2026-10-28'
+			]);
+		});
+
+		it('should skip weeks for longer intervals', () => {
+			const rule: TaskRecurrence = { frequency: 'weekly', interval: 2, weekdays: [1, 3] };
+
+			expect(getNextOccurrence(rule, '2026-10-21')).toBe('2026-11-02');
+			expect(getNextOccurrence({ frequency: 'weekly', interval: 1 }, monday)).toBe('2026-10-26');
+		});
+
+		it('should repeat monthly by date, keeping the day after shorter months', () => {
+			const rule: TaskRecurrence = { frequency: 'monthly', interval: 1, monthDay: 31 };
+
+			expect(getUpcomingOccurrences(rule, '2026-01-31', 1, 2)).toEqual([
+				'2026-02-28',
+				'2026-03-31'
+			]);
+			expect(getNextOccurrence({ ...rule, monthDay: 15 }, '2026-10-01')).toBe('2026-10-15');
+		});
+
+		it("should repeat monthly on the series' first day when no day is set", () => {
+			const rule: TaskRecurrence = { frequency: 'monthly', interval: 1 };
+
+			expect(getUpcomingOccurrences(rule, '2024-01-31', 1, 3)).toEqual([
+				'2024-02-29',
+				'2024-03-31',
+				'2024-04-30'
+			]);
+			expect(getNextOccurrence(rule, '2024-02-29', 2, '2024-01-31')).toBe('2024-03-31');
+		});
+
+		it('should repeat monthly by weekday', () => {
+			const second: TaskRecurrence = {
+				frequency: 'monthly',
+				interval: 1,
+				monthWeekday: { weekday: 2, week: 2 }
+			};
+			const last: TaskRecurrence = {
+				frequency: 'monthly',
+				interval: 1,
+				monthWeekday: { weekday: 5, week: -1 }
+			};
+
+			expect(getNextOccurrence(second, '2026-10-13')).toBe('2026-11-10');
+			expect(getNextOccurrence(last, '2026-10-30')).toBe('2026-11-27');
+		});
+
+		it('should end the series after its count or end date', () => {
+			const weekly: TaskRecurrence = { frequency: 'weekly', interval: 1 };
+
+			expect(getUpcomingOccurrences({ ...weekly, count: 3 }, monday)).toEqual([
+				'2026-10-26',
+				'2026-11-02'
+			]);
+			expect(getNextOccurrence({ ...weekly, count: 3 }, '2026-11-02', 3)).toBeUndefined();
+			expect(getUpcomingOccurrences({ ...weekly, until: '2026-10-28' }, monday)).toEqual([
+				'2026-10-26'
+			]);
+		});
+	});
+
+	describe('describeRecurrence', () => {
+		it('should describe the rule in words', () => {
+			expect(describeRecurrence({ frequency: 'weekly', interval: 1, weekdays: [3, 1] })).toBe(
+				'Weekly on Mon, Wed'
+			);
+			expect(
+				describeRecurrence({
+					frequency: 'monthly',
+					interval: 2,
+					monthWeekday: { weekday: 5, week: -1 },
+					count: 6
+				})
+			).toBe('Every 2 months on the last Fri, 6 times');
+			expect(describeRecurrence({ frequency: 'daily', interval: 1, until: '2026-12-31' })).toBe(
+				'Daily, until 2026-12-31'
+			);
+		});
+	});
+
+	describe('validateRecurrence', () => {
+		it('should accept a valid rule', () => {
+			expect(validateRecurrence({ frequency: 'weekly', interval: 1, weekdays: [1] })).toEqual([]);
+		});
+
+		it('should reject invalid values', () => {
+			expect(
+				validateRecurrence(
+					{
+						frequency: 'monthly',
+						interval: 0,
+						monthDay: 32,
+						monthWeekday: { weekday: 1, week: 5 },
+						until: '2026-10-01',
+						count: 0
+					},
+					monday
+				)
+			).toEqual([
+				'Repeat interval must be a whole number of at least 1',
+				'Day of the month must be between 1 and 31',
+				'Weekday of the month must be the first to fourth or last of a weekday',
+				'Set an end date or a number of occurrences, not both',
+				'Number of occurrences must be at least 1',
+				'Repeat end date must be on or after the first occurrence'
+			]);
+		});
+	});
+});
@@ -0,0 +1,228 @@
+/**
+ * Recurrence Utilities for TimeFlow Pro
+ *
+ * Works out the dates of recurring tasks from their RRULE-style rules:
+ * daily, weekly on chosen weekdays, or monthly by date or by weekday,
+ * ending after a date or a number of occurrences. Dates are calendar days
+ * (YYYY-MM-DD) and each occurrence follows from the one before it.
+ *
+ * @example
+ * ```typescript
+ * import { getNextOccurrence, describeRecurrence } from '$lib/utils/recurrence-utils';
+ *
+ * const rule = { frequency: 'weekly', interval: 1, weekdays: [1, 3] };
+ * getNextOccurrence(rule, '2026-10-19'); // '2026-10-21'
+ * describeRecurrence(rule); // 'Weekly on Mon, Wed'
+ * ```
+ */
+
+import type { Task, TaskRecurrence } from '$lib/types/index.js';
+
+/** Short weekday names, Sunday first as in `Date.getDay()` */
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ORDINALS: Record<number, string> = {
+	1: 'first',
+	2: 'second',
+	3: 'third',
+	4: 'fourth',
+	[-1]: 'last'
+};
+
+/**
+ * Day a task's series is counted from: its due date, or the day it was
+ * created when it has none
+ */
+export function getRecurrenceStartDate(task: Pick<Task, 'dueDate' | 'createdAt'>): string {
+	return (task.dueDate || task.createdAt).slice(0, 10);
+}
+
+/**
+ * Occurrence after the one on `date`, which is occurrence `index` of its
+ * series. Monthly rules without a day of the month repeat on the day of the
+ * series' first occurrence, `anchor`, so a series from the 31st returns to
+ * the 31st after shorter months. Returns undefined once the series has ended.
+ */
+export function getNextOccurrence(
+	rule: TaskRecurrence,
+	date: string,
+	index = 1,
+	anchor = date
+): string | undefined {
+	if (rule.count !== undefined && index >= rule.count) return undefined;
+
+	const next = stepOccurrence(rule, date, anchor);
+	if (rule.until && next > rule.until.slice(0, 10)) return undefined;
+	return next;
+}
+
+/**
+ * Up to `limit` occurrences after the one on `date`, for previews
+ */
+export function getUpcomingOccurrences(
+	rule: TaskRecurrence,
+	date: string,
+	index = 1,
+	limit = 5,
+	anchor = date
+): string[] {
+	const occurrences: string[] = [];
+	let current = date;
+	while (occurrences.length < limit) {
+		const next = getNextOccurrence(rule, current, index + occurrences.length, anchor);
+		if (!next) break;
+		occurrences.push(next);
+		current = next;
+	}
+	return occurrences;
+}
+
+/**
+ * Validate a recurrence rule. Pass the first occurrence to check the end
+ * date against it.
+ */
+export function validateRecurrence(rule: TaskRecurrence, startDate?: string): string[] {
+	const errors: string[] = [];
+
+	if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+		errors.push('Repeat interval must be a whole number of at least 1');
+	}
+	if (rule.weekdays?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+		errors.push('Weekdays must be between 0 (Sunday) and 6 (Saturday)');
+	}
+	if (
+		rule.monthDay !== undefined &&
+		(!Number.isInteger(rule.monthDay) || rule.monthDay < 1 || rule.monthDay > 31)
+	) {
+		errors.push('Day of the month must be between 1 and 31');
+	}
+	if (
+		rule.monthWeekday &&
+		(!(rule.monthWeekday.week in ORDINALS) ||
+			!Number.isInteger(rule.monthWeekday.weekday) ||
+			rule.monthWeekday.weekday < 0 ||
+			rule.monthWeekday.weekday > 6)
+	) {
+		errors.push('Weekday of the month must be the first to fourth or last of a weekday');
+	}
+	if (rule.until && rule.count !== undefined) {
+		errors.push('Set an end date or a number of occurrences, not both');
+	}
+	if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+		errors.push('Number of occurrences must be at least 1');
+	}
+	if (rule.until && startDate && rule.until.slice(0, 10) < startDate.slice(0, 10)) {
+		errors.push('Repeat end date must be on or after the first occurrence');
+	}
+
+	return errors;
+}
+
+/**
+ * Rule in words, e.g. "Every 2 weeks on Mon, Thu, until 2026-12-31"
+ */
+export function describeRecurrence(rule: TaskRecurrence): string {
+	const units = { daily: 'day', weekly: 'week', monthly: 'month' };
+	const every =
+		rule.interval === 1
+			? rule.frequency.charAt(0).toUpperCase() + rule.frequency.slice(1)
+			: `Every ${rule.interval} ${units[rule.frequency]}s`;
+
+	let on = '';
+	if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+		on = ` on ${sortWeekdays(rule.weekdays)
+			.map((day) => WEEKDAY_NAMES[day])
+			.join(', ')}`;
+	} else if (rule.frequency === 'monthly' && rule.monthWeekday) {
+		const { week, weekday } = rule.monthWeekday;
+		on = ` on the ${ORDINALS[week]} ${WEEKDAY_NAMES[weekday]}`;
+	} else if (rule.frequency === 'monthly' && rule.monthDay) {
+		on = ` on day ${rule.monthDay}`;
+	}
+
+	const end = rule.until
+		? `, until ${rule.until.slice(0, 10)}`
+		: rule.count !== undefined
+			? `, ${rule.count} time${rule.count === 1 ? '' : 's'}`
+			: '';
+
+	return `${every}${on}${end}`;
+}
+
+/**
+ * Next date the rule falls on after `date`, ignoring when the series ends
+ */
+function stepOccurrence(rule: TaskRecurrence, date: string, anchor: string): string {
+	const interval = Math.max(1, Math.floor(rule.interval));
+	const current = parseDate(date);
+
+	switch (rule.frequency) {
+		case 'daily':
+			return formatDay(addDays(current, interval));
+
+		case 'weekly': {
+			// Weeks run Monday to Sunday, as RRULE's default week start
+			const position = (day: number) => (day + 6) % 7;
+			const today = position(current.getUTCDay());
+			const days = sortWeekdays(rule.weekdays?.length ? rule.weekdays : [current.getUTCDay()]);
+
+			const laterThisWeek = days.find((day) => position(day) > today);
+			if (laterThisWeek !== undefined) {
+				return formatDay(addDays(current, position(laterThisWeek) - today));
+			}
+			const weekStart = addDays(current, -today);
+			return formatDay(addDays(weekStart, interval * 7 + position(days[0] ?? 1)));
+		}
+
+		case 'monthly': {
+			const year = current.getUTCFullYear();
+			const inMonth = (month: number) => {
+				if (rule.monthWeekday) {
+					const { weekday, week } = rule.monthWeekday;
+					return nthWeekdayOfMonth(year, month, weekday, week);
+				}
+				const day = Math.min(
+					rule.monthDay ?? parseDate(anchor).getUTCDate(),
+					daysInMonth(year, month)
+				);
+				return new Date(Date.UTC(year, month, day));
+			};
+
+			// A first occurrence off the rule is followed by the rule's day in the same month
+			const sameMonth = inMonth(current.getUTCMonth());
+			return formatDay(sameMonth > current ? sameMonth : inMonth(current.getUTCMonth() + interval));
+		}
+	}
+}
+
+// Weekdays in Monday-first order
+function sortWeekdays(days: number[]): number[] {
+	return [...new Set(days)].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, week: number): Date {
+	if (week === -1) {
+		const last = new Date(Date.UTC(year, month, daysInMonth(year, month)));
+		return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+	}
+	const first = new Date(Date.UTC(year, month, 1));
+	return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (week - 1) * 7);
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function addDays(date: Date, days: number): Date {
+	const result = new Date(date);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result;
+}
+
+function parseDate(date: string): Date {
+	return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function formatDay(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,164 @@
+/**
+ * Schedule Utilities Tests
+ *
+ * Tests for the critical path schedule: earliest and latest dates, slack,
+ * the forecast end date and tasks that push a project past its end date
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateProjectSchedule } from './schedule-utils';
+import { createMockTask, createMockTimeEntry } from './test-helpers';
+
+// A Monday
+const asOf = '2026-10-19';
+
+const design = createMockTask({ id: 'design', title: 'Design', estimatedHours: 16 });
+const build = createMockTask({
+	id: 'build',
+	title: 'Build',
+	estimatedHours: 24,
+	dependencies: ['design']
+});
+const launch = createMockTask({
+	id: 'launch',
+	title: 'Launch',
+	estimatedHours: 8,
+	dependencies: ['build']
+});
+const docs = createMockTask({ id: 'docs', title: 'Docs', estimatedHours: 8 });
+const tasks = [launch, docs, build, design];
+
+function byId(schedule: ReturnType<typeof calculateProjectSchedule>, id: string) {
+	return schedule.tasks.find((scheduled) => scheduled.task.id === id);
+}
+
+describe('Schedule Utilities', () => {
+	describe('calculateProjectSchedule', () => {
+		it('should schedule each task after its dependencies over working days', () => {
+			const schedule = calculateProjectSchedule({}, tasks, [], { asOf });
+
+			expect(
+				schedule.tasks.map((s) => [s.task.id, s.earliestStart, s.earliestFinish, s.slackDays])
+			).toEqual([
+				['docs', '2026-10-19', '2026-10-19', 5],
+				['design', '2026-10-19', '2026-10-20', 0],
+				['build', '2026-10-21', '2026-10-23', 0],
+				['launch', '2026-10-26', '2026-10-26', 0]
+			]);
+			expect(schedule.startDate).toBe(asOf);
+			expect(schedule.forecastEndDate).toBe('2026-10-26');
+			expect(schedule.criticalPath).toEqual(['design', 'build', 'launch']);
+		});
+
+		it('should give latest dates that keep the forecast end date', () => {
+			const schedule = calculateProjectSchedule({}, tasks, [], { asOf });
+
+			expect(byId(schedule, 'docs')).toMatchObject({
+				latestStart: '2026-10-26',
+				latestFinish: '2026-10-26',
+				isCritical: false
+			});
+			expect(byId(schedule, 'build')).toMatchObject({
+				latestStart: '2026-10-21',
+				latestFinish: '2026-10-23',
+				isCritical: true
+			});
+		});
+
+		it('should mark the tasks that push the project past its end date', () => {
+			const schedule = calculateProjectSchedule({ endDate: '2026-10-23' }, tasks, [], { asOf });
+
+			expect(schedule.overrunDays).toBe(1);
+			expect(schedule.tasks.filter((s) => s.delaysProject).map((s) => s.task.id)).toEqual([
+				'design',
+				'build',
+				'launch'
+			]);
+		});
+
+		it('should not mark tasks when the project finishes by its end date', () => {
+			const schedule = calculateProjectSchedule({ endDate: '2026-10-30' }, tasks, [], { asOf });
+
+			expect(schedule.overrunDays).toBe(0);
+			expect(schedule.tasks.some((s) => s.delaysProject)).toBe(false);
+		});
+
+		it('should compare earliest finishes with due dates', () => {
+			const due = { ...launch, dueDate: '2026-10-23' };
+			const schedule = calculateProjectSchedule({}, [due, build, design], [], { asOf });
+
+			expect(byId(schedule, 'launch')?.isLate).toBe(true);
+			expect(byId(schedule, 'build')?.isLate).toBe(false);
+		});
+
+		it('should schedule only the hours left and skip finished tasks', () => {
+			const entries = [createMockTimeEntry({ taskId: 'build', duration: 16 })];
+			const finished = { ...design, status: 'completed' as const };
+
+			const schedule = calculateProjectSchedule({}, [launch, build, finished], entries, { asOf });
+
+			expect(schedule.tasks.map((s) => s.task.id)).toEqual(['build', 'launch']);
+			expect(byId(schedule, 'build')).toMatchObject({
+				remainingHours: 8,
+				earliestFinish: '2026-10-19'
+			});
+			expect(schedule.forecastEndDate).toBe('2026-10-20');
+		});
+
+		it('should start on the first working day of the project', () => {
+			const schedule = calculateProjectSchedule({ startDate: '2026-10-24' }, [docs], [], {
+				asOf
+			});
+
+			expect(schedule.startDate).toBe('2026-10-26');
+			expect(schedule.forecastEndDate).toBe('2026-10-26');
+		});
+
+		it('should use the hours in a working day', () => {
+			const schedule = calculateProjectSchedule({}, [build], [], { asOf, hoursPerDay: 6 });
+
+			expect(schedule.forecastEndDate).toBe('2026-10-22');
+		});
+
+		it('should finish parents with their subtasks and hold subtasks for parent dependencies', () => {
+			const parent = createMockTask({
+				id: 'parent',
+				estimatedHours: 100,
+				dependencies: ['design'],
+				subtasks: ['child']
+			});
+			const child = createMockTask({ id: 'child', estimatedHours: 8 });
+
+			const schedule = calculateProjectSchedule({}, [parent, child, design], [], { asOf });
+
+			expect(byId(schedule, 'child')?.earliestStart).toBe('2026-10-21');
+			expect(byId(schedule, 'parent')).toMatchObject({
+				remainingHours: 0,
+				earliestFinish: '2026-10-21'
+			});
+		});
+
+		it('should list unestimated tasks and schedule them as taking no time', () => {
+			const unestimated = createMockTask({
+				id: 'review',
+				estimatedHours: 0,
+				dependencies: ['design']
+			});
+
+			const schedule = calculateProjectSchedule({}, [design, unestimated], [], { asOf });
+
+			expect(schedule.unestimatedTaskIds).toEqual(['review']);
+			expect(byId(schedule, 'review')?.earliestFinish).toBe('2026-10-20');
+			expect(schedule.criticalPath).toEqual(['design']);
+		});
+
+		it('should survive stored dependency cycles', () => {
+			const a = createMockTask({ id: 'a', estimatedHours: 8, dependencies: ['b'] });
+			const b = createMockTask({ id: 'b', estimatedHours: 8, dependencies: ['a'] });
+
+			const schedule = calculateProjectSchedule({}, [a, b], [], { asOf });
+
+			expect(schedule.tasks).toHaveLength(2);
+		});
+	});
+});
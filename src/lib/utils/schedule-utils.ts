@@ -0,0 +1,243 @@
+/**
+ * Schedule Utilities for TimeFlow Pro
+ *
+ * Forecasts when a project's remaining work will be done with the critical
+ * path method. Each unfinished task takes its remaining estimated hours in
+ * working days and starts once its dependencies are finished; the longest
+ * chain sets the forecast end date, and tasks on it have no slack.
+ *
+ * @example
+ * ```typescript
+ * import { calculateProjectSchedule } from '$lib/utils/schedule-utils';
+ *
+ * const schedule = calculateProjectSchedule(project, projectTasks, projectEntries);
+ * const late = schedule.tasks.filter((scheduled) => scheduled.delaysProject);
+ * ```
+ */
+
+import type { Project, ProjectSchedule, ScheduledTask, Task, TimeEntry } from '$lib/types/index.js';
+import { formatDate, shiftDate } from './dateUtils.js';
+import { getAncestorIds } from './task-hierarchy-utils.js';
+import { isTaskFinished } from './task-dependency-utils.js';
+
+/** Hours of work in a working day */
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+// Allowance for floating point error when comparing day offsets
+const EPSILON = 1e-6;
+
+export interface ScheduleOptions {
+	/** Day to schedule from when the project has not started later (YYYY-MM-DD) */
+	asOf?: string;
+
+	/** Hours of work in a working day */
+	hoursPerDay?: number;
+}
+
+/**
+ * Schedule the unfinished tasks of a project, usually all of its tasks.
+ *
+ * Work starts on the first working day on or after today, or the project's
+ * start date when that is later, and takes weekdays only. A task waits for
+ * its dependencies and for its parent's dependencies, and a parent finishes
+ * with its last subtask; a parent's own estimate only counts when none of
+ * its subtasks has one. Tasks without an estimate take no time.
+ *
+ * Slack is measured against the forecast end date. When the project has an
+ * end date, tasks whose slack is not enough to finish by it are marked as
+ * delaying the project.
+ */
+export function calculateProjectSchedule(
+	project: Pick<Project, 'startDate' | 'endDate'>,
+	tasks: Task[],
+	timeEntries: TimeEntry[],
+	options: ScheduleOptions = {}
+): ProjectSchedule {
+	const asOf = options.asOf ?? formatDate(new Date());
+	const hoursPerDay = options.hoursPerDay ?? DEFAULT_HOURS_PER_DAY;
+	const projectStart = project.startDate?.slice(0, 10);
+	const startDate = nextWorkingDay(projectStart && projectStart > asOf ? projectStart : asOf);
+
+	const open = tasks.filter((task) => !isTaskFinished(task));
+	const openById = new Map(open.map((task) => [task.id, task]));
+
+	const remainingHours = new Map(
+		open.map((task) => [task.id, calculateRemainingHours(task, open, timeEntries)])
+	);
+	const durationOf = (task: Task) => (remainingHours.get(task.id) ?? 0) / hoursPerDay;
+
+	// Work that must be finished before a task can finish
+	const predecessors = new Map(
+		open.map((task) => {
+			const inherited = getAncestorIds(task.id, tasks).flatMap(
+				(id) => openById.get(id)?.dependencies ?? []
+			);
+			const ids = [...task.dependencies, ...inherited, ...task.subtasks];
+			return [task.id, [...new Set(ids)].filter((id) => id !== task.id && openById.has(id))];
+		})
+	);
+	const successors = new Map<string, string[]>(open.map((task) => [task.id, []]));
+	predecessors.forEach((ids, taskId) => {
+		ids.forEach((id) => successors.get(id)?.push(taskId));
+	});
+
+	// Forward pass: earliest finish, in working days from the start
+	const earliestFinish = new Map<string, number>();
+	const earliestStartOf = (task: Task) =>
+		Math.max(0, ...(predecessors.get(task.id) ?? []).map((id) => forward(id)));
+	const forward = memoize(earliestFinish, (id) => {
+		const task = openById.get(id);
+		return task ? earliestStartOf(task) + durationOf(task) : 0;
+	});
+	open.forEach((task) => forward(task.id));
+
+	const projectFinish = Math.max(0, ...earliestFinish.values());
+
+	// Backward pass: latest finish that keeps the forecast end date
+	const latestFinish = new Map<string, number>();
+	const latestStartOf = (id: string) => {
+		const task = openById.get(id);
+		return backward(id) - (task ? durationOf(task) : 0);
+	};
+	const backward = memoize(
+		latestFinish,
+		(id) =>
+			Math.min(projectFinish, ...(successors.get(id) ?? []).map((next) => latestStartOf(next))),
+		projectFinish
+	);
+
+	const deadline = project.endDate
+		? countWorkingDays(startDate, project.endDate.slice(0, 10))
+		: undefined;
+
+	const scheduled: ScheduledTask[] = open
+		.map((task) => {
+			const finish = forward(task.id);
+			const duration = durationOf(task);
+			const start = finish - duration;
+			const slack = backward(task.id) - finish;
+			const earliestFinishDate = finishDate(startDate, finish);
+
+			return {
+				task,
+				remainingHours: round(remainingHours.get(task.id) ?? 0),
+				durationDays: round(duration),
+				earliestStart: startDateAt(startDate, start),
+				earliestFinish: earliestFinishDate,
+				latestStart: startDateAt(startDate, start + slack),
+				latestFinish: finishDate(startDate, finish + slack),
+				slackDays: round(slack),
+				isCritical: slack < EPSILON,
+				isLate: !!task.dueDate && earliestFinishDate > task.dueDate.slice(0, 10),
+				delaysProject: deadline !== undefined && slack + deadline - projectFinish < -EPSILON
+			};
+		})
+		.sort(
+			(a, b) =>
+				a.earliestStart.localeCompare(b.earliestStart) ||
+				a.earliestFinish.localeCompare(b.earliestFinish)
+		);
+
+	return {
+		startDate,
+		forecastEndDate: finishDate(startDate, projectFinish),
+		overrunDays:
+			deadline !== undefined ? Math.max(0, Math.ceil(projectFinish - EPSILON) - deadline) : 0,
+		tasks: scheduled,
+		criticalPath: scheduled
+			.filter((entry) => entry.isCritical && entry.remainingHours > 0)
+			.map((entry) => entry.task.id),
+		unestimatedTaskIds: open
+			.filter((task) => !task.estimatedHours && !task.subtasks.some((id) => openById.has(id)))
+			.map((task) => task.id)
+	};
+}
+
+/**
+ * Estimated hours left on a task. Subtasks carry the work of a parent
+ * unless none of them is estimated.
+ */
+function calculateRemainingHours(task: Task, open: Task[], timeEntries: TimeEntry[]): number {
+	const subtasks = open.filter((t) => task.subtasks.includes(t.id));
+	if (subtasks.some((subtask) => subtask.estimatedHours)) return 0;
+	if (!task.estimatedHours) return 0;
+
+	const trackedHours = timeEntries
+		.filter((entry) => entry.taskId === task.id)
+		.reduce((total, entry) => total + entry.duration, 0);
+	return Math.max(0, task.estimatedHours - trackedHours);
+}
+
+/**
+ * Memoized recursive lookup. Stored data with a dependency cycle gets the
+ * fallback value rather than recursing forever.
+ */
+function memoize(
+	cache: Map<string, number>,
+	compute: (id: string) => number,
+	fallback = 0
+): (id: string) => number {
+	const visiting = new Set<string>();
+	return (id) => {
+		const known = cache.get(id);
+		if (known !== undefined) return known;
+		if (visiting.has(id)) return fallback;
+
+		visiting.add(id);
+		const value = compute(id);
+		visiting.delete(id);
+
+		cache.set(id, value);
+		return value;
+	};
+}
+
+/**
+ * Day work begins at an offset in working days from the first day
+ */
+function startDateAt(firstDay: string, offset: number): string {
+	return addWorkingDays(firstDay, Math.floor(offset + EPSILON));
+}
+
+/**
+ * Day work ends at an offset in working days from the first day. Work that
+ * ends exactly at the end of a day finishes on that day.
+ */
+function finishDate(firstDay: string, offset: number): string {
+	return addWorkingDays(firstDay, Math.max(0, Math.ceil(offset - EPSILON) - 1));
+}
+
+/**
+ * Working days from the first day through the last, both included
+ */
+function countWorkingDays(firstDay: string, lastDay: string): number {
+	let count = 0;
+	for (let day = firstDay; day <= lastDay; day = shiftDate(day, 1)) {
+		if (!isWeekendDate(day)) count++;
+	}
+	return count;
+}
+
+function addWorkingDays(firstDay: string, days: number): string {
+	let day = firstDay;
+	for (let added = 0; added < days; added++) {
+		day = nextWorkingDay(shiftDate(day, 1));
+	}
+	return day;
+}
+
+function nextWorkingDay(date: string): string {
+	let day = date;
+	while (isWeekendDate(day)) day = shiftDate(day, 1);
+	return day;
+}
+
+function isWeekendDate(date: string): boolean {
+	const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+	return weekday === 0 || weekday === 6;
+}
+
+// Round to hundredths
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
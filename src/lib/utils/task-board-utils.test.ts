@@ -0,0 +1,71 @@
+/**
+ * Task Board Utilities Tests
+ *
+ * Tests for board columns and swimlanes, keyboard moves between columns
+ * and WIP limit checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTaskBoard, getAdjacentStatus, getWipLimitError } from './task-board-utils';
+import { createMockTask } from './test-helpers';
+
+const todo = createMockTask({ id: 'todo', priority: 'high', assignee: 'Sam' });
+const doing = createMockTask({ id: 'doing', status: 'in-progress', assignee: 'Alex' });
+const done = createMockTask({ id: 'done', status: 'completed', priority: 'high' });
+const tasks = [todo, doing, done];
+
+describe('Task Board Utilities', () => {
+	describe('buildTaskBoard', () => {
+		it('should place tasks in one column per status', () => {
+			const [lane, ...rest] = buildTaskBoard(tasks);
+
+			expect(rest).toEqual([]);
+			expect(lane?.columns.map((column) => [column.status, column.tasks.map((t) => t.id)])).toEqual(
+				[
+					['pending', ['todo']],
+					['in-progress', ['doing']],
+					['on-hold', []],
+					['completed', ['done']],
+					['cancelled', []]
+				]
+			);
+		});
+
+		it('should split the board into priority lanes that have tasks', () => {
+			const lanes = buildTaskBoard(tasks, 'priority');
+
+			expect(lanes.map((lane) => lane.key)).toEqual(['high', 'medium']);
+			expect(lanes[0]?.columns[3]?.tasks).toEqual([done]);
+		});
+
+		it('should split the board by assignee with unassigned tasks last', () => {
+			const lanes = buildTaskBoard(tasks, 'assignee');
+
+			expect(lanes.map((lane) => lane.label)).toEqual(['Alex', 'Sam', 'Unassigned']);
+			expect(lanes[2]?.columns[3]?.tasks).toEqual([done]);
+		});
+	});
+
+	describe('getAdjacentStatus', () => {
+		it('should return the neighbouring column until the end of the board', () => {
+			expect(getAdjacentStatus('pending', 'next')).toBe('in-progress');
+			expect(getAdjacentStatus('in-progress', 'previous')).toBe('pending');
+			expect(getAdjacentStatus('pending', 'previous')).toBeUndefined();
+			expect(getAdjacentStatus('cancelled', 'next')).toBeUndefined();
+		});
+	});
+
+	describe('getWipLimitError', () => {
+		it('should refuse moves into a full column', () => {
+			expect(getWipLimitError(todo, 'in-progress', tasks, { 'in-progress': 1 })).toBe(
+				'In Progress is at its WIP limit of 1'
+			);
+			expect(getWipLimitError(todo, 'in-progress', tasks, { 'in-progress': 2 })).toBeUndefined();
+		});
+
+		it('should allow moves into columns without a limit and within a column', () => {
+			expect(getWipLimitError(todo, 'completed', tasks, { 'in-progress': 1 })).toBeUndefined();
+			expect(getWipLimitError(doing, 'in-progress', tasks, { 'in-progress': 1 })).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,124 @@
+/**
+ * Task Board Utilities for TimeFlow Pro
+ *
+ * Lays tasks out on the Kanban board: one column per status, optionally
+ * split into swimlanes by priority or assignee, and checks moves between
+ * columns against each column's work-in-progress (WIP) limit.
+ *
+ * @example
+ * ```typescript
+ * import { buildTaskBoard, getWipLimitError } from '$lib/utils/task-board-utils';
+ *
+ * const lanes = buildTaskBoard(projectTasks, 'priority');
+ * const error = getWipLimitError(task, 'in-progress', tasks, { 'in-progress': 3 });
+ * ```
+ */
+
+import type {
+	Task,
+	TaskBoardLane,
+	TaskBoardSwimlane,
+	TaskPriority,
+	TaskStatus,
+	TaskWipLimits
+} from '$lib/types/index.js';
+
+/** Board columns, left to right */
+export const TASK_BOARD_COLUMNS: { status: TaskStatus; label: string }[] = [
+	{ status: 'pending', label: 'To Do' },
+	{ status: 'in-progress', label: 'In Progress' },
+	{ status: 'on-hold', label: 'On Hold' },
+	{ status: 'completed', label: 'Done' },
+	{ status: 'cancelled', label: 'Cancelled' }
+];
+
+// Priority lanes, most urgent first
+const PRIORITY_LANES: { key: TaskPriority; label: string }[] = [
+	{ key: 'urgent', label: 'Urgent' },
+	{ key: 'high', label: 'High' },
+	{ key: 'medium', label: 'Medium' },
+	{ key: 'low', label: 'Low' }
+];
+
+/**
+ * Arrange tasks into lanes of status columns, keeping their order within
+ * each column. Without swimlanes the board is a single lane. Assignee lanes
+ * are sorted by name with unassigned tasks last; lanes without tasks are
+ * left out.
+ */
+export function buildTaskBoard(
+	tasks: Task[],
+	swimlane: TaskBoardSwimlane = 'none'
+): TaskBoardLane[] {
+	const toLane = (key: string, label: string, laneTasks: Task[]): TaskBoardLane => ({
+		key,
+		label,
+		columns: TASK_BOARD_COLUMNS.map((column) => ({
+			...column,
+			tasks: laneTasks.filter((task) => task.status === column.status)
+		}))
+	});
+
+	if (swimlane === 'priority') {
+		return PRIORITY_LANES.map((lane) =>
+			toLane(
+				lane.key,
+				lane.label,
+				tasks.filter((task) => task.priority === lane.key)
+			)
+		).filter((lane) => lane.columns.some((column) => column.tasks.length > 0));
+	}
+
+	if (swimlane === 'assignee') {
+		const assignees = [...new Set(tasks.map((task) => task.assignee?.trim() ?? ''))].sort((a, b) =>
+			a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)
+		);
+		return assignees.map((assignee) =>
+			toLane(
+				assignee,
+				assignee || 'Unassigned',
+				tasks.filter((task) => (task.assignee?.trim() ?? '') === assignee)
+			)
+		);
+	}
+
+	return [toLane('', 'All tasks', tasks)];
+}
+
+/**
+ * Status of the column next to a task's, for moving it with the keyboard.
+ * Returns undefined at either end of the board.
+ */
+export function getAdjacentStatus(
+	status: TaskStatus,
+	direction: 'previous' | 'next'
+): TaskStatus | undefined {
+	const index = TASK_BOARD_COLUMNS.findIndex((column) => column.status === status);
+	return TASK_BOARD_COLUMNS[direction === 'next' ? index + 1 : index - 1]?.status;
+}
+
+/**
+ * Heading of the column holding a status
+ */
+export function getColumnLabel(status: TaskStatus): string {
+	return TASK_BOARD_COLUMNS.find((column) => column.status === status)?.label ?? status;
+}
+
+/**
+ * Why a task cannot move into a column, or undefined when the column has
+ * room. Limits count every task with the status, across all lanes.
+ */
+export function getWipLimitError(
+	task: Pick<Task, 'id' | 'status'>,
+	status: TaskStatus,
+	tasks: Task[],
+	wipLimits: TaskWipLimits
+): string | undefined {
+	const limit = wipLimits[status];
+	if (limit === undefined || task.status === status) return undefined;
+
+	const count = tasks.filter((t) => t.status === status && t.id !== task.id).length;
+	if (count < limit) return undefined;
+
+	return `${getColumnLabel(status)} is at its WIP limit of ${limit}`;
+}
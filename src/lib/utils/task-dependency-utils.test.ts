@@ -0,0 +1,93 @@
+/**
+ * Task Dependency Utilities Tests
+ *
+ * Tests for blocking dependencies, cycle detection and the layered
+ * dependency graph
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	buildDependencyGraph,
+	findDependencyCycle,
+	getBlockingTasks,
+	isTaskBlocked
+} from './task-dependency-utils';
+import { createMockTask } from './test-helpers';
+
+const design = createMockTask({ id: 'design', title: 'Design', status: 'completed' });
+const build = createMockTask({ id: 'build', title: 'Build', dependencies: ['design'] });
+const test = createMockTask({ id: 'test', title: 'Test', dependencies: ['build'] });
+const launch = createMockTask({ id: 'launch', title: 'Launch', dependencies: ['build', 'test'] });
+const tasks = [launch, test, build, design];
+
+describe('Task Dependency Utilities', () => {
+	describe('getBlockingTasks', () => {
+		it('should return unfinished dependencies only', () => {
+			expect(getBlockingTasks(build, tasks)).toEqual([]);
+			expect(getBlockingTasks(launch, tasks).map((t) => t.id)).toEqual(['build', 'test']);
+		});
+
+		it('should ignore cancelled and missing dependencies', () => {
+			const task = createMockTask({ dependencies: ['gone', 'dropped'] });
+			const dropped = createMockTask({ id: 'dropped', status: 'cancelled' });
+
+			expect(getBlockingTasks(task, [dropped])).toEqual([]);
+		});
+	});
+
+	describe('isTaskBlocked', () => {
+		it('should block unfinished tasks with unfinished dependencies', () => {
+			expect(isTaskBlocked(test, tasks)).toBe(true);
+			expect(isTaskBlocked(build, tasks)).toBe(false);
+			expect(isTaskBlocked({ ...test, status: 'completed' }, tasks)).toBe(false);
+		});
+	});
+
+	describe('findDependencyCycle', () => {
+		it('should return the chain that leads back to the task', () => {
+			expect(findDependencyCycle('design', ['launch'], tasks)).toEqual([
+				'design',
+				'launch',
+				'build',
+				'design'
+			]);
+		});
+
+		it('should return undefined when the dependencies form no cycle', () => {
+			expect(findDependencyCycle('launch', ['build', 'test'], tasks)).toBeUndefined();
+			expect(findDependencyCycle('new-task', ['launch'], tasks)).toBeUndefined();
+		});
+	});
+
+	describe('buildDependencyGraph', () => {
+		it('should place each task after its longest dependency chain', () => {
+			const graph = buildDependencyGraph(tasks);
+
+			expect(graph.nodes.map((node) => [node.task.id, node.level, node.isBlocked])).toEqual([
+				['design', 0, false],
+				['build', 1, false],
+				['test', 2, true],
+				['launch', 3, true]
+			]);
+			expect(graph.edges).toEqual([
+				{ from: 'build', to: 'launch' },
+				{ from: 'test', to: 'launch' },
+				{ from: 'build', to: 'test' },
+				{ from: 'design', to: 'build' }
+			]);
+		});
+
+		it('should leave out links to other tasks and survive stored cycles', () => {
+			const a = createMockTask({ id: 'a', dependencies: ['b', 'elsewhere'] });
+			const b = createMockTask({ id: 'b', dependencies: ['a'] });
+
+			const graph = buildDependencyGraph([a, b]);
+
+			expect(graph.nodes).toHaveLength(2);
+			expect(graph.edges).toEqual([
+				{ from: 'b', to: 'a' },
+				{ from: 'a', to: 'b' }
+			]);
+		});
+	});
+});
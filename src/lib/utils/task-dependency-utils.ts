@@ -0,0 +1,116 @@
+/**
+ * Task Dependency Utilities for TimeFlow Pro
+ *
+ * Works with the dependency links between tasks: which unfinished tasks
+ * block a task from starting, whether a set of dependencies would form a
+ * cycle, and the layered graph shown on the projects page.
+ *
+ * @example
+ * ```typescript
+ * import { getBlockingTasks, findDependencyCycle } from '$lib/utils/task-dependency-utils';
+ *
+ * const blocking = getBlockingTasks(task, tasks);
+ * const cycle = findDependencyCycle(task.id, ['task-2'], tasks); // ['task-1', 'task-2', 'task-1']
+ * ```
+ */
+
+import type { Task, TaskDependencyGraph, TaskStatus } from '$lib/types/index.js';
+
+// Statuses that no longer hold up dependent tasks
+const FINISHED_STATUSES: TaskStatus[] = ['completed', 'cancelled'];
+
+/**
+ * Whether a task is done with, so tasks depending on it can start
+ */
+export function isTaskFinished(task: Pick<Task, 'status'>): boolean {
+	return FINISHED_STATUSES.includes(task.status);
+}
+
+/**
+ * Unfinished tasks a task depends on. Dependencies on tasks that no longer
+ * exist are ignored.
+ */
+export function getBlockingTasks(task: Pick<Task, 'dependencies'>, tasks: Task[]): Task[] {
+	return task.dependencies
+		.map((id) => tasks.find((t) => t.id === id))
+		.filter((dependency): dependency is Task => !!dependency && !isTaskFinished(dependency));
+}
+
+/**
+ * Whether unfinished dependencies keep a task from starting
+ */
+export function isTaskBlocked(task: Task, tasks: Task[]): boolean {
+	return !isTaskFinished(task) && getBlockingTasks(task, tasks).length > 0;
+}
+
+/**
+ * Find the cycle that giving a task these dependencies would create.
+ * Returns the chain of task IDs from the task back to itself, each
+ * depending on the next, or undefined when there is no cycle.
+ */
+export function findDependencyCycle(
+	taskId: string,
+	dependencies: string[],
+	tasks: Task[]
+): string[] | undefined {
+	const dependenciesOf = (id: string) =>
+		id === taskId ? dependencies : (tasks.find((t) => t.id === id)?.dependencies ?? []);
+	const visited = new Set<string>();
+
+	const visit = (id: string, chain: string[]): string[] | undefined => {
+		if (id === taskId) return [...chain, id];
+		if (visited.has(id)) return undefined;
+		visited.add(id);
+
+		for (const dependency of dependenciesOf(id)) {
+			const cycle = visit(dependency, [...chain, id]);
+			if (cycle) return cycle;
+		}
+		return undefined;
+	};
+
+	for (const dependency of dependencies) {
+		const cycle = visit(dependency, [taskId]);
+		if (cycle) return cycle;
+	}
+	return undefined;
+}
+
+/**
+ * Dependency graph of a set of tasks, usually one project's. Each task's
+ * level is the length of the longest chain of dependencies before it, so
+ * every edge points to a later level. Links to tasks outside the set are
+ * left out.
+ */
+export function buildDependencyGraph(tasks: Task[]): TaskDependencyGraph {
+	const tasksById = new Map(tasks.map((task) => [task.id, task]));
+	const levels = new Map<string, number>();
+	const visiting = new Set<string>();
+
+	const levelOf = (task: Task): number => {
+		const known = levels.get(task.id);
+		if (known !== undefined) return known;
+		// Stored data with a cycle: stop rather than recurse forever
+		if (visiting.has(task.id)) return 0;
+
+		visiting.add(task.id);
+		const level = task.dependencies.reduce((max, id) => {
+			const dependency = tasksById.get(id);
+			return dependency ? Math.max(max, levelOf(dependency) + 1) : max;
+		}, 0);
+		visiting.delete(task.id);
+
+		levels.set(task.id, level);
+		return level;
+	};
+
+	const nodes = tasks
+		.map((task) => ({ task, level: levelOf(task), isBlocked: isTaskBlocked(task, tasks) }))
+		.sort((a, b) => a.level - b.level);
+
+	const edges = tasks.flatMap((task) =>
+		task.dependencies.filter((id) => tasksById.has(id)).map((id) => ({ from: id, to: task.id }))
+	);
+
+	return { nodes, edges };
+}
@@ -0,0 +1,64 @@
+/**
+ * Task Hierarchy Utilities Tests
+ *
+ * Tests for parent and subtask lookups and arranging tasks as a tree
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	buildTaskTree,
+	findParentTask,
+	flattenTaskTree,
+	getAncestorIds,
+	getDescendantIds,
+	getSubtasks
+} from './task-hierarchy-utils';
+import { createMockTask } from './test-helpers';
+
+const release = createMockTask({ id: 'release', subtasks: ['backend', 'frontend'] });
+const backend = createMockTask({ id: 'backend', subtasks: ['api'] });
+const frontend = createMockTask({ id: 'frontend' });
+const api = createMockTask({ id: 'api' });
+const docs = createMockTask({ id: 'docs' });
+const tasks = [release, backend, frontend, api, docs];
+
+describe('Task Hierarchy Utilities', () => {
+	it('should find subtasks and parents', () => {
+		expect(getSubtasks(release, tasks).map((t) => t.id)).toEqual(['backend', 'frontend']);
+		expect(getSubtasks({ subtasks: ['gone'] }, tasks)).toEqual([]);
+		expect(findParentTask('api', tasks)?.id).toBe('backend');
+		expect(findParentTask('docs', tasks)).toBeUndefined();
+	});
+
+	it('should walk up and down the tree', () => {
+		expect(getAncestorIds('api', tasks)).toEqual(['backend', 'release']);
+		expect(getDescendantIds('release', tasks)).toEqual(['backend', 'api', 'frontend']);
+	});
+
+	it('should stop at stored cycles', () => {
+		const a = createMockTask({ id: 'a', subtasks: ['b'] });
+		const b = createMockTask({ id: 'b', subtasks: ['a'] });
+
+		expect(getAncestorIds('a', [a, b])).toEqual(['b']);
+		expect(getDescendantIds('a', [a, b])).toEqual(['b']);
+		expect(flattenTaskTree(buildTaskTree([a, b])).map((node) => node.task.id)).toEqual(['a', 'b']);
+	});
+
+	it('should arrange tasks as a tree in list order', () => {
+		const nodes = flattenTaskTree(buildTaskTree(tasks));
+
+		expect(nodes.map((node) => [node.task.id, node.depth])).toEqual([
+			['release', 0],
+			['backend', 1],
+			['api', 2],
+			['frontend', 1],
+			['docs', 0]
+		]);
+	});
+
+	it('should place tasks whose parent is filtered out at the top', () => {
+		const tree = buildTaskTree([api, frontend]);
+
+		expect(tree.map((node) => node.task.id)).toEqual(['api', 'frontend']);
+	});
+});
@@ -0,0 +1,106 @@
+/**
+ * Task Hierarchy Utilities for TimeFlow Pro
+ *
+ * Navigates parent/child tasks. Parents list their children in `subtasks`;
+ * these helpers find a task's parent, subtasks and descendants and arrange
+ * a list of tasks as a tree.
+ *
+ * @example
+ * ```typescript
+ * import { findParentTask, buildTaskTree } from '$lib/utils/task-hierarchy-utils';
+ *
+ * const parent = findParentTask(task.id, tasks);
+ * const tree = buildTaskTree(projectTasks);
+ * ```
+ */
+
+import type { Task, TaskTreeNode } from '$lib/types/index.js';
+
+/**
+ * Direct subtasks of a task, in the parent's order. IDs of tasks that no
+ * longer exist are skipped.
+ */
+export function getSubtasks(task: Pick<Task, 'subtasks'>, tasks: Task[]): Task[] {
+	return task.subtasks
+		.map((id) => tasks.find((t) => t.id === id))
+		.filter((subtask): subtask is Task => !!subtask);
+}
+
+/**
+ * Task that lists this one as a subtask
+ */
+export function findParentTask(taskId: string, tasks: Task[]): Task | undefined {
+	return tasks.find((t) => t.subtasks.includes(taskId));
+}
+
+/**
+ * Parent, grandparent and so on up to the top of the tree, nearest first
+ */
+export function getAncestorIds(taskId: string, tasks: Task[]): string[] {
+	const ancestors: string[] = [];
+	let parent = findParentTask(taskId, tasks);
+
+	while (parent && !ancestors.includes(parent.id) && parent.id !== taskId) {
+		ancestors.push(parent.id);
+		parent = findParentTask(parent.id, tasks);
+	}
+
+	return ancestors;
+}
+
+/**
+ * Subtasks, their subtasks and so on, depth first
+ */
+export function getDescendantIds(taskId: string, tasks: Task[]): string[] {
+	const descendants: string[] = [];
+
+	const visit = (id: string) => {
+		const task = tasks.find((t) => t.id === id);
+		task?.subtasks.forEach((subtaskId) => {
+			if (subtaskId === taskId || descendants.includes(subtaskId)) return;
+			descendants.push(subtaskId);
+			visit(subtaskId);
+		});
+	};
+
+	visit(taskId);
+	return descendants;
+}
+
+/**
+ * Arrange tasks as a tree, keeping their order within each level. Tasks
+ * whose parent is not in the list are placed at the top, so a filtered list
+ * still shows every task once.
+ */
+export function buildTaskTree(tasks: Task[]): TaskTreeNode[] {
+	const placed = new Set<string>();
+
+	const toNode = (task: Task, depth: number): TaskTreeNode => {
+		placed.add(task.id);
+		const children: TaskTreeNode[] = [];
+		tasks.forEach((t) => {
+			if (task.subtasks.includes(t.id) && !placed.has(t.id)) {
+				children.push(toNode(t, depth + 1));
+			}
+		});
+		return { task, depth, children };
+	};
+
+	const tree = tasks
+		.filter((task) => !findParentTask(task.id, tasks))
+		.map((task) => toNode(task, 0));
+
+	// Tasks caught in a stored cycle have no root; show them at the top
+	tasks.forEach((task) => {
+		if (!placed.has(task.id)) tree.push(toNode(task, 0));
+	});
+
+	return tree;
+}
+
+/**
+ * Flatten a tree depth first, parents before their subtasks
+ */
+export function flattenTaskTree(nodes: TaskTreeNode[]): TaskTreeNode[] {
+	return nodes.flatMap((node) => [node, ...flattenTaskTree(node.children)]);
+}
@@ -0,0 +1,82 @@
+/**
+ * Task Status Utilities Tests
+ *
+ * Tests for allowed status transitions, the dependency and subtask guards,
+ * status history entries and time spent in each status
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	canTransition,
+	getDaysInStatus,
+	getStatusTransitionError,
+	recordStatusChange
+} from './task-status-utils';
+import { createMockTask } from './test-helpers';
+
+const design = createMockTask({ id: 'design', title: 'Design' });
+const build = createMockTask({ id: 'build', title: 'Build', dependencies: ['design'] });
+const release = createMockTask({ id: 'release', title: 'Release', subtasks: ['design'] });
+const tasks = [design, build, release];
+
+describe('Task Status Utilities', () => {
+	describe('getStatusTransitionError', () => {
+		it('should allow moves the state machine allows', () => {
+			expect(canTransition('completed', 'pending')).toBe(true);
+			expect(canTransition('cancelled', 'completed')).toBe(false);
+			expect(getStatusTransitionError(design, 'in-progress', tasks)).toBeUndefined();
+			expect(
+				getStatusTransitionError({ ...design, status: 'cancelled' }, 'in-progress', tasks)
+			).toBe('Cannot change a task from Cancelled to In Progress');
+		});
+
+		it('should not start blocked tasks or complete tasks with open subtasks', () => {
+			expect(getStatusTransitionError(build, 'in-progress', tasks)).toBe(
+				'Task is blocked by unfinished dependencies: Design'
+			);
+			expect(getStatusTransitionError(release, 'completed', tasks)).toBe(
+				'Cannot complete a task with open subtasks: Design'
+			);
+			expect(
+				getStatusTransitionError(release, 'completed', [{ ...design, status: 'cancelled' }])
+			).toBeUndefined();
+		});
+	});
+
+	describe('getDaysInStatus', () => {
+		it('should add up the time spent in each status', () => {
+			const task = createMockTask({
+				status: 'in-progress',
+				createdAt: '2026-10-01T00:00:00.000Z',
+				statusHistory: [
+					{ to: 'pending', changedAt: '2026-10-01T00:00:00.000Z' },
+					{ from: 'pending', to: 'in-progress', changedAt: '2026-10-03T00:00:00.000Z' },
+					{ from: 'in-progress', to: 'on-hold', changedAt: '2026-10-04T00:00:00.000Z' },
+					{ from: 'on-hold', to: 'in-progress', changedAt: '2026-10-04T12:00:00.000Z' }
+				]
+			});
+
+			expect(getDaysInStatus(task, new Date('2026-10-06T12:00:00.000Z'))).toEqual({
+				pending: 2,
+				'in-progress': 3,
+				'on-hold': 0.5
+			});
+		});
+
+		it('should stop the clock once a task is finished', () => {
+			const task = createMockTask({
+				status: 'completed',
+				createdAt: '2026-10-01T00:00:00.000Z',
+				statusHistory: recordStatusChange(
+					{ status: 'pending' },
+					'completed',
+					'2026-10-02T00:00:00.000Z'
+				)
+			});
+
+			expect(getDaysInStatus(task, new Date('2026-10-10T00:00:00.000Z'))).toEqual({
+				pending: 1
+			});
+		});
+	});
+});
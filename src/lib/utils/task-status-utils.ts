@@ -0,0 +1,128 @@
+/**
+ * Task Status Utilities for TimeFlow Pro
+ *
+ * The task status state machine: which statuses a task may move to from
+ * its current one, the guards that can still refuse a move (unfinished
+ * dependencies, open subtasks), the history of status changes kept on each
+ * task and how long tasks spend in each status.
+ *
+ * @example
+ * ```typescript
+ * import { getStatusTransitionError, getDaysInStatus } from '$lib/utils/task-status-utils';
+ *
+ * const error = getStatusTransitionError(task, 'completed', tasks);
+ * const days = getDaysInStatus(task); // { pending: 1.5, 'in-progress': 3 }
+ * ```
+ */
+
+import type { Task, TaskStatus, TaskStatusChange } from '$lib/types/index.js';
+import { getBlockingTasks, isTaskFinished } from './task-dependency-utils.js';
+import { getSubtasks } from './task-hierarchy-utils.js';
+
+/** Status names as shown to users */
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+	pending: 'Pending',
+	'in-progress': 'In Progress',
+	'on-hold': 'On Hold',
+	completed: 'Completed',
+	cancelled: 'Cancelled'
+};
+
+/**
+ * Statuses each status may move to. Completed tasks can be reopened or
+ * picked up again; cancelled tasks only reopened.
+ */
+export const TASK_STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+	pending: ['in-progress', 'on-hold', 'completed', 'cancelled'],
+	'in-progress': ['pending', 'on-hold', 'completed', 'cancelled'],
+	'on-hold': ['pending', 'in-progress', 'completed', 'cancelled'],
+	completed: ['pending', 'in-progress'],
+	cancelled: ['pending']
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the state machine allows moving from one status to another
+ */
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+	return TASK_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Why a task cannot move to a status, or undefined when it can. Besides
+ * the allowed transitions, a task cannot start while its dependencies are
+ * unfinished, nor complete while any of its subtasks are still open.
+ */
+export function getStatusTransitionError(
+	task: Pick<Task, 'status' | 'dependencies' | 'subtasks'>,
+	status: TaskStatus,
+	tasks: Task[]
+): string | undefined {
+	if (task.status === status) return undefined;
+
+	if (!canTransition(task.status, status)) {
+		return `Cannot change a task from ${TASK_STATUS_LABELS[task.status]} to ${TASK_STATUS_LABELS[status]}`;
+	}
+
+	if (status === 'in-progress') {
+		const blocking = getBlockingTasks(task, tasks);
+		if (blocking.length > 0) {
+			return `Task is blocked by unfinished dependencies: ${blocking.map((t) => t.title).join(', ')}`;
+		}
+	}
+
+	if (status === 'completed') {
+		const open = getSubtasks(task, tasks).filter((subtask) => !isTaskFinished(subtask));
+		if (open.length > 0) {
+			return `Cannot complete a task with open subtasks: ${open.map((t) => t.title).join(', ')}`;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Status history with a change to `status` appended
+ */
+export function recordStatusChange(
+	task: Pick<Task, 'status' | 'statusHistory'>,
+	status: TaskStatus,
+	changedAt: string
+): TaskStatusChange[] {
+	return [...(task.statusHistory ?? []), { from: task.status, to: status, changedAt }];
+}
+
+/**
+ * Days a task has spent in each status, from its creation. Repeat visits
+ * to a status add up. Time in the current status counts up to `asOf`,
+ * except once the task is completed or cancelled, as nothing is left
+ * waiting on it. Tasks without a history have been in their status since
+ * they were created.
+ */
+export function getDaysInStatus(
+	task: Pick<Task, 'status' | 'statusHistory' | 'createdAt'>,
+	asOf: Date = new Date()
+): Partial<Record<TaskStatus, number>> {
+	const days: Partial<Record<TaskStatus, number>> = {};
+	const add = (status: TaskStatus, from: string, to: number) => {
+		const elapsed = Math.max(0, to - new Date(from).getTime()) / DAY_MS;
+		days[status] = (days[status] ?? 0) + elapsed;
+	};
+
+	const history = task.statusHistory ?? [];
+	let status = history[0]?.from ?? history[0]?.to ?? task.status;
+	let since = task.createdAt;
+
+	history.forEach((change) => {
+		add(status, since, new Date(change.changedAt).getTime());
+		status = change.to;
+		since = change.changedAt;
+	});
+
+	if (!isTaskFinished(task)) {
+		add(status, since, asOf.getTime());
+	}
+
+	return days;
+}
@@ -0,0 +1,88 @@
+/**
+ * Tax Utilities Tests
+ *
+ * Tests for tax profile resolution, splitting amounts into net and tax,
+ * tax line labels and tax profile validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeTaxLine, resolveTaxProfile, splitTax, validateTaxProfile } from './tax-utils';
+import type { Client, TaxProfile } from '$lib/types/index.js';
+
+const vat: TaxProfile = {
+	id: 'tax-vat',
+	name: 'VAT',
+	rate: 20,
+	inclusive: false,
+	reverseCharge: false,
+	createdAt: '2024-01-01T00:00:00.000Z',
+	updatedAt: '2024-01-01T00:00:00.000Z'
+};
+const gst: TaxProfile = { ...vat, id: 'tax-gst', name: 'GST', rate: 10, inclusive: true };
+
+const client: Client = {
+	id: 'client-1',
+	name: 'Acme Corp',
+	defaultCurrency: 'EUR',
+	taxProfileId: 'tax-vat',
+	isActive: true,
+	createdAt: '2024-01-01T00:00:00.000Z',
+	updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('Tax Utilities', () => {
+	describe('resolveTaxProfile', () => {
+		it('should prefer the project profile over the client profile', () => {
+			expect(
+				resolveTaxProfile({ clientId: 'client-1', taxProfileId: 'tax-gst' }, [client], [vat, gst])
+			).toBe(gst);
+		});
+
+		it('should inherit the client profile when the project has none', () => {
+			expect(
+				resolveTaxProfile({ clientId: 'client-1', taxProfileId: '' }, [client], [vat, gst])
+			).toBe(vat);
+			expect(resolveTaxProfile({}, [client], [vat, gst])).toBeUndefined();
+		});
+	});
+
+	describe('splitTax', () => {
+		it('should add exclusive tax on top of the amount', () => {
+			expect(splitTax(100, vat)).toEqual({ net: 100, tax: 20 });
+		});
+
+		it('should take inclusive tax out of the amount', () => {
+			const { net, tax } = splitTax(110, gst);
+
+			expect(net).toBeCloseTo(100);
+			expect(tax).toBeCloseTo(10);
+		});
+
+		it('should charge no tax without a profile or under reverse charge', () => {
+			expect(splitTax(100, undefined)).toEqual({ net: 100, tax: 0 });
+			expect(splitTax(100, { ...vat, reverseCharge: true })).toEqual({ net: 100, tax: 0 });
+		});
+	});
+
+	describe('describeTaxLine', () => {
+		it('should label included and reverse charge taxes', () => {
+			expect(describeTaxLine({ name: 'VAT', rate: 20, amount: 40 })).toBe('VAT (20%)');
+			expect(describeTaxLine({ name: 'GST', rate: 10, amount: 10, inclusive: true })).toBe(
+				'GST (10%, included)'
+			);
+			expect(describeTaxLine({ name: 'VAT', rate: 20, amount: 0, reverseCharge: true })).toBe(
+				'VAT (reverse charge)'
+			);
+		});
+	});
+
+	describe('validateTaxProfile', () => {
+		it('should require a name and a rate between 0 and 100', () => {
+			expect(validateTaxProfile(vat)).toEqual([]);
+			expect(validateTaxProfile({ name: ' ', rate: 120 })).toEqual([
+				'Tax name is required',
+				'Tax rate must be between 0 and 100'
+			]);
+		});
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * Tax Utilities for TimeFlow Pro
+ *
+ * Tax profile resolution and tax calculation. A project's own tax profile
+ * wins over its client's. Exclusive taxes are added on top of billed
+ * amounts, inclusive taxes are already part of them, and reverse charge
+ * profiles charge no tax but print a note on the invoice.
+ *
+ * @example
+ * ```typescript
+ * import { resolveTaxProfile, splitTax } from '$lib/utils/tax-utils';
+ *
+ * const profile = resolveTaxProfile(project, clients, taxProfiles);
+ * const { net, tax } = splitTax(1200, profile); // inclusive 20%: net 1000, tax 200
+ * ```
+ */
+
+import type { Client, InvoiceTaxLine, Project, TaxProfile } from '$lib/types/index.js';
+
+export const DEFAULT_REVERSE_CHARGE_NOTE =
+	'Reverse charge: the customer is liable to account for the tax.';
+
+/**
+ * Tax profile that applies to a project: its own, otherwise its client's
+ */
+export function resolveTaxProfile(
+	project: Pick<Project, 'clientId' | 'taxProfileId'> | undefined,
+	clients: Client[] = [],
+	taxProfiles: TaxProfile[] = []
+): TaxProfile | undefined {
+	if (!project) return undefined;
+
+	const client = project.clientId ? clients.find((c) => c.id === project.clientId) : undefined;
+	const taxProfileId = project.taxProfileId || client?.taxProfileId;
+
+	return taxProfileId ? taxProfiles.find((p) => p.id === taxProfileId) : undefined;
+}
+
+/**
+ * Split a billed amount into net revenue and tax under a tax profile.
+ * Without a profile, or under reverse charge, there is no tax.
+ */
+export function splitTax(
+	amount: number,
+	profile: TaxProfile | undefined
+): { net: number; tax: number } {
+	if (!profile || profile.reverseCharge || profile.rate === 0) {
+		return { net: amount, tax: 0 };
+	}
+
+	if (profile.inclusive) {
+		const net = amount / (1 + profile.rate / 100);
+		return { net, tax: amount - net };
+	}
+
+	return { net: amount, tax: (amount * profile.rate) / 100 };
+}
+
+/**
+ * Label for a tax line, e.g. "VAT (20%)", "VAT (20%, included)"
+ */
+export function describeTaxLine(taxLine: InvoiceTaxLine): string {
+	if (taxLine.reverseCharge) {
+		return `${taxLine.name} (reverse charge)`;
+	}
+	return taxLine.inclusive
+		? `${taxLine.name} (${taxLine.rate}%, included)`
+		: `${taxLine.name} (${taxLine.rate}%)`;
+}
+
+/**
+ * Validate a tax profile; returns the problems found
+ */
+export function validateTaxProfile(profile: Partial<TaxProfile>): string[] {
+	const errors: string[] = [];
+
+	if (!profile.name?.trim()) {
+		errors.push('Tax name is required');
+	}
+	if (
+		profile.rate === undefined ||
+		!Number.isFinite(profile.rate) ||
+		profile.rate < 0 ||
+		profile.rate > 100
+	) {
+		errors.push('Tax rate must be between 0 and 100');
+	}
+
+	return errors;
+}
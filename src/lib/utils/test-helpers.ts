@@ -103,6 +103,21 @@ export function createMockTimerState(overrides: Partial<TimerState> = {}): Timer
 	};
 }
 
+/**
+ * Run a test body in another time zone (e.g., 'Europe/Berlin') and restore
+ * the original zone afterwards
+ */
+export function withTimeZone(timeZone: string, run: () => void): void {
+	const original = process.env.TZ;
+	process.env.TZ = timeZone;
+	try {
+		run();
+	} finally {
+		if (original === undefined) delete process.env.TZ;
+		else process.env.TZ = original;
+	}
+}
+
 /**
  * Wait for a specified amount of time (for async tests)
  */
@@ -0,0 +1,379 @@
+/**
+ * Time Entry Utilities Tests for TimeFlow Pro
+ *
+ * Tests for building time entries from timer sessions, the timesheet and
+ * splitting, merging and trimming entries.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatLocalDate } from './dateUtils.js';
+import {
+	applyDurationEdit,
+	buildTimesheetRows,
+	createManualTimeEntry,
+	createTimeEntryFromTimer,
+	getWeekDates,
+	groupEntriesByDay,
+	isSessionBillable,
+	mergeTimeEntries,
+	parseDurationInput,
+	resolveSessionRate,
+	secondsToHours,
+	splitTimeEntry,
+	trimTimeEntry
+} from './time-entry-utils.js';
+import {
+	createMockProject,
+	createMockTask,
+	createMockTimeEntry,
+	withTimeZone
+} from './test-helpers.js';
+
+describe('Time Entry Utilities', () => {
+	const endTime = new Date('2024-03-04T12:00:00Z');
+
+	describe('secondsToHours', () => {
+		it('should convert seconds to decimal hours', () => {
+			expect(secondsToHours(5400)).toBe(1.5);
+			expect(secondsToHours(0)).toBe(0);
+		});
+	});
+
+	describe('resolveSessionRate', () => {
+		it('should prefer the task rate', () => {
+			const rate = resolveSessionRate({
+				project: createMockProject({ defaultBillingRate: 75 }),
+				task: createMockTask({ customBillingRate: 110 })
+			});
+			expect(rate).toBe(110);
+		});
+
+		it('should fall back to the project rate', () => {
+			const rate = resolveSessionRate({
+				project: createMockProject({ defaultBillingRate: 75 }),
+				task: createMockTask()
+			});
+			expect(rate).toBe(75);
+		});
+
+		it('should return undefined without context', () => {
+			expect(resolveSessionRate({})).toBeUndefined();
+		});
+	});
+
+	describe('isSessionBillable', () => {
+		it('should be non-billable when the project or task is non-billable', () => {
+			expect(isSessionBillable({ project: createMockProject({ isBillable: false }) })).toBe(false);
+			expect(isSessionBillable({ task: createMockTask({ isBillable: false }) })).toBe(false);
+			expect(isSessionBillable({ project: createMockProject() })).toBe(true);
+		});
+	});
+
+	describe('createTimeEntryFromTimer', () => {
+		it('should build a fully populated entry', () => {
+			const entry = createTimeEntryFromTimer(
+				{
+					projectId: 'project-1',
+					taskId: 'task-1',
+					description: 'Pairing session',
+					endTime,
+					elapsedSeconds: 5400
+				},
+				{ project: createMockProject(), task: createMockTask() }
+			);
+
+			expect(entry.projectId).toBe('project-1');
+			expect(entry.taskId).toBe('task-1');
+			expect(entry.date).toBe(formatLocalDate(new Date('2024-03-04T10:30:00Z')));
+			expect(entry.startTime).toBe('2024-03-04T10:30:00.000Z');
+			expect(entry.endTime).toBe('2024-03-04T12:00:00.000Z');
+			expect(entry.duration).toBe(1.5);
+			expect(entry.trackedHours).toBe(1.5);
+			expect(entry.billableHours).toBe(1.5);
+			expect(entry.billingRate).toBe(75);
+			expect(entry.billingStatus).toBe('ready');
+			expect(entry.fromTimer).toBe(true);
+			expect(entry.isEdited).toBe(false);
+		});
+
+		it('should mark entries for non-billable projects as non-billable', () => {
+			const entry = createTimeEntryFromTimer(
+				{ projectId: 'project-1', description: '', endTime, elapsedSeconds: 3600 },
+				{ project: createMockProject({ isBillable: false }) }
+			);
+
+			expect(entry.billableHours).toBe(0);
+			expect(entry.billingStatus).toBe('non-billable');
+			expect(entry).not.toHaveProperty('taskId');
+		});
+
+		it('should fall back to the task title for the description', () => {
+			const entry = createTimeEntryFromTimer(
+				{ projectId: 'project-1', taskId: 'task-1', description: '', endTime, elapsedSeconds: 60 },
+				{ task: createMockTask({ title: 'Fix login bug' }) }
+			);
+
+			expect(entry.description).toBe('Fix login bug');
+		});
+
+		it('should date the entry by the local day the session started', () => {
+			// 23:30 in New York is already the next day in UTC
+			withTimeZone('America/New_York', () => {
+				const entry = createTimeEntryFromTimer({
+					projectId: 'project-1',
+					description: '',
+					endTime: new Date(2024, 2, 4, 23, 50),
+					elapsedSeconds: 1200
+				});
+
+				expect(entry.date).toBe('2024-03-04');
+			});
+		});
+	});
+
+	describe('parseDurationInput', () => {
+		it('should parse H:MM, H:MM:SS and decimal hours', () => {
+			expect(parseDurationInput('1:30')).toBe(1.5);
+			expect(parseDurationInput('0:45:00')).toBe(0.75);
+			expect(parseDurationInput('2.25')).toBe(2.25);
+			expect(parseDurationInput('  ')).toBe(0);
+		});
+
+		it('should reject invalid input', () => {
+			expect(parseDurationInput('abc')).toBeNull();
+			expect(parseDurationInput('1:xx')).toBeNull();
+			expect(parseDurationInput('-1')).toBeNull();
+		});
+	});
+
+	describe('getWeekDates', () => {
+		it('should return Monday to Sunday for the given date', () => {
+			const dates = getWeekDates(new Date(2024, 2, 6));
+
+			expect(dates).toHaveLength(7);
+			expect(dates[0]).toBe('2024-03-04');
+			expect(dates[6]).toBe('2024-03-10');
+		});
+
+		it('should keep the local week far from UTC', () => {
+			withTimeZone('Pacific/Kiritimati', () => {
+				const dates = getWeekDates(new Date(2024, 2, 6));
+
+				expect(dates[0]).toBe('2024-03-04');
+				expect(dates[6]).toBe('2024-03-10');
+			});
+		});
+	});
+
+	describe('applyDurationEdit', () => {
+		it('should update the duration and keep the original', () => {
+			const entry = createMockTimeEntry({
+				startTime: '2024-03-04T09:00:00.000Z',
+				duration: 2
+			});
+			const updates = applyDurationEdit(entry, 3);
+
+			expect(updates.duration).toBe(3);
+			expect(updates.billableHours).toBe(3);
+			expect(updates.endTime).toBe('2024-03-04T12:00:00.000Z');
+			expect(updates.isEdited).toBe(true);
+			expect(updates.originalDuration).toBe(2);
+		});
+
+		it('should keep non-billable entries at zero billable hours', () => {
+			const entry = createMockTimeEntry({ billingStatus: 'non-billable', originalDuration: 1 });
+			const updates = applyDurationEdit(entry, 4);
+
+			expect(updates.billableHours).toBe(0);
+			expect(updates.originalDuration).toBe(1);
+		});
+	});
+
+	describe('createManualTimeEntry', () => {
+		it('should build a manual entry for the given day', () => {
+			const entry = createManualTimeEntry('2024-03-05', 1.5, {
+				projectId: 'project-1',
+				taskId: 'task-1',
+				project: createMockProject(),
+				task: createMockTask({ title: 'Write docs' })
+			});
+
+			expect(entry.date).toBe('2024-03-05');
+			expect(entry.duration).toBe(1.5);
+			expect(entry.taskId).toBe('task-1');
+			expect(entry.description).toBe('Write docs');
+			expect(entry.billingRate).toBe(75);
+			expect(entry.fromTimer).toBe(false);
+		});
+	});
+
+	describe('timesheet grouping', () => {
+		const dates = ['2024-03-04', '2024-03-05'];
+		const entries = [
+			createMockTimeEntry({ id: 'a', date: '2024-03-04', duration: 2, billableHours: 2 }),
+			createMockTimeEntry({
+				id: 'b',
+				date: '2024-03-04',
+				taskId: 'task-2',
+				duration: 1,
+				billableHours: 1
+			}),
+			createMockTimeEntry({ id: 'c', date: '2024-03-05', duration: 0.5, billableHours: 0 }),
+			createMockTimeEntry({ id: 'd', date: '2024-03-11', duration: 4 })
+		];
+
+		it('should total hours and billable amounts per day', () => {
+			const days = groupEntriesByDay(entries, dates, [createMockProject()], '2024-03-05');
+
+			expect(days[0]?.totalHours).toBe(3);
+			expect(days[0]?.totalBillableAmount).toBe(150 + 75);
+			expect(days[1]?.totalBillableHours).toBe(0);
+			expect(days[1]?.hasActiveTimer).toBe(true);
+		});
+
+		it('should build one row per project/task with cells per day', () => {
+			const rows = buildTimesheetRows(entries, dates, [{ projectId: 'project-2' }]);
+
+			expect(rows.map((row) => row.key)).toEqual([
+				'project-1:task-1',
+				'project-1:task-2',
+				'project-2:'
+			]);
+			expect(rows[0]?.cells['2024-03-05']).toHaveLength(1);
+			expect(rows[0]?.totalHours).toBe(2.5);
+			expect(rows[2]?.totalHours).toBe(0);
+		});
+	});
+
+	describe('splitTimeEntry', () => {
+		const entry = createMockTimeEntry({
+			startTime: '2024-03-04T09:00:00.000Z',
+			endTime: '2024-03-04T13:00:00.000Z',
+			duration: 4
+		});
+
+		it('should split an entry into two parts', () => {
+			const { updates, newEntry } = splitTimeEntry(entry, new Date('2024-03-04T12:00:00Z'), {
+				taskId: 'task-2'
+			});
+
+			expect(updates.endTime).toBe('2024-03-04T12:00:00.000Z');
+			expect(updates.duration).toBe(3);
+			expect(updates.originalDuration).toBe(4);
+			expect(newEntry.startTime).toBe('2024-03-04T12:00:00.000Z');
+			expect(newEntry.duration).toBe(1);
+			expect(newEntry.taskId).toBe('task-2');
+			expect(newEntry.fromTimer).toBe(true);
+			expect(newEntry.originalDuration).toBe(4);
+		});
+
+		it('should date the new part by its local day', () => {
+			const lateEntry = createMockTimeEntry({
+				startTime: new Date(2024, 2, 4, 22).toISOString(),
+				endTime: new Date(2024, 2, 5, 2).toISOString(),
+				duration: 4
+			});
+			const { newEntry } = splitTimeEntry(lateEntry, new Date(2024, 2, 5));
+
+			expect(newEntry.date).toBe('2024-03-05');
+		});
+
+		it('should reject split points outside the entry', () => {
+			expect(() => splitTimeEntry(entry, new Date('2024-03-04T09:00:00Z'))).toThrow(
+				'Split time must be between the entry start and end'
+			);
+		});
+
+		it('should not split billed entries', () => {
+			expect(() =>
+				splitTimeEntry({ ...entry, billingStatus: 'billed' }, new Date('2024-03-04T10:00:00Z'))
+			).toThrow('Billed time entries cannot be changed');
+		});
+	});
+
+	describe('mergeTimeEntries', () => {
+		const first = createMockTimeEntry({
+			id: 'a',
+			startTime: '2024-03-04T09:00:00.000Z',
+			endTime: '2024-03-04T10:00:00.000Z',
+			duration: 1,
+			description: 'Morning',
+			tags: ['api']
+		});
+		const second = createMockTimeEntry({
+			id: 'b',
+			startTime: '2024-03-04T10:02:00.000Z',
+			endTime: '2024-03-04T11:00:00.000Z',
+			duration: 58 / 60,
+			description: 'Late morning',
+			tags: ['api', 'docs']
+		});
+
+		it('should merge adjacent entries into the earlier one', () => {
+			const { keepId, removeId, updates } = mergeTimeEntries(second, first);
+
+			expect(keepId).toBe('a');
+			expect(removeId).toBe('b');
+			expect(updates.startTime).toBe('2024-03-04T09:00:00.000Z');
+			expect(updates.endTime).toBe('2024-03-04T11:00:00.000Z');
+			expect(updates.duration).toBe(2);
+			expect(updates.description).toBe('Morning; Late morning');
+			expect(updates.tags).toEqual(['api', 'docs']);
+			expect(updates.originalDuration).toBeCloseTo(1 + 58 / 60);
+		});
+
+		it('should reject entries on different tasks or far apart', () => {
+			expect(() => mergeTimeEntries(first, { ...second, taskId: 'task-2' })).toThrow(
+				'Only entries on the same project and task can be merged'
+			);
+			expect(() =>
+				mergeTimeEntries(first, { ...second, startTime: '2024-03-04T10:30:00.000Z' })
+			).toThrow('Only adjacent entries can be merged');
+		});
+	});
+
+	describe('trimTimeEntry', () => {
+		const entry = createMockTimeEntry({
+			startTime: '2024-03-04T09:00:00.000Z',
+			endTime: '2024-03-04T13:00:00.000Z',
+			duration: 4
+		});
+
+		it('should trim the start or end of an entry', () => {
+			const fromStart = trimTimeEntry(
+				entry,
+				new Date('2024-03-04T08:00:00Z'),
+				new Date('2024-03-04T10:00:00Z')
+			);
+			expect(fromStart.updates.startTime).toBe('2024-03-04T10:00:00.000Z');
+			expect(fromStart.updates.duration).toBe(3);
+			expect(fromStart.newEntry).toBeUndefined();
+
+			const fromEnd = trimTimeEntry(
+				entry,
+				new Date('2024-03-04T12:30:00Z'),
+				new Date('2024-03-04T13:00:00Z')
+			);
+			expect(fromEnd.updates.endTime).toBe('2024-03-04T12:30:00.000Z');
+			expect(fromEnd.updates.duration).toBe(3.5);
+		});
+
+		it('should split the entry when trimming the middle', () => {
+			const { updates, newEntry } = trimTimeEntry(
+				entry,
+				new Date('2024-03-04T12:00:00Z'),
+				new Date('2024-03-04T12:30:00Z')
+			);
+
+			expect(updates.duration).toBe(3);
+			expect(newEntry?.startTime).toBe('2024-03-04T12:30:00.000Z');
+			expect(newEntry?.duration).toBe(0.5);
+		});
+
+		it('should reject ranges covering the whole entry', () => {
+			expect(() =>
+				trimTimeEntry(entry, new Date('2024-03-04T08:00:00Z'), new Date('2024-03-04T14:00:00Z'))
+			).toThrow('Trim range covers the whole entry; delete it instead');
+		});
+	});
+});
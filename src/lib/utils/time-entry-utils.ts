@@ -0,0 +1,459 @@
+/**
+ * Time Entry Utilities for TimeFlow Pro
+ *
+ * Helpers for turning timer sessions into time entries and for the
+ * small calculations shared by every place that creates or edits entries.
+ *
+ * @example
+ * ```typescript
+ * import { createTimeEntryFromTimer } from '$lib/utils/time-entry-utils';
+ *
+ * const entryData = createTimeEntryFromTimer(session, { project, task });
+ * projectStore.createTimeEntry(entryData);
+ * ```
+ */
+
+import type { DailyTimeEntry, Project, Task, TimeEntry } from '$lib/types/index.js';
+import { addDays, formatLocalDate, startOfWeek } from './dateUtils.js';
+import { parseTimeString } from './time-utils.js';
+import { createRateResolver, getEffectiveRate } from './billing-rate-utils.js';
+import type { CurrencyConverter } from './currency-utils.js';
+
+/**
+ * Snapshot of a finished timer session
+ */
+export interface TimerSessionSnapshot {
+	projectId: string;
+	taskId?: string;
+	description: string;
+	/** When the tracked time ended */
+	endTime: Date;
+	/** Tracked time in seconds, excluding pauses */
+	elapsedSeconds: number;
+}
+
+/**
+ * Project and task the session was tracked against, when known
+ */
+export interface TimerSessionContext {
+	project?: Project | undefined;
+	task?: Task | undefined;
+}
+
+/**
+ * Convert seconds to decimal hours
+ */
+export function secondsToHours(seconds: number): number {
+	return seconds / 3600;
+}
+
+/**
+ * Resolve the hourly rate in effect on a date for a session (task rate, then project rate)
+ */
+export function resolveSessionRate(
+	context: TimerSessionContext,
+	date: string = formatLocalDate(new Date())
+): number | undefined {
+	const { task, project } = context;
+	return (
+		(task && getEffectiveRate(task.customBillingRate, task.rateHistory, date)) ??
+		(project && getEffectiveRate(project.defaultBillingRate, project.rateHistory, date))
+	);
+}
+
+/**
+ * Determine whether time tracked against a project/task is billable
+ */
+export function isSessionBillable(context: TimerSessionContext): boolean {
+	if (context.project && !context.project.isBillable) return false;
+	if (context.task && !context.task.isBillable) return false;
+	return true;
+}
+
+/**
+ * Build time entry data from a finished timer session.
+ *
+ * The start time is derived from the end time and the tracked duration so that
+ * paused time is never counted and `duration` always equals `endTime - startTime`.
+ */
+export function createTimeEntryFromTimer(
+	session: TimerSessionSnapshot,
+	context: TimerSessionContext = {}
+): Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'> {
+	const startTime = new Date(session.endTime.getTime() - session.elapsedSeconds * 1000);
+	const duration = secondsToHours(session.elapsedSeconds);
+	const billable = isSessionBillable(context);
+	const date = formatLocalDate(startTime);
+	const billingRate = resolveSessionRate(context, date);
+
+	const entry: Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'> = {
+		projectId: session.projectId,
+		date,
+		startTime: startTime.toISOString(),
+		endTime: session.endTime.toISOString(),
+		duration,
+		description: session.description || context.task?.title || '',
+		category: 'development',
+		trackedHours: duration,
+		billableHours: billable ? duration : 0,
+		billingStatus: billable ? 'ready' : 'non-billable',
+		tags: [],
+		fromTimer: true,
+		isEdited: false
+	};
+
+	if (session.taskId) {
+		entry.taskId = session.taskId;
+	}
+
+	if (billingRate !== undefined) {
+		entry.billingRate = billingRate;
+	}
+
+	return entry;
+}
+
+/**
+ * Parse a duration typed by the user into decimal hours.
+ * Accepts `H:MM`, `H:MM:SS` and decimal hours (`1.5`); returns null when invalid.
+ */
+export function parseDurationInput(value: string): number | null {
+	const trimmed = value.trim();
+	if (!trimmed) return 0;
+
+	if (trimmed.includes(':')) {
+		const parts = trimmed.split(':');
+		if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) return null;
+		// parseTimeString treats two parts as MM:SS, timesheets mean H:MM
+		const seconds = parseTimeString(parts.length === 2 ? `${trimmed}:00` : trimmed);
+		return secondsToHours(seconds);
+	}
+
+	if (!/^\d*\.?\d+$/.test(trimmed)) return null;
+	return parseFloat(trimmed);
+}
+
+/**
+ * Get the seven YYYY-MM-DD dates of the week containing a date
+ */
+export function getWeekDates(date: Date, weekStartsOn = 1): string[] {
+	const weekStart = startOfWeek(date, weekStartsOn);
+	return Array.from({ length: 7 }, (_, index) => formatLocalDate(addDays(weekStart, index)));
+}
+
+/**
+ * Build the updates for changing an entry's duration by hand.
+ * Keeps the first known duration in `originalDuration` and moves the end time.
+ */
+export function applyDurationEdit(
+	entry: TimeEntry,
+	hours: number
+): Partial<Omit<TimeEntry, 'id' | 'createdAt'>> {
+	const endTime = new Date(new Date(entry.startTime).getTime() + hours * 3600 * 1000);
+
+	return {
+		duration: hours,
+		trackedHours: hours,
+		billableHours: entry.billingStatus === 'non-billable' ? 0 : hours,
+		endTime: endTime.toISOString(),
+		isEdited: true,
+		originalDuration: entry.originalDuration ?? entry.duration
+	};
+}
+
+/**
+ * Build data for a manual entry created from the timesheet.
+ * Manual entries start at 09:00 on the given day; the time is a placeholder,
+ * so the validator leaves manual entries out of its overlap and gap checks.
+ */
+export function createManualTimeEntry(
+	date: string,
+	hours: number,
+	context: { projectId: string; taskId?: string | undefined } & TimerSessionContext
+): Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'> {
+	const startTime = new Date(`${date}T09:00:00`);
+	const endTime = new Date(startTime.getTime() + hours * 3600 * 1000);
+	const billable = isSessionBillable(context);
+	const billingRate = resolveSessionRate(context, date);
+
+	const entry: Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'> = {
+		projectId: context.projectId,
+		date,
+		startTime: startTime.toISOString(),
+		endTime: endTime.toISOString(),
+		duration: hours,
+		description: context.task?.title || '',
+		category: 'development',
+		trackedHours: hours,
+		billableHours: billable ? hours : 0,
+		billingStatus: billable ? 'ready' : 'non-billable',
+		tags: [],
+		fromTimer: false,
+		isEdited: false
+	};
+
+	if (context.taskId) {
+		entry.taskId = context.taskId;
+	}
+
+	if (billingRate !== undefined) {
+		entry.billingRate = billingRate;
+	}
+
+	return entry;
+}
+
+/**
+ * Group time entries into one DailyTimeEntry per requested date.
+ * Billable amounts use the billing rate hierarchy (entry, task, project rates),
+ * converted into the reporting currency when a converter is given.
+ */
+export function groupEntriesByDay(
+	entries: TimeEntry[],
+	dates: string[],
+	projects: Project[] = [],
+	activeTimerDate?: string,
+	converter?: CurrencyConverter
+): DailyTimeEntry[] {
+	const resolveRate = createRateResolver({ projects }, converter);
+
+	return dates.map((date) => {
+		const dayEntries = entries.filter((entry) => entry.date === date);
+
+		return {
+			date,
+			entries: dayEntries,
+			totalHours: dayEntries.reduce((sum, entry) => sum + entry.duration, 0),
+			totalBillableHours: dayEntries.reduce((sum, entry) => sum + entry.billableHours, 0),
+			totalBillableAmount: dayEntries.reduce(
+				(sum, entry) => sum + entry.billableHours * resolveRate(entry),
+				0
+			),
+			hasActiveTimer: activeTimerDate === date
+		};
+	});
+}
+
+/**
+ * A timesheet row: all entries for one project/task pair, split by day
+ */
+export interface TimesheetRow {
+	key: string;
+	projectId: string;
+	taskId?: string;
+	cells: Record<string, TimeEntry[]>;
+	totalHours: number;
+}
+
+/**
+ * Build a timesheet key for a project/task pair
+ */
+export function getTimesheetRowKey(projectId: string, taskId?: string): string {
+	return `${projectId}:${taskId ?? ''}`;
+}
+
+/**
+ * Build timesheet rows (project/task) with one cell per date.
+ * Extra rows can be requested so empty project/task pairs can be filled in.
+ */
+export function buildTimesheetRows(
+	entries: TimeEntry[],
+	dates: string[],
+	extraRows: Array<{ projectId: string; taskId?: string | undefined }> = []
+): TimesheetRow[] {
+	const rows = new Map<string, TimesheetRow>();
+
+	const ensureRow = (projectId: string, taskId?: string): TimesheetRow => {
+		const key = getTimesheetRowKey(projectId, taskId);
+		let row = rows.get(key);
+		if (!row) {
+			row = {
+				key,
+				projectId,
+				...(taskId ? { taskId } : {}),
+				cells: Object.fromEntries(dates.map((date) => [date, [] as TimeEntry[]])),
+				totalHours: 0
+			};
+			rows.set(key, row);
+		}
+		return row;
+	};
+
+	entries
+		.filter((entry) => dates.includes(entry.date))
+		.forEach((entry) => {
+			const row = ensureRow(entry.projectId, entry.taskId);
+			row.cells[entry.date]?.push(entry);
+			row.totalHours += entry.duration;
+		});
+
+	extraRows.forEach((row) => ensureRow(row.projectId, row.taskId));
+
+	return Array.from(rows.values());
+}
+
+/**
+ * Entries on the same task at most this many minutes apart can be merged
+ */
+export const MERGE_GAP_TOLERANCE_MINUTES = 5;
+
+/**
+ * Whether an entry has been invoiced and can no longer be changed
+ */
+export function isTimeEntryLocked(entry: TimeEntry): boolean {
+	return entry.billingStatus === 'billed' || entry.billingStatus === 'paid';
+}
+
+/**
+ * Build the fields for an entry covering `start` to `end`.
+ * Edits keep the first known duration in `originalDuration`.
+ */
+function getRangeFields(entry: TimeEntry, start: Date, end: Date) {
+	const hours = secondsToHours((end.getTime() - start.getTime()) / 1000);
+
+	return {
+		startTime: start.toISOString(),
+		endTime: end.toISOString(),
+		duration: hours,
+		trackedHours: hours,
+		billableHours: entry.billingStatus === 'non-billable' ? 0 : hours,
+		isEdited: true,
+		originalDuration: entry.originalDuration ?? entry.duration
+	};
+}
+
+/**
+ * Build data for a new entry holding part of an existing entry's time
+ */
+function createEntryPart(
+	entry: TimeEntry,
+	start: Date,
+	end: Date
+): Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'> {
+	const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...entryData } = entry;
+	return { ...entryData, ...getRangeFields(entry, start, end), date: formatLocalDate(start) };
+}
+
+function assertUnlocked(entry: TimeEntry): void {
+	if (isTimeEntryLocked(entry)) {
+		throw new Error('Billed time entries cannot be changed');
+	}
+}
+
+/**
+ * Split an entry at a given instant.
+ * The entry keeps the time before `at`; the returned new entry holds the rest and
+ * can be moved to another task or given its own description.
+ */
+export function splitTimeEntry(
+	entry: TimeEntry,
+	at: Date,
+	overrides: { taskId?: string | undefined; description?: string } = {}
+): {
+	updates: Partial<Omit<TimeEntry, 'id' | 'createdAt'>>;
+	newEntry: Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'>;
+} {
+	assertUnlocked(entry);
+
+	const start = new Date(entry.startTime);
+	const end = new Date(entry.endTime);
+	if (!(at > start && at < end)) {
+		throw new Error('Split time must be between the entry start and end');
+	}
+
+	const newEntry = createEntryPart(entry, at, end);
+	if ('taskId' in overrides) {
+		delete newEntry.taskId;
+		if (overrides.taskId) newEntry.taskId = overrides.taskId;
+	}
+	if (overrides.description !== undefined) {
+		newEntry.description = overrides.description;
+	}
+
+	return { updates: getRangeFields(entry, start, at), newEntry };
+}
+
+/**
+ * Merge two adjacent (or overlapping) entries on the same project and task.
+ * The earlier entry is kept and stretched to cover both; the other should be deleted.
+ */
+export function mergeTimeEntries(
+	first: TimeEntry,
+	second: TimeEntry
+): { keepId: string; removeId: string; updates: Partial<Omit<TimeEntry, 'id' | 'createdAt'>> } {
+	assertUnlocked(first);
+	assertUnlocked(second);
+
+	if (first.projectId !== second.projectId || first.taskId !== second.taskId) {
+		throw new Error('Only entries on the same project and task can be merged');
+	}
+	if (first.billingStatus !== second.billingStatus) {
+		throw new Error('Entries with a different billing status cannot be merged');
+	}
+
+	const [earlier, later] =
+		new Date(first.startTime) <= new Date(second.startTime) ? [first, second] : [second, first];
+	const start = new Date(earlier.startTime);
+	const end = new Date(Math.max(Date.parse(earlier.endTime), Date.parse(later.endTime)));
+	const gapMinutes = (Date.parse(later.startTime) - Date.parse(earlier.endTime)) / 60000;
+
+	if (gapMinutes > MERGE_GAP_TOLERANCE_MINUTES) {
+		throw new Error('Only adjacent entries can be merged');
+	}
+
+	const descriptions = [earlier.description, later.description].filter(Boolean);
+
+	return {
+		keepId: earlier.id,
+		removeId: later.id,
+		updates: {
+			...getRangeFields(earlier, start, end),
+			description: [...new Set(descriptions)].join('; '),
+			tags: [...new Set([...earlier.tags, ...later.tags])],
+			fromTimer: earlier.fromTimer && later.fromTimer,
+			originalDuration:
+				(earlier.originalDuration ?? earlier.duration) + (later.originalDuration ?? later.duration)
+		}
+	};
+}
+
+/**
+ * Remove a time range from an entry.
+ * Trimming the start or end shortens the entry; trimming the middle splits it,
+ * returning the part after the range as a new entry.
+ */
+export function trimTimeEntry(
+	entry: TimeEntry,
+	from: Date,
+	to: Date
+): {
+	updates: Partial<Omit<TimeEntry, 'id' | 'createdAt'>>;
+	newEntry?: Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'>;
+} {
+	assertUnlocked(entry);
+
+	const start = new Date(entry.startTime);
+	const end = new Date(entry.endTime);
+
+	if (from >= to) {
+		throw new Error('Trim start must be before trim end');
+	}
+	if (from >= end || to <= start) {
+		throw new Error('Trim range does not overlap the entry');
+	}
+	if (from <= start && to >= end) {
+		throw new Error('Trim range covers the whole entry; delete it instead');
+	}
+
+	if (from <= start) {
+		return { updates: getRangeFields(entry, to, end) };
+	}
+	if (to >= end) {
+		return { updates: getRangeFields(entry, start, from) };
+	}
+
+	return {
+		updates: getRangeFields(entry, start, from),
+		newEntry: createEntryPart(entry, to, end)
+	};
+}
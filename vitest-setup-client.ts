@@ -8,12 +8,20 @@
 /// <reference types="@vitest/browser/providers/playwright" />
 
 import '@testing-library/jest-dom';
-import { expect } from 'vitest';
+import { expect, vi } from 'vitest';
 import { toHaveNoViolations } from 'jest-axe';
 
 // Extend Vitest's expect with jest-dom matchers
 expect.extend(toHaveNoViolations);
 
+// SvelteKit's $app/environment only resolves inside the Kit runtime
+vi.mock('$app/environment', () => ({
+	browser: true,
+	dev: true,
+	building: false,
+	version: 'test'
+}));
+
 // Mock browser APIs that might not be available in test environment
 Object.defineProperty(window, 'matchMedia', {
 	writable: true,
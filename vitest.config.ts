@@ -75,11 +75,12 @@ export default defineConfig({
 		restoreMocks: true,
 		mockReset: true,
 
-		// Parallel execution for faster testing
-		pool: 'threads',
+		// Parallel execution for faster testing. Forked workers pick up
+		// process.env.TZ changes, so tests can run outside UTC.
+		pool: 'forks',
 		poolOptions: {
-			threads: {
-				singleThread: false,
+			forks: {
+				singleFork: false,
 				isolate: true
 			}
 		}